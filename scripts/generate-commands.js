@@ -0,0 +1,360 @@
+#!/usr/bin/env node
+/**
+ * Generates src/language/lilypondCommands.ts from a LilyPond source checkout:
+ *
+ *   node scripts/generate-commands.js ../lilypond [output]
+ *
+ * Music, event, scheme and void functions and predefined identifiers come from `ly/*-init.ly`,
+ * markup commands from `scm/define-markup-commands.scm`. Parser keywords have no definition in
+ * the sources, so their signatures are listed below.
+ */
+const fs = require("fs");
+const path = require("path");
+
+const KEYWORDS = [
+  ["accepts", "\\accepts context", [["context", "string?"]], "Allow a context to be created inside the context being defined."],
+  ["addlyrics", "\\addlyrics lyrics", [["lyrics", "ly:music?"]], "Attach lyrics to the preceding music."],
+  ["alias", "\\alias context", [["context", "string?"]], "Let the context being defined also answer to another context's name."],
+  ["alternative", "\\alternative music", [["music", "ly:music?"]], "Alternative endings of a `\\repeat volta`."],
+  ["book", "\\book { ... }", [], "Group scores and markups into one output file."],
+  ["bookpart", "\\bookpart { ... }", [], "Part of a `\\book` that starts on a new page."],
+  ["change", "\\change context = id", [["context", "string?"], ["id", "string?"]], "Move the current voice to another staff, e.g. `\\change Staff = \"down\"`."],
+  ["chordmode", "\\chordmode music", [["music", "ly:music?"]], "Enter chords using chord notation syntax."],
+  ["chords", "\\chords music", [["music", "ly:music?"]], "Chord mode music in a new `ChordNames` context."],
+  ["consists", "\\consists engraver", [["engraver", "string?"]], "Add an engraver or performer to the context being defined."],
+  ["context", "\\context context [= id] music", [["context", "string?"], ["id", "string?", true], ["music", "ly:music?"]], "Send music to an existing context, or create it, e.g. `\\context Staff = \"up\" { ... }`. Inside `\\layout`, `\\context { ... }` changes a context definition."],
+  ["default", "\\default", [], "Use the default value of an optional function argument."],
+  ["defaultchild", "\\defaultchild context", [["context", "string?"]], "Context created when music needs a child of the context being defined."],
+  ["denies", "\\denies context", [["context", "string?"]], "Disallow a context inside the context being defined."],
+  ["description", "\\description text", [["text", "string?"]], "Description of the context being defined."],
+  ["drummode", "\\drummode music", [["music", "ly:music?"]], "Enter percussion using drum names such as `bd` and `sn`."],
+  ["drums", "\\drums music", [["music", "ly:music?"]], "Drum mode music in a new `DrumStaff`."],
+  ["etc", "\\etc", [], "Placeholder for the remaining arguments when defining a function by partial application."],
+  ["figuremode", "\\figuremode music", [["music", "ly:music?"]], "Enter figured bass, e.g. `<6 4>`."],
+  ["figures", "\\figures music", [["music", "ly:music?"]], "Figure mode music in a new `FiguredBass` context."],
+  ["header", "\\header { ... }", [], "Set title, composer, tagline and other metadata fields."],
+  ["include", "\\include file", [["file", "string?"]], "Include another LilyPond file, e.g. `\\include \"common.ily\"`."],
+  ["layout", "\\layout { ... }", [], "Configure engraving and layout options for a score."],
+  ["lyricmode", "\\lyricmode music", [["music", "ly:music?"]], "Enter lyric syllables, hyphens and extenders."],
+  ["lyrics", "\\lyrics music", [["music", "ly:music?"]], "Lyric mode music in a new `Lyrics` context."],
+  ["lyricsto", "\\lyricsto voice lyrics", [["voice", "string?"], ["lyrics", "ly:music?"]], "Align lyrics to the notes of a named voice."],
+  ["markup", "\\markup markup", [["markup", "markup?"]], "Formatted text, e.g. `\\markup \\bold \"Allegro\"`."],
+  ["markuplist", "\\markuplist markups", [["markups", "markup-list?"]], "List of markups that can break across pages."],
+  ["midi", "\\midi { ... }", [], "Configure MIDI output."],
+  ["name", "\\name context", [["context", "string?"]], "Name of the context being defined."],
+  ["new", "\\new context [= id] [with] music", [["context", "string?"], ["id", "string?", true], ["with", "ly:context-mod?", true], ["music", "ly:music?"]], "Create a new context such as `Staff`, `Voice`, `Lyrics` or `PianoStaff`."],
+  ["notemode", "\\notemode music", [["music", "ly:music?"]], "Enter notes, the default input mode."],
+  ["override", "\\override [context.]grob.property = value", [["grob", "symbol-list?"], ["value", "scheme?"]], "Set a layout object property, e.g. `\\override Staff.TimeSignature.color = #red`."],
+  ["paper", "\\paper { ... }", [], "Configure page size, margins and page layout."],
+  ["remove", "\\remove engraver", [["engraver", "string?"]], "Remove an engraver or performer from the context being defined."],
+  ["repeat", "\\repeat type count music [\\alternative { ... }]", [["type", "string?"], ["count", "index?"], ["music", "ly:music?"]], "Repeated music: `volta`, `unfold`, `percent`, `tremolo` or `segno`."],
+  ["rest", "\\rest", [], "Turn the preceding note into a rest at that pitch's position."],
+  ["revert", "\\revert [context.]grob.property", [["grob", "symbol-list?"]], "Undo an `\\override`."],
+  ["score", "\\score { ... }", [], "Top-level block for printable and playable score content."],
+  ["score-lines", "\\score-lines { ... }", [], "Score inside markup, broken into separate lines."],
+  ["sequential", "\\sequential music", [["music", "ly:music?"]], "Music played one after another, same as `{ ... }`."],
+  ["set", "\\set [context.]property = value", [["property", "symbol-list?"], ["value", "scheme?"]], "Set a context property, e.g. `\\set Staff.instrumentName = \"Violin\"`."],
+  ["simultaneous", "\\simultaneous music", [["music", "ly:music?"]], "Music played together, same as `<< ... >>`."],
+  ["tempo", "\\tempo text duration = bpm", [["text", "markup?", true], ["duration", "ly:duration?", true], ["bpm", "number?", true]], "Tempo mark, e.g. `\\tempo \"Allegro\" 4 = 120` or `\\tempo 4 = 96`."],
+  ["type", "\\type translator", [["translator", "string?"]], "Translator type of the context being defined."],
+  ["unset", "\\unset [context.]property", [["property", "symbol-list?"]], "Reset a context property set with `\\set`."],
+  ["version", "\\version version", [["version", "string?"]], "Declare the LilyPond version, e.g. `\\version \"2.24.4\"`."],
+  ["with", "\\with { ... }", [], "Context modifications for `\\new`, `\\context` or a context definition."]
+];
+
+const FUNCTION_KINDS = {
+  "define-music-function": "music-function",
+  "define-event-function": "event-function",
+  "define-scheme-function": "scheme-function",
+  "define-void-function": "void-function"
+};
+
+function main() {
+  const [sourceDir, output = path.join(__dirname, "..", "src", "language", "lilypondCommands.ts")] = process.argv.slice(2);
+  if (!sourceDir) {
+    console.error("usage: node scripts/generate-commands.js <lilypond-source-dir> [output]");
+    process.exit(1);
+  }
+
+  const version = readVersion(sourceDir);
+  // Markup commands have their own namespace: `\override` in markup is not the keyword.
+  const commands = new Map();
+  const add = (command) => {
+    const key = `${command.kind === "markup-command" ? "markup" : "music"}:${command.name}`;
+    if (!commands.has(key)) {
+      commands.set(key, command);
+    }
+  };
+
+  for (const [name, signature, parameters, documentation] of KEYWORDS) {
+    add({
+      name,
+      kind: "keyword",
+      signature,
+      parameters: parameters.map(([parameterName, type, optional]) => parameter(parameterName, parameterName, type, optional)),
+      documentation
+    });
+  }
+
+  const lyDir = path.join(sourceDir, "ly");
+  const initFiles = fs.readdirSync(lyDir).filter((file) => file.endsWith("-init.ly")).sort();
+  for (const file of initFiles) {
+    readInitFile(path.join(lyDir, file), file).forEach(add);
+  }
+  readMarkupCommands(path.join(sourceDir, "scm", "define-markup-commands.scm")).forEach(add);
+
+  const sorted = [...commands.values()].sort((a, b) => a.name.localeCompare(b.name, "en") || a.kind.localeCompare(b.kind, "en"));
+  fs.writeFileSync(output, render(sorted, version));
+  console.log(`Wrote ${sorted.length} commands for LilyPond ${version} to ${output}`);
+}
+
+function readVersion(sourceDir) {
+  const text = fs.readFileSync(path.join(sourceDir, "VERSION"), "utf8");
+  const field = (name) => text.match(new RegExp(`^${name}=(\\S+)`, "m"))?.[1];
+  return [field("MAJOR_VERSION"), field("MINOR_VERSION"), field("PATCH_LEVEL")].join(".");
+}
+
+/** Top-level `name = #(define-music-function ...)` definitions and `name = value` identifiers. */
+function readInitFile(file, fileName) {
+  const text = fs.readFileSync(file, "utf8");
+  const commands = [];
+  const definition = /^([A-Za-z][A-Za-z-]*)\s*=\s*/gm;
+  let match;
+
+  while ((match = definition.exec(text))) {
+    const name = match[1];
+    const valueStart = match.index + match[0].length;
+    if (text.startsWith("#(def", valueStart)) {
+      const { value: form, end } = readForm(text, valueStart + 1);
+      if (form[0] === "def-grace-function") {
+        // `(def-grace-function start-music stop-music "doc")` takes the grace music.
+        commands.push(functionCommand(name, "music-function", [form[0], ["music"], ["ly:music?"], ...form.slice(3)]));
+        definition.lastIndex = end;
+        continue;
+      }
+
+      const kind = FUNCTION_KINDS[form[0]];
+      if (kind) {
+        commands.push(functionCommand(name, kind, form));
+        definition.lastIndex = end;
+        continue;
+      }
+    }
+
+    const value = text.slice(valueStart, text.indexOf("\n", valueStart)).trim();
+    const shown = value.length <= 80 && balanced(value) ? `\`${value}\`\n\n` : "";
+    commands.push({ name, kind: "identifier", signature: `\\${name}`, parameters: [], documentation: `${shown}Predefined in \`ly/${fileName}\`.` });
+  }
+  return commands;
+}
+
+/** `(define-music-function (args ...) (predicates ...) "doc" body)`. */
+function functionCommand(name, kind, form) {
+  const [, names, predicates, ...rest] = form;
+  const parameters = names.map((parameterName, index) => {
+    const predicate = predicates[index];
+    // Optional arguments are written as `(predicate? default)`.
+    return Array.isArray(predicate)
+      ? parameter(parameterName, describeType(predicate[0]), predicate[0], true)
+      : parameter(parameterName, describeType(predicate), predicate);
+  });
+  return {
+    name,
+    kind,
+    signature: formatSignature(name, parameters),
+    parameters,
+    documentation: convertTexinfo(findDocString(rest))
+  };
+}
+
+/** `(define-markup-command (name layout props args ...) (predicates ...) #:key value ... "doc" body)`. */
+function readMarkupCommands(file) {
+  const text = fs.readFileSync(file, "utf8");
+  const commands = [];
+  const definition = /\(define-markup-(?:list-)?command\s/g;
+  let match;
+
+  while ((match = definition.exec(text))) {
+    const { value: form, end } = readForm(text, match.index);
+    definition.lastIndex = end;
+    const [, [name, , , ...names], predicates, ...rest] = form;
+    const parameters = names.map((parameterName, index) => parameter(parameterName, describeType(predicates[index]), predicates[index]));
+    commands.push({
+      name,
+      kind: "markup-command",
+      signature: formatSignature(name, parameters),
+      parameters,
+      documentation: convertTexinfo(findDocString(rest))
+    });
+  }
+  return commands;
+}
+
+function parameter(name, label, type, optional) {
+  return optional ? { name, label, type, optional: true } : { name, label, type };
+}
+
+function describeType(predicate) {
+  return predicate.replace(/^ly:/, "").replace(/\?$/, "");
+}
+
+function formatSignature(name, parameters) {
+  const labels = parameters.map((item) => (item.optional ? `[${item.label}]` : item.label));
+  return [`\\${name}`, ...labels].join(" ");
+}
+
+/** The doc string follows the predicates, after any `#:category` style keyword arguments. */
+function findDocString(forms) {
+  for (let index = 0; index < forms.length; index += 1) {
+    const form = forms[index];
+    if (typeof form === "string" && form.startsWith("#:")) {
+      index += 1;
+      continue;
+    }
+    if (form && typeof form === "object" && "string" in form) {
+      return form.string;
+    }
+    if (Array.isArray(form) && form[0] === "_i" && form[1] && "string" in form[1]) {
+      return form[1].string;
+    }
+    return "";
+  }
+  return "";
+}
+
+function convertTexinfo(text) {
+  const examples = [];
+  const prose = text.replace(/@(?:example|verbatim|lilypond(?:\[[^\]]*\])?)([\s\S]*?)@end (?:example|verbatim|lilypond)/g, (_match, code) => {
+    examples.push(`\`\`\`lilypond\n${dedent(unescapeTexinfo(code))}\n\`\`\``);
+    return `\n\n\u0000${examples.length - 1}\u0000\n\n`;
+  });
+
+  return unescapeTexinfo(
+    prose
+      .replace(/@(?:var|code|samp|command|file|rinternals|ruser|rlearning|ref)\{([^}]*)\}/g, "`$1`")
+      .replace(/@(?:emph|dfn)\{([^}]*)\}/g, "_$1_")
+      .replace(/@q\{([^}]*)\}/g, "\"$1\"")
+      .replace(/@tie\{\}/g, " ")
+      .replace(/@dots\{\}/g, "...")
+      .replace(/@[a-z]+\{([^}]*)\}/g, "$1")
+      .replace(/@[/:]/g, "")
+  )
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.split("\n").map((line) => line.trim()).join(" ").replace(/ {2,}/g, " ").trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .join("\n\n")
+    .replace(/\u0000(\d+)\u0000/g, (_match, index) => examples[Number(index)]);
+}
+
+function unescapeTexinfo(text) {
+  return text.replace(/@([{}@])/g, "$1");
+}
+
+function dedent(code) {
+  const lines = code.replace(/^\s*\n|\s+$/g, "").split("\n");
+  const indent = Math.min(...lines.filter((line) => line.trim()).map((line) => line.match(/^ */)[0].length));
+  return lines.map((line) => line.slice(indent)).join("\n");
+}
+
+function balanced(value) {
+  let depth = 0;
+  for (const char of value) {
+    depth += char === "{" || char === "(" ? 1 : char === "}" || char === ")" ? -1 : 0;
+  }
+  return depth === 0;
+}
+
+/**
+ * Minimal Scheme reader: lists become arrays, strings `{ string }` objects and everything else
+ * atoms. Quote prefixes are kept on the atom; comments are skipped.
+ */
+function readForm(text, start) {
+  let index = skipSpace(text, start);
+  const char = text[index];
+
+  if (char === "(") {
+    const list = [];
+    index += 1;
+    for (;;) {
+      index = skipSpace(text, index);
+      if (text[index] === ")" || index >= text.length) {
+        return { value: list, end: index + 1 };
+      }
+      if (text[index] === "." && /\s/.test(text[index + 1])) {
+        index += 1;
+        continue;
+      }
+      const item = readForm(text, index);
+      list.push(item.value);
+      index = item.end;
+    }
+  }
+
+  if (char === "\"") {
+    let value = "";
+    index += 1;
+    while (index < text.length && text[index] !== "\"") {
+      if (text[index] === "\\") {
+        index += 1;
+        value += text[index] === "n" ? "\n" : text[index];
+      } else {
+        value += text[index];
+      }
+      index += 1;
+    }
+    return { value: { string: value }, end: index + 1 };
+  }
+
+  if (char === "'" || char === "`" || char === ",") {
+    const item = readForm(text, index + 1);
+    return { value: Array.isArray(item.value) ? item.value : `${char}${item.value}`, end: item.end };
+  }
+
+  // Character literals such as `#\(` may be a bracket themselves.
+  const atom = text.slice(index).match(/^#\\.[^\s()"]*|^[^\s()"]+/)[0];
+  return { value: atom, end: index + atom.length };
+}
+
+function skipSpace(text, index) {
+  for (;;) {
+    while (index < text.length && /\s/.test(text[index])) {
+      index += 1;
+    }
+    if (text[index] !== ";") {
+      return index;
+    }
+    index = text.indexOf("\n", index);
+    if (index < 0) {
+      return text.length;
+    }
+  }
+}
+
+function render(commands, version) {
+  const lines = [
+    "// Generated by scripts/generate-commands.js from the LilyPond sources. Do not edit by hand.",
+    "import type { LilypondCommand } from \"./lilypondData\";",
+    "",
+    `export const LILYPOND_COMMANDS_VERSION = ${JSON.stringify(version)};`,
+    "",
+    "export const LILYPOND_COMMANDS: LilypondCommand[] = ["
+  ];
+  commands.forEach((command, index) => {
+    const separator = index < commands.length - 1 ? "," : "";
+    const parameters = command.parameters.map((item) => {
+      const optional = item.optional ? ", optional: true" : "";
+      return `{ name: ${JSON.stringify(item.name)}, label: ${JSON.stringify(item.label)}, type: ${JSON.stringify(item.type)}${optional} }`;
+    });
+    lines.push("  {");
+    lines.push(`    name: ${JSON.stringify(command.name)},`);
+    lines.push(`    kind: ${JSON.stringify(command.kind)},`);
+    lines.push(`    signature: ${JSON.stringify(command.signature)},`);
+    lines.push(parameters.length > 0 ? `    parameters: [\n      ${parameters.join(",\n      ")}\n    ],` : "    parameters: [],");
+    lines.push(`    documentation: ${JSON.stringify(command.documentation)}`);
+    lines.push(`  }${separator}`);
+  });
+  lines.push("];", "");
+  return lines.join("\n");
+}
+
+main();
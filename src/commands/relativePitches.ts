@@ -0,0 +1,65 @@
+import * as vscode from "vscode";
+import { getPitchCollectOptions } from "../language/noteLanguage";
+import type { PitchCollectOptions } from "../sync/musicPitches";
+import { convertAbsoluteToRelative, convertRelativeToAbsolute, type OffsetRange } from "../sync/relativePitches";
+
+type OctaveConversion = (content: string, range?: OffsetRange, options?: PitchCollectOptions) => string;
+
+export function registerRelativePitchCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    registerConversion(
+      context,
+      "lilypond.pitches.relativeToAbsolute",
+      convertRelativeToAbsolute,
+      "No \\relative music to convert."
+    ),
+    registerConversion(
+      context,
+      "lilypond.pitches.absoluteToRelative",
+      convertAbsoluteToRelative,
+      "No absolute music to convert."
+    )
+  );
+}
+
+/** Converts the blocks touched by the selection, or the whole document when nothing is selected. */
+function registerConversion(
+  context: vscode.ExtensionContext,
+  command: string,
+  convert: OctaveConversion,
+  emptyMessage: string
+): vscode.Disposable {
+  return vscode.commands.registerCommand(command, async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isLilyPondDocument(editor.document)) {
+      void vscode.window.showInformationMessage("Open a LilyPond file to convert octave notation.");
+      return;
+    }
+
+    const document = editor.document;
+    const content = document.getText();
+    const range = editor.selection.isEmpty
+      ? undefined
+      : { start: document.offsetAt(editor.selection.start), end: document.offsetAt(editor.selection.end) };
+    const converted = convert(content, range, await getPitchCollectOptions(context, document));
+    if (converted === content) {
+      void vscode.window.showInformationMessage(emptyMessage);
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(content.length)), converted);
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      void vscode.window.showErrorMessage("Failed to apply octave conversion edit.");
+    }
+  });
+}
+
+function isLilyPondDocument(document: vscode.TextDocument): boolean {
+  if (document.languageId === "lilypond") {
+    return true;
+  }
+
+  return /\.(ly|ily|lyi)$/i.test(document.fileName);
+}
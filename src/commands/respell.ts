@@ -0,0 +1,83 @@
+import * as vscode from "vscode";
+import { getPitchCollectOptions } from "../language/noteLanguage";
+import { respellPitches, type RespellMode } from "../sync/respell";
+
+export function registerRespellCommand(context: vscode.ExtensionContext): void {
+  const command = vscode.commands.registerCommand("lilypond.respell", async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isLilyPondDocument(editor.document)) {
+      void vscode.window.showInformationMessage("Open a LilyPond file to respell notes.");
+      return;
+    }
+
+    const mode = await pickMode(!editor.selection.isEmpty);
+    if (!mode) {
+      return;
+    }
+
+    const document = editor.document;
+    const range = editor.selection.isEmpty
+      ? undefined
+      : { start: document.offsetAt(editor.selection.start), end: document.offsetAt(editor.selection.end) };
+    const options = await getPitchCollectOptions(context, document);
+    const replacements = respellPitches(document.getText(), mode, range, options);
+    if (replacements.length === 0) {
+      void vscode.window.showInformationMessage("No notes to respell.");
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const replacement of replacements) {
+      const replaced = new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end));
+      edit.replace(document.uri, replaced, replacement.newText);
+    }
+
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      void vscode.window.showErrorMessage("Failed to apply respelling edit.");
+    }
+  });
+
+  context.subscriptions.push(command);
+}
+
+async function pickMode(hasSelection: boolean): Promise<RespellMode | undefined> {
+  const scope = hasSelection ? "selected notes" : "all notes";
+  const picked = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Follow Key Signature",
+        description: `Spell ${scope} as in the \\key in effect (ges -> fis in D major)`,
+        mode: "key" as const
+      },
+      {
+        label: "Prefer Sharps",
+        description: `Respell ${scope} with the fewest accidentals, using sharps (bes -> ais)`,
+        mode: "sharps" as const
+      },
+      {
+        label: "Prefer Flats",
+        description: `Respell ${scope} with the fewest accidentals, using flats (ais -> bes)`,
+        mode: "flats" as const
+      },
+      {
+        label: "Remove Double Accidentals",
+        description: `Respell double sharps and flats in ${scope} (cisis -> d)`,
+        mode: "doubles" as const
+      }
+    ],
+    {
+      placeHolder: "Choose how to respell"
+    }
+  );
+
+  return picked?.mode;
+}
+
+function isLilyPondDocument(document: vscode.TextDocument): boolean {
+  if (document.languageId === "lilypond") {
+    return true;
+  }
+
+  return /\.(ly|ily|lyi)$/i.test(document.fileName);
+}
@@ -0,0 +1,155 @@
+import * as vscode from "vscode";
+import { getPitchCollectOptions } from "../language/noteLanguage";
+import type { PitchCollectOptions, TextReplacement } from "../sync/musicPitches";
+import {
+  applyDurationPattern,
+  makeDurationsExplicit,
+  parseDuration,
+  removeRedundantDurations,
+  scaleDurations,
+  type OffsetRange
+} from "../sync/rhythm";
+
+type RhythmOperation = "double" | "halve" | "explicit" | "implicit" | "pattern";
+
+export function registerRhythmCommand(context: vscode.ExtensionContext): void {
+  const command = vscode.commands.registerCommand("lilypond.rhythm", async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isLilyPondDocument(editor.document)) {
+      void vscode.window.showInformationMessage("Open a LilyPond file to edit rhythms.");
+      return;
+    }
+
+    const operation = await pickOperation(!editor.selection.isEmpty);
+    if (!operation) {
+      return;
+    }
+
+    const document = editor.document;
+    const range = editor.selection.isEmpty
+      ? undefined
+      : { start: document.offsetAt(editor.selection.start), end: document.offsetAt(editor.selection.end) };
+
+    let pattern: string | undefined;
+    if (operation === "pattern") {
+      if (!range) {
+        void vscode.window.showInformationMessage("Select the notes to apply a duration pattern to.");
+        return;
+      }
+
+      pattern = await askPattern();
+      if (!pattern) {
+        return;
+      }
+    }
+
+    const options = await getPitchCollectOptions(context, document);
+    const replacements = computeRhythmEdits(document.getText(), operation, range, options, pattern);
+    if (!replacements) {
+      void vscode.window.showErrorMessage("Durations would go beyond \\maxima or 256th notes.");
+      return;
+    }
+
+    if (replacements.length === 0) {
+      void vscode.window.showInformationMessage("No durations to change.");
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const replacement of replacements) {
+      const replaced = new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end));
+      edit.replace(document.uri, replaced, replacement.newText);
+    }
+
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      void vscode.window.showErrorMessage("Failed to apply rhythm edit.");
+    }
+  });
+
+  context.subscriptions.push(command);
+}
+
+function computeRhythmEdits(
+  content: string,
+  operation: RhythmOperation,
+  range: OffsetRange | undefined,
+  options: PitchCollectOptions,
+  pattern = ""
+): TextReplacement[] | undefined {
+  switch (operation) {
+    case "double":
+      return scaleDurations(content, 1, range, options);
+    case "halve":
+      return scaleDurations(content, -1, range, options);
+    case "explicit":
+      return makeDurationsExplicit(content, range, options);
+    case "implicit":
+      return removeRedundantDurations(content, range, options);
+    case "pattern":
+      return applyDurationPattern(content, pattern, range, options);
+  }
+}
+
+async function pickOperation(hasSelection: boolean): Promise<RhythmOperation | undefined> {
+  const scope = hasSelection ? "in the selection" : "in the document";
+  const picked = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Double Durations",
+        description: `c4 -> c2 ${scope}`,
+        operation: "double" as const
+      },
+      {
+        label: "Halve Durations",
+        description: `c4 -> c8 ${scope}`,
+        operation: "halve" as const
+      },
+      {
+        label: "Make Durations Explicit",
+        description: `Write the duration of every note ${scope}`,
+        operation: "explicit" as const
+      },
+      {
+        label: "Remove Redundant Durations",
+        description: `Drop repeated durations ${scope}`,
+        operation: "implicit" as const
+      },
+      {
+        label: "Apply Duration Pattern",
+        description: "Repeat a pattern such as 8. 16 over the selected notes",
+        operation: "pattern" as const
+      }
+    ],
+    {
+      placeHolder: "Choose rhythm operation"
+    }
+  );
+
+  return picked?.operation;
+}
+
+async function askPattern(): Promise<string | undefined> {
+  const value = await vscode.window.showInputBox({
+    title: "Duration pattern",
+    prompt: "Durations separated by spaces, repeated over the selected notes",
+    placeHolder: "8. 16",
+    validateInput(input) {
+      const parts = input.split(/\s+/).filter(Boolean);
+      if (parts.length === 0 || parts.some((part) => !parseDuration(part))) {
+        return "Use LilyPond durations, e.g. 4 8 8, 8. 16 or 2*2/3";
+      }
+      return undefined;
+    }
+  });
+
+  return value?.trim() || undefined;
+}
+
+function isLilyPondDocument(document: vscode.TextDocument): boolean {
+  if (document.languageId === "lilypond") {
+    return true;
+  }
+
+  return /\.(ly|ily|lyi)$/i.test(document.fileName);
+}
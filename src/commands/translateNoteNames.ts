@@ -0,0 +1,57 @@
+import * as vscode from "vscode";
+import { getPitchCollectOptions } from "../language/noteLanguage";
+import { translateNoteNames } from "../sync/noteTranslation";
+import { getNoteLanguageNames, isNoteLanguage } from "../sync/pitch";
+import { findPitchLanguage } from "../sync/transposition";
+
+export function registerTranslateNoteNamesCommand(context: vscode.ExtensionContext): void {
+  const command = vscode.commands.registerCommand("lilypond.pitches.translateNoteNames", async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isLilyPondDocument(editor.document)) {
+      void vscode.window.showInformationMessage("Open a LilyPond file to translate note names.");
+      return;
+    }
+
+    const document = editor.document;
+    const content = document.getText();
+    const options = await getPitchCollectOptions(context, document);
+    const current = findPitchLanguage(content, undefined, options);
+    if (!isNoteLanguage(current)) {
+      void vscode.window.showInformationMessage(`Note names in "${current}" are not supported yet.`);
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      getNoteLanguageNames()
+        .filter((language) => language !== current)
+        .map((language) => ({ label: language })),
+      { placeHolder: `Note names are in ${current}. Choose the language to translate them to.` }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const translated = translateNoteNames(content, picked.label, options);
+    if (translated === content) {
+      void vscode.window.showInformationMessage("No note names to translate.");
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(content.length)), translated);
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      void vscode.window.showErrorMessage("Failed to apply note name translation.");
+    }
+  });
+
+  context.subscriptions.push(command);
+}
+
+function isLilyPondDocument(document: vscode.TextDocument): boolean {
+  if (document.languageId === "lilypond") {
+    return true;
+  }
+
+  return /\.(ly|ily|lyi)$/i.test(document.fileName);
+}
@@ -1,9 +1,25 @@
 import * as vscode from "vscode";
-import { transposeWholeDocument, wrapTranspose } from "../sync/transposition";
+import { getPitchCollectOptions } from "../language/noteLanguage";
+import type { PitchCollectOptions } from "../sync/musicPitches";
+import { formatPitch, isNoteLanguage, parsePitch, type Pitch } from "../sync/pitch";
+import {
+  TRANSPOSING_INSTRUMENTS,
+  convertInstrumentPitch,
+  findPitchLanguage,
+  transposePitches,
+  transposeWholeDocument,
+  wrapTranspose,
+  type InstrumentDirection,
+  type TransposingInstrument
+} from "../sync/transposition";
 
-const PITCH_EXAMPLES = ["c", "d", "e", "f", "g", "a", "b", "cis", "bes"];
+/** Example pitches, written in the document's note name language when shown. */
+const PITCH_EXAMPLES = ["c", "d", "e", "f", "g", "a", "b", "cis", "bes"]
+  .map((name) => parsePitch(name))
+  .filter((pitch): pitch is Pitch => Boolean(pitch));
 
 type TransposeMode = "selection" | "document";
+type TransposeMethod = "rewrite" | "wrap" | "instrument";
 
 export function registerTransposeCommand(context: vscode.ExtensionContext): void {
   const command = vscode.commands.registerCommand("lilypond.transpose", async () => {
@@ -24,25 +40,57 @@ export function registerTransposeCommand(context: vscode.ExtensionContext): void
       return;
     }
 
-    const fromPitch = await askPitch("Source pitch", "c");
+    const method = await pickMethod();
+    if (!method) {
+      return;
+    }
+
+    const range =
+      mode === "selection"
+        ? { start: document.offsetAt(editor.selection.start), end: document.offsetAt(editor.selection.end) }
+        : undefined;
+    const options = await getPitchCollectOptions(context, document);
+    const language = findPitchLanguage(document.getText(), range, options);
+    if (!isNoteLanguage(language)) {
+      void vscode.window.showInformationMessage(`Note names in "${language}" are not supported yet.`);
+      return;
+    }
+
+    if (mode === "selection" && !document.getText(editor.selection).trim()) {
+      void vscode.window.showInformationMessage("Select a music fragment before using selection transpose.");
+      return;
+    }
+
+    if (method === "instrument") {
+      await convertForInstrument(document, range, options);
+      return;
+    }
+
+    const fromPitch = await askPitch("Source pitch", PITCH_EXAMPLES[0], language);
     if (!fromPitch) {
       return;
     }
 
-    const toPitch = await askPitch("Target pitch", "d");
+    const toPitch = await askPitch("Target pitch", PITCH_EXAMPLES[1], language);
     if (!toPitch) {
       return;
     }
 
     const edit = new vscode.WorkspaceEdit();
-    if (mode === "selection") {
-      const selection = editor.selection;
-      const selected = document.getText(selection);
-      if (!selected.trim()) {
-        void vscode.window.showInformationMessage("Select a music fragment before using selection transpose.");
+    if (method === "rewrite") {
+      const replacements = transposePitches(document.getText(), fromPitch, toPitch, range, options) ?? [];
+      if (replacements.length === 0) {
+        void vscode.window.showInformationMessage("No pitches to transpose.");
         return;
       }
-      const wrapped = wrapTranspose(selected, fromPitch, toPitch);
+
+      for (const replacement of replacements) {
+        const replaced = new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end));
+        edit.replace(document.uri, replaced, replacement.newText);
+      }
+    } else if (mode === "selection") {
+      const selection = editor.selection;
+      const wrapped = wrapTranspose(document.getText(selection), fromPitch, toPitch);
       edit.replace(document.uri, selection, wrapped);
     } else {
       const fullRange = fullDocumentRange(document);
@@ -64,6 +112,44 @@ export function registerTransposeCommand(context: vscode.ExtensionContext): void
   context.subscriptions.push(command);
 }
 
+async function convertForInstrument(
+  document: vscode.TextDocument,
+  range: { start: number; end: number } | undefined,
+  options: PitchCollectOptions
+): Promise<void> {
+  const instrument = await pickInstrument();
+  if (!instrument) {
+    return;
+  }
+
+  const direction = await pickDirection(instrument);
+  if (!direction) {
+    return;
+  }
+
+  const replacements = convertInstrumentPitch(document.getText(), instrument, direction, range, options);
+  if (replacements.length === 0) {
+    void vscode.window.showInformationMessage("No pitches to transpose.");
+    return;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  for (const replacement of replacements) {
+    const replaced = new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end));
+    edit.replace(document.uri, replaced, replacement.newText);
+  }
+
+  const applied = await vscode.workspace.applyEdit(edit);
+  if (!applied) {
+    void vscode.window.showErrorMessage("Failed to apply transposition edit.");
+    return;
+  }
+
+  void vscode.window.showInformationMessage(
+    `Converted to ${direction === "written" ? "written" : "concert"} pitch for ${instrument.label}.`
+  );
+}
+
 function fullDocumentRange(document: vscode.TextDocument): vscode.Range {
   const endLine = Math.max(0, document.lineCount - 1);
   const endChar = document.lineAt(endLine).text.length;
@@ -77,12 +163,12 @@ async function pickMode(editor: vscode.TextEditor): Promise<TransposeMode | unde
     [
       {
         label: hasSelection ? "Selection (Recommended)" : "Selection",
-        description: "Wrap selected music in \\transpose",
+        description: "Transpose the selected music",
         mode: "selection" as const
       },
       {
         label: "Whole Document",
-        description: "Keep \\version/\\include prelude and transpose remaining body",
+        description: "Transpose all music in the document",
         mode: "document" as const
       }
     ],
@@ -94,15 +180,81 @@ async function pickMode(editor: vscode.TextEditor): Promise<TransposeMode | unde
   return picked?.mode;
 }
 
-async function askPitch(title: string, example: string): Promise<string | undefined> {
+async function pickMethod(): Promise<TransposeMethod | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Rewrite Pitches (Recommended)",
+        description: "Change note names, key signatures and relative start pitches in place",
+        method: "rewrite" as const
+      },
+      {
+        label: "Wrap in \\transpose",
+        description: "Keep the source and wrap it in a \\transpose block",
+        method: "wrap" as const
+      },
+      {
+        label: "Transposing Instrument",
+        description: "Convert between concert and written pitch and set \\transposition",
+        method: "instrument" as const
+      }
+    ],
+    {
+      placeHolder: "Choose how to transpose"
+    }
+  );
+
+  return picked?.method;
+}
+
+async function pickInstrument(): Promise<TransposingInstrument | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    TRANSPOSING_INSTRUMENTS.map((instrument) => ({
+      label: instrument.label,
+      description: `\\transposition ${instrument.transposition}`,
+      instrument
+    })),
+    {
+      placeHolder: "Choose the transposing instrument"
+    }
+  );
+
+  return picked?.instrument;
+}
+
+async function pickDirection(instrument: TransposingInstrument): Promise<InstrumentDirection | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Concert to Written Pitch",
+        description: `Write the part for ${instrument.label} and set \\transposition`,
+        direction: "written" as const
+      },
+      {
+        label: "Written to Concert Pitch",
+        description: "Rewrite the part at concert pitch and remove \\transposition",
+        direction: "concert" as const
+      }
+    ],
+    {
+      placeHolder: "Choose the conversion"
+    }
+  );
+
+  return picked?.direction;
+}
+
+/** Pitches are typed in the document's note name language, e.g. `fs` after `\language "english"`. */
+async function askPitch(title: string, example: Pitch, language: string): Promise<string | undefined> {
+  const examples = PITCH_EXAMPLES.map((pitch) => formatPitch(pitch, language)).filter(Boolean);
   const value = await vscode.window.showInputBox({
     title,
-    prompt: `Enter LilyPond pitch token (examples: ${PITCH_EXAMPLES.join(", ")})`,
-    placeHolder: example,
-    value: example,
+    prompt: `Enter LilyPond pitch token in ${language} (examples: ${examples.join(", ")})`,
+    placeHolder: formatPitch(example, language),
+    value: formatPitch(example, language),
     validateInput(input) {
-      if (!/^[a-g](?:is|es|isis|eses)?[,']*$/.test(input.trim())) {
-        return "Use LilyPond pitch token, e.g. c, fis, bes, c', g,,";
+      if (!parsePitch(input, language)) {
+        return `Use a LilyPond pitch in ${language}, e.g. ${examples.slice(0, 3).join(", ")} with ' or , for octaves`;
       }
       return undefined;
     }
@@ -0,0 +1,47 @@
+import * as path from "path";
+import * as vscode from "vscode";
+
+/** Single root slot used before roots were remembered per file; migrated on activation. */
+export const LEGACY_ROOT_FILE_STATE_KEY = "lilypond.preview.rootFilePath";
+export const ROOT_FILES_STATE_KEY = "lilypond.preview.rootFiles";
+
+/** The root remembered for `filePath`, either set explicitly or picked when several files include it. */
+export function getRootFilePath(context: vscode.ExtensionContext, filePath: string): string | undefined {
+  return getRootFileMap(context)[path.resolve(filePath)];
+}
+
+export async function rememberRootFile(
+  context: vscode.ExtensionContext,
+  filePaths: string[],
+  rootFilePath: string | undefined
+): Promise<void> {
+  const roots = { ...getRootFileMap(context) };
+  for (const filePath of filePaths) {
+    if (rootFilePath) {
+      roots[path.resolve(filePath)] = path.resolve(rootFilePath);
+    } else {
+      delete roots[path.resolve(filePath)];
+    }
+  }
+  await context.workspaceState.update(ROOT_FILES_STATE_KEY, roots);
+}
+
+/** Forgets every file remembered under `rootFilePath`, including the root itself. */
+export async function forgetRootFile(context: vscode.ExtensionContext, rootFilePath: string): Promise<void> {
+  const root = path.resolve(rootFilePath);
+  const roots = Object.fromEntries(Object.entries(getRootFileMap(context)).filter(([, value]) => value !== root));
+  await context.workspaceState.update(ROOT_FILES_STATE_KEY, roots);
+}
+
+/** Takes the root from the legacy single slot, so callers can remember it for its include graph. */
+export async function takeLegacyRootFile(context: vscode.ExtensionContext): Promise<string | undefined> {
+  const legacy = context.workspaceState.get<string>(LEGACY_ROOT_FILE_STATE_KEY);
+  if (legacy) {
+    await context.workspaceState.update(LEGACY_ROOT_FILE_STATE_KEY, undefined);
+  }
+  return legacy;
+}
+
+function getRootFileMap(context: vscode.ExtensionContext): Record<string, string> {
+  return context.workspaceState.get<Record<string, string>>(ROOT_FILES_STATE_KEY) ?? {};
+}
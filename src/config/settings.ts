@@ -1,4 +1,6 @@
+import * as path from "path";
 import * as vscode from "vscode";
+import { expandIncludeDirectories } from "../sync/includeGraph";
 
 export const DEFAULT_RENDER_DELAY_MS = 600;
 export const DEFAULT_MIN_INTERVAL_MS = 1200;
@@ -62,3 +64,26 @@ export function getLilypondBinaryPath(): string {
   const config = vscode.workspace.getConfiguration("lilypond.preview");
   return config.get<string>("lilypondPath")?.trim() || "lilypond";
 }
+
+export function getBarCheckDiagnosticsEnabled(): boolean {
+  const config = vscode.workspace.getConfiguration("lilypond.diagnostics");
+  return config.get<boolean>("barChecks", true);
+}
+
+/** `undefined` when unset, so the editor's tab size applies. */
+export function getFormatIndentWidth(resource?: vscode.Uri): number | undefined {
+  const configured = vscode.workspace.getConfiguration("lilypond.format", resource).get<number | null>("indentWidth", null);
+  return typeof configured === "number" && Number.isFinite(configured) ? Math.max(0, Math.floor(configured)) : undefined;
+}
+
+export function getFormatOneMeasurePerLine(resource?: vscode.Uri): boolean {
+  return vscode.workspace.getConfiguration("lilypond.format", resource).get<boolean>("oneMeasurePerLine", false);
+}
+
+export function getIncludeDirectories(resource?: vscode.Uri): string[] {
+  const config = vscode.workspace.getConfiguration("lilypond", resource);
+  const entries = config.get<string[]>("includePaths", []);
+  const folder = (resource && vscode.workspace.getWorkspaceFolder(resource)) ?? vscode.workspace.workspaceFolders?.[0];
+  const baseDir = folder?.uri.fsPath ?? (resource ? path.dirname(resource.fsPath) : process.cwd());
+  return expandIncludeDirectories(Array.isArray(entries) ? entries : [], baseDir);
+}
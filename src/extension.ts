@@ -1,8 +1,21 @@
 import * as vscode from "vscode";
+import { registerRelativePitchCommands } from "./commands/relativePitches";
+import { registerRespellCommand } from "./commands/respell";
+import { registerRhythmCommand } from "./commands/rhythm";
+import { registerTranslateNoteNamesCommand } from "./commands/translateNoteNames";
 import { registerTransposeCommand } from "./commands/transpose";
 import { initLogger, log } from "./log/logger";
+import { registerFormattingProviders } from "./language/formatting";
+import { registerIncludeIndex } from "./language/includeIndex";
+import { registerIncludeLinks } from "./language/includeLinks";
+import { registerIncludeRenameParticipant } from "./language/includeRename";
+import { registerIncludeScope } from "./language/includeScope";
+import { registerIncludeTreeView } from "./language/includeTreeView";
+import { registerMeasureDiagnostics } from "./language/measureDiagnostics";
+import { registerMeasureNavigation } from "./language/measureNavigation";
 import { registerLanguageProviders } from "./language/providers";
 import { registerStructureFeatures } from "./language/structure";
+import { registerVariableNavigation } from "./language/variables";
 import { registerArtifactsView } from "./output/ArtifactsViewProvider";
 import { PreviewController, type PreviewDebugState } from "./preview/PreviewController";
 
@@ -20,8 +33,21 @@ export async function activate(context: vscode.ExtensionContext): Promise<Lilypo
 
   registerLanguageProviders(context);
   registerStructureFeatures(context);
+  registerFormattingProviders(context);
+  registerVariableNavigation(context);
+  registerIncludeIndex(context);
+  registerIncludeScope(context);
+  registerIncludeLinks(context);
+  registerIncludeRenameParticipant(context);
+  registerMeasureDiagnostics(context);
+  registerMeasureNavigation(context);
   registerTransposeCommand(context);
+  registerRelativePitchCommands(context);
+  registerTranslateNoteNamesCommand(context);
+  registerRhythmCommand(context);
+  registerRespellCommand(context);
   registerArtifactsView(context);
+  registerIncludeTreeView(context);
 
   controller = new PreviewController(context);
   await controller.initialize();
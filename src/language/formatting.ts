@@ -0,0 +1,45 @@
+import * as vscode from "vscode";
+import { getFormatIndentWidth, getFormatOneMeasurePerLine } from "../config/settings";
+import { formatLilypond, type LineRange } from "../sync/formatter";
+
+function getSelector(): vscode.DocumentSelector {
+  return [
+    { language: "lilypond" },
+    { pattern: "**/*.ly" },
+    { pattern: "**/*.ily" },
+    { pattern: "**/*.lyi" }
+  ];
+}
+
+export function registerFormattingProviders(context: vscode.ExtensionContext): void {
+  const documentFormatter = vscode.languages.registerDocumentFormattingEditProvider(getSelector(), {
+    provideDocumentFormattingEdits(document, options) {
+      return format(document, options);
+    }
+  });
+
+  const rangeFormatter = vscode.languages.registerDocumentRangeFormattingEditProvider(getSelector(), {
+    provideDocumentRangeFormattingEdits(document, range, options) {
+      return format(document, options, { startLine: range.start.line, endLine: range.end.line });
+    }
+  });
+
+  context.subscriptions.push(documentFormatter, rangeFormatter);
+}
+
+/** The indent width setting wins over the editor's tab size; tabs follow the editor. */
+function format(document: vscode.TextDocument, options: vscode.FormattingOptions, range?: LineRange): vscode.TextEdit[] {
+  const edits = formatLilypond(
+    document.getText(),
+    {
+      indentWidth: getFormatIndentWidth(document.uri) ?? options.tabSize,
+      useTabs: !options.insertSpaces,
+      oneMeasurePerLine: getFormatOneMeasurePerLine(document.uri)
+    },
+    range
+  );
+
+  return edits.map(
+    (edit) => new vscode.TextEdit(new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)), edit.newText)
+  );
+}
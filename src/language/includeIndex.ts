@@ -0,0 +1,119 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+import { getRootFilePath, rememberRootFile } from "../config/rootFile";
+import { getIncludeDirectories } from "../config/settings";
+import { buildReverseIncludeIndex, findIncludingRoots, type ReverseIncludeIndex } from "../sync/includeGraph";
+
+let workspaceIndex: Promise<ReverseIncludeIndex> | undefined;
+/** Files whose root pick was dismissed in this session. */
+const dismissedRootPicks = new Set<string>();
+
+/** Drops the workspace include index whenever a LilyPond file or the include paths change. */
+export function registerIncludeIndex(context: vscode.ExtensionContext): void {
+  const invalidate = (): void => {
+    workspaceIndex = undefined;
+  };
+
+  const watcher = vscode.workspace.createFileSystemWatcher("**/*.{ly,ily,lyi}");
+  watcher.onDidChange(invalidate);
+  watcher.onDidCreate(invalidate);
+  watcher.onDidDelete(invalidate);
+
+  const onConfigChange = vscode.workspace.onDidChangeConfiguration((event) => {
+    if (event.affectsConfiguration("lilypond.includePaths")) {
+      invalidate();
+    }
+  });
+
+  context.subscriptions.push(watcher, onConfigChange);
+}
+
+/**
+ * Roots whose include graph contains the document: the remembered root, otherwise every `.ly`
+ * file that includes it. `.ly` files without a remembered root are their own root.
+ */
+export async function findRootFiles(context: vscode.ExtensionContext, document: vscode.TextDocument): Promise<string[]> {
+  const remembered = getRootFilePath(context, document.fileName);
+  if (remembered) {
+    return [remembered];
+  }
+
+  if (isScoreFile(document.fileName)) {
+    return [];
+  }
+
+  return findIncludingRoots(await getWorkspaceIncludeIndex(), document.fileName);
+}
+
+/**
+ * Root to render for the document. When several scores include it the user picks one, but only
+ * when `prompt` is set, as for explicit commands. The choice is remembered for that file; a
+ * dismissed pick is remembered for the session, and the document then renders on its own.
+ */
+export async function pickRootFile(
+  context: vscode.ExtensionContext,
+  document: vscode.TextDocument,
+  prompt: boolean
+): Promise<string | undefined> {
+  const candidates = await findRootFiles(context, document);
+  if (candidates.length <= 1) {
+    return candidates[0];
+  }
+
+  const filePath = path.resolve(document.fileName);
+  if (!prompt || dismissedRootPicks.has(filePath)) {
+    return undefined;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    candidates.map((filePath) => ({
+      label: path.basename(filePath),
+      description: vscode.workspace.asRelativePath(filePath),
+      filePath
+    })),
+    { placeHolder: `Several files include ${path.basename(document.fileName)}. Choose the root file to render.` }
+  );
+
+  if (!picked) {
+    dismissedRootPicks.add(filePath);
+    return undefined;
+  }
+
+  await rememberRootFile(context, [document.fileName], picked.filePath);
+  return picked.filePath;
+}
+
+async function getWorkspaceIncludeIndex(): Promise<ReverseIncludeIndex> {
+  workspaceIndex = workspaceIndex ?? loadWorkspaceIncludeIndex();
+  return workspaceIndex;
+}
+
+/** Reads every LilyPond file in the workspace; open editors contribute their unsaved text. */
+export async function loadWorkspaceSources(): Promise<Array<{ filePath: string; content: string }>> {
+  const uris = await vscode.workspace.findFiles("**/*.{ly,ily,lyi}", "**/node_modules/**");
+  const sources = await Promise.all(
+    uris.map(async (uri) => {
+      const open = vscode.workspace.textDocuments.find((document) => document.uri.toString() === uri.toString());
+      if (open) {
+        return { filePath: uri.fsPath, content: open.getText() };
+      }
+
+      try {
+        return { filePath: uri.fsPath, content: await fs.readFile(uri.fsPath, "utf8") };
+      } catch {
+        return undefined;
+      }
+    })
+  );
+
+  return sources.filter((source): source is { filePath: string; content: string } => Boolean(source));
+}
+
+async function loadWorkspaceIncludeIndex(): Promise<ReverseIncludeIndex> {
+  return buildReverseIncludeIndex(await loadWorkspaceSources(), { includeDirs: getIncludeDirectories() });
+}
+
+function isScoreFile(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === ".ly";
+}
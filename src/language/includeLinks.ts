@@ -0,0 +1,72 @@
+import * as vscode from "vscode";
+import { getParseTree } from "../parser/documentCache";
+import { findIncludeStatements, resolveInclude, type IncludeStatement } from "../sync/includeGraph";
+import { getIncludeSearchOptions } from "./includeScope";
+
+function getSelector(): vscode.DocumentSelector {
+  return [
+    { language: "lilypond" },
+    { pattern: "**/*.ly" },
+    { pattern: "**/*.ily" },
+    { pattern: "**/*.lyi" }
+  ];
+}
+
+export function registerIncludeLinks(context: vscode.ExtensionContext): void {
+  const linkProvider = vscode.languages.registerDocumentLinkProvider(getSelector(), {
+    async provideDocumentLinks(document) {
+      const options = await getIncludeSearchOptions(context, document);
+      const links = await Promise.all(
+        findIncludeStatements(getParseTree(document)).map(async (include) => {
+          const resolution = await resolveInclude(include.includePath, document.fileName, options);
+          if (resolution.status !== "found" || !resolution.resolvedPath) {
+            return undefined;
+          }
+
+          const link = new vscode.DocumentLink(toRange(document, include), vscode.Uri.file(resolution.resolvedPath));
+          link.tooltip = `Open ${resolution.resolvedPath}`;
+          return link;
+        })
+      );
+
+      return links.filter((link): link is vscode.DocumentLink => Boolean(link));
+    }
+  });
+
+  const hoverProvider = vscode.languages.registerHoverProvider(getSelector(), {
+    async provideHover(document, position) {
+      const offset = document.offsetAt(position);
+      const include = findIncludeStatements(getParseTree(document)).find(
+        (item) => item.pathStart <= offset && offset <= item.pathEnd
+      );
+      if (!include) {
+        return undefined;
+      }
+
+      const options = await getIncludeSearchOptions(context, document);
+      const resolution = await resolveInclude(include.includePath, document.fileName, options);
+      if (resolution.status === "found") {
+        return undefined;
+      }
+
+      const markdown = new vscode.MarkdownString();
+      markdown.appendMarkdown(
+        resolution.status === "notFile"
+          ? `**Included path is not a file:** \`${include.includePath}\`\n\n`
+          : `**Include not found:** \`${include.includePath}\`\n\n`
+      );
+      markdown.appendMarkdown("Searched:\n\n");
+      for (const candidate of resolution.candidates) {
+        markdown.appendMarkdown(`- \`${candidate}\`\n`);
+      }
+      markdown.isTrusted = false;
+      return new vscode.Hover(markdown, toRange(document, include));
+    }
+  });
+
+  context.subscriptions.push(linkProvider, hoverProvider);
+}
+
+function toRange(document: vscode.TextDocument, include: IncludeStatement): vscode.Range {
+  return new vscode.Range(document.positionAt(include.pathStart), document.positionAt(include.pathEnd));
+}
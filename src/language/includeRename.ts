@@ -0,0 +1,71 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+import { getIncludeDirectories } from "../config/settings";
+import { computeIncludeRenameEdits } from "../sync/includeRename";
+import { loadWorkspaceSources } from "./includeIndex";
+
+const LILYPOND_EXTENSIONS = new Set([".ly", ".ily", ".lyi"]);
+
+/**
+ * Rewrites `\include` paths when LilyPond files or folders are moved or renamed. The edits need
+ * confirmation, so they show up in the refactoring preview.
+ */
+export function registerIncludeRenameParticipant(context: vscode.ExtensionContext): void {
+  const onWillRename = vscode.workspace.onWillRenameFiles((event) => {
+    const moves = event.files
+      .filter((file) => file.oldUri.scheme === "file" && file.newUri.scheme === "file")
+      .map((file) => ({ oldPath: file.oldUri.fsPath, newPath: file.newUri.fsPath }));
+    if (moves.length === 0) {
+      return;
+    }
+
+    event.waitUntil(createIncludeRenameEdit(moves));
+  });
+
+  context.subscriptions.push(onWillRename);
+}
+
+async function createIncludeRenameEdit(moves: Array<{ oldPath: string; newPath: string }>): Promise<vscode.WorkspaceEdit> {
+  const edit = new vscode.WorkspaceEdit();
+  if (!(await touchesLilypondFiles(moves))) {
+    return edit;
+  }
+
+  const sources = await loadWorkspaceSources();
+  const knownFiles = new Set(sources.map((source) => path.resolve(source.filePath)));
+  const edits = computeIncludeRenameEdits(sources, moves, (filePath) => knownFiles.has(filePath), {
+    includeDirs: getIncludeDirectories()
+  });
+
+  const metadata: vscode.WorkspaceEditEntryMetadata = {
+    label: "Update \\include paths",
+    needsConfirmation: true
+  };
+
+  for (const item of edits) {
+    const range = new vscode.Range(item.start.line, item.start.character, item.end.line, item.end.character);
+    edit.replace(vscode.Uri.file(item.filePath), range, item.newText, metadata);
+  }
+
+  return edit;
+}
+
+/** Only LilyPond files and folders (which may contain them) affect includes. */
+async function touchesLilypondFiles(moves: Array<{ oldPath: string; newPath: string }>): Promise<boolean> {
+  for (const move of moves) {
+    if (LILYPOND_EXTENSIONS.has(path.extname(move.oldPath).toLowerCase())) {
+      return true;
+    }
+
+    try {
+      if ((await fs.stat(move.oldPath)).isDirectory()) {
+        return true;
+      }
+    } catch {
+      // The file is already gone; nothing to update.
+    }
+  }
+
+  return false;
+}
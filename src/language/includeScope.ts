@@ -0,0 +1,184 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+import { getIncludeDirectories } from "../config/settings";
+import { getParseTree, getParseTreeForContent } from "../parser/documentCache";
+import type { ParseTree } from "../parser/parseTree";
+import { analyzeIncludeGraph, extractIncludeStatements, type IncludeSearchOptions } from "../sync/includeGraph";
+import { findRootFiles } from "./includeIndex";
+
+export type ScopeFile = {
+  uri: vscode.Uri;
+  tree: ParseTree;
+};
+
+type ScopeCacheEntry = {
+  rootFilePaths: string;
+  /** The document's own `\include` paths when the scope was built. */
+  includePaths: string;
+  filePaths: Promise<string[]>;
+  /** Files in scope other than the document, whose own tree is always taken fresh. */
+  includedFiles?: Promise<ScopeFile[]>;
+};
+
+const scopes = new Map<string, ScopeCacheEntry>();
+
+/**
+ * Drops cached include scopes when LilyPond files change on disk or the include paths change.
+ * Editing a document drops the scopes of other documents, which read its unsaved text; its own
+ * scope is rebuilt when its `\include`s change.
+ */
+export function registerIncludeScope(context: vscode.ExtensionContext): void {
+  const invalidate = (): void => scopes.clear();
+
+  const watcher = vscode.workspace.createFileSystemWatcher("**/*.{ly,ily,lyi}");
+  watcher.onDidChange(invalidate);
+  watcher.onDidCreate(invalidate);
+  watcher.onDidDelete(invalidate);
+
+  const onChange = vscode.workspace.onDidChangeTextDocument((event) => {
+    if (event.contentChanges.length === 0 || !isLilyPondFile(event.document.fileName)) {
+      return;
+    }
+
+    const changedPath = path.resolve(event.document.fileName);
+    [...scopes.keys()].filter((key) => key !== changedPath).forEach((key) => scopes.delete(key));
+  });
+  const onClose = vscode.workspace.onDidCloseTextDocument((document) => {
+    if (isLilyPondFile(document.fileName)) {
+      invalidate();
+    }
+  });
+  const onConfigChange = vscode.workspace.onDidChangeConfiguration((event) => {
+    if (event.affectsConfiguration("lilypond.includePaths")) {
+      invalidate();
+    }
+  });
+
+  context.subscriptions.push(watcher, onChange, onClose, onConfigChange);
+}
+
+/**
+ * Collects parse trees for every file reachable from the document's root files (or from the
+ * document itself when it is not part of their include graphs). Open editors contribute their unsaved text.
+ */
+export async function loadIncludeScope(context: vscode.ExtensionContext, document: vscode.TextDocument): Promise<ScopeFile[]> {
+  return [{ uri: document.uri, tree: getParseTree(document) }, ...(await loadIncludedFiles(context, document))];
+}
+
+/**
+ * The files of `loadIncludeScope` without the document itself. The result is cached until the
+ * include graph may have changed, so callers can key their own caches on it.
+ */
+export async function loadIncludedFiles(context: vscode.ExtensionContext, document: vscode.TextDocument): Promise<ScopeFile[]> {
+  const entry = await getScopeCacheEntry(context, document);
+  if (!entry.includedFiles) {
+    entry.includedFiles = readIncludedFiles(entry.filePaths, path.resolve(document.fileName));
+    forgetOnFailure(path.resolve(document.fileName), entry, entry.includedFiles);
+  }
+  return entry.includedFiles;
+}
+
+async function readIncludedFiles(scopeFilePaths: Promise<string[]>, documentPath: string): Promise<ScopeFile[]> {
+  const filePaths = (await scopeFilePaths).filter((filePath) => filePath !== documentPath);
+  const files = await Promise.all(
+    filePaths.map(async (filePath): Promise<ScopeFile | undefined> => {
+      const uri = vscode.Uri.file(filePath);
+      const open = vscode.workspace.textDocuments.find((item) => item.uri.fsPath === filePath);
+      if (open) {
+        return { uri: open.uri, tree: getParseTree(open) };
+      }
+
+      try {
+        const content = await fs.readFile(filePath, "utf8");
+        return { uri, tree: getParseTreeForContent(uri.toString(), content) };
+      } catch {
+        return undefined;
+      }
+    })
+  );
+
+  return files.filter((file): file is ScopeFile => Boolean(file));
+}
+
+/** Include search settings shared by include analysis, links and the renderer's `-I` flags. */
+export async function getIncludeSearchOptions(
+  context: vscode.ExtensionContext,
+  document: vscode.TextDocument
+): Promise<IncludeSearchOptions> {
+  const rootFilePath = (await findRootFiles(context, document))[0] ?? document.fileName;
+  return {
+    rootDir: path.dirname(path.resolve(rootFilePath)),
+    includeDirs: getIncludeDirectories(document.uri)
+  };
+}
+
+/** Absolute paths of the files `loadIncludeScope` parses, including the document's own. */
+export async function collectScopeFilePaths(context: vscode.ExtensionContext, document: vscode.TextDocument): Promise<string[]> {
+  return (await getScopeCacheEntry(context, document)).filePaths;
+}
+
+/**
+ * The cached scope of the document, started again when its root files or its own `\include`s
+ * differ from the cached ones.
+ */
+async function getScopeCacheEntry(context: vscode.ExtensionContext, document: vscode.TextDocument): Promise<ScopeCacheEntry> {
+  const key = path.resolve(document.fileName);
+  const rootFilePaths = await findRootFiles(context, document);
+  const includePaths = extractIncludeStatements(getParseTree(document))
+    .map((statement) => statement.includePath)
+    .join("\n");
+  const cached = scopes.get(key);
+  if (cached && cached.rootFilePaths === rootFilePaths.join("\n") && cached.includePaths === includePaths) {
+    return cached;
+  }
+
+  const entry: ScopeCacheEntry = {
+    rootFilePaths: rootFilePaths.join("\n"),
+    includePaths,
+    filePaths: analyzeScopeFilePaths(context, document, rootFilePaths)
+  };
+  scopes.set(key, entry);
+  forgetOnFailure(key, entry, entry.filePaths);
+  return entry;
+}
+
+async function analyzeScopeFilePaths(
+  context: vscode.ExtensionContext,
+  document: vscode.TextDocument,
+  rootFilePaths: string[]
+): Promise<string[]> {
+  const documentPath = path.resolve(document.fileName);
+  const options = await getIncludeSearchOptions(context, document);
+  const overrides = new Map(
+    vscode.workspace.textDocuments
+      .filter((item) => item.isDirty && isLilyPondFile(item.fileName))
+      .map((item) => [path.resolve(item.fileName), item.getText()])
+  );
+  const files = new Set<string>();
+
+  for (const rootFilePath of rootFilePaths) {
+    const rootOptions = { ...options, rootDir: path.dirname(path.resolve(rootFilePath)) };
+    (await analyzeIncludeGraph(rootFilePath, rootOptions, overrides)).files.forEach((file) => files.add(file));
+  }
+
+  if (!files.has(documentPath)) {
+    (await analyzeIncludeGraph(documentPath, options, overrides)).files.forEach((file) => files.add(file));
+  }
+
+  return [...files];
+}
+
+/** A failed analysis is not cached, so the next request tries again. */
+function forgetOnFailure(key: string, entry: ScopeCacheEntry, result: Promise<unknown>): void {
+  result.catch(() => {
+    if (scopes.get(key) === entry) {
+      scopes.delete(key);
+    }
+  });
+}
+
+function isLilyPondFile(filePath: string): boolean {
+  const extension = path.extname(filePath).toLowerCase();
+  return extension === ".ly" || extension === ".ily" || extension === ".lyi";
+}
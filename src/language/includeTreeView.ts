@@ -0,0 +1,140 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { getIncludeDirectories } from "../config/settings";
+import { analyzeIncludeGraph, buildIncludeTree, type IncludeIssueKind, type IncludeTreeNode } from "../sync/includeGraph";
+import { findRootFiles } from "./includeIndex";
+
+const ISSUE_LABELS: Record<IncludeIssueKind, string> = {
+  missing: "missing",
+  notFile: "not a file",
+  cycle: "recursive include",
+  unreadable: "unreadable"
+};
+
+export function registerIncludeTreeView(context: vscode.ExtensionContext): void {
+  const provider = new IncludeTreeDataProvider(context);
+  const tree = vscode.window.createTreeView("lilypondIncludes", { treeDataProvider: provider });
+
+  const refresh = vscode.commands.registerCommand("lilypond.includes.refresh", () => {
+    provider.refresh();
+  });
+
+  const open = vscode.commands.registerCommand(
+    "lilypond.includes.openFile",
+    async (target?: vscode.Uri | IncludeTreeItem, line?: number) => {
+      const uri = target instanceof vscode.Uri ? target : target?.resourceUri;
+      if (!uri) {
+        return;
+      }
+
+      const selection = typeof line === "number" ? new vscode.Range(line - 1, 0, line - 1, 0) : undefined;
+      await vscode.window.showTextDocument(uri, { selection });
+    }
+  );
+
+  const onEditor = vscode.window.onDidChangeActiveTextEditor(() => {
+    provider.refresh();
+  });
+
+  const onSave = vscode.workspace.onDidSaveTextDocument(() => {
+    provider.refresh();
+  });
+
+  context.subscriptions.push(tree, refresh, open, onEditor, onSave);
+}
+
+class IncludeTreeDataProvider implements vscode.TreeDataProvider<IncludeTreeItem> {
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<IncludeTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  refresh(): void {
+    this.onDidChangeTreeDataEmitter.fire();
+  }
+
+  getTreeItem(element: IncludeTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: IncludeTreeItem): Promise<IncludeTreeItem[]> {
+    if (element) {
+      return element.node?.children.map((child) => createIncludeTreeItem(child, element.node?.filePath)) ?? [];
+    }
+
+    const active = vscode.window.activeTextEditor?.document;
+    if (!active || !this.isLilyPondDocument(active)) {
+      return [new IncludeTreeItem("Open a LilyPond file to browse its includes.", vscode.TreeItemCollapsibleState.None)];
+    }
+
+    const rootFilePaths = await findRootFiles(this.context, active);
+    const roots = rootFilePaths.length > 0 ? rootFilePaths : [active.fileName];
+
+    return Promise.all(
+      roots.map(async (rootFilePath) => {
+        const graph = await analyzeIncludeGraph(rootFilePath, {
+          includeDirs: getIncludeDirectories(vscode.Uri.file(rootFilePath))
+        });
+        const item = createIncludeTreeItem(buildIncludeTree(graph, rootFilePath));
+        item.description = "root";
+        return item;
+      })
+    );
+  }
+
+  private isLilyPondDocument(document: vscode.TextDocument): boolean {
+    if (document.languageId === "lilypond") {
+      return true;
+    }
+
+    const extension = path.extname(document.fileName).toLowerCase();
+    return extension === ".ly" || extension === ".ily" || extension === ".lyi";
+  }
+}
+
+/**
+ * Files open on click and offer "Set as Root File"; nodes with an include issue open the
+ * including file at the `\include` line instead.
+ */
+function createIncludeTreeItem(node: IncludeTreeNode, parentFilePath?: string): IncludeTreeItem {
+  const label = node.issue?.kind === "missing" ? node.includePath ?? path.basename(node.filePath) : path.basename(node.filePath);
+  const collapsibleState =
+    node.children.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None;
+  const item = new IncludeTreeItem(label, collapsibleState, node);
+
+  if (node.issue) {
+    item.description = ISSUE_LABELS[node.issue.kind];
+    item.tooltip = node.issue.message;
+    item.iconPath = new vscode.ThemeIcon("error", new vscode.ThemeColor("errorForeground"));
+    item.contextValue = "includeIssue";
+    if (parentFilePath) {
+      item.command = {
+        command: "lilypond.includes.openFile",
+        title: "Open Include Statement",
+        arguments: [vscode.Uri.file(parentFilePath), node.line]
+      };
+    }
+    return item;
+  }
+
+  item.resourceUri = vscode.Uri.file(node.filePath);
+  item.description = node.includePath && node.includePath !== label ? node.includePath : undefined;
+  item.tooltip = node.filePath;
+  item.contextValue = "includeFile";
+  item.command = {
+    command: "lilypond.includes.openFile",
+    title: "Open File",
+    arguments: [item.resourceUri]
+  };
+  return item;
+}
+
+class IncludeTreeItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    collapsibleState: vscode.TreeItemCollapsibleState,
+    readonly node?: IncludeTreeNode
+  ) {
+    super(label, collapsibleState);
+  }
+}
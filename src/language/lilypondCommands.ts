@@ -0,0 +1,4848 @@
+// Generated by scripts/generate-commands.js from the LilyPond sources. Do not edit by hand.
+import type { LilypondCommand } from "./lilypondData";
+
+export const LILYPOND_COMMANDS_VERSION = "2.24.4";
+
+export const LILYPOND_COMMANDS: LilypondCommand[] = [
+  {
+    name: "abs-fontsize",
+    kind: "markup-command",
+    signature: "\\abs-fontsize number markup",
+    parameters: [
+      { name: "size", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Use `size` as the absolute font size (in points) to display `arg`. Adjusts `baseline-skip` and `word-space` accordingly."
+  },
+  {
+    name: "absolute",
+    kind: "music-function",
+    signature: "\\absolute music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Make `music` absolute. This does not actually change the music itself but rather hides it from surrounding `\\relative` and `\\fixed` commands."
+  },
+  {
+    name: "accent",
+    kind: "identifier",
+    signature: "\\accent",
+    parameters: [],
+    documentation: "`#(make-articulation 'accent)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "accepts",
+    kind: "keyword",
+    signature: "\\accepts context",
+    parameters: [
+      { name: "context", label: "context", type: "string?" }
+    ],
+    documentation: "Allow a context to be created inside the context being defined."
+  },
+  {
+    name: "acciaccatura",
+    kind: "music-function",
+    signature: "\\acciaccatura music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Create an acciaccatura from the following music expression"
+  },
+  {
+    name: "accidentalStyle",
+    kind: "music-function",
+    signature: "\\accidentalStyle symbol-list",
+    parameters: [
+      { name: "style", label: "symbol-list", type: "symbol-list?" }
+    ],
+    documentation: "Set accidental style to symbol list `style` in the form `piano-cautionary`. If `style` has a form like `Staff.piano-cautionary`, the settings are applied to that context. Otherwise, the context defaults to `Staff`, except for piano styles, which use `GrandStaff` as a context."
+  },
+  {
+    name: "addChordShape",
+    kind: "void-function",
+    signature: "\\addChordShape symbol pair string-or-pair",
+    parameters: [
+      { name: "key-symbol", label: "symbol", type: "symbol?" },
+      { name: "tuning", label: "pair", type: "pair?" },
+      { name: "shape-definition", label: "string-or-pair", type: "string-or-pair?" }
+    ],
+    documentation: "Add chord shape `shape-definition` to the `chord-shape-table` hash with the key `(cons key-symbol` `tuning`)."
+  },
+  {
+    name: "addlyrics",
+    kind: "keyword",
+    signature: "\\addlyrics lyrics",
+    parameters: [
+      { name: "lyrics", label: "lyrics", type: "ly:music?" }
+    ],
+    documentation: "Attach lyrics to the preceding music."
+  },
+  {
+    name: "addQuote",
+    kind: "void-function",
+    signature: "\\addQuote string music",
+    parameters: [
+      { name: "name", label: "string", type: "string?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Define `music` as a quotable music expression named `name`"
+  },
+  {
+    name: "aeolian",
+    kind: "identifier",
+    signature: "\\aeolian",
+    parameters: [],
+    documentation: "`#`((0 . 0) (1 . 0) (2 . ,FLAT) (3 . 0) (4 . 0) (5 . ,FLAT) (6 . ,FLAT))`\n\nPredefined in `ly/scale-definitions-init.ly`."
+  },
+  {
+    name: "after",
+    kind: "music-function",
+    signature: "\\after duration music music",
+    parameters: [
+      { name: "delta", label: "duration", type: "ly:duration?" },
+      { name: "ev", label: "music", type: "ly:music?" },
+      { name: "mus", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Add music `ev` (usually a post-event) with a delay of `delta` after the onset of `mus`."
+  },
+  {
+    name: "afterGrace",
+    kind: "music-function",
+    signature: "\\afterGrace [scale] music music",
+    parameters: [
+      { name: "fraction", label: "scale", type: "scale?", optional: true },
+      { name: "main", label: "music", type: "ly:music?" },
+      { name: "grace", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Create `grace` note(s) after a `main` music expression.\n\nThe musical position of the grace expression is after a given fraction of the main note's duration has passed. If `fraction` is not specified as first argument, it is taken from `afterGraceFraction` which has a default value of `3/4`."
+  },
+  {
+    name: "aikenHeads",
+    kind: "identifier",
+    signature: "\\aikenHeads",
+    parameters: [],
+    documentation: "`\\set shapeNoteStyles = ##(do re miMirror fa sol la ti)`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "aikenHeadsMinor",
+    kind: "identifier",
+    signature: "\\aikenHeadsMinor",
+    parameters: [],
+    documentation: "`\\set shapeNoteStyles = ##(la ti do re miMirror fa sol)`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "alias",
+    kind: "keyword",
+    signature: "\\alias context",
+    parameters: [
+      { name: "context", label: "context", type: "string?" }
+    ],
+    documentation: "Let the context being defined also answer to another context's name."
+  },
+  {
+    name: "allowBreak",
+    kind: "identifier",
+    signature: "\\allowBreak",
+    parameters: [],
+    documentation: "`#(make-music 'LineBreakEvent 'break-permission 'allow)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "allowPageTurn",
+    kind: "music-function",
+    signature: "\\allowPageTurn",
+    parameters: [],
+    documentation: "Allow a page turn. May be used at toplevel (i.e., between scores or markups), or inside a score."
+  },
+  {
+    name: "alterBroken",
+    kind: "music-function",
+    signature: "\\alterBroken key-list-or-symbols list key-list-or-music",
+    parameters: [
+      { name: "property", label: "key-list-or-symbols", type: "key-list-or-symbols?" },
+      { name: "arg", label: "list", type: "list?" },
+      { name: "item", label: "key-list-or-music", type: "key-list-or-music?" }
+    ],
+    documentation: "Override `property` for pieces of broken spanner `item` with values `arg`. `item` may either be music in the form of a starting spanner event, or a symbol list in the form `Context.Grob` or just `Grob`. Using the former makes sense only as a tweak, and only for specific properties of the spanner."
+  },
+  {
+    name: "alternative",
+    kind: "keyword",
+    signature: "\\alternative music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Alternative endings of a `\\repeat volta`."
+  },
+  {
+    name: "ambitusAfter",
+    kind: "music-function",
+    signature: "\\ambitusAfter symbol",
+    parameters: [
+      { name: "target", label: "symbol", type: "symbol?" }
+    ],
+    documentation: "Move the ambitus after the break-align symbol `target`."
+  },
+  {
+    name: "appendToTag",
+    kind: "music-function",
+    signature: "\\appendToTag symbol music music",
+    parameters: [
+      { name: "tag", label: "symbol", type: "symbol?" },
+      { name: "more", label: "music", type: "ly:music?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Append `more` to the `elements` of all music expressions in `music` that are tagged with `tag`."
+  },
+  {
+    name: "applyContext",
+    kind: "music-function",
+    signature: "\\applyContext procedure",
+    parameters: [
+      { name: "proc", label: "procedure", type: "procedure?" }
+    ],
+    documentation: "Modify context properties with Scheme procedure `proc`."
+  },
+  {
+    name: "applyMusic",
+    kind: "music-function",
+    signature: "\\applyMusic procedure music",
+    parameters: [
+      { name: "func", label: "procedure", type: "procedure?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Apply procedure `func` to `music`."
+  },
+  {
+    name: "applyOutput",
+    kind: "music-function",
+    signature: "\\applyOutput symbol-list-or-symbol procedure",
+    parameters: [
+      { name: "target", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?" },
+      { name: "proc", label: "procedure", type: "procedure?" }
+    ],
+    documentation: "Apply function `proc` to every layout object matched by `target` which takes the form `Context` or `Context.Grob`."
+  },
+  {
+    name: "appoggiatura",
+    kind: "music-function",
+    signature: "\\appoggiatura music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Create an appoggiatura from `music`"
+  },
+  {
+    name: "arpeggio",
+    kind: "identifier",
+    signature: "\\arpeggio",
+    parameters: [],
+    documentation: "`#(make-music 'ArpeggioEvent)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "arpeggioArrowDown",
+    kind: "identifier",
+    signature: "\\arpeggioArrowDown",
+    parameters: [],
+    documentation: "`\\override Arpeggio.arpeggio-direction = #DOWN`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "arpeggioArrowUp",
+    kind: "identifier",
+    signature: "\\arpeggioArrowUp",
+    parameters: [],
+    documentation: "`\\override Arpeggio.arpeggio-direction = #UP`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "arpeggioBracket",
+    kind: "identifier",
+    signature: "\\arpeggioBracket",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "arpeggioNormal",
+    kind: "identifier",
+    signature: "\\arpeggioNormal",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "arpeggioParenthesis",
+    kind: "identifier",
+    signature: "\\arpeggioParenthesis",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "arrow-head",
+    kind: "markup-command",
+    signature: "\\arrow-head integer dir boolean",
+    parameters: [
+      { name: "axis", label: "integer", type: "integer?" },
+      { name: "dir", label: "dir", type: "ly:dir?" },
+      { name: "filled", label: "boolean", type: "boolean?" }
+    ],
+    documentation: "Produce an arrow head in specified direction and axis. Use the filled head if `filled` is specified."
+  },
+  {
+    name: "autoBeamOff",
+    kind: "identifier",
+    signature: "\\autoBeamOff",
+    parameters: [],
+    documentation: "`\\set autoBeaming = ##f`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "autoBeamOn",
+    kind: "identifier",
+    signature: "\\autoBeamOn",
+    parameters: [],
+    documentation: "`\\set autoBeaming = ##t`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "autoChange",
+    kind: "music-function",
+    signature: "\\autoChange [pitch] [context-mod] [context-mod] music",
+    parameters: [
+      { name: "pitch", label: "pitch", type: "ly:pitch?", optional: true },
+      { name: "clef-1", label: "context-mod", type: "ly:context-mod?", optional: true },
+      { name: "clef-2", label: "context-mod", type: "ly:context-mod?", optional: true },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Make voices that switch between staves automatically. As an option, you can pass a pitch to switch on. You can also pass context modifications for the upper and lower staves."
+  },
+  {
+    name: "balloonGrobText",
+    kind: "music-function",
+    signature: "\\balloonGrobText symbol number-pair markup",
+    parameters: [
+      { name: "grob-name", label: "symbol", type: "symbol?" },
+      { name: "offset", label: "number-pair", type: "number-pair?" },
+      { name: "text", label: "markup", type: "markup?" }
+    ],
+    documentation: "Attach `text` to `grob-name` at offset `offset` (use like `\\once`)"
+  },
+  {
+    name: "balloonLengthOff",
+    kind: "identifier",
+    signature: "\\balloonLengthOff",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "balloonLengthOn",
+    kind: "identifier",
+    signature: "\\balloonLengthOn",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "balloonText",
+    kind: "event-function",
+    signature: "\\balloonText number-pair markup",
+    parameters: [
+      { name: "offset", label: "number-pair", type: "number-pair?" },
+      { name: "text", label: "markup", type: "markup?" }
+    ],
+    documentation: "Attach `text` at `offset` (use like `\\tweak`)"
+  },
+  {
+    name: "bar",
+    kind: "music-function",
+    signature: "\\bar string",
+    parameters: [
+      { name: "type", label: "string", type: "string?" }
+    ],
+    documentation: "Insert a bar line of type `type`, overriding any automatic bar lines."
+  },
+  {
+    name: "barNumberCheck",
+    kind: "music-function",
+    signature: "\\barNumberCheck integer",
+    parameters: [
+      { name: "n", label: "integer", type: "integer?" }
+    ],
+    documentation: "Print a warning if the current bar number is not `n`."
+  },
+  {
+    name: "bassFigureExtendersOff",
+    kind: "identifier",
+    signature: "\\bassFigureExtendersOff",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "bassFigureExtendersOn",
+    kind: "identifier",
+    signature: "\\bassFigureExtendersOn",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "bassFigureStaffAlignmentDown",
+    kind: "identifier",
+    signature: "\\bassFigureStaffAlignmentDown",
+    parameters: [],
+    documentation: "`\\override Staff.BassFigureAlignmentPositioning.direction = #DOWN`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "bassFigureStaffAlignmentNeutral",
+    kind: "identifier",
+    signature: "\\bassFigureStaffAlignmentNeutral",
+    parameters: [],
+    documentation: "`\\revert Staff.BassFigureAlignmentPositioning.direction`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "bassFigureStaffAlignmentUp",
+    kind: "identifier",
+    signature: "\\bassFigureStaffAlignmentUp",
+    parameters: [],
+    documentation: "`\\override Staff.BassFigureAlignmentPositioning.direction = #UP`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "beam",
+    kind: "markup-command",
+    signature: "\\beam number number number",
+    parameters: [
+      { name: "width", label: "number", type: "number?" },
+      { name: "slope", label: "number", type: "number?" },
+      { name: "thickness", label: "number", type: "number?" }
+    ],
+    documentation: "Create a beam with the specified parameters."
+  },
+  {
+    name: "beamExceptions",
+    kind: "scheme-function",
+    signature: "\\beamExceptions music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Extract a value suitable for setting `beamExceptions` from the given music expression which must contain only notes and bar checks."
+  },
+  {
+    name: "bendAfter",
+    kind: "event-function",
+    signature: "\\bendAfter real",
+    parameters: [
+      { name: "delta", label: "real", type: "real?" }
+    ],
+    documentation: "Create a fall or doit of pitch interval `delta`."
+  },
+  {
+    name: "bendHold",
+    kind: "music-function",
+    signature: "\\bendHold music",
+    parameters: [
+      { name: "mus", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Set the `style` of a following `BendSpanner` to `'hold`, printing only a horizontal line after the bend."
+  },
+  {
+    name: "bold",
+    kind: "markup-command",
+    signature: "\\bold markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Switch to bold font-series."
+  },
+  {
+    name: "book",
+    kind: "keyword",
+    signature: "\\book { ... }",
+    parameters: [],
+    documentation: "Group scores and markups into one output file."
+  },
+  {
+    name: "bookOutputName",
+    kind: "void-function",
+    signature: "\\bookOutputName string",
+    parameters: [
+      { name: "newfilename", label: "string", type: "string?" }
+    ],
+    documentation: "Direct output for the current book block to `newfilename`."
+  },
+  {
+    name: "bookOutputSuffix",
+    kind: "void-function",
+    signature: "\\bookOutputSuffix string",
+    parameters: [
+      { name: "newsuffix", label: "string", type: "string?" }
+    ],
+    documentation: "Set the output filename suffix for the current book block to `newsuffix`."
+  },
+  {
+    name: "bookpart",
+    kind: "keyword",
+    signature: "\\bookpart { ... }",
+    parameters: [],
+    documentation: "Part of a `\\book` that starts on a new page."
+  },
+  {
+    name: "box",
+    kind: "markup-command",
+    signature: "\\box markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Draw a box round `arg`. Looks at `thickness`, `box-padding` and `font-size` properties to determine line thickness and padding around the markup."
+  },
+  {
+    name: "bracket",
+    kind: "markup-command",
+    signature: "\\bracket markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Draw vertical brackets around `arg`."
+  },
+  {
+    name: "break",
+    kind: "identifier",
+    signature: "\\break",
+    parameters: [],
+    documentation: "`#(make-music 'LineBreakEvent 'break-permission 'force)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "breathe",
+    kind: "music-function",
+    signature: "\\breathe",
+    parameters: [],
+    documentation: "Insert a breath mark."
+  },
+  {
+    name: "cadenzaOff",
+    kind: "identifier",
+    signature: "\\cadenzaOff",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "cadenzaOn",
+    kind: "identifier",
+    signature: "\\cadenzaOn",
+    parameters: [],
+    documentation: "`\\set Timing.timing = ##f`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "caesura",
+    kind: "identifier",
+    signature: "\\caesura",
+    parameters: [],
+    documentation: "`#(make-music 'CaesuraEvent)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "caps",
+    kind: "markup-command",
+    signature: "\\caps markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Copy of the `\\smallCaps` command."
+  },
+  {
+    name: "center",
+    kind: "identifier",
+    signature: "\\center",
+    parameters: [],
+    documentation: "`#0`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "center-align",
+    kind: "markup-command",
+    signature: "\\center-align markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Align `arg` to its X center."
+  },
+  {
+    name: "center-column",
+    kind: "markup-command",
+    signature: "\\center-column markup-list",
+    parameters: [
+      { name: "args", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Put `args` in a centered column."
+  },
+  {
+    name: "change",
+    kind: "keyword",
+    signature: "\\change context = id",
+    parameters: [
+      { name: "context", label: "context", type: "string?" },
+      { name: "id", label: "id", type: "string?" }
+    ],
+    documentation: "Move the current voice to another staff, e.g. `\\change Staff = \"down\"`."
+  },
+  {
+    name: "char",
+    kind: "markup-command",
+    signature: "\\char integer",
+    parameters: [
+      { name: "num", label: "integer", type: "integer?" }
+    ],
+    documentation: "Produce a single character. Characters encoded in hexadecimal format require the prefix `#x`."
+  },
+  {
+    name: "chordmode",
+    kind: "keyword",
+    signature: "\\chordmode music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Enter chords using chord notation syntax."
+  },
+  {
+    name: "chordRepeats",
+    kind: "music-function",
+    signature: "\\chordRepeats [list] music",
+    parameters: [
+      { name: "event-types", label: "list", type: "list?", optional: true },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Walk through `music` putting the notes of the previous chord into repeat chords, as well as an optional list of `event-types` such as `#'(string-number-event)`."
+  },
+  {
+    name: "chords",
+    kind: "keyword",
+    signature: "\\chords music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Chord mode music in a new `ChordNames` context."
+  },
+  {
+    name: "circle",
+    kind: "markup-command",
+    signature: "\\circle markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Draw a circle around `arg`. Use `thickness`, `circle-padding` and `font-size` properties to determine line thickness and padding around the markup."
+  },
+  {
+    name: "clef",
+    kind: "music-function",
+    signature: "\\clef string",
+    parameters: [
+      { name: "type", label: "string", type: "string?" }
+    ],
+    documentation: "Set the current clef to `type`."
+  },
+  {
+    name: "coda",
+    kind: "identifier",
+    signature: "\\coda",
+    parameters: [],
+    documentation: "`#(make-articulation 'coda)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "coda",
+    kind: "markup-command",
+    signature: "\\coda",
+    parameters: [],
+    documentation: "Draw a coda sign."
+  },
+  {
+    name: "codaMark",
+    kind: "music-function",
+    signature: "\\codaMark [index]",
+    parameters: [
+      { name: "num", label: "index", type: "index?", optional: true }
+    ],
+    documentation: "Create a coda mark. `num` may be 1 for the first mark, 2 for the second, etc., or it may be `\\default` to use the next number in sequence automatically."
+  },
+  {
+    name: "column",
+    kind: "markup-command",
+    signature: "\\column markup-list",
+    parameters: [
+      { name: "args", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Stack the markups in `args` vertically. The property `baseline-skip` determines the space between markups in `args`."
+  },
+  {
+    name: "combine",
+    kind: "markup-command",
+    signature: "\\combine markup markup",
+    parameters: [
+      { name: "arg1", label: "markup", type: "markup?" },
+      { name: "arg2", label: "markup", type: "markup?" }
+    ],
+    documentation: "Print two markups on top of each other."
+  },
+  {
+    name: "compoundMeter",
+    kind: "music-function",
+    signature: "\\compoundMeter pair",
+    parameters: [
+      { name: "args", label: "pair", type: "pair?" }
+    ],
+    documentation: "Create compound time signatures. The argument is a Scheme list of lists. Each list describes one fraction, with the last entry being the denominator, while the first entries describe the summands in the enumerator. If the time signature consists of just one fraction, the list can be given directly, i.e., not as a list containing a single list. For example, a time signature of (3+1)/8 + 2/4 would be created as `\\compoundMeter #'((3 1 8) (2 4))`, and a time signature of (3+2)/8 as `\\compoundMeter #'((3 2 8))` or shorter `\\compoundMeter #'(3 2 8)`."
+  },
+  {
+    name: "compressEmptyMeasures",
+    kind: "identifier",
+    signature: "\\compressEmptyMeasures",
+    parameters: [],
+    documentation: "`\\set Score.skipBars = ##t`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "compressMMRests",
+    kind: "music-function",
+    signature: "\\compressMMRests music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Remove the empty bars created by multi-measure rests, leaving just the first bar containing the MM rest itself."
+  },
+  {
+    name: "concat",
+    kind: "markup-command",
+    signature: "\\concat markup-list",
+    parameters: [
+      { name: "args", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Concatenate `args` in a horizontal line, without spaces in between. Strings and simple markups are concatenated on the input level, allowing ligatures."
+  },
+  {
+    name: "consists",
+    kind: "keyword",
+    signature: "\\consists engraver",
+    parameters: [
+      { name: "engraver", label: "engraver", type: "string?" }
+    ],
+    documentation: "Add an engraver or performer to the context being defined."
+  },
+  {
+    name: "context",
+    kind: "keyword",
+    signature: "\\context context [= id] music",
+    parameters: [
+      { name: "context", label: "context", type: "string?" },
+      { name: "id", label: "id", type: "string?", optional: true },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Send music to an existing context, or create it, e.g. `\\context Staff = \"up\" { ... }`. Inside `\\layout`, `\\context { ... }` changes a context definition."
+  },
+  {
+    name: "cr",
+    kind: "identifier",
+    signature: "\\cr",
+    parameters: [],
+    documentation: "`#(make-span-event 'CrescendoEvent START)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "cresc",
+    kind: "identifier",
+    signature: "\\cresc",
+    parameters: [],
+    documentation: "Predefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "crescHairpin",
+    kind: "identifier",
+    signature: "\\crescHairpin",
+    parameters: [],
+    documentation: "`\\unset crescendoSpanner`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "crescTextCresc",
+    kind: "identifier",
+    signature: "\\crescTextCresc",
+    parameters: [],
+    documentation: "Predefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "crossStaff",
+    kind: "music-function",
+    signature: "\\crossStaff music",
+    parameters: [
+      { name: "notes", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Create cross-staff stems"
+  },
+  {
+    name: "cueClef",
+    kind: "music-function",
+    signature: "\\cueClef string",
+    parameters: [
+      { name: "type", label: "string", type: "string?" }
+    ],
+    documentation: "Set the current cue clef to `type`."
+  },
+  {
+    name: "cueClefUnset",
+    kind: "music-function",
+    signature: "\\cueClefUnset",
+    parameters: [],
+    documentation: "Unset the current cue clef."
+  },
+  {
+    name: "cueDuring",
+    kind: "music-function",
+    signature: "\\cueDuring string dir music",
+    parameters: [
+      { name: "what", label: "string", type: "string?" },
+      { name: "dir", label: "dir", type: "ly:dir?" },
+      { name: "main-music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Insert contents of quote `what` corresponding to `main-music`, in a CueVoice oriented by `dir`."
+  },
+  {
+    name: "cueDuringWithClef",
+    kind: "music-function",
+    signature: "\\cueDuringWithClef string dir string music",
+    parameters: [
+      { name: "what", label: "string", type: "string?" },
+      { name: "dir", label: "dir", type: "ly:dir?" },
+      { name: "clef", label: "string", type: "string?" },
+      { name: "main-music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Insert contents of quote `what` corresponding to `main-music`, in a CueVoice oriented by `dir`, with a cue clef `clef`."
+  },
+  {
+    name: "deadNote",
+    kind: "music-function",
+    signature: "\\deadNote music",
+    parameters: [
+      { name: "note", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Print `note` with a cross-shaped note head."
+  },
+  {
+    name: "decr",
+    kind: "identifier",
+    signature: "\\decr",
+    parameters: [],
+    documentation: "`#(make-span-event 'DecrescendoEvent START)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "decresc",
+    kind: "identifier",
+    signature: "\\decresc",
+    parameters: [],
+    documentation: "Predefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "default",
+    kind: "keyword",
+    signature: "\\default",
+    parameters: [],
+    documentation: "Use the default value of an optional function argument."
+  },
+  {
+    name: "defaultchild",
+    kind: "keyword",
+    signature: "\\defaultchild context",
+    parameters: [
+      { name: "context", label: "context", type: "string?" }
+    ],
+    documentation: "Context created when music needs a child of the context being defined."
+  },
+  {
+    name: "defaultTimeSignature",
+    kind: "identifier",
+    signature: "\\defaultTimeSignature",
+    parameters: [],
+    documentation: "`\\revert Staff.TimeSignature.style`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "defineBarLine",
+    kind: "void-function",
+    signature: "\\defineBarLine string list",
+    parameters: [
+      { name: "bar", label: "string", type: "string?" },
+      { name: "glyph-list", label: "list", type: "list?" }
+    ],
+    documentation: "Define bar line settings for bar line `bar`. The list `glyph-list` must have three entries which define substitute glyphs for the end of a line, the middle of a line, and the beginning of a line. An optional fourth entry defines the glyph used for the span bar."
+  },
+  {
+    name: "denies",
+    kind: "keyword",
+    signature: "\\denies context",
+    parameters: [
+      { name: "context", label: "context", type: "string?" }
+    ],
+    documentation: "Disallow a context inside the context being defined."
+  },
+  {
+    name: "description",
+    kind: "keyword",
+    signature: "\\description text",
+    parameters: [
+      { name: "text", label: "text", type: "string?" }
+    ],
+    documentation: "Description of the context being defined."
+  },
+  {
+    name: "dim",
+    kind: "identifier",
+    signature: "\\dim",
+    parameters: [],
+    documentation: "Predefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "dimHairpin",
+    kind: "identifier",
+    signature: "\\dimHairpin",
+    parameters: [],
+    documentation: "`\\unset decrescendoSpanner`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "dimTextDecresc",
+    kind: "identifier",
+    signature: "\\dimTextDecresc",
+    parameters: [],
+    documentation: "Predefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "dimTextDim",
+    kind: "identifier",
+    signature: "\\dimTextDim",
+    parameters: [],
+    documentation: "Predefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "dir-column",
+    kind: "markup-command",
+    signature: "\\dir-column markup-list",
+    parameters: [
+      { name: "args", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Make a column of `args`, going up or down, depending on the setting of the `direction` layout property."
+  },
+  {
+    name: "displayLilyMusic",
+    kind: "music-function",
+    signature: "\\displayLilyMusic [output-port] music",
+    parameters: [
+      { name: "port", label: "output-port", type: "output-port?", optional: true },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Display the LilyPond input representation of `music` to `port`, defaulting to the console."
+  },
+  {
+    name: "displayMusic",
+    kind: "music-function",
+    signature: "\\displayMusic [output-port] music",
+    parameters: [
+      { name: "port", label: "output-port", type: "output-port?", optional: true },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Display the internal representation of `music` to `port`, default to the console."
+  },
+  {
+    name: "displayScheme",
+    kind: "scheme-function",
+    signature: "\\displayScheme [output-port] scheme",
+    parameters: [
+      { name: "port", label: "output-port", type: "output-port?", optional: true },
+      { name: "expr", label: "scheme", type: "scheme?" }
+    ],
+    documentation: "Display the internal representation of `expr` to `port`, default to the console."
+  },
+  {
+    name: "dorian",
+    kind: "identifier",
+    signature: "\\dorian",
+    parameters: [],
+    documentation: "`#(ly:transpose-key-alist minor (ly:make-pitch 0 5 0))`\n\nPredefined in `ly/scale-definitions-init.ly`."
+  },
+  {
+    name: "dotsDown",
+    kind: "identifier",
+    signature: "\\dotsDown",
+    parameters: [],
+    documentation: "`\\override Dots.direction = #DOWN`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "dotsNeutral",
+    kind: "identifier",
+    signature: "\\dotsNeutral",
+    parameters: [],
+    documentation: "`\\revert Dots.direction`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "dotsUp",
+    kind: "identifier",
+    signature: "\\dotsUp",
+    parameters: [],
+    documentation: "`\\override Dots.direction = #UP`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "doubleflat",
+    kind: "markup-command",
+    signature: "\\doubleflat",
+    parameters: [],
+    documentation: "Draw a double flat symbol."
+  },
+  {
+    name: "doublesharp",
+    kind: "markup-command",
+    signature: "\\doublesharp",
+    parameters: [],
+    documentation: "Draw a double sharp symbol."
+  },
+  {
+    name: "downbow",
+    kind: "identifier",
+    signature: "\\downbow",
+    parameters: [],
+    documentation: "`#(make-articulation 'downbow)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "downmordent",
+    kind: "identifier",
+    signature: "\\downmordent",
+    parameters: [],
+    documentation: "`#(make-articulation 'downmordent)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "downprall",
+    kind: "identifier",
+    signature: "\\downprall",
+    parameters: [],
+    documentation: "`#(make-articulation 'downprall)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "draw-circle",
+    kind: "markup-command",
+    signature: "\\draw-circle number number boolean",
+    parameters: [
+      { name: "radius", label: "number", type: "number?" },
+      { name: "thickness", label: "number", type: "number?" },
+      { name: "filled", label: "boolean", type: "boolean?" }
+    ],
+    documentation: "A circle of radius `radius` and thickness `thickness`, optionally filled."
+  },
+  {
+    name: "draw-dashed-line",
+    kind: "markup-command",
+    signature: "\\draw-dashed-line number-pair",
+    parameters: [
+      { name: "dest", label: "number-pair", type: "number-pair?" }
+    ],
+    documentation: "A dashed line."
+  },
+  {
+    name: "draw-dotted-line",
+    kind: "markup-command",
+    signature: "\\draw-dotted-line number-pair",
+    parameters: [
+      { name: "dest", label: "number-pair", type: "number-pair?" }
+    ],
+    documentation: "A dotted line."
+  },
+  {
+    name: "draw-hline",
+    kind: "markup-command",
+    signature: "\\draw-hline",
+    parameters: [],
+    documentation: "Draws a line across a page, where the property `span-factor` controls what fraction of the page is taken up."
+  },
+  {
+    name: "draw-line",
+    kind: "markup-command",
+    signature: "\\draw-line number-pair",
+    parameters: [
+      { name: "dest", label: "number-pair", type: "number-pair?" }
+    ],
+    documentation: "A simple line."
+  },
+  {
+    name: "draw-squiggle-line",
+    kind: "markup-command",
+    signature: "\\draw-squiggle-line number number-pair boolean",
+    parameters: [
+      { name: "sq-length", label: "number", type: "number?" },
+      { name: "dest", label: "number-pair", type: "number-pair?" },
+      { name: "eq-end?", label: "boolean", type: "boolean?" }
+    ],
+    documentation: "A squiggle line."
+  },
+  {
+    name: "dropNote",
+    kind: "music-function",
+    signature: "\\dropNote integer music",
+    parameters: [
+      { name: "num", label: "integer", type: "integer?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Drop a note of any chords in `music`, in `num` position from above."
+  },
+  {
+    name: "drummode",
+    kind: "keyword",
+    signature: "\\drummode music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Enter percussion using drum names such as `bd` and `sn`."
+  },
+  {
+    name: "drums",
+    kind: "keyword",
+    signature: "\\drums music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Drum mode music in a new `DrumStaff`."
+  },
+  {
+    name: "dynamic",
+    kind: "markup-command",
+    signature: "\\dynamic markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Use the dynamic font. This font only contains s, f, m, z, p, and r."
+  },
+  {
+    name: "dynamicDown",
+    kind: "identifier",
+    signature: "\\dynamicDown",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "dynamicNeutral",
+    kind: "identifier",
+    signature: "\\dynamicNeutral",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "dynamicUp",
+    kind: "identifier",
+    signature: "\\dynamicUp",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "easyHeadsOff",
+    kind: "identifier",
+    signature: "\\easyHeadsOff",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "easyHeadsOn",
+    kind: "identifier",
+    signature: "\\easyHeadsOn",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "ellipse",
+    kind: "markup-command",
+    signature: "\\ellipse markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Draw an ellipse around `arg`."
+  },
+  {
+    name: "endcr",
+    kind: "identifier",
+    signature: "\\endcr",
+    parameters: [],
+    documentation: "`#(make-span-event 'CrescendoEvent STOP)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "enddecr",
+    kind: "identifier",
+    signature: "\\enddecr",
+    parameters: [],
+    documentation: "`#(make-span-event 'DecrescendoEvent STOP)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "endSpanners",
+    kind: "music-function",
+    signature: "\\endSpanners music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Terminate the next spanner prematurely after exactly one note without the need of a specific end spanner."
+  },
+  {
+    name: "epsfile",
+    kind: "markup-command",
+    signature: "\\epsfile number number string",
+    parameters: [
+      { name: "axis", label: "number", type: "number?" },
+      { name: "size", label: "number", type: "number?" },
+      { name: "file-name", label: "string", type: "string?" }
+    ],
+    documentation: "Inline an EPS image. The image is scaled along `axis` to `size`."
+  },
+  {
+    name: "espressivo",
+    kind: "identifier",
+    signature: "\\espressivo",
+    parameters: [],
+    documentation: "`#(make-articulation 'espressivo)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "etc",
+    kind: "keyword",
+    signature: "\\etc",
+    parameters: [],
+    documentation: "Placeholder for the remaining arguments when defining a function by partial application."
+  },
+  {
+    name: "eventChords",
+    kind: "music-function",
+    signature: "\\eventChords music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Compatibility function wrapping `EventChord` around isolated rhythmic events occurring since version 2.15.28, after expanding repeat chords `q`."
+  },
+  {
+    name: "expandEmptyMeasures",
+    kind: "identifier",
+    signature: "\\expandEmptyMeasures",
+    parameters: [],
+    documentation: "`\\set Score.skipBars = ##f`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "eyeglasses",
+    kind: "markup-command",
+    signature: "\\eyeglasses",
+    parameters: [],
+    documentation: "Prints out eyeglasses, indicating strongly to look at the conductor."
+  },
+  {
+    name: "f",
+    kind: "identifier",
+    signature: "\\f",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"f\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "featherDurations",
+    kind: "music-function",
+    signature: "\\featherDurations scale music",
+    parameters: [
+      { name: "scale", label: "scale", type: "scale?" },
+      { name: "argument", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Adjust durations of music in `argument` by rational factor `scale`."
+  },
+  {
+    name: "fermata",
+    kind: "identifier",
+    signature: "\\fermata",
+    parameters: [],
+    documentation: "`#(make-articulation 'fermata)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "fermata",
+    kind: "markup-command",
+    signature: "\\fermata",
+    parameters: [],
+    documentation: "Create a fermata glyph."
+  },
+  {
+    name: "ff",
+    kind: "identifier",
+    signature: "\\ff",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"ff\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "fff",
+    kind: "identifier",
+    signature: "\\fff",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"fff\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "ffff",
+    kind: "identifier",
+    signature: "\\ffff",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"ffff\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "fffff",
+    kind: "identifier",
+    signature: "\\fffff",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"fffff\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "figuremode",
+    kind: "keyword",
+    signature: "\\figuremode music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Enter figured bass, e.g. `<6 4>`."
+  },
+  {
+    name: "figures",
+    kind: "keyword",
+    signature: "\\figures music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Figure mode music in a new `FiguredBass` context."
+  },
+  {
+    name: "fill-line",
+    kind: "markup-command",
+    signature: "\\fill-line markup-list",
+    parameters: [
+      { name: "args", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Put `markups` in a horizontal line of width `line-width`. The markups are spaced or flushed to fill the entire line. If there are no arguments, return an empty stencil."
+  },
+  {
+    name: "fill-with-pattern",
+    kind: "markup-command",
+    signature: "\\fill-with-pattern number dir markup markup markup",
+    parameters: [
+      { name: "space", label: "number", type: "number?" },
+      { name: "dir", label: "dir", type: "ly:dir?" },
+      { name: "pattern", label: "markup", type: "markup?" },
+      { name: "left", label: "markup", type: "markup?" },
+      { name: "right", label: "markup", type: "markup?" }
+    ],
+    documentation: "Put `left` and `right` in a horizontal line of width `line-width` with a line of markups `pattern` in between."
+  },
+  {
+    name: "fine",
+    kind: "music-function",
+    signature: "\\fine",
+    parameters: [],
+    documentation: "Create a `FineEvent`, marking the point where the music ends after repeats, and a final bar line."
+  },
+  {
+    name: "finger",
+    kind: "event-function",
+    signature: "\\finger index-or-markup",
+    parameters: [
+      { name: "finger", label: "index-or-markup", type: "index-or-markup?" }
+    ],
+    documentation: "Apply `finger` as a fingering indication."
+  },
+  {
+    name: "finger",
+    kind: "markup-command",
+    signature: "\\finger markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set `arg` as small numbers."
+  },
+  {
+    name: "first-visible",
+    kind: "markup-command",
+    signature: "\\first-visible markup-list",
+    parameters: [
+      { name: "args", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Use the first markup in `args` that yields a non-empty stencil and ignore the rest."
+  },
+  {
+    name: "fixed",
+    kind: "music-function",
+    signature: "\\fixed pitch music",
+    parameters: [
+      { name: "pitch", label: "pitch", type: "ly:pitch?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Use the octave of `pitch` as the default octave for `music`."
+  },
+  {
+    name: "flageolet",
+    kind: "identifier",
+    signature: "\\flageolet",
+    parameters: [],
+    documentation: "`#(make-articulation 'flageolet)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "flat",
+    kind: "markup-command",
+    signature: "\\flat",
+    parameters: [],
+    documentation: "Draw a flat symbol."
+  },
+  {
+    name: "fontCaps",
+    kind: "markup-command",
+    signature: "\\fontCaps markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set `font-shape` to `caps`"
+  },
+  {
+    name: "fontsize",
+    kind: "markup-command",
+    signature: "\\fontsize number markup",
+    parameters: [
+      { name: "increment", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Add `increment` to the font-size. Adjusts `baseline-skip` accordingly."
+  },
+  {
+    name: "footnote",
+    kind: "markup-command",
+    signature: "\\footnote markup markup",
+    parameters: [
+      { name: "mkup", label: "markup", type: "markup?" },
+      { name: "note", label: "markup", type: "markup?" }
+    ],
+    documentation: "Have footnote `note` act as an annotation to the markup `mkup`."
+  },
+  {
+    name: "footnote",
+    kind: "music-function",
+    signature: "\\footnote [markup] number-pair markup symbol-list-or-music",
+    parameters: [
+      { name: "mark", label: "markup", type: "markup?", optional: true },
+      { name: "offset", label: "number-pair", type: "number-pair?" },
+      { name: "footnote", label: "markup", type: "markup?" },
+      { name: "item", label: "symbol-list-or-music", type: "symbol-list-or-music?" }
+    ],
+    documentation: "Make the markup `footnote` a footnote on `item`. The footnote is marked with a markup `mark` moved by `offset` with respect to the marked music.\n\nIf `mark` is not given or specified as `\\default`, it is replaced by an automatically generated sequence number. If `item` is a symbol list of form `Grob` or `Context.Grob`, then grobs of that type will be marked at the current time step in the given context (default `Bottom`).\n\nIf `item` is music, the music will get a footnote attached to a grob immediately attached to the event, like `\\tweak` does. For attaching a footnote to an _indirectly_ caused grob, use `\\footnote #'(0 . 0) \"text\" Staff.NoteHead`."
+  },
+  {
+    name: "fp",
+    kind: "identifier",
+    signature: "\\fp",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"fp\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "fraction",
+    kind: "markup-command",
+    signature: "\\fraction markup markup",
+    parameters: [
+      { name: "arg1", label: "markup", type: "markup?" },
+      { name: "arg2", label: "markup", type: "markup?" }
+    ],
+    documentation: "Make a fraction of two markups."
+  },
+  {
+    name: "frenchChords",
+    kind: "identifier",
+    signature: "\\frenchChords",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "fret-diagram",
+    kind: "markup-command",
+    signature: "\\fret-diagram string",
+    parameters: [
+      { name: "definition-string", label: "string", type: "string?" }
+    ],
+    documentation: "Make a (guitar) fret diagram."
+  },
+  {
+    name: "fret-diagram-terse",
+    kind: "markup-command",
+    signature: "\\fret-diagram-terse string",
+    parameters: [
+      { name: "definition-string", label: "string", type: "string?" }
+    ],
+    documentation: "Make a fret diagram markup using terse string-based syntax."
+  },
+  {
+    name: "fret-diagram-verbose",
+    kind: "markup-command",
+    signature: "\\fret-diagram-verbose pair",
+    parameters: [
+      { name: "marking-list", label: "pair", type: "pair?" }
+    ],
+    documentation: "Make a fret diagram containing the symbols indicated in `marking-list`."
+  },
+  {
+    name: "fromproperty",
+    kind: "markup-command",
+    signature: "\\fromproperty symbol",
+    parameters: [
+      { name: "symbol", label: "symbol", type: "symbol?" }
+    ],
+    documentation: "Read the `symbol` from property settings, and produce a stencil from the markup contained within. If `symbol` is not defined, it returns an empty markup."
+  },
+  {
+    name: "funkHeads",
+    kind: "identifier",
+    signature: "\\funkHeads",
+    parameters: [],
+    documentation: "`\\set shapeNoteStyles = ##(doFunk reFunk miFunk faFunk solFunk laFunk tiFunk)`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "general-align",
+    kind: "markup-command",
+    signature: "\\general-align integer number markup",
+    parameters: [
+      { name: "axis", label: "integer", type: "integer?" },
+      { name: "dir", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Align `arg` in `axis` direction to the `dir` side."
+  },
+  {
+    name: "germanChords",
+    kind: "identifier",
+    signature: "\\germanChords",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "glissando",
+    kind: "identifier",
+    signature: "\\glissando",
+    parameters: [],
+    documentation: "`#(make-music 'GlissandoEvent)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "grace",
+    kind: "music-function",
+    signature: "\\grace music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Insert `music` as grace notes."
+  },
+  {
+    name: "grobdescriptions",
+    kind: "scheme-function",
+    signature: "\\grobdescriptions list",
+    parameters: [
+      { name: "descriptions", label: "list", type: "list?" }
+    ],
+    documentation: "Create a context modification from `descriptions`, a list in the format of `all-grob-descriptions`."
+  },
+  {
+    name: "halfopen",
+    kind: "identifier",
+    signature: "\\halfopen",
+    parameters: [],
+    documentation: "`#(make-articulation 'halfopen)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "halign",
+    kind: "markup-command",
+    signature: "\\halign number markup",
+    parameters: [
+      { name: "dir", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set horizontal alignment. If `dir` is `-1`, then it is left-aligned, while `+1` is right. Values in between interpolate alignment accordingly."
+  },
+  {
+    name: "harmonic",
+    kind: "identifier",
+    signature: "\\harmonic",
+    parameters: [],
+    documentation: "`#(make-music 'HarmonicEvent)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "harmonicByFret",
+    kind: "music-function",
+    signature: "\\harmonicByFret number music",
+    parameters: [
+      { name: "fret", label: "number", type: "number?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Convert `music` into mixed harmonics; the resulting notes resemble harmonics played on a fretted instrument by touching the strings at `fret`."
+  },
+  {
+    name: "harmonicByRatio",
+    kind: "music-function",
+    signature: "\\harmonicByRatio number music",
+    parameters: [
+      { name: "ratio", label: "number", type: "number?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Convert `music` into mixed harmonics; the resulting notes resemble harmonics played on a fretted instrument by touching the strings at the point given through `ratio`."
+  },
+  {
+    name: "harmonicNote",
+    kind: "music-function",
+    signature: "\\harmonicNote music",
+    parameters: [
+      { name: "note", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Print `note` with a diamond-shaped note head."
+  },
+  {
+    name: "harmonicsOff",
+    kind: "identifier",
+    signature: "\\harmonicsOff",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "harmonicsOn",
+    kind: "identifier",
+    signature: "\\harmonicsOn",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "harp-pedal",
+    kind: "markup-command",
+    signature: "\\harp-pedal string",
+    parameters: [
+      { name: "definition-string", label: "string", type: "string?" }
+    ],
+    documentation: "Make a harp pedal diagram."
+  },
+  {
+    name: "haydnturn",
+    kind: "identifier",
+    signature: "\\haydnturn",
+    parameters: [],
+    documentation: "`#(make-articulation 'haydnturn)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "hbracket",
+    kind: "markup-command",
+    signature: "\\hbracket markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Draw horizontal brackets around `arg`."
+  },
+  {
+    name: "hcenter-in",
+    kind: "markup-command",
+    signature: "\\hcenter-in number markup",
+    parameters: [
+      { name: "length", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Center `arg` horizontally within a box of extending `length`/2 to the left and right."
+  },
+  {
+    name: "header",
+    kind: "keyword",
+    signature: "\\header { ... }",
+    parameters: [],
+    documentation: "Set title, composer, tagline and other metadata fields."
+  },
+  {
+    name: "henzelongfermata",
+    kind: "identifier",
+    signature: "\\henzelongfermata",
+    parameters: [],
+    documentation: "`#(make-articulation 'henzelongfermata)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "henzeshortfermata",
+    kind: "identifier",
+    signature: "\\henzeshortfermata",
+    parameters: [],
+    documentation: "`#(make-articulation 'henzeshortfermata)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "hide",
+    kind: "music-function",
+    signature: "\\hide symbol-list-or-music",
+    parameters: [
+      { name: "item", label: "symbol-list-or-music", type: "symbol-list-or-music?" }
+    ],
+    documentation: "Set `item`'s `transparent` property to `#t`, making it invisible while still retaining its dimensions.\n\nIf `item` is a symbol list of form `GrobName` or `Context.GrobName`, the result is an override for the grob name specified by it. If `item` is a music expression, the result is the same music expression with an appropriate tweak applied to it."
+  },
+  {
+    name: "hideNotes",
+    kind: "identifier",
+    signature: "\\hideNotes",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "hideStaffSwitch",
+    kind: "identifier",
+    signature: "\\hideStaffSwitch",
+    parameters: [],
+    documentation: "`\\set followVoice = ##f`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "hspace",
+    kind: "markup-command",
+    signature: "\\hspace number",
+    parameters: [
+      { name: "amount", label: "number", type: "number?" }
+    ],
+    documentation: "Create an invisible object taking up horizontal space `amount`."
+  },
+  {
+    name: "huge",
+    kind: "identifier",
+    signature: "\\huge",
+    parameters: [],
+    documentation: "`\\set fontSize = #2`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "huge",
+    kind: "markup-command",
+    signature: "\\huge markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set font size to +2."
+  },
+  {
+    name: "improvisationOff",
+    kind: "identifier",
+    signature: "\\improvisationOff",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "improvisationOn",
+    kind: "identifier",
+    signature: "\\improvisationOn",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "incipit",
+    kind: "music-function",
+    signature: "\\incipit music",
+    parameters: [
+      { name: "incipit-music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Output `incipit-music` before the main staff as an incipit."
+  },
+  {
+    name: "include",
+    kind: "keyword",
+    signature: "\\include file",
+    parameters: [
+      { name: "file", label: "file", type: "string?" }
+    ],
+    documentation: "Include another LilyPond file, e.g. `\\include \"common.ily\"`."
+  },
+  {
+    name: "inherit-acceptability",
+    kind: "void-function",
+    signature: "\\inherit-acceptability symbol symbol",
+    parameters: [
+      { name: "to", label: "symbol", type: "symbol?" },
+      { name: "from", label: "symbol", type: "symbol?" }
+    ],
+    documentation: "When used in an output definition, will modify all context definitions such that context `to` is accepted as a child by all contexts that also accept `from`."
+  },
+  {
+    name: "inStaffSegno",
+    kind: "music-function",
+    signature: "\\inStaffSegno",
+    parameters: [],
+    documentation: "Put the segno variant \"varsegno\" at this position into the staff, compatible with the repeat command."
+  },
+  {
+    name: "instrumentSwitch",
+    kind: "music-function",
+    signature: "\\instrumentSwitch string",
+    parameters: [
+      { name: "name", label: "string", type: "string?" }
+    ],
+    documentation: "Switch instrument to `name`, which must be predefined with `\\addInstrumentDefinition`."
+  },
+  {
+    name: "inversion",
+    kind: "music-function",
+    signature: "\\inversion pitch pitch music",
+    parameters: [
+      { name: "around", label: "pitch", type: "ly:pitch?" },
+      { name: "to", label: "pitch", type: "ly:pitch?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Invert `music` about `around` and transpose from `around` to `to`."
+  },
+  {
+    name: "invertChords",
+    kind: "music-function",
+    signature: "\\invertChords integer music",
+    parameters: [
+      { name: "num", label: "integer", type: "integer?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Invert any chords in `music` into their `num`-th position. (Chord inversions may be directed downwards using negative integers.)"
+  },
+  {
+    name: "ionian",
+    kind: "identifier",
+    signature: "\\ionian",
+    parameters: [],
+    documentation: "`#`((0 . 0) (1 . 0) (2 . 0) (3 . 0) (4 . 0) (5 . 0) (6 . 0))`\n\nPredefined in `ly/scale-definitions-init.ly`."
+  },
+  {
+    name: "italianChords",
+    kind: "identifier",
+    signature: "\\italianChords",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "italic",
+    kind: "markup-command",
+    signature: "\\italic markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Use italic `font-shape` for `arg`."
+  },
+  {
+    name: "jump",
+    kind: "music-function",
+    signature: "\\jump markup",
+    parameters: [
+      { name: "text", label: "markup", type: "markup?" }
+    ],
+    documentation: "Mark a point of departure, e.g., \"Gavotte I D.C.\"."
+  },
+  {
+    name: "justify",
+    kind: "markup-command",
+    signature: "\\justify markup-list",
+    parameters: [
+      { name: "args", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Like `\\wordwrap`, but with lines stretched to justify the margins. Use `\\override #'(line-width . X`) to set the line width; `X` is the number of staff spaces."
+  },
+  {
+    name: "justify-field",
+    kind: "markup-command",
+    signature: "\\justify-field symbol",
+    parameters: [
+      { name: "symbol", label: "symbol", type: "symbol?" }
+    ],
+    documentation: "Justify the data which has been assigned to `symbol`."
+  },
+  {
+    name: "justify-string",
+    kind: "markup-command",
+    signature: "\\justify-string string",
+    parameters: [
+      { name: "arg", label: "string", type: "string?" }
+    ],
+    documentation: "Justify a string. Paragraphs may be separated with double newlines"
+  },
+  {
+    name: "keepWithTag",
+    kind: "music-function",
+    signature: "\\keepWithTag symbol-list-or-symbol music",
+    parameters: [
+      { name: "tags", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Include only elements of `music` that are tagged with one of the tags in `tags`. `tags` may be either a single symbol or a list of symbols.\n\nEach tag may be declared as a member of at most one tag group (defined with `\\tagGroup`). If none of a `music` element's tags share a tag group with one of the specified `tags`, the element is retained."
+  },
+  {
+    name: "key",
+    kind: "music-function",
+    signature: "\\key [pitch] [list-or-symbol]",
+    parameters: [
+      { name: "tonic", label: "pitch", type: "ly:pitch?", optional: true },
+      { name: "pitch-alist", label: "list-or-symbol", type: "list-or-symbol?", optional: true }
+    ],
+    documentation: "Set key to `tonic` and scale `pitch-alist`. If both are null, just generate `KeyChangeEvent`."
+  },
+  {
+    name: "killCues",
+    kind: "music-function",
+    signature: "\\killCues music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Remove cue notes from `music`."
+  },
+  {
+    name: "label",
+    kind: "music-function",
+    signature: "\\label symbol",
+    parameters: [
+      { name: "label", label: "symbol", type: "symbol?" }
+    ],
+    documentation: "Create `label` as a referrable label."
+  },
+  {
+    name: "laissezVibrer",
+    kind: "identifier",
+    signature: "\\laissezVibrer",
+    parameters: [],
+    documentation: "`#(make-music 'LaissezVibrerEvent)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "language",
+    kind: "void-function",
+    signature: "\\language string",
+    parameters: [
+      { name: "language", label: "string", type: "string?" }
+    ],
+    documentation: "Set note names for language `language`."
+  },
+  {
+    name: "languageRestore",
+    kind: "void-function",
+    signature: "\\languageRestore",
+    parameters: [],
+    documentation: "Restore a previously-saved pitchnames alist."
+  },
+  {
+    name: "languageSaveAndChange",
+    kind: "void-function",
+    signature: "\\languageSaveAndChange string",
+    parameters: [
+      { name: "language", label: "string", type: "string?" }
+    ],
+    documentation: "Store the previous pitchnames alist, and set a new one."
+  },
+  {
+    name: "large",
+    kind: "identifier",
+    signature: "\\large",
+    parameters: [],
+    documentation: "`\\set fontSize = #1`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "large",
+    kind: "markup-command",
+    signature: "\\large markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set font size to +1."
+  },
+  {
+    name: "larger",
+    kind: "markup-command",
+    signature: "\\larger markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Increase the font size relative to the current setting."
+  },
+  {
+    name: "layout",
+    kind: "keyword",
+    signature: "\\layout { ... }",
+    parameters: [],
+    documentation: "Configure engraving and layout options for a score."
+  },
+  {
+    name: "left-align",
+    kind: "markup-command",
+    signature: "\\left-align markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Align `arg` on its left edge."
+  },
+  {
+    name: "left-brace",
+    kind: "markup-command",
+    signature: "\\left-brace number",
+    parameters: [
+      { name: "size", label: "number", type: "number?" }
+    ],
+    documentation: "A feta brace in point size `size`."
+  },
+  {
+    name: "left-column",
+    kind: "markup-command",
+    signature: "\\left-column markup-list",
+    parameters: [
+      { name: "args", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Put `args` in a left-aligned column."
+  },
+  {
+    name: "lheel",
+    kind: "identifier",
+    signature: "\\lheel",
+    parameters: [],
+    documentation: "`#(make-articulation 'lheel)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "line",
+    kind: "markup-command",
+    signature: "\\line markup-list",
+    parameters: [
+      { name: "args", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Put `args` in a horizontal line. The property `word-space` determines the space between markups in `args`."
+  },
+  {
+    name: "lineprall",
+    kind: "identifier",
+    signature: "\\lineprall",
+    parameters: [],
+    documentation: "`#(make-articulation 'lineprall)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "locrian",
+    kind: "identifier",
+    signature: "\\locrian",
+    parameters: [],
+    documentation: "`#(ly:transpose-key-alist minor (ly:make-pitch 0 6 0))`\n\nPredefined in `ly/scale-definitions-init.ly`."
+  },
+  {
+    name: "longfermata",
+    kind: "identifier",
+    signature: "\\longfermata",
+    parameters: [],
+    documentation: "`#(make-articulation 'longfermata)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "lower",
+    kind: "markup-command",
+    signature: "\\lower number markup",
+    parameters: [
+      { name: "amount", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Lower `arg` by the distance `amount`. A negative `amount` indicates raising; see also `\\raise`."
+  },
+  {
+    name: "ltoe",
+    kind: "identifier",
+    signature: "\\ltoe",
+    parameters: [],
+    documentation: "`#(make-articulation 'ltoe)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "lydian",
+    kind: "identifier",
+    signature: "\\lydian",
+    parameters: [],
+    documentation: "`#(ly:transpose-key-alist major (ly:make-pitch 0 3 0))`\n\nPredefined in `ly/scale-definitions-init.ly`."
+  },
+  {
+    name: "lyricmode",
+    kind: "keyword",
+    signature: "\\lyricmode music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Enter lyric syllables, hyphens and extenders."
+  },
+  {
+    name: "lyrics",
+    kind: "keyword",
+    signature: "\\lyrics music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Lyric mode music in a new `Lyrics` context."
+  },
+  {
+    name: "lyricsto",
+    kind: "keyword",
+    signature: "\\lyricsto voice lyrics",
+    parameters: [
+      { name: "voice", label: "voice", type: "string?" },
+      { name: "lyrics", label: "lyrics", type: "ly:music?" }
+    ],
+    documentation: "Align lyrics to the notes of a named voice."
+  },
+  {
+    name: "magnify",
+    kind: "markup-command",
+    signature: "\\magnify number markup",
+    parameters: [
+      { name: "sz", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set the font magnification for its argument."
+  },
+  {
+    name: "magnifyMusic",
+    kind: "music-function",
+    signature: "\\magnifyMusic positive music",
+    parameters: [
+      { name: "mag", label: "positive", type: "positive?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Magnify the notation of `music` without changing the staff-size, using `mag` as a size factor. Stems, beams, slurs, ties, and horizontal spacing are adjusted automatically."
+  },
+  {
+    name: "magnifyStaff",
+    kind: "music-function",
+    signature: "\\magnifyStaff positive",
+    parameters: [
+      { name: "mag", label: "positive", type: "positive?" }
+    ],
+    documentation: "Change the size of the staff, adjusting notation size and horizontal spacing accordingly."
+  },
+  {
+    name: "major",
+    kind: "identifier",
+    signature: "\\major",
+    parameters: [],
+    documentation: "`#`((0 . 0) (1 . 0) (2 . 0) (3 . 0) (4 . 0) (5 . 0) (6 . 0))`\n\nPredefined in `ly/scale-definitions-init.ly`."
+  },
+  {
+    name: "makeClusters",
+    kind: "music-function",
+    signature: "\\makeClusters music",
+    parameters: [
+      { name: "arg", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Display chords in `arg` as clusters."
+  },
+  {
+    name: "makeDefaultStringTuning",
+    kind: "void-function",
+    signature: "\\makeDefaultStringTuning symbol list",
+    parameters: [
+      { name: "symbol", label: "symbol", type: "symbol?" },
+      { name: "pitches", label: "list", type: "list?" }
+    ],
+    documentation: "Define a string tuning `symbol` via a list of `pitches`. The `symbol` also gets registered in `defaultStringTunings` for documentation purposes."
+  },
+  {
+    name: "marcato",
+    kind: "identifier",
+    signature: "\\marcato",
+    parameters: [],
+    documentation: "`#(make-articulation 'marcato)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "mark",
+    kind: "music-function",
+    signature: "\\mark [index-or-markup]",
+    parameters: [
+      { name: "label", label: "index-or-markup", type: "index-or-markup?", optional: true }
+    ],
+    documentation: "Create a rehearsal mark. If `label` is an integer, create the rehearsal mark for the given sequence number. If `label` is `\\default`, create the next sequential rehearsal mark. If `label` is markup, use it for the mark."
+  },
+  {
+    name: "markalphabet",
+    kind: "markup-command",
+    signature: "\\markalphabet integer",
+    parameters: [
+      { name: "num", label: "integer", type: "integer?" }
+    ],
+    documentation: "Make a markup letter for `num`. The letters start with A to Z and continue with double letters."
+  },
+  {
+    name: "markLengthOff",
+    kind: "identifier",
+    signature: "\\markLengthOff",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "markLengthOn",
+    kind: "identifier",
+    signature: "\\markLengthOn",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "markletter",
+    kind: "markup-command",
+    signature: "\\markletter integer",
+    parameters: [
+      { name: "num", label: "integer", type: "integer?" }
+    ],
+    documentation: "Make a markup letter for `num`. The letters start with A to Z (skipping letter I), and continue with double letters."
+  },
+  {
+    name: "markup",
+    kind: "keyword",
+    signature: "\\markup markup",
+    parameters: [
+      { name: "markup", label: "markup", type: "markup?" }
+    ],
+    documentation: "Formatted text, e.g. `\\markup \\bold \"Allegro\"`."
+  },
+  {
+    name: "markuplist",
+    kind: "keyword",
+    signature: "\\markuplist markups",
+    parameters: [
+      { name: "markups", label: "markups", type: "markup-list?" }
+    ],
+    documentation: "List of markups that can break across pages."
+  },
+  {
+    name: "markupMap",
+    kind: "music-function",
+    signature: "\\markupMap symbol-list-or-symbol markup-function music",
+    parameters: [
+      { name: "path", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?" },
+      { name: "markupfun", label: "markup-function", type: "markup-function?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "This applies the given markup function `markupfun` to all markup music properties matching `path` in `music`.\n\nFor example,\n\n```lilypond\n\\new Voice { g'2 c'' }\n\\addlyrics {\n  \\markupMap LyricEvent.text\n             \\markup \\with-color #red \\etc\n             { Oh yes! }\n}\n```"
+  },
+  {
+    name: "medium",
+    kind: "markup-command",
+    signature: "\\medium markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Switch to medium font-series (in contrast to bold)."
+  },
+  {
+    name: "melisma",
+    kind: "identifier",
+    signature: "\\melisma",
+    parameters: [],
+    documentation: "`#(context-spec-music (make-property-set 'melismaBusy #t) 'Bottom)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "melismaEnd",
+    kind: "identifier",
+    signature: "\\melismaEnd",
+    parameters: [],
+    documentation: "`#(context-spec-music (make-property-unset 'melismaBusy) 'Bottom)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "mergeDifferentlyDottedOff",
+    kind: "identifier",
+    signature: "\\mergeDifferentlyDottedOff",
+    parameters: [],
+    documentation: "`\\revert Staff.NoteCollision.merge-differently-dotted`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "mergeDifferentlyDottedOn",
+    kind: "identifier",
+    signature: "\\mergeDifferentlyDottedOn",
+    parameters: [],
+    documentation: "`\\override Staff.NoteCollision.merge-differently-dotted = ##t`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "mergeDifferentlyHeadedOff",
+    kind: "identifier",
+    signature: "\\mergeDifferentlyHeadedOff",
+    parameters: [],
+    documentation: "`\\revert Staff.NoteCollision.merge-differently-headed`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "mergeDifferentlyHeadedOn",
+    kind: "identifier",
+    signature: "\\mergeDifferentlyHeadedOn",
+    parameters: [],
+    documentation: "`\\override Staff.NoteCollision.merge-differently-headed = ##t`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "mf",
+    kind: "identifier",
+    signature: "\\mf",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"mf\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "midi",
+    kind: "keyword",
+    signature: "\\midi { ... }",
+    parameters: [],
+    documentation: "Configure MIDI output."
+  },
+  {
+    name: "minor",
+    kind: "identifier",
+    signature: "\\minor",
+    parameters: [],
+    documentation: "`#`((0 . 0) (1 . 0) (2 . ,FLAT) (3 . 0) (4 . 0) (5 . ,FLAT) (6 . ,FLAT))`\n\nPredefined in `ly/scale-definitions-init.ly`."
+  },
+  {
+    name: "mixolydian",
+    kind: "identifier",
+    signature: "\\mixolydian",
+    parameters: [],
+    documentation: "`#(ly:transpose-key-alist major (ly:make-pitch 0 4 0))`\n\nPredefined in `ly/scale-definitions-init.ly`."
+  },
+  {
+    name: "modalInversion",
+    kind: "music-function",
+    signature: "\\modalInversion pitch pitch music music",
+    parameters: [
+      { name: "around", label: "pitch", type: "ly:pitch?" },
+      { name: "to", label: "pitch", type: "ly:pitch?" },
+      { name: "scale", label: "music", type: "ly:music?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Invert `music` about `around` using `scale` and transpose from `around` to `to`."
+  },
+  {
+    name: "modalTranspose",
+    kind: "music-function",
+    signature: "\\modalTranspose pitch pitch music music",
+    parameters: [
+      { name: "from", label: "pitch", type: "ly:pitch?" },
+      { name: "to", label: "pitch", type: "ly:pitch?" },
+      { name: "scale", label: "music", type: "ly:music?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Transpose `music` from pitch `from` to pitch `to` using `scale`."
+  },
+  {
+    name: "mordent",
+    kind: "identifier",
+    signature: "\\mordent",
+    parameters: [],
+    documentation: "`#(make-articulation 'mordent)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "mp",
+    kind: "identifier",
+    signature: "\\mp",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"mp\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "musicglyph",
+    kind: "markup-command",
+    signature: "\\musicglyph string",
+    parameters: [
+      { name: "glyph-name", label: "string", type: "string?" }
+    ],
+    documentation: "`glyph-name` is converted to a musical symbol; for example, @code{\\musicglyph #"
+  },
+  {
+    name: "musicMap",
+    kind: "music-function",
+    signature: "\\musicMap procedure music",
+    parameters: [
+      { name: "proc", label: "procedure", type: "procedure?" },
+      { name: "mus", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Apply `proc` to `mus` and all of the music it contains."
+  },
+  {
+    name: "n",
+    kind: "identifier",
+    signature: "\\n",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"n\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "name",
+    kind: "keyword",
+    signature: "\\name context",
+    parameters: [
+      { name: "context", label: "context", type: "string?" }
+    ],
+    documentation: "Name of the context being defined."
+  },
+  {
+    name: "natural",
+    kind: "markup-command",
+    signature: "\\natural",
+    parameters: [],
+    documentation: "Draw a natural symbol."
+  },
+  {
+    name: "new",
+    kind: "keyword",
+    signature: "\\new context [= id] [with] music",
+    parameters: [
+      { name: "context", label: "context", type: "string?" },
+      { name: "id", label: "id", type: "string?", optional: true },
+      { name: "with", label: "with", type: "ly:context-mod?", optional: true },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Create a new context such as `Staff`, `Voice`, `Lyrics` or `PianoStaff`."
+  },
+  {
+    name: "noBeam",
+    kind: "identifier",
+    signature: "\\noBeam",
+    parameters: [],
+    documentation: "`#(make-music 'BeamForbidEvent)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "noBreak",
+    kind: "identifier",
+    signature: "\\noBreak",
+    parameters: [],
+    documentation: "`#(make-music 'LineBreakEvent 'break-permission '())`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "noPageBreak",
+    kind: "music-function",
+    signature: "\\noPageBreak",
+    parameters: [],
+    documentation: "Forbid a page break. May be used at toplevel (i.e., between scores or markups), or inside a score."
+  },
+  {
+    name: "noPageTurn",
+    kind: "music-function",
+    signature: "\\noPageTurn",
+    parameters: [],
+    documentation: "Forbid a page turn. May be used at toplevel (i.e., between scores or markups), or inside a score."
+  },
+  {
+    name: "normal-size-sub",
+    kind: "markup-command",
+    signature: "\\normal-size-sub markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set `arg` in subscript with a normal font size."
+  },
+  {
+    name: "normal-size-super",
+    kind: "markup-command",
+    signature: "\\normal-size-super markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set `arg` in superscript with a normal font size."
+  },
+  {
+    name: "normal-text",
+    kind: "markup-command",
+    signature: "\\normal-text markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set all font related properties (except the size) to get the default normal text font, no matter what font was used earlier."
+  },
+  {
+    name: "normalsize",
+    kind: "identifier",
+    signature: "\\normalsize",
+    parameters: [],
+    documentation: "`\\set fontSize = #0`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "normalsize",
+    kind: "markup-command",
+    signature: "\\normalsize markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set font size to default."
+  },
+  {
+    name: "note",
+    kind: "markup-command",
+    signature: "\\note duration number",
+    parameters: [
+      { name: "duration", label: "duration", type: "ly:duration?" },
+      { name: "dir", label: "number", type: "number?" }
+    ],
+    documentation: "This produces a note with a stem pointing in `dir` direction, with the `duration` for the note head type and augmentation dots."
+  },
+  {
+    name: "note-by-number",
+    kind: "markup-command",
+    signature: "\\note-by-number number number number",
+    parameters: [
+      { name: "log", label: "number", type: "number?" },
+      { name: "dot-count", label: "number", type: "number?" },
+      { name: "dir", label: "number", type: "number?" }
+    ],
+    documentation: "Construct a note symbol, with stem and flag. By using fractional values for `dir`, longer or shorter stems can be obtained."
+  },
+  {
+    name: "notemode",
+    kind: "keyword",
+    signature: "\\notemode music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Enter notes, the default input mode."
+  },
+  {
+    name: "null",
+    kind: "markup-command",
+    signature: "\\null",
+    parameters: [],
+    documentation: "An empty markup with extents of a single point."
+  },
+  {
+    name: "number",
+    kind: "markup-command",
+    signature: "\\number markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set font family to `number`, which yields the font used for time signatures and fingerings."
+  },
+  {
+    name: "numericTimeSignature",
+    kind: "identifier",
+    signature: "\\numericTimeSignature",
+    parameters: [],
+    documentation: "`\\override Staff.TimeSignature.style = #'numbered`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "octaveCheck",
+    kind: "music-function",
+    signature: "\\octaveCheck pitch",
+    parameters: [
+      { name: "pitch", label: "pitch", type: "ly:pitch?" }
+    ],
+    documentation: "Octave check."
+  },
+  {
+    name: "offset",
+    kind: "music-function",
+    signature: "\\offset symbol-list-or-symbol scheme key-list-or-music",
+    parameters: [
+      { name: "property", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?" },
+      { name: "offsets", label: "scheme", type: "scheme?" },
+      { name: "item", label: "key-list-or-music", type: "key-list-or-music?" }
+    ],
+    documentation: "Offset the default value of `property` of `item` by `offsets`. If `item` is a string, the result is `\\override` for the specified grob type. If `item` is a music expression, the result is the same music expression with an appropriate tweak applied."
+  },
+  {
+    name: "omit",
+    kind: "music-function",
+    signature: "\\omit symbol-list-or-music",
+    parameters: [
+      { name: "item", label: "symbol-list-or-music", type: "symbol-list-or-music?" }
+    ],
+    documentation: "Set `item`'s `stencil` property to `#f`, effectively omitting it without taking up space.\n\nIf `item` is a symbol list of form `GrobName` or `Context.GrobName`, the result is an override for the grob name specified by it. If `item` is a music expression, the result is the same music expression with an appropriate tweak applied to it."
+  },
+  {
+    name: "on-the-fly",
+    kind: "markup-command",
+    signature: "\\on-the-fly procedure markup",
+    parameters: [
+      { name: "procedure", label: "procedure", type: "procedure?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Apply the `procedure` markup command to `arg`. `procedure` takes the same arguments as `interpret-markup` and returns a stencil."
+  },
+  {
+    name: "once",
+    kind: "music-function",
+    signature: "\\once music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Set `once` to `#t` on all layout instruction events in `music`. This will complain about music with an actual duration. As a special exception, if `music` contains `tweaks` it will be silently ignored in order to allow for `\\once \\propertyTweak` to work as both one-time override and proper tweak."
+  },
+  {
+    name: "oneVoice",
+    kind: "identifier",
+    signature: "\\oneVoice",
+    parameters: [],
+    documentation: "`#(context-spec-music (make-voice-props-revert) 'Voice)`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "open",
+    kind: "identifier",
+    signature: "\\open",
+    parameters: [],
+    documentation: "`#(make-articulation 'open)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "ottava",
+    kind: "music-function",
+    signature: "\\ottava integer",
+    parameters: [
+      { name: "octave", label: "integer", type: "integer?" }
+    ],
+    documentation: "Set the octavation."
+  },
+  {
+    name: "oval",
+    kind: "markup-command",
+    signature: "\\oval markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Draw an oval around `arg`."
+  },
+  {
+    name: "override",
+    kind: "keyword",
+    signature: "\\override [context.]grob.property = value",
+    parameters: [
+      { name: "grob", label: "grob", type: "symbol-list?" },
+      { name: "value", label: "value", type: "scheme?" }
+    ],
+    documentation: "Set a layout object property, e.g. `\\override Staff.TimeSignature.color = #red`."
+  },
+  {
+    name: "override",
+    kind: "markup-command",
+    signature: "\\override pair markup",
+    parameters: [
+      { name: "new-prop", label: "pair", type: "pair?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Add the argument `new-prop` to the property list. Properties may be any property supported by `font-interface`, `text-interface` and `instrument-specific-markup-interface`."
+  },
+  {
+    name: "overrideProperty",
+    kind: "music-function",
+    signature: "\\overrideProperty key-list scheme",
+    parameters: [
+      { name: "grob-property-path", label: "key-list", type: "key-list?" },
+      { name: "value", label: "scheme", type: "scheme?" }
+    ],
+    documentation: "Set the grob property specified by `grob-property-path` to `value`. `grob-property-path` is a symbol list of the form `Context.GrobName.property` or `GrobName.property`, possibly with subproperties given as well.\n\nAs opposed to `\\override` which overrides the context-dependent defaults with which a grob is created, this command uses `Output_property_engraver` at the grob acknowledge stage. This may be necessary for overriding values set after the initial grob creation."
+  },
+  {
+    name: "overrideTimeSignatureSettings",
+    kind: "music-function",
+    signature: "\\overrideTimeSignatureSettings fraction fraction list list",
+    parameters: [
+      { name: "time-signature", label: "fraction", type: "fraction?" },
+      { name: "base-moment", label: "fraction", type: "fraction?" },
+      { name: "beat-structure", label: "list", type: "list?" },
+      { name: "beam-exceptions", label: "list", type: "list?" }
+    ],
+    documentation: "Override `timeSignatureSettings` for time signatures of `time-signature` to have settings of `base-moment`, `beat-structure`, and `beam-exceptions`."
+  },
+  {
+    name: "overtie",
+    kind: "markup-command",
+    signature: "\\overtie markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Overtie `arg`."
+  },
+  {
+    name: "p",
+    kind: "identifier",
+    signature: "\\p",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"p\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "pad-around",
+    kind: "markup-command",
+    signature: "\\pad-around number markup",
+    parameters: [
+      { name: "amount", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Add padding `amount` all around `arg`."
+  },
+  {
+    name: "pad-markup",
+    kind: "markup-command",
+    signature: "\\pad-markup number markup",
+    parameters: [
+      { name: "amount", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Add space around a markup object. Identical to `pad-around`."
+  },
+  {
+    name: "pad-to-box",
+    kind: "markup-command",
+    signature: "\\pad-to-box number-pair number-pair markup",
+    parameters: [
+      { name: "x-ext", label: "number-pair", type: "number-pair?" },
+      { name: "y-ext", label: "number-pair", type: "number-pair?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Make `arg` take at least `x-ext`, `y-ext` space."
+  },
+  {
+    name: "pad-x",
+    kind: "markup-command",
+    signature: "\\pad-x number markup",
+    parameters: [
+      { name: "amount", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Add padding `amount` around `arg` in the X direction."
+  },
+  {
+    name: "page-link",
+    kind: "markup-command",
+    signature: "\\page-link number markup",
+    parameters: [
+      { name: "page-number", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Add a link to the page `page-number` around `arg`. This only works in the PDF backend."
+  },
+  {
+    name: "page-ref",
+    kind: "markup-command",
+    signature: "\\page-ref symbol markup markup",
+    parameters: [
+      { name: "label", label: "symbol", type: "symbol?" },
+      { name: "gauge", label: "markup", type: "markup?" },
+      { name: "default", label: "markup", type: "markup?" }
+    ],
+    documentation: "Reference to a page number. `label` is the label set on the referenced page (using `\\label` or `\\tocItem`), `gauge` a markup used to estimate the maximum width of the page number, and `default` the value to display when `label` is not found."
+  },
+  {
+    name: "pageBreak",
+    kind: "music-function",
+    signature: "\\pageBreak",
+    parameters: [],
+    documentation: "Force a page break. May be used at toplevel (i.e., between scores or markups), or inside a score."
+  },
+  {
+    name: "pageTurn",
+    kind: "music-function",
+    signature: "\\pageTurn",
+    parameters: [],
+    documentation: "Force a page turn between two scores or top-level markups."
+  },
+  {
+    name: "palmMute",
+    kind: "music-function",
+    signature: "\\palmMute music",
+    parameters: [
+      { name: "note", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Print `note` with a triangle-shaped note head."
+  },
+  {
+    name: "palmMuteOn",
+    kind: "music-function",
+    signature: "\\palmMuteOn",
+    parameters: [],
+    documentation: "Set the default note head style to a triangle-shaped style."
+  },
+  {
+    name: "paper",
+    kind: "keyword",
+    signature: "\\paper { ... }",
+    parameters: [],
+    documentation: "Configure page size, margins and page layout."
+  },
+  {
+    name: "parallelMusic",
+    kind: "void-function",
+    signature: "\\parallelMusic list music",
+    parameters: [
+      { name: "voice-ids", label: "list", type: "list?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Define parallel music sequences, separated by '|' (bar check signs), and assign them to the identifiers provided in `voice-ids`.\n\n`voice-ids`: a list of music identifiers (symbols containing only letters)\n\n`music`: a music sequence, containing BarChecks as limiting expressions.\n\nExample:\n\n```lilypond\n  \\parallelMusic #'(A B C) {\n    c c | d d | e e |\n    d d | e e | f f |\n  }\n<==>\n  A = { c c | d d }\n  B = { d d | e e }\n  C = { e e | f f }\n```\n\nThe last bar checks in a sequence are not copied to the result in order to facilitate ending the last entry at non-bar boundaries."
+  },
+  {
+    name: "parenthesize",
+    kind: "markup-command",
+    signature: "\\parenthesize markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Draw parentheses around `arg`. This is useful for parenthesizing a column containing several lines of text."
+  },
+  {
+    name: "parenthesize",
+    kind: "music-function",
+    signature: "\\parenthesize symbol-list-or-music",
+    parameters: [
+      { name: "arg", label: "symbol-list-or-music", type: "symbol-list-or-music?" }
+    ],
+    documentation: "Tag `arg` to be parenthesized. `arg` may be either a music event or a grob path."
+  },
+  {
+    name: "partCombine",
+    kind: "music-function",
+    signature: "\\partCombine [number-pair] music music",
+    parameters: [
+      { name: "chord-range", label: "number-pair", type: "number-pair?", optional: true },
+      { name: "part1", label: "music", type: "ly:music?" },
+      { name: "part2", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Take the music in `part1` and `part2` and return a music expression containing simultaneous voices, where `part1` and `part2` are combined into one voice where appropriate. Optional `chord-range` sets the distance in steps between notes that may be combined into a chord or unison."
+  },
+  {
+    name: "partCombineApart",
+    kind: "identifier",
+    signature: "\\partCombineApart",
+    parameters: [],
+    documentation: "`\\partCombineForce #'apart`\n\nPredefined in `ly/music-functions-init.ly`."
+  },
+  {
+    name: "partCombineAutomatic",
+    kind: "identifier",
+    signature: "\\partCombineAutomatic",
+    parameters: [],
+    documentation: "`\\partCombineForce \\default`\n\nPredefined in `ly/music-functions-init.ly`."
+  },
+  {
+    name: "partCombineChords",
+    kind: "identifier",
+    signature: "\\partCombineChords",
+    parameters: [],
+    documentation: "`\\partCombineForce #'chords`\n\nPredefined in `ly/music-functions-init.ly`."
+  },
+  {
+    name: "partCombineDown",
+    kind: "music-function",
+    signature: "\\partCombineDown [number-pair] music music",
+    parameters: [
+      { name: "chord-range", label: "number-pair", type: "number-pair?", optional: true },
+      { name: "part1", label: "music", type: "ly:music?" },
+      { name: "part2", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Take the music in `part1` and `part2` and typeset so that they share a staff with stems directed downward."
+  },
+  {
+    name: "partCombineForce",
+    kind: "music-function",
+    signature: "\\partCombineForce [symbol]",
+    parameters: [
+      { name: "type", label: "symbol", type: "symbol?", optional: true }
+    ],
+    documentation: "Override the part-combiner."
+  },
+  {
+    name: "partCombineSoloI",
+    kind: "identifier",
+    signature: "\\partCombineSoloI",
+    parameters: [],
+    documentation: "`\\partCombineForce #'solo1`\n\nPredefined in `ly/music-functions-init.ly`."
+  },
+  {
+    name: "partCombineSoloII",
+    kind: "identifier",
+    signature: "\\partCombineSoloII",
+    parameters: [],
+    documentation: "`\\partCombineForce #'solo2`\n\nPredefined in `ly/music-functions-init.ly`."
+  },
+  {
+    name: "partCombineUnisono",
+    kind: "identifier",
+    signature: "\\partCombineUnisono",
+    parameters: [],
+    documentation: "`\\partCombineForce #'unisono`\n\nPredefined in `ly/music-functions-init.ly`."
+  },
+  {
+    name: "partCombineUp",
+    kind: "music-function",
+    signature: "\\partCombineUp [number-pair] music music",
+    parameters: [
+      { name: "chord-range", label: "number-pair", type: "number-pair?", optional: true },
+      { name: "part1", label: "music", type: "ly:music?" },
+      { name: "part2", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Take the music in `part1` and `part2` and typeset so that they share a staff with stems directed upward."
+  },
+  {
+    name: "partial",
+    kind: "music-function",
+    signature: "\\partial duration",
+    parameters: [
+      { name: "dur", label: "duration", type: "ly:duration?" }
+    ],
+    documentation: "Make a partial measure."
+  },
+  {
+    name: "path",
+    kind: "markup-command",
+    signature: "\\path number list",
+    parameters: [
+      { name: "thickness", label: "number", type: "number?" },
+      { name: "commands", label: "list", type: "list?" }
+    ],
+    documentation: "Draws a path with line `thickness` according to the directions given in `commands`."
+  },
+  {
+    name: "pattern",
+    kind: "markup-command",
+    signature: "\\pattern index index number markup",
+    parameters: [
+      { name: "count", label: "index", type: "index?" },
+      { name: "axis", label: "index", type: "index?" },
+      { name: "space", label: "number", type: "number?" },
+      { name: "pattern", label: "markup", type: "markup?" }
+    ],
+    documentation: "Prints `count` times a `pattern` markup. Patterns are spaced apart by `space` (defined as for `\\hspace` or `\\vspace`, respectively). Patterns are distributed on `axis`."
+  },
+  {
+    name: "phrasingSlurDashed",
+    kind: "identifier",
+    signature: "\\phrasingSlurDashed",
+    parameters: [],
+    documentation: "`\\override PhrasingSlur.dash-definition = #'((0 1 0.4 0.75))`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "phrasingSlurDashPattern",
+    kind: "music-function",
+    signature: "\\phrasingSlurDashPattern number number",
+    parameters: [
+      { name: "dash-fraction", label: "number", type: "number?" },
+      { name: "dash-period", label: "number", type: "number?" }
+    ],
+    documentation: "Set up a custom style of dash pattern for `dash-fraction` ratio of line to space repeated at `dash-period` interval for phrasing slurs."
+  },
+  {
+    name: "phrasingSlurDotted",
+    kind: "identifier",
+    signature: "\\phrasingSlurDotted",
+    parameters: [],
+    documentation: "`\\override PhrasingSlur.dash-definition = #'((0 1 0.1 0.75))`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "phrasingSlurDown",
+    kind: "identifier",
+    signature: "\\phrasingSlurDown",
+    parameters: [],
+    documentation: "`\\override PhrasingSlur.direction = #DOWN`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "phrasingSlurNeutral",
+    kind: "identifier",
+    signature: "\\phrasingSlurNeutral",
+    parameters: [],
+    documentation: "`\\revert PhrasingSlur.direction`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "phrasingSlurSolid",
+    kind: "identifier",
+    signature: "\\phrasingSlurSolid",
+    parameters: [],
+    documentation: "`\\revert PhrasingSlur.dash-definition`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "phrasingSlurUp",
+    kind: "identifier",
+    signature: "\\phrasingSlurUp",
+    parameters: [],
+    documentation: "`\\override PhrasingSlur.direction = #UP`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "phrygian",
+    kind: "identifier",
+    signature: "\\phrygian",
+    parameters: [],
+    documentation: "`#(ly:transpose-key-alist minor (ly:make-pitch 0 1 0))`\n\nPredefined in `ly/scale-definitions-init.ly`."
+  },
+  {
+    name: "pitchedTrill",
+    kind: "music-function",
+    signature: "\\pitchedTrill music music",
+    parameters: [
+      { name: "main-note", label: "music", type: "ly:music?" },
+      { name: "secondary-note", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Print a trill with `main-note` as the main note of the trill and print `secondary-note` as a stemless note head in parentheses."
+  },
+  {
+    name: "pointAndClickOff",
+    kind: "void-function",
+    signature: "\\pointAndClickOff",
+    parameters: [],
+    documentation: "Suppress generating extra code in final-format (e.g. pdf) files to point back to the lilypond source statement."
+  },
+  {
+    name: "pointAndClickOn",
+    kind: "void-function",
+    signature: "\\pointAndClickOn",
+    parameters: [],
+    documentation: "Enable generation of code in final-format (e.g. pdf) files to reference the originating lilypond source statement; this is helpful when developing a score but generates bigger final-format files."
+  },
+  {
+    name: "pointAndClickTypes",
+    kind: "void-function",
+    signature: "\\pointAndClickTypes symbol-list-or-symbol",
+    parameters: [
+      { name: "types", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?" }
+    ],
+    documentation: "Set a type or list of types (such as `#'note-event`) for which point-and-click info is generated."
+  },
+  {
+    name: "portato",
+    kind: "identifier",
+    signature: "\\portato",
+    parameters: [],
+    documentation: "`#(make-articulation 'portato)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "postscript",
+    kind: "markup-command",
+    signature: "\\postscript string",
+    parameters: [
+      { name: "str", label: "string", type: "string?" }
+    ],
+    documentation: "This inserts `str` directly into the output as a PostScript command string."
+  },
+  {
+    name: "pp",
+    kind: "identifier",
+    signature: "\\pp",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"pp\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "ppp",
+    kind: "identifier",
+    signature: "\\ppp",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"ppp\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "pppp",
+    kind: "identifier",
+    signature: "\\pppp",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"pppp\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "ppppp",
+    kind: "identifier",
+    signature: "\\ppppp",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"ppppp\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "prall",
+    kind: "identifier",
+    signature: "\\prall",
+    parameters: [],
+    documentation: "`#(make-articulation 'prall)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "pralldown",
+    kind: "identifier",
+    signature: "\\pralldown",
+    parameters: [],
+    documentation: "`#(make-articulation 'pralldown)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "prallmordent",
+    kind: "identifier",
+    signature: "\\prallmordent",
+    parameters: [],
+    documentation: "`#(make-articulation 'prallmordent)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "prallprall",
+    kind: "identifier",
+    signature: "\\prallprall",
+    parameters: [],
+    documentation: "`#(make-articulation 'prallprall)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "prallup",
+    kind: "identifier",
+    signature: "\\prallup",
+    parameters: [],
+    documentation: "`#(make-articulation 'prallup)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "predefinedFretboardsOff",
+    kind: "identifier",
+    signature: "\\predefinedFretboardsOff",
+    parameters: [],
+    documentation: "`\\set predefinedDiagramTable = ##f`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "predefinedFretboardsOn",
+    kind: "identifier",
+    signature: "\\predefinedFretboardsOn",
+    parameters: [],
+    documentation: "`\\set predefinedDiagramTable = #default-fret-table`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "propertyOverride",
+    kind: "music-function",
+    signature: "\\propertyOverride key-list scheme",
+    parameters: [
+      { name: "grob-property-path", label: "key-list", type: "key-list?" },
+      { name: "value", label: "scheme", type: "scheme?" }
+    ],
+    documentation: "Set the grob property specified by `grob-property-path` to `value`. `grob-property-path` is a symbol list of the form `Context.GrobName.property` or `GrobName.property`, possibly with subproperties given as well. This music function is mostly intended for use from Scheme as a substitute for the built-in `\\override` command."
+  },
+  {
+    name: "propertyRevert",
+    kind: "music-function",
+    signature: "\\propertyRevert key-list",
+    parameters: [
+      { name: "grob-property-path", label: "key-list", type: "key-list?" }
+    ],
+    documentation: "Revert the grob property specified by `grob-property-path` to its previous value. `grob-property-path` is a symbol list of the form `Context.GrobName.property` or `GrobName.property`, possibly with subproperties given as well. This music function is mostly intended for use from Scheme as a substitute for the built-in `\\revert` command."
+  },
+  {
+    name: "propertySet",
+    kind: "music-function",
+    signature: "\\propertySet symbol-list-or-symbol scheme",
+    parameters: [
+      { name: "property-path", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?" },
+      { name: "value", label: "scheme", type: "scheme?" }
+    ],
+    documentation: "Set the context property specified by `property-path` to `value`. This music function is mostly intended for use from Scheme as a substitute for the built-in `\\set` command."
+  },
+  {
+    name: "propertyTweak",
+    kind: "music-function",
+    signature: "\\propertyTweak key-list-or-symbol scheme key-list-or-music",
+    parameters: [
+      { name: "prop", label: "key-list-or-symbol", type: "key-list-or-symbol?" },
+      { name: "value", label: "scheme", type: "scheme?" },
+      { name: "item", label: "key-list-or-music", type: "key-list-or-music?" }
+    ],
+    documentation: "Add a tweak to the following `item`, usually music. This generally behaves like `\\tweak` but will turn into an `\\override` when `item` is a symbol list."
+  },
+  {
+    name: "propertyUnset",
+    kind: "music-function",
+    signature: "\\propertyUnset symbol-list-or-symbol",
+    parameters: [
+      { name: "property-path", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?" }
+    ],
+    documentation: "Unset the context property specified by `property-path`. This music function is mostly intended for use from Scheme as a substitute for the built-in `\\unset` command."
+  },
+  {
+    name: "pushToTag",
+    kind: "music-function",
+    signature: "\\pushToTag symbol music music",
+    parameters: [
+      { name: "tag", label: "symbol", type: "symbol?" },
+      { name: "more", label: "music", type: "ly:music?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Add `more` to the front of `elements` of all music expressions in `music` that are tagged with `tag`."
+  },
+  {
+    name: "put-adjacent",
+    kind: "markup-command",
+    signature: "\\put-adjacent integer dir markup markup",
+    parameters: [
+      { name: "axis", label: "integer", type: "integer?" },
+      { name: "dir", label: "dir", type: "ly:dir?" },
+      { name: "arg1", label: "markup", type: "markup?" },
+      { name: "arg2", label: "markup", type: "markup?" }
+    ],
+    documentation: "Put `arg2` next to `arg1`, without moving `arg1`."
+  },
+  {
+    name: "quoteDuring",
+    kind: "music-function",
+    signature: "\\quoteDuring string music",
+    parameters: [
+      { name: "what", label: "string", type: "string?" },
+      { name: "main-music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Indicate a section of music to be quoted. `what` indicates the name of the quoted voice, as specified in an `\\addQuote` command. `main-music` is used to indicate the length of music to be quoted; usually contains spacers or multi-measure rests."
+  },
+  {
+    name: "raise",
+    kind: "markup-command",
+    signature: "\\raise number markup",
+    parameters: [
+      { name: "amount", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Raise `arg` by the distance `amount`. A negative `amount` indicates lowering, see also `\\lower`."
+  },
+  {
+    name: "raiseNote",
+    kind: "music-function",
+    signature: "\\raiseNote index music",
+    parameters: [
+      { name: "num", label: "index", type: "index?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Raise the `num`-th note from the bottom of each chord in `music` by one octave."
+  },
+  {
+    name: "reduceChords",
+    kind: "music-function",
+    signature: "\\reduceChords music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Reduce chords contained in `music` to single notes, intended mainly for reusing music in RhythmicStaff. Does not reduce parallel music."
+  },
+  {
+    name: "relative",
+    kind: "music-function",
+    signature: "\\relative [pitch] music",
+    parameters: [
+      { name: "pitch", label: "pitch", type: "ly:pitch?", optional: true },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Make `music` relative to `pitch`. If `pitch` is omitted, the first note in `music` is given in absolute pitch."
+  },
+  {
+    name: "remove",
+    kind: "keyword",
+    signature: "\\remove engraver",
+    parameters: [
+      { name: "engraver", label: "engraver", type: "string?" }
+    ],
+    documentation: "Remove an engraver or performer from the context being defined."
+  },
+  {
+    name: "RemoveAllEmptyStaves",
+    kind: "identifier",
+    signature: "\\RemoveAllEmptyStaves",
+    parameters: [],
+    documentation: "Predefined in `ly/context-mods-init.ly`."
+  },
+  {
+    name: "RemoveEmptyStaves",
+    kind: "identifier",
+    signature: "\\RemoveEmptyStaves",
+    parameters: [],
+    documentation: "Predefined in `ly/context-mods-init.ly`."
+  },
+  {
+    name: "removeWithTag",
+    kind: "music-function",
+    signature: "\\removeWithTag symbol-list-or-symbol music",
+    parameters: [
+      { name: "tags", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Remove elements of `music` that are tagged with one of the tags in `tags`. `tags` may be either a single symbol or a list of symbols."
+  },
+  {
+    name: "repeat",
+    kind: "keyword",
+    signature: "\\repeat type count music [\\alternative { ... }]",
+    parameters: [
+      { name: "type", label: "type", type: "string?" },
+      { name: "count", label: "count", type: "index?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Repeated music: `volta`, `unfold`, `percent`, `tremolo` or `segno`."
+  },
+  {
+    name: "repeatTie",
+    kind: "identifier",
+    signature: "\\repeatTie",
+    parameters: [],
+    documentation: "`#(make-music 'RepeatTieEvent)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "replace",
+    kind: "markup-command",
+    signature: "\\replace list markup",
+    parameters: [
+      { name: "replacements", label: "list", type: "list?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Used to automatically replace a string by another in the markup `arg`. Each pair of the alist `replacements` specifies what should be replaced. The `key` is the string to be replaced by the `value` string."
+  },
+  {
+    name: "resetRelativeOctave",
+    kind: "music-function",
+    signature: "\\resetRelativeOctave pitch",
+    parameters: [
+      { name: "pitch", label: "pitch", type: "ly:pitch?" }
+    ],
+    documentation: "Set the octave inside a \\relative section."
+  },
+  {
+    name: "rest",
+    kind: "keyword",
+    signature: "\\rest",
+    parameters: [],
+    documentation: "Turn the preceding note into a rest at that pitch's position."
+  },
+  {
+    name: "rest",
+    kind: "markup-command",
+    signature: "\\rest duration",
+    parameters: [
+      { name: "duration", label: "duration", type: "ly:duration?" }
+    ],
+    documentation: "This produces a rest, with the `duration` for the rest type and augmentation dots."
+  },
+  {
+    name: "retrograde",
+    kind: "music-function",
+    signature: "\\retrograde music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Return `music` in reverse order."
+  },
+  {
+    name: "reverseturn",
+    kind: "identifier",
+    signature: "\\reverseturn",
+    parameters: [],
+    documentation: "`#(make-articulation 'reverseturn)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "revert",
+    kind: "keyword",
+    signature: "\\revert [context.]grob.property",
+    parameters: [
+      { name: "grob", label: "grob", type: "symbol-list?" }
+    ],
+    documentation: "Undo an `\\override`."
+  },
+  {
+    name: "revertTimeSignatureSettings",
+    kind: "music-function",
+    signature: "\\revertTimeSignatureSettings pair",
+    parameters: [
+      { name: "time-signature", label: "pair", type: "pair?" }
+    ],
+    documentation: "Revert `timeSignatureSettings` for time signatures of `time-signature`."
+  },
+  {
+    name: "rfz",
+    kind: "identifier",
+    signature: "\\rfz",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"rfz\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "rheel",
+    kind: "identifier",
+    signature: "\\rheel",
+    parameters: [],
+    documentation: "`#(make-articulation 'rheel)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "right-align",
+    kind: "markup-command",
+    signature: "\\right-align markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Align `arg` on its right edge."
+  },
+  {
+    name: "right-brace",
+    kind: "markup-command",
+    signature: "\\right-brace number",
+    parameters: [
+      { name: "size", label: "number", type: "number?" }
+    ],
+    documentation: "A feta brace in point size `size`, rotated 180 degrees."
+  },
+  {
+    name: "right-column",
+    kind: "markup-command",
+    signature: "\\right-column markup-list",
+    parameters: [
+      { name: "args", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Put `args` in a right-aligned column."
+  },
+  {
+    name: "rightHandFinger",
+    kind: "event-function",
+    signature: "\\rightHandFinger index-or-markup",
+    parameters: [
+      { name: "finger", label: "index-or-markup", type: "index-or-markup?" }
+    ],
+    documentation: "Apply `finger` as a fingering indication."
+  },
+  {
+    name: "roman",
+    kind: "markup-command",
+    signature: "\\roman markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set font family to `roman`."
+  },
+  {
+    name: "rotate",
+    kind: "markup-command",
+    signature: "\\rotate number markup",
+    parameters: [
+      { name: "ang", label: "number", type: "number?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Rotate object with `ang` degrees around its center."
+  },
+  {
+    name: "rounded-box",
+    kind: "markup-command",
+    signature: "\\rounded-box markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Draw a box with rounded corners around `arg`. Looks at `thickness`, `box-padding` and `font-size` properties to determine line thickness and padding around the markup; the `corner-radius` property makes it possible to define another shape for the corners (default is 1)."
+  },
+  {
+    name: "rtoe",
+    kind: "identifier",
+    signature: "\\rtoe",
+    parameters: [],
+    documentation: "`#(make-articulation 'rtoe)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "sacredHarpHeads",
+    kind: "identifier",
+    signature: "\\sacredHarpHeads",
+    parameters: [],
+    documentation: "`\\set shapeNoteStyles = ##(fa sol la fa sol la mi)`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "sacredHarpHeadsMinor",
+    kind: "identifier",
+    signature: "\\sacredHarpHeadsMinor",
+    parameters: [],
+    documentation: "`\\set shapeNoteStyles = ##(la mi fa sol la fa sol)`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "sans",
+    kind: "markup-command",
+    signature: "\\sans markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Switch to the sans serif font family."
+  },
+  {
+    name: "scale",
+    kind: "markup-command",
+    signature: "\\scale number-pair markup",
+    parameters: [
+      { name: "factor-pair", label: "number-pair", type: "number-pair?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Scale `arg`. `factor-pair` is a pair of numbers representing the scaling-factor in the X and Y axes. Negative values may be used to produce mirror images."
+  },
+  {
+    name: "scaleDurations",
+    kind: "music-function",
+    signature: "\\scaleDurations scale music",
+    parameters: [
+      { name: "fraction", label: "scale", type: "scale?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Multiply the duration of events in `music` by `fraction`."
+  },
+  {
+    name: "score",
+    kind: "keyword",
+    signature: "\\score { ... }",
+    parameters: [],
+    documentation: "Top-level block for printable and playable score content."
+  },
+  {
+    name: "score",
+    kind: "markup-command",
+    signature: "\\score score",
+    parameters: [
+      { name: "score", label: "score", type: "ly:score?" }
+    ],
+    documentation: "Inline an image of music. The reference point (usually the middle staff line) of the lowest staff in the top system is placed on the baseline."
+  },
+  {
+    name: "score-lines",
+    kind: "keyword",
+    signature: "\\score-lines { ... }",
+    parameters: [],
+    documentation: "Score inside markup, broken into separate lines."
+  },
+  {
+    name: "section",
+    kind: "music-function",
+    signature: "\\section",
+    parameters: [],
+    documentation: "Add a section division, which is typically written as a thin double bar line."
+  },
+  {
+    name: "sectionLabel",
+    kind: "music-function",
+    signature: "\\sectionLabel markup",
+    parameters: [
+      { name: "text", label: "markup", type: "markup?" }
+    ],
+    documentation: "Mark the beginning of a named passage, e.g., \"Coda\"."
+  },
+  {
+    name: "segno",
+    kind: "identifier",
+    signature: "\\segno",
+    parameters: [],
+    documentation: "`#(make-articulation 'segno)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "segno",
+    kind: "markup-command",
+    signature: "\\segno",
+    parameters: [],
+    documentation: "Draw a segno symbol."
+  },
+  {
+    name: "segnoMark",
+    kind: "music-function",
+    signature: "\\segnoMark [index]",
+    parameters: [
+      { name: "num", label: "index", type: "index?", optional: true }
+    ],
+    documentation: "Create a segno mark (or bar line, if the `segnoStyle` context property is `'bar-line`). `num` may be 1 for the first segno, 2 for the second, etc., or it may be `\\default` to use the next number in sequence automatically."
+  },
+  {
+    name: "semiflat",
+    kind: "markup-command",
+    signature: "\\semiflat",
+    parameters: [],
+    documentation: "Draw a semiflat symbol."
+  },
+  {
+    name: "semiGermanChords",
+    kind: "identifier",
+    signature: "\\semiGermanChords",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "semisharp",
+    kind: "markup-command",
+    signature: "\\semisharp",
+    parameters: [],
+    documentation: "Draw a semisharp symbol."
+  },
+  {
+    name: "sequential",
+    kind: "keyword",
+    signature: "\\sequential music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Music played one after another, same as `{ ... }`."
+  },
+  {
+    name: "sesquiflat",
+    kind: "markup-command",
+    signature: "\\sesquiflat",
+    parameters: [],
+    documentation: "Draw a 3/2 flat symbol."
+  },
+  {
+    name: "sesquisharp",
+    kind: "markup-command",
+    signature: "\\sesquisharp",
+    parameters: [],
+    documentation: "Draw a 3/2 sharp symbol."
+  },
+  {
+    name: "set",
+    kind: "keyword",
+    signature: "\\set [context.]property = value",
+    parameters: [
+      { name: "property", label: "property", type: "symbol-list?" },
+      { name: "value", label: "value", type: "scheme?" }
+    ],
+    documentation: "Set a context property, e.g. `\\set Staff.instrumentName = \"Violin\"`."
+  },
+  {
+    name: "settingsFrom",
+    kind: "scheme-function",
+    signature: "\\settingsFrom [symbol] music",
+    parameters: [
+      { name: "ctx", label: "symbol", type: "symbol?", optional: true },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Take the layout instruction events from `music`, optionally restricted to those applying to context type `ctx`, and return a context modification duplicating their effect."
+  },
+  {
+    name: "sf",
+    kind: "identifier",
+    signature: "\\sf",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"sf\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "sff",
+    kind: "identifier",
+    signature: "\\sff",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"sff\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "sfz",
+    kind: "identifier",
+    signature: "\\sfz",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"sfz\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "shape",
+    kind: "music-function",
+    signature: "\\shape list key-list-or-music",
+    parameters: [
+      { name: "offsets", label: "list", type: "list?" },
+      { name: "item", label: "key-list-or-music", type: "key-list-or-music?" }
+    ],
+    documentation: "Offset control-points of `item` by `offsets`. The argument is a list of number pairs or list of such lists. Each element of a pair represents an offset to one of the coordinates of a control-point. If `item` is a string, the result is `\\once\\override` for the specified grob type. If `item` is a music expression, the result is the same music expression with an appropriate tweak applied."
+  },
+  {
+    name: "sharp",
+    kind: "markup-command",
+    signature: "\\sharp",
+    parameters: [],
+    documentation: "Draw a sharp symbol."
+  },
+  {
+    name: "shiftDurations",
+    kind: "music-function",
+    signature: "\\shiftDurations integer integer music",
+    parameters: [
+      { name: "dur", label: "integer", type: "integer?" },
+      { name: "dots", label: "integer", type: "integer?" },
+      { name: "arg", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Change the duration of `arg` by adding `dur` to the `durlog` of `arg` and `dots` to the `dots` of `arg`."
+  },
+  {
+    name: "shiftOff",
+    kind: "identifier",
+    signature: "\\shiftOff",
+    parameters: [],
+    documentation: "`\\revert NoteColumn.horizontal-shift`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "shiftOn",
+    kind: "identifier",
+    signature: "\\shiftOn",
+    parameters: [],
+    documentation: "`\\override NoteColumn.horizontal-shift = #1`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "shiftOnn",
+    kind: "identifier",
+    signature: "\\shiftOnn",
+    parameters: [],
+    documentation: "`\\override NoteColumn.horizontal-shift = #2`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "shiftOnnn",
+    kind: "identifier",
+    signature: "\\shiftOnnn",
+    parameters: [],
+    documentation: "`\\override NoteColumn.horizontal-shift = #3`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "shortfermata",
+    kind: "identifier",
+    signature: "\\shortfermata",
+    parameters: [],
+    documentation: "`#(make-articulation 'shortfermata)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "showStaffSwitch",
+    kind: "identifier",
+    signature: "\\showStaffSwitch",
+    parameters: [],
+    documentation: "`\\set followVoice = ##t`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "signumcongruentiae",
+    kind: "identifier",
+    signature: "\\signumcongruentiae",
+    parameters: [],
+    documentation: "`#(make-articulation 'signumcongruentiae)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "simple",
+    kind: "markup-command",
+    signature: "\\simple string",
+    parameters: [
+      { name: "str", label: "string", type: "string?" }
+    ],
+    documentation: "A simple text string; `\\markup { foo @`} is equivalent with @code{\\markup { \\simple #"
+  },
+  {
+    name: "simultaneous",
+    kind: "keyword",
+    signature: "\\simultaneous music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Music played together, same as `<< ... >>`."
+  },
+  {
+    name: "single",
+    kind: "music-function",
+    signature: "\\single music music",
+    parameters: [
+      { name: "overrides", label: "music", type: "ly:music?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Convert `overrides` to tweaks and apply them to `music`. This does not convert `\\revert`, `\\set` or `\\unset`."
+  },
+  {
+    name: "skip",
+    kind: "music-function",
+    signature: "\\skip duration-or-music",
+    parameters: [
+      { name: "arg", label: "duration-or-music", type: "duration-or-music?" }
+    ],
+    documentation: "Skip over `arg`, which may be music or a duration."
+  },
+  {
+    name: "slashed-digit",
+    kind: "markup-command",
+    signature: "\\slashed-digit integer",
+    parameters: [
+      { name: "num", label: "integer", type: "integer?" }
+    ],
+    documentation: "A feta number, with slash. This is for use in the context of figured bass notation."
+  },
+  {
+    name: "slashedGrace",
+    kind: "music-function",
+    signature: "\\slashedGrace music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Create slashed graces (slashes through stems, but no slur) from the following music expression"
+  },
+  {
+    name: "slashturn",
+    kind: "identifier",
+    signature: "\\slashturn",
+    parameters: [],
+    documentation: "`#(make-articulation 'slashturn)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "slurDashed",
+    kind: "identifier",
+    signature: "\\slurDashed",
+    parameters: [],
+    documentation: "`\\override Slur.dash-definition = #'((0 1 0.4 0.75))`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "slurDashPattern",
+    kind: "music-function",
+    signature: "\\slurDashPattern number number",
+    parameters: [
+      { name: "dash-fraction", label: "number", type: "number?" },
+      { name: "dash-period", label: "number", type: "number?" }
+    ],
+    documentation: "Set up a custom style of dash pattern for `dash-fraction` ratio of line to space repeated at `dash-period` interval for slurs."
+  },
+  {
+    name: "slurDotted",
+    kind: "identifier",
+    signature: "\\slurDotted",
+    parameters: [],
+    documentation: "`\\override Slur.dash-definition = #'((0 1 0.1 0.75))`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "slurDown",
+    kind: "identifier",
+    signature: "\\slurDown",
+    parameters: [],
+    documentation: "`\\override Slur.direction = #DOWN`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "slurHalfDashed",
+    kind: "identifier",
+    signature: "\\slurHalfDashed",
+    parameters: [],
+    documentation: "`\\override Slur.dash-definition = #'((0 0.5 0.4 0.75) (0.5 1 1 1))`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "slurHalfSolid",
+    kind: "identifier",
+    signature: "\\slurHalfSolid",
+    parameters: [],
+    documentation: "`\\override Slur.dash-definition = #'((0 0.5 1 1) (0.5 1 0.4 0.75))`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "slurNeutral",
+    kind: "identifier",
+    signature: "\\slurNeutral",
+    parameters: [],
+    documentation: "`\\revert Slur.direction`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "slurSolid",
+    kind: "identifier",
+    signature: "\\slurSolid",
+    parameters: [],
+    documentation: "`\\revert Slur.dash-definition`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "slurUp",
+    kind: "identifier",
+    signature: "\\slurUp",
+    parameters: [],
+    documentation: "`\\override Slur.direction = #UP`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "small",
+    kind: "identifier",
+    signature: "\\small",
+    parameters: [],
+    documentation: "`\\set fontSize = #-1`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "small",
+    kind: "markup-command",
+    signature: "\\small markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set font size to -1."
+  },
+  {
+    name: "smallCaps",
+    kind: "markup-command",
+    signature: "\\smallCaps markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Emit `arg` as small caps."
+  },
+  {
+    name: "smaller",
+    kind: "markup-command",
+    signature: "\\smaller markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Decrease the font size relative to the current setting."
+  },
+  {
+    name: "snappizzicato",
+    kind: "identifier",
+    signature: "\\snappizzicato",
+    parameters: [],
+    documentation: "`#(make-articulation 'snappizzicato)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "sostenutoOff",
+    kind: "identifier",
+    signature: "\\sostenutoOff",
+    parameters: [],
+    documentation: "`#(make-span-event 'SostenutoEvent STOP)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "sostenutoOn",
+    kind: "identifier",
+    signature: "\\sostenutoOn",
+    parameters: [],
+    documentation: "`#(make-span-event 'SostenutoEvent START)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "southernHarmonyHeads",
+    kind: "identifier",
+    signature: "\\southernHarmonyHeads",
+    parameters: [],
+    documentation: "`\\set shapeNoteStyles = ##(faThin sol laThin faThin sol laThin miThin)`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "sp",
+    kind: "identifier",
+    signature: "\\sp",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"sp\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "spp",
+    kind: "identifier",
+    signature: "\\spp",
+    parameters: [],
+    documentation: "`#(make-dynamic-script \"spp\")`\n\nPredefined in `ly/dynamic-scripts-init.ly`."
+  },
+  {
+    name: "staccatissimo",
+    kind: "identifier",
+    signature: "\\staccatissimo",
+    parameters: [],
+    documentation: "`#(make-articulation 'staccatissimo)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "staccato",
+    kind: "identifier",
+    signature: "\\staccato",
+    parameters: [],
+    documentation: "`#(make-articulation 'staccato)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "staffHighlight",
+    kind: "music-function",
+    signature: "\\staffHighlight color",
+    parameters: [
+      { name: "color", label: "color", type: "color?" }
+    ],
+    documentation: "Start a highlight with the specified color."
+  },
+  {
+    name: "startGroup",
+    kind: "identifier",
+    signature: "\\startGroup",
+    parameters: [],
+    documentation: "`#(make-span-event 'NoteGroupingEvent START)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "startMeasureCount",
+    kind: "identifier",
+    signature: "\\startMeasureCount",
+    parameters: [],
+    documentation: "`#(make-span-event 'MeasureCounterEvent START)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "startMeasureSpanner",
+    kind: "identifier",
+    signature: "\\startMeasureSpanner",
+    parameters: [],
+    documentation: "`#(make-span-event 'MeasureSpannerEvent START)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "startTextSpan",
+    kind: "identifier",
+    signature: "\\startTextSpan",
+    parameters: [],
+    documentation: "`#(make-span-event 'TextSpanEvent START)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "startTrillSpan",
+    kind: "identifier",
+    signature: "\\startTrillSpan",
+    parameters: [],
+    documentation: "`#(make-span-event 'TrillSpanEvent START)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "stemDown",
+    kind: "identifier",
+    signature: "\\stemDown",
+    parameters: [],
+    documentation: "`\\override Stem.direction = #DOWN`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "stemNeutral",
+    kind: "identifier",
+    signature: "\\stemNeutral",
+    parameters: [],
+    documentation: "`\\revert Stem.direction`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "stemUp",
+    kind: "identifier",
+    signature: "\\stemUp",
+    parameters: [],
+    documentation: "`\\override Stem.direction = #UP`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "stencil",
+    kind: "markup-command",
+    signature: "\\stencil stencil",
+    parameters: [
+      { name: "stil", label: "stencil", type: "ly:stencil?" }
+    ],
+    documentation: "Use a stencil as markup."
+  },
+  {
+    name: "stopGroup",
+    kind: "identifier",
+    signature: "\\stopGroup",
+    parameters: [],
+    documentation: "`#(make-span-event 'NoteGroupingEvent STOP)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "stopMeasureCount",
+    kind: "identifier",
+    signature: "\\stopMeasureCount",
+    parameters: [],
+    documentation: "`#(make-span-event 'MeasureCounterEvent STOP)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "stopMeasureSpanner",
+    kind: "identifier",
+    signature: "\\stopMeasureSpanner",
+    parameters: [],
+    documentation: "`#(make-span-event 'MeasureSpannerEvent STOP)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "stopped",
+    kind: "identifier",
+    signature: "\\stopped",
+    parameters: [],
+    documentation: "`#(make-articulation 'stopped)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "stopStaffHighlight",
+    kind: "identifier",
+    signature: "\\stopStaffHighlight",
+    parameters: [],
+    documentation: "`#(make-music 'StaffHighlightEvent 'span-direction STOP)`\n\nPredefined in `ly/declarations-init.ly`."
+  },
+  {
+    name: "stopTextSpan",
+    kind: "identifier",
+    signature: "\\stopTextSpan",
+    parameters: [],
+    documentation: "`#(make-span-event 'TextSpanEvent STOP)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "stopTrillSpan",
+    kind: "identifier",
+    signature: "\\stopTrillSpan",
+    parameters: [],
+    documentation: "`#(make-span-event 'TrillSpanEvent STOP)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "storePredefinedDiagram",
+    kind: "void-function",
+    signature: "\\storePredefinedDiagram hash-table music pair string-or-pair",
+    parameters: [
+      { name: "fretboard-table", label: "hash-table", type: "hash-table?" },
+      { name: "chord", label: "music", type: "ly:music?" },
+      { name: "tuning", label: "pair", type: "pair?" },
+      { name: "diagram-definition", label: "string-or-pair", type: "string-or-pair?" }
+    ],
+    documentation: "Add predefined fret diagram defined by `diagram-definition` for the chord pitches `chord` and the stringTuning `tuning`."
+  },
+  {
+    name: "stringTuning",
+    kind: "scheme-function",
+    signature: "\\stringTuning music",
+    parameters: [
+      { name: "chord", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Convert `chord` to a string tuning. `chord` must be in absolute pitches and should have the highest string number (generally the lowest pitch) first."
+  },
+  {
+    name: "strut",
+    kind: "markup-command",
+    signature: "\\strut",
+    parameters: [],
+    documentation: "Create a box of the same height as the space in the current font."
+  },
+  {
+    name: "styledNoteHeads",
+    kind: "music-function",
+    signature: "\\styledNoteHeads symbol symbol-list-or-symbol music",
+    parameters: [
+      { name: "style", label: "symbol", type: "symbol?" },
+      { name: "heads", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Set `heads` in `music` to `style`."
+  },
+  {
+    name: "sub",
+    kind: "markup-command",
+    signature: "\\sub markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set `arg` in subscript."
+  },
+  {
+    name: "super",
+    kind: "markup-command",
+    signature: "\\super markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set `arg` in superscript."
+  },
+  {
+    name: "sustainOff",
+    kind: "identifier",
+    signature: "\\sustainOff",
+    parameters: [],
+    documentation: "`#(make-span-event 'SustainEvent STOP)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "sustainOn",
+    kind: "identifier",
+    signature: "\\sustainOn",
+    parameters: [],
+    documentation: "`#(make-span-event 'SustainEvent START)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "tabChordRepeats",
+    kind: "music-function",
+    signature: "\\tabChordRepeats [list] music",
+    parameters: [
+      { name: "event-types", label: "list", type: "list?", optional: true },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Walk through `music` putting the notes, fingerings and string numbers of the previous chord into repeat chords, as well as an optional list of `event-types` such as `#'(articulation-event)`."
+  },
+  {
+    name: "tabChordRepetition",
+    kind: "void-function",
+    signature: "\\tabChordRepetition",
+    parameters: [],
+    documentation: "Include the string and fingering information in a chord repetition. This function is deprecated; try using `\\tabChordRepeats` instead."
+  },
+  {
+    name: "table",
+    kind: "markup-command",
+    signature: "\\table number-list markup-list",
+    parameters: [
+      { name: "column-align", label: "number-list", type: "number-list?" },
+      { name: "lst", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Returns a table.\n\n`column-align` specifies how each column is aligned, possible values are -1, 0, 1. The number of elements in `column-align` determines how many columns will be printed."
+  },
+  {
+    name: "tag",
+    kind: "music-function",
+    signature: "\\tag symbol-list-or-symbol music",
+    parameters: [
+      { name: "tags", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Tag the following `music` with `tags` and return the result, by adding the single symbol or symbol list `tags` to the `tags` property of `music`."
+  },
+  {
+    name: "tagGroup",
+    kind: "void-function",
+    signature: "\\tagGroup symbol-list",
+    parameters: [
+      { name: "tags", label: "symbol-list", type: "symbol-list?" }
+    ],
+    documentation: "Define a tag group comprising the symbols in the symbol list `tags`. Tag groups must not overlap."
+  },
+  {
+    name: "teeny",
+    kind: "identifier",
+    signature: "\\teeny",
+    parameters: [],
+    documentation: "`\\set fontSize = #-3`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "teeny",
+    kind: "markup-command",
+    signature: "\\teeny markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set font size to -3."
+  },
+  {
+    name: "tempo",
+    kind: "keyword",
+    signature: "\\tempo text duration = bpm",
+    parameters: [
+      { name: "text", label: "text", type: "markup?", optional: true },
+      { name: "duration", label: "duration", type: "ly:duration?", optional: true },
+      { name: "bpm", label: "bpm", type: "number?", optional: true }
+    ],
+    documentation: "Tempo mark, e.g. `\\tempo \"Allegro\" 4 = 120` or `\\tempo 4 = 96`."
+  },
+  {
+    name: "temporary",
+    kind: "music-function",
+    signature: "\\temporary music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Make any `\\override` in `music` replace an existing grob property value only temporarily, restoring the old value when a corresponding `\\revert` is executed. This is achieved by clearing the `pop-first` property normally set on `\\override`s.\n\nAn `\\override`/`\\revert` sequence created by using `\\temporary` and `\\undo` on the same music containing overrides will cancel out perfectly or cause a warning.\n\nNon-property-related music is ignored, warnings are generated for any property-changing music that isn't an `\\override`."
+  },
+  {
+    name: "tenuto",
+    kind: "identifier",
+    signature: "\\tenuto",
+    parameters: [],
+    documentation: "`#(make-articulation 'tenuto)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "text",
+    kind: "markup-command",
+    signature: "\\text markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Use a text font instead of music symbol or music alphabet font."
+  },
+  {
+    name: "textEndMark",
+    kind: "music-function",
+    signature: "\\textEndMark markup",
+    parameters: [
+      { name: "text", label: "markup", type: "markup?" }
+    ],
+    documentation: "Mark the end of a passage with textual `text`, placed at the end of the measure."
+  },
+  {
+    name: "textLengthOff",
+    kind: "identifier",
+    signature: "\\textLengthOff",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "textLengthOn",
+    kind: "identifier",
+    signature: "\\textLengthOn",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "textMark",
+    kind: "music-function",
+    signature: "\\textMark markup",
+    parameters: [
+      { name: "text", label: "markup", type: "markup?" }
+    ],
+    documentation: "Mark a point in the music with textual `text`, placed at the beginning of the measure."
+  },
+  {
+    name: "textSpannerDown",
+    kind: "identifier",
+    signature: "\\textSpannerDown",
+    parameters: [],
+    documentation: "`\\override TextSpanner.direction = #DOWN`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "textSpannerNeutral",
+    kind: "identifier",
+    signature: "\\textSpannerNeutral",
+    parameters: [],
+    documentation: "`\\revert TextSpanner.direction`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "textSpannerUp",
+    kind: "identifier",
+    signature: "\\textSpannerUp",
+    parameters: [],
+    documentation: "`\\override TextSpanner.direction = #UP`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "thumb",
+    kind: "identifier",
+    signature: "\\thumb",
+    parameters: [],
+    documentation: "`#(make-articulation 'thumb)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "tie",
+    kind: "markup-command",
+    signature: "\\tie markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Adds a horizontal bow created with `make-tie-stencil` at bottom or top of `arg`. Looks at `thickness` to determine line thickness, and `offset` to determine y-offset."
+  },
+  {
+    name: "tied-lyric",
+    kind: "markup-command",
+    signature: "\\tied-lyric string",
+    parameters: [
+      { name: "str", label: "string", type: "string?" }
+    ],
+    documentation: "Like simple-markup, but use tie characters for \"~\" tilde symbols."
+  },
+  {
+    name: "tieDashed",
+    kind: "identifier",
+    signature: "\\tieDashed",
+    parameters: [],
+    documentation: "`\\override Tie.dash-definition = #'((0 1 0.4 0.75))`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "tieDashPattern",
+    kind: "music-function",
+    signature: "\\tieDashPattern number number",
+    parameters: [
+      { name: "dash-fraction", label: "number", type: "number?" },
+      { name: "dash-period", label: "number", type: "number?" }
+    ],
+    documentation: "Set up a custom style of dash pattern for `dash-fraction` ratio of line to space repeated at `dash-period` interval for ties."
+  },
+  {
+    name: "tieDotted",
+    kind: "identifier",
+    signature: "\\tieDotted",
+    parameters: [],
+    documentation: "`\\override Tie.dash-definition = #'((0 1 0.1 0.75))`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "tieDown",
+    kind: "identifier",
+    signature: "\\tieDown",
+    parameters: [],
+    documentation: "`\\override Tie.direction = #DOWN`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "tieNeutral",
+    kind: "identifier",
+    signature: "\\tieNeutral",
+    parameters: [],
+    documentation: "`\\revert Tie.direction`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "tieSolid",
+    kind: "identifier",
+    signature: "\\tieSolid",
+    parameters: [],
+    documentation: "`\\revert Tie.dash-definition`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "tieUp",
+    kind: "identifier",
+    signature: "\\tieUp",
+    parameters: [],
+    documentation: "`\\override Tie.direction = #UP`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "time",
+    kind: "music-function",
+    signature: "\\time [number-list] fraction",
+    parameters: [
+      { name: "beat-structure", label: "number-list", type: "number-list?", optional: true },
+      { name: "fraction", label: "fraction", type: "fraction?" }
+    ],
+    documentation: "Set `fraction` as time signature, with optional number list `beat-structure` before it."
+  },
+  {
+    name: "times",
+    kind: "music-function",
+    signature: "\\times fraction music",
+    parameters: [
+      { name: "fraction", label: "fraction", type: "fraction?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Scale `music` in time by `fraction`."
+  },
+  {
+    name: "tiny",
+    kind: "identifier",
+    signature: "\\tiny",
+    parameters: [],
+    documentation: "`\\set fontSize = #-2`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "tiny",
+    kind: "markup-command",
+    signature: "\\tiny markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set font size to -2."
+  },
+  {
+    name: "tocItem",
+    kind: "music-function",
+    signature: "\\tocItem [symbol-list-or-symbol] markup",
+    parameters: [
+      { name: "label", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?", optional: true },
+      { name: "text", label: "markup", type: "markup?" }
+    ],
+    documentation: "Add a line to the table of contents, using the `tocItemMarkup` paper variable markup. The optional `label` names the entry so that later entries can be nested below it."
+  },
+  {
+    name: "translate",
+    kind: "markup-command",
+    signature: "\\translate number-pair markup",
+    parameters: [
+      { name: "offset", label: "number-pair", type: "number-pair?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Translate `arg` relative to its surroundings. `offset` is a pair of numbers representing the displacement in the X and Y axes."
+  },
+  {
+    name: "translate-scaled",
+    kind: "markup-command",
+    signature: "\\translate-scaled number-pair markup",
+    parameters: [
+      { name: "offset", label: "number-pair", type: "number-pair?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Translate `arg` by `offset`, scaling the offset by the `font-size`."
+  },
+  {
+    name: "transparent",
+    kind: "markup-command",
+    signature: "\\transparent markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Make `arg` transparent."
+  },
+  {
+    name: "transpose",
+    kind: "music-function",
+    signature: "\\transpose pitch pitch music",
+    parameters: [
+      { name: "from", label: "pitch", type: "ly:pitch?" },
+      { name: "to", label: "pitch", type: "ly:pitch?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Transpose `music` from pitch `from` to pitch `to`."
+  },
+  {
+    name: "transposedCueDuring",
+    kind: "music-function",
+    signature: "\\transposedCueDuring string dir pitch music",
+    parameters: [
+      { name: "what", label: "string", type: "string?" },
+      { name: "dir", label: "dir", type: "ly:dir?" },
+      { name: "pitch", label: "pitch", type: "ly:pitch?" },
+      { name: "main-music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Insert notes from the part `what` into a voice called `cue`, using the transposition defined by `pitch`. This happens simultaneously with `main-music`, which is usually a rest. The argument `dir` determines whether the cue notes should be notated as a first or second voice."
+  },
+  {
+    name: "transposition",
+    kind: "music-function",
+    signature: "\\transposition pitch",
+    parameters: [
+      { name: "pitch", label: "pitch", type: "ly:pitch?" }
+    ],
+    documentation: "Set instrument transposition"
+  },
+  {
+    name: "treCorde",
+    kind: "identifier",
+    signature: "\\treCorde",
+    parameters: [],
+    documentation: "`#(make-span-event 'UnaCordaEvent STOP)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "triangle",
+    kind: "markup-command",
+    signature: "\\triangle boolean",
+    parameters: [
+      { name: "filled", label: "boolean", type: "boolean?" }
+    ],
+    documentation: "A triangle, either filled or empty."
+  },
+  {
+    name: "trill",
+    kind: "identifier",
+    signature: "\\trill",
+    parameters: [],
+    documentation: "`#(make-articulation 'trill)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "tuplet",
+    kind: "music-function",
+    signature: "\\tuplet fraction [duration] music",
+    parameters: [
+      { name: "ratio", label: "fraction", type: "fraction?" },
+      { name: "tuplet-span", label: "duration", type: "ly:duration?", optional: true },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Scale the given `music` to tuplets. `ratio` is a fraction that specifies how many notes are played in place of the given number of notes: `3/2` for triplets, for example. `tuplet-span` can be `\\default` to use the `tupletSpannerDuration` property setting for grouping the tuplets, or a duration for grouping them in units of that duration."
+  },
+  {
+    name: "tupletDown",
+    kind: "identifier",
+    signature: "\\tupletDown",
+    parameters: [],
+    documentation: "`\\override TupletBracket.direction = #DOWN`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "tupletNeutral",
+    kind: "identifier",
+    signature: "\\tupletNeutral",
+    parameters: [],
+    documentation: "`\\revert TupletBracket.direction`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "tupletSpan",
+    kind: "music-function",
+    signature: "\\tupletSpan [duration]",
+    parameters: [
+      { name: "tuplet-span", label: "duration", type: "ly:duration?", optional: true }
+    ],
+    documentation: "Set `tupletSpannerDuration`, the length into which `\\tuplet` without an explicit `tuplet-span` argument of its own will group its tuplets, to the duration `tuplet-span`. To revert to the default of not subdividing the contents of a `\\tuplet` command without explicit `tuplet-span`, use\n\n```lilypond\n\\tupletSpan \\default\n```"
+  },
+  {
+    name: "tupletUp",
+    kind: "identifier",
+    signature: "\\tupletUp",
+    parameters: [],
+    documentation: "`\\override TupletBracket.direction = #UP`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "turn",
+    kind: "identifier",
+    signature: "\\turn",
+    parameters: [],
+    documentation: "`#(make-articulation 'turn)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "tweak",
+    kind: "music-function",
+    signature: "\\tweak key-list-or-symbol scheme key-list-or-music",
+    parameters: [
+      { name: "prop", label: "key-list-or-symbol", type: "key-list-or-symbol?" },
+      { name: "value", label: "scheme", type: "scheme?" },
+      { name: "music", label: "key-list-or-music", type: "key-list-or-music?" }
+    ],
+    documentation: "Add a tweak to the following `music`. Layout objects created by `music` get their property `prop` set to `value`. If `prop` has the form `Grob.property`, like with\n\n```lilypond\n\\tweak Accidental.color #red cis'\n```\n\nan indirectly created grob (`Accidental` is caused by `NoteHead`) can be tweaked; otherwise only directly created grobs are affected.\n\nAs a special case, `music` may be a symbol list specifying a grob path, in which case `\\override` is called on it instead of creating tweaks."
+  },
+  {
+    name: "type",
+    kind: "keyword",
+    signature: "\\type translator",
+    parameters: [
+      { name: "translator", label: "translator", type: "string?" }
+    ],
+    documentation: "Translator type of the context being defined."
+  },
+  {
+    name: "typewriter",
+    kind: "markup-command",
+    signature: "\\typewriter markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Use `font-family` typewriter for `arg`."
+  },
+  {
+    name: "unaCorda",
+    kind: "identifier",
+    signature: "\\unaCorda",
+    parameters: [],
+    documentation: "`#(make-span-event 'UnaCordaEvent START)`\n\nPredefined in `ly/spanners-init.ly`."
+  },
+  {
+    name: "underline",
+    kind: "markup-command",
+    signature: "\\underline markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Underline `arg`. Looks at `thickness` to determine line thickness, `offset` to determine line y-offset from `arg` and `underline-skip` to determine the distance of additional lines from the others."
+  },
+  {
+    name: "undertie",
+    kind: "markup-command",
+    signature: "\\undertie markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Undertie `arg`."
+  },
+  {
+    name: "undo",
+    kind: "music-function",
+    signature: "\\undo music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Convert `\\override` and `\\set` in `music` to `\\revert` and `\\unset`, respectively. Any reverts and unsets already in `music` cause a warning. Non-property-related music is ignored."
+  },
+  {
+    name: "unfolded",
+    kind: "music-function",
+    signature: "\\unfolded music",
+    parameters: [
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Mask `music` until the innermost enclosing repeat is unfolded."
+  },
+  {
+    name: "unfoldRepeats",
+    kind: "music-function",
+    signature: "\\unfoldRepeats [symbol-list-or-symbol] music",
+    parameters: [
+      { name: "types", label: "symbol-list-or-symbol", type: "symbol-list-or-symbol?", optional: true },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Force `\\repeat volta`, `\\repeat tremolo` or `\\repeat percent` commands in `music` to be interpreted as `\\repeat unfold`, if specified in the optional symbol-list `types`. The default for `types` is an empty list, which will force any of those commands in `music` to be interpreted as `\\repeat unfold`. Possible entries are `volta`, `tremolo` or `percent`. Multiple entries are possible."
+  },
+  {
+    name: "unHideNotes",
+    kind: "identifier",
+    signature: "\\unHideNotes",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "unset",
+    kind: "keyword",
+    signature: "\\unset [context.]property",
+    parameters: [
+      { name: "property", label: "property", type: "symbol-list?" }
+    ],
+    documentation: "Reset a context property set with `\\set`."
+  },
+  {
+    name: "upbow",
+    kind: "identifier",
+    signature: "\\upbow",
+    parameters: [],
+    documentation: "`#(make-articulation 'upbow)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "upmordent",
+    kind: "identifier",
+    signature: "\\upmordent",
+    parameters: [],
+    documentation: "`#(make-articulation 'upmordent)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "upprall",
+    kind: "identifier",
+    signature: "\\upprall",
+    parameters: [],
+    documentation: "`#(make-articulation 'upprall)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "upright",
+    kind: "markup-command",
+    signature: "\\upright markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set `font-shape` to `upright`. This is the opposite of `italic`."
+  },
+  {
+    name: "varcoda",
+    kind: "identifier",
+    signature: "\\varcoda",
+    parameters: [],
+    documentation: "`#(make-articulation 'varcoda)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "varcoda",
+    kind: "markup-command",
+    signature: "\\varcoda",
+    parameters: [],
+    documentation: "Draw a varcoda sign."
+  },
+  {
+    name: "vcenter",
+    kind: "markup-command",
+    signature: "\\vcenter markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Align `arg` to its Y center."
+  },
+  {
+    name: "verbatim-file",
+    kind: "markup-command",
+    signature: "\\verbatim-file string",
+    parameters: [
+      { name: "name", label: "string", type: "string?" }
+    ],
+    documentation: "Read the contents of file `name`, and include it verbatim."
+  },
+  {
+    name: "version",
+    kind: "keyword",
+    signature: "\\version version",
+    parameters: [
+      { name: "version", label: "version", type: "string?" }
+    ],
+    documentation: "Declare the LilyPond version, e.g. `\\version \"2.24.4\"`."
+  },
+  {
+    name: "verylongfermata",
+    kind: "identifier",
+    signature: "\\verylongfermata",
+    parameters: [],
+    documentation: "`#(make-articulation 'verylongfermata)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "veryshortfermata",
+    kind: "identifier",
+    signature: "\\veryshortfermata",
+    parameters: [],
+    documentation: "`#(make-articulation 'veryshortfermata)`\n\nPredefined in `ly/script-init.ly`."
+  },
+  {
+    name: "voiceFour",
+    kind: "identifier",
+    signature: "\\voiceFour",
+    parameters: [],
+    documentation: "`#(context-spec-music (make-voice-props-set 3) 'Voice)`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "voiceOne",
+    kind: "identifier",
+    signature: "\\voiceOne",
+    parameters: [],
+    documentation: "`#(context-spec-music (make-voice-props-set 0) 'Voice)`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "voices",
+    kind: "music-function",
+    signature: "\\voices key-list music",
+    parameters: [
+      { name: "ids", label: "key-list", type: "key-list?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Take the given key list of numbers (indicating the use of `\\voiceOne`...) or symbols (indicating voice names, typically converted from strings by argument list processing) and assign the following `\\\\`-separated music to contexts according to that list. Named rather than numbered contexts can be used for continuing voices."
+  },
+  {
+    name: "voiceThree",
+    kind: "identifier",
+    signature: "\\voiceThree",
+    parameters: [],
+    documentation: "`#(context-spec-music (make-voice-props-set 2) 'Voice)`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "voiceTwo",
+    kind: "identifier",
+    signature: "\\voiceTwo",
+    parameters: [],
+    documentation: "`#(context-spec-music (make-voice-props-set 1) 'Voice)`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "void",
+    kind: "void-function",
+    signature: "\\void scheme",
+    parameters: [
+      { name: "arg", label: "scheme", type: "scheme?" }
+    ],
+    documentation: "Accept a scheme argument, return a void expression. Use this if you want to have a scheme expression evaluated because of its side-effects, but its value ignored."
+  },
+  {
+    name: "volta",
+    kind: "music-function",
+    signature: "\\volta number-list music",
+    parameters: [
+      { name: "volta-numbers", label: "number-list", type: "number-list?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Mark `music` as being limited to the volte given in `volta-numbers` when the innermost enclosing repeat is unfolded. Volta number begins at 1 and increases by 1 with each repetition."
+  },
+  {
+    name: "vshape",
+    kind: "music-function",
+    signature: "\\vshape list key-list-or-music",
+    parameters: [
+      { name: "offsets", label: "list", type: "list?" },
+      { name: "item", label: "key-list-or-music", type: "key-list-or-music?" }
+    ],
+    documentation: "Like `\\shape`, but additionally show control points for ease of tweaking."
+  },
+  {
+    name: "vspace",
+    kind: "markup-command",
+    signature: "\\vspace number",
+    parameters: [
+      { name: "amount", label: "number", type: "number?" }
+    ],
+    documentation: "Create an invisible object taking up vertical space of `amount` multiplied by 3."
+  },
+  {
+    name: "walkerHeads",
+    kind: "identifier",
+    signature: "\\walkerHeads",
+    parameters: [],
+    documentation: "Predefined in `ly/property-init.ly`."
+  },
+  {
+    name: "whiteout",
+    kind: "markup-command",
+    signature: "\\whiteout markup",
+    parameters: [
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Provide a white background for `arg`."
+  },
+  {
+    name: "with",
+    kind: "keyword",
+    signature: "\\with { ... }",
+    parameters: [],
+    documentation: "Context modifications for `\\new`, `\\context` or a context definition."
+  },
+  {
+    name: "with-color",
+    kind: "markup-command",
+    signature: "\\with-color color markup",
+    parameters: [
+      { name: "color", label: "color", type: "color?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Draw `arg` in color specified by `color`."
+  },
+  {
+    name: "with-dimensions",
+    kind: "markup-command",
+    signature: "\\with-dimensions number-pair number-pair markup",
+    parameters: [
+      { name: "x", label: "number-pair", type: "number-pair?" },
+      { name: "y", label: "number-pair", type: "number-pair?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Set the dimensions of `arg` to `x` and `y`."
+  },
+  {
+    name: "with-link",
+    kind: "markup-command",
+    signature: "\\with-link symbol markup",
+    parameters: [
+      { name: "label", label: "symbol", type: "symbol?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Add a link to the page holding label `label` around `arg`. This only works in the PDF backend."
+  },
+  {
+    name: "with-url",
+    kind: "markup-command",
+    signature: "\\with-url string markup",
+    parameters: [
+      { name: "url", label: "string", type: "string?" },
+      { name: "arg", label: "markup", type: "markup?" }
+    ],
+    documentation: "Add a link to URL `url` around `arg`. This only works in the PDF backend."
+  },
+  {
+    name: "withMusicProperty",
+    kind: "music-function",
+    signature: "\\withMusicProperty symbol scheme music",
+    parameters: [
+      { name: "sym", label: "symbol", type: "symbol?" },
+      { name: "val", label: "scheme", type: "scheme?" },
+      { name: "music", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Set `sym` to `val` in `music`."
+  },
+  {
+    name: "woodwind-diagram",
+    kind: "markup-command",
+    signature: "\\woodwind-diagram symbol list",
+    parameters: [
+      { name: "instrument", label: "symbol", type: "symbol?" },
+      { name: "user-draw-commands", label: "list", type: "list?" }
+    ],
+    documentation: "Make a woodwind-instrument diagram."
+  },
+  {
+    name: "wordwrap",
+    kind: "markup-command",
+    signature: "\\wordwrap markup-list",
+    parameters: [
+      { name: "args", label: "markup-list", type: "markup-list?" }
+    ],
+    documentation: "Simple wordwrap. Use `\\override #'(line-width . X`) to set the line width, where `X` is the number of staff spaces."
+  },
+  {
+    name: "wordwrap-field",
+    kind: "markup-command",
+    signature: "\\wordwrap-field symbol",
+    parameters: [
+      { name: "symbol", label: "symbol", type: "symbol?" }
+    ],
+    documentation: "Wordwrap the data which has been assigned to `symbol`."
+  },
+  {
+    name: "wordwrap-string",
+    kind: "markup-command",
+    signature: "\\wordwrap-string string",
+    parameters: [
+      { name: "arg", label: "string", type: "string?" }
+    ],
+    documentation: "Wordwrap a string. Paragraphs may be separated with double newlines."
+  },
+  {
+    name: "xNote",
+    kind: "music-function",
+    signature: "\\xNote music",
+    parameters: [
+      { name: "note", label: "music", type: "ly:music?" }
+    ],
+    documentation: "Print `note` with a cross-shaped note head."
+  },
+  {
+    name: "xNotesOff",
+    kind: "identifier",
+    signature: "\\xNotesOff",
+    parameters: [],
+    documentation: "`\\revert NoteHead.style`\n\nPredefined in `ly/property-init.ly`."
+  },
+  {
+    name: "xNotesOn",
+    kind: "identifier",
+    signature: "\\xNotesOn",
+    parameters: [],
+    documentation: "`\\override NoteHead.style = #'cross`\n\nPredefined in `ly/property-init.ly`."
+  }
+];
@@ -1,30 +1,256 @@
-export type LilypondKeyword = {
+import type { SignatureInfo } from "../sync/signatureHelp";
+import { LILYPOND_COMMANDS } from "./lilypondCommands";
+
+/**
+ * `keyword` is parser syntax such as `\new`; `identifier` a predefined value such as `\stemUp`
+ * or `\major`; the rest are functions defined with `define-music-function` and friends or
+ * `define-markup-command`.
+ */
+export type CommandKind =
+  | "keyword"
+  | "music-function"
+  | "event-function"
+  | "scheme-function"
+  | "void-function"
+  | "markup-command"
+  | "identifier";
+
+export type CommandParameter = {
+  /** Argument name in LilyPond's source, e.g. `tuplet-span`. */
+  name: string;
+  /** Text standing for the argument in `signature`, e.g. `duration`. */
   label: string;
-  detail: string;
+  /** Type predicate, e.g. `ly:duration?`. */
+  type: string;
+  optional?: boolean;
+};
+
+export type LilypondCommand = {
+  /** Name without the backslash. */
+  name: string;
+  kind: CommandKind;
+  /** E.g. `\tuplet fraction [duration] music`; optional arguments are in brackets. */
+  signature: string;
+  parameters: CommandParameter[];
   documentation: string;
 };
 
-export const LILYPOND_KEYWORDS: LilypondKeyword[] = [
-  { label: "\\version", detail: "Version declaration", documentation: "Declare LilyPond version, e.g. `\\version \"2.24.4\"`." },
-  { label: "\\relative", detail: "Relative pitch mode", documentation: "Interpret following note pitches relative to a starting pitch." },
-  { label: "\\score", detail: "Score block", documentation: "Top-level block for printable/playable score content." },
-  { label: "\\new", detail: "Create context", documentation: "Create a new context such as Staff, Voice, Lyrics, PianoStaff." },
-  { label: "\\layout", detail: "Layout block", documentation: "Configure engraving/layout options for a score." },
-  { label: "\\midi", detail: "MIDI block", documentation: "Configure MIDI output options for playback/export." },
-  { label: "\\paper", detail: "Paper block", documentation: "Configure page size, margins, and paper output options." },
-  { label: "\\header", detail: "Header block", documentation: "Set title/composer/tagline and metadata fields." },
-  { label: "\\tempo", detail: "Tempo mark", documentation: "Set tempo, e.g. `\\tempo 4 = 96`." },
-  { label: "\\time", detail: "Time signature", documentation: "Set time signature, e.g. `\\time 4/4`." },
-  { label: "\\key", detail: "Key signature", documentation: "Set key and mode, e.g. `\\key c \\major`." },
-  { label: "\\clef", detail: "Clef", documentation: "Set clef, e.g. `\\clef treble`, `\\clef bass`." },
-  { label: "\\include", detail: "Include file", documentation: "Include another LilyPond file, e.g. `\\include \"common.ily\"`." },
-  { label: "\\repeat", detail: "Repeat command", documentation: "Create repeated music sections, e.g. `\\repeat volta 2 { ... }`." },
-  { label: "\\transpose", detail: "Transpose block", documentation: "Transpose music from one pitch to another." },
-  { label: "\\chordmode", detail: "Chord mode", documentation: "Enter chords using chord notation syntax." },
-  { label: "\\lyricmode", detail: "Lyric mode", documentation: "Enter lyric syllables and extenders for vocal lines." },
-  { label: "\\addlyrics", detail: "Attach lyrics", documentation: "Attach lyric text to previous voice/music expression." },
-  { label: "\\tuplet", detail: "Tuplet", documentation: "Create tuplets, e.g. `\\tuplet 3/2 { c8 d e }`." },
-  { label: "\\partial", detail: "Pickup/anacrusis", documentation: "Set pickup duration at the beginning of piece." }
+const KIND_DETAILS: Record<CommandKind, string> = {
+  keyword: "Keyword",
+  "music-function": "Music function",
+  "event-function": "Event function",
+  "scheme-function": "Scheme function",
+  "void-function": "Void function",
+  "markup-command": "Markup command",
+  identifier: "Predefined command"
+};
+
+/** Commands usable in music; markup commands share some names, such as `\override`. */
+export const LILYPOND_KEYWORDS = LILYPOND_COMMANDS.filter((command) => command.kind !== "markup-command");
+
+export const LILYPOND_MARKUP_COMMANDS = LILYPOND_COMMANDS.filter((command) => command.kind === "markup-command");
+
+const COMMAND_BY_LABEL = new Map(LILYPOND_KEYWORDS.map((command) => [`\\${command.name}`, command]));
+const MARKUP_COMMAND_BY_LABEL = new Map(LILYPOND_MARKUP_COMMANDS.map((command) => [`\\${command.name}`, command]));
+
+/** Looks up `\name`, preferring markup commands when `inMarkup` is set. */
+export function findCommand(label: string, inMarkup = false): LilypondCommand | undefined {
+  const [first, second] = inMarkup ? [MARKUP_COMMAND_BY_LABEL, COMMAND_BY_LABEL] : [COMMAND_BY_LABEL, MARKUP_COMMAND_BY_LABEL];
+  return first.get(label) ?? second.get(label);
+}
+
+export function getCommandDetail(command: LilypondCommand): string {
+  return KIND_DETAILS[command.kind];
+}
+
+/** Start and end of each parameter's label in the signature, for highlighting the active one. */
+export function getParameterOffsets(command: LilypondCommand): Array<[number, number]> {
+  const { signature } = command;
+  let from = command.name.length + 1;
+  return command.parameters.map((parameter) => {
+    let start = signature.indexOf(parameter.label, from);
+    // `list` must not match inside `symbol-list`.
+    while (start >= 0 && (isNamePart(signature[start - 1]) || isNamePart(signature[start + parameter.label.length]))) {
+      start = signature.indexOf(parameter.label, start + 1);
+    }
+    if (start < 0) {
+      return [0, 0];
+    }
+    from = start + parameter.label.length;
+    return [start, from];
+  });
+}
+
+function isNamePart(char: string | undefined): boolean {
+  return char !== undefined && /[A-Za-z0-9-]/.test(char);
+}
+
+/** The command in the form the argument matcher in `sync/signatureHelp` works with. */
+export function getSignatureInfo(label: string, inMarkup = false): SignatureInfo | undefined {
+  const command = findCommand(label, inMarkup);
+  if (!command) {
+    return undefined;
+  }
+
+  const offsets = getParameterOffsets(command);
+  const isMarkup = command.kind === "markup-command" || command.name === "markup" || command.name === "markuplist";
+  return {
+    value: isMarkup ? "markup" : command.kind === "scheme-function" ? "any" : "music",
+    parameters: command.parameters.map((parameter, index) => ({
+      type: parameter.type,
+      optional: parameter.optional,
+      afterEquals: command.signature.slice(0, offsets[index][0]).trimEnd().endsWith("=")
+    }))
+  };
+}
+
+const LYRIC_COMMAND_NAMES = new Set([
+  "skip",
+  "markup",
+  "set",
+  "unset",
+  "override",
+  "revert",
+  "once",
+  "tweak",
+  "hide",
+  "omit",
+  "lyricsto",
+  "lyricmode",
+  "new",
+  "repeat",
+  "alternative",
+  "volta",
+  "tag",
+  "keepWithTag",
+  "removeWithTag",
+  "partial",
+  "time",
+  "bar",
+  "break",
+  "noBreak",
+  "breathe",
+  "tempo",
+  "mark"
+]);
+
+/** Commands that make sense between syllables in `\lyricmode`, `\addlyrics` and `\lyricsto`. */
+export const LILYPOND_LYRIC_COMMANDS = LILYPOND_KEYWORDS.filter((command) => LYRIC_COMMAND_NAMES.has(command.name));
+
+export type ChordModifier = {
+  name: string;
+  description: string;
+};
+
+/** Modifiers written after `:` in `\chordmode`, e.g. `c:m7`. */
+export const CHORD_MODIFIERS: ChordModifier[] = [
+  { name: "m", description: "Minor triad" },
+  { name: "5", description: "Major triad" },
+  { name: "1.5", description: "Power chord (root and fifth)" },
+  { name: "aug", description: "Augmented triad" },
+  { name: "dim", description: "Diminished triad" },
+  { name: "sus2", description: "Suspended second" },
+  { name: "sus4", description: "Suspended fourth" },
+  { name: "6", description: "Major sixth" },
+  { name: "m6", description: "Minor sixth" },
+  { name: "6.9", description: "Six-nine" },
+  { name: "7", description: "Dominant seventh" },
+  { name: "m7", description: "Minor seventh" },
+  { name: "maj7", description: "Major seventh" },
+  { name: "m7+", description: "Minor-major seventh" },
+  { name: "dim7", description: "Diminished seventh" },
+  { name: "m7.5-", description: "Half-diminished seventh" },
+  { name: "aug7", description: "Augmented seventh" },
+  { name: "7sus4", description: "Dominant seventh, suspended fourth" },
+  { name: "7.5-", description: "Dominant seventh, flat fifth" },
+  { name: "7.5+", description: "Dominant seventh, sharp fifth" },
+  { name: "7.9-", description: "Dominant seventh, flat ninth" },
+  { name: "7.9+", description: "Dominant seventh, sharp ninth" },
+  { name: "9", description: "Dominant ninth" },
+  { name: "m9", description: "Minor ninth" },
+  { name: "maj9", description: "Major ninth" },
+  { name: "add9", description: "Major triad with added ninth" },
+  { name: "11", description: "Dominant eleventh" },
+  { name: "m11", description: "Minor eleventh" },
+  { name: "7.11+", description: "Dominant seventh, sharp eleventh" },
+  { name: "13", description: "Dominant thirteenth" },
+  { name: "m13", description: "Minor thirteenth" },
+  { name: "maj13", description: "Major thirteenth" }
 ];
 
-export const KEYWORD_BY_LABEL = new Map(LILYPOND_KEYWORDS.map((item) => [item.label, item]));
+/** `drumPitchNames` from LilyPond's `scm/drums.scm`: each drum's long name and its short form. */
+export const DRUM_PITCH_NAMES: Array<{ name: string; short: string }> = [
+  { name: "acousticbassdrum", short: "bda" },
+  { name: "bassdrum", short: "bd" },
+  { name: "hisidestick", short: "ssh" },
+  { name: "sidestick", short: "ss" },
+  { name: "losidestick", short: "ssl" },
+  { name: "acousticsnare", short: "sna" },
+  { name: "snare", short: "sn" },
+  { name: "handclap", short: "hc" },
+  { name: "electricsnare", short: "sne" },
+  { name: "lowfloortom", short: "tomfl" },
+  { name: "closedhihat", short: "hhc" },
+  { name: "hihat", short: "hh" },
+  { name: "highfloortom", short: "tomfh" },
+  { name: "pedalhihat", short: "hhp" },
+  { name: "lowtom", short: "toml" },
+  { name: "openhihat", short: "hho" },
+  { name: "halfopenhihat", short: "hhho" },
+  { name: "lowmidtom", short: "tomml" },
+  { name: "himidtom", short: "tommh" },
+  { name: "crashcymbala", short: "cymca" },
+  { name: "crashcymbal", short: "cymc" },
+  { name: "hightom", short: "tomh" },
+  { name: "ridecymbala", short: "cymra" },
+  { name: "ridecymbal", short: "cymr" },
+  { name: "chinesecymbal", short: "cymch" },
+  { name: "ridebell", short: "rb" },
+  { name: "tambourine", short: "tamb" },
+  { name: "splashcymbal", short: "cyms" },
+  { name: "cowbell", short: "cb" },
+  { name: "crashcymbalb", short: "cymcb" },
+  { name: "vibraslap", short: "vibs" },
+  { name: "ridecymbalb", short: "cymrb" },
+  { name: "mutehibongo", short: "bohm" },
+  { name: "hibongo", short: "boh" },
+  { name: "openhibongo", short: "boho" },
+  { name: "mutelobongo", short: "bolm" },
+  { name: "lobongo", short: "bol" },
+  { name: "openlobongo", short: "bolo" },
+  { name: "mutehiconga", short: "cghm" },
+  { name: "muteloconga", short: "cglm" },
+  { name: "openhiconga", short: "cgho" },
+  { name: "hiconga", short: "cgh" },
+  { name: "openloconga", short: "cglo" },
+  { name: "loconga", short: "cgl" },
+  { name: "hitimbale", short: "timh" },
+  { name: "lotimbale", short: "timl" },
+  { name: "hiagogo", short: "agh" },
+  { name: "loagogo", short: "agl" },
+  { name: "cabasa", short: "cab" },
+  { name: "maracas", short: "mar" },
+  { name: "shortwhistle", short: "whs" },
+  { name: "longwhistle", short: "whl" },
+  { name: "shortguiro", short: "guis" },
+  { name: "longguiro", short: "guil" },
+  { name: "guiro", short: "gui" },
+  { name: "claves", short: "cl" },
+  { name: "hiwoodblock", short: "wbh" },
+  { name: "lowoodblock", short: "wbl" },
+  { name: "mutecuica", short: "cuim" },
+  { name: "opencuica", short: "cuio" },
+  { name: "mutetriangle", short: "trim" },
+  { name: "triangle", short: "tri" },
+  { name: "opentriangle", short: "trio" },
+  { name: "oneup", short: "ua" },
+  { name: "twoup", short: "ub" },
+  { name: "threeup", short: "uc" },
+  { name: "fourup", short: "ud" },
+  { name: "fiveup", short: "ue" },
+  { name: "onedown", short: "da" },
+  { name: "twodown", short: "db" },
+  { name: "threedown", short: "dc" },
+  { name: "fourdown", short: "dd" },
+  { name: "fivedown", short: "de" }
+];
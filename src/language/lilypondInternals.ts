@@ -0,0 +1,896 @@
+/**
+ * Contexts, layout objects (grobs) and properties from the LilyPond Internals Reference, for
+ * completion. Grob properties are grouped by interface, as in the Internals Reference; every
+ * grob also has `grob-interface` and `item-interface` or `spanner-interface`.
+ */
+export const LILYPOND_INTERNALS_VERSION = "2.24";
+
+export type PropertyType =
+  | "boolean"
+  | "number"
+  | "integer"
+  | "string"
+  | "markup"
+  | "symbol"
+  | "direction"
+  | "color"
+  | "number-pair"
+  | "list"
+  | "alist"
+  | "procedure"
+  | "moment"
+  | "stencil"
+  | "vector";
+
+export type PropertyInfo = {
+  name: string;
+  type: PropertyType;
+  description: string;
+  /** Values written as in source, e.g. `#'cross`; otherwise values come from the type. */
+  values?: string[];
+};
+
+export type ContextInfo = {
+  name: string;
+  description: string;
+};
+
+export type GrobInfo = {
+  name: string;
+  kind: "item" | "spanner";
+  description: string;
+  interfaces: string[];
+};
+
+function property(name: string, type: PropertyType, description: string, values?: string[]): PropertyInfo {
+  return values ? { name, type, description, values } : { name, type, description };
+}
+
+function symbols(...names: string[]): string[] {
+  return names.map((name) => `#'${name}`);
+}
+
+const HORIZONTAL_ALIGNMENTS = ["#LEFT", "#CENTER", "#RIGHT"];
+const VERTICAL_ALIGNMENTS = ["#DOWN", "#CENTER", "#UP"];
+const AVOID_SLUR = symbols("inside", "outside", "around", "ignore");
+
+export const LILYPOND_CONTEXTS: ContextInfo[] = [
+  { name: "Score", description: "Top-level context holding timing, bar numbers and rehearsal marks." },
+  { name: "StaffGroup", description: "Groups staves with a bracket; bar lines connect across staves." },
+  { name: "ChoirStaff", description: "Groups staves with a bracket; bar lines are not connected." },
+  { name: "GrandStaff", description: "Groups staves with a brace, e.g. for keyboard or harp." },
+  { name: "PianoStaff", description: "Grand staff with an instrument name, for piano music." },
+  { name: "Staff", description: "Handles clefs, bar lines, keys and accidentals; holds voices." },
+  { name: "RhythmicStaff", description: "Single-line staff that shows rhythms only." },
+  { name: "TabStaff", description: "Staff for tablature." },
+  { name: "DrumStaff", description: "Staff for percussion notation." },
+  { name: "MensuralStaff", description: "Staff for mensural notation." },
+  { name: "VaticanaStaff", description: "Staff for Gregorian chant in Editio Vaticana style." },
+  { name: "GregorianTranscriptionStaff", description: "Staff for modern transcriptions of Gregorian chant." },
+  { name: "PetrucciStaff", description: "Staff for Petrucci-style mensural notation." },
+  { name: "KievanStaff", description: "Staff for Kievan square notation." },
+  { name: "Voice", description: "Holds notes, rests, beams, slurs, ties and scripts." },
+  { name: "CueVoice", description: "Voice for cue notes, printed at a smaller size." },
+  { name: "NullVoice", description: "Invisible voice, e.g. for aligning lyrics." },
+  { name: "TabVoice", description: "Voice for tablature." },
+  { name: "DrumVoice", description: "Voice for percussion notation." },
+  { name: "MensuralVoice", description: "Voice for mensural notation." },
+  { name: "VaticanaVoice", description: "Voice for Gregorian chant in Editio Vaticana style." },
+  { name: "GregorianTranscriptionVoice", description: "Voice for modern transcriptions of Gregorian chant." },
+  { name: "PetrucciVoice", description: "Voice for Petrucci-style mensural notation." },
+  { name: "KievanVoice", description: "Voice for Kievan square notation." },
+  { name: "Lyrics", description: "Lyrics aligned to a voice." },
+  { name: "ChordNames", description: "Chord names from chord mode or music." },
+  { name: "FiguredBass", description: "Figured bass numbers." },
+  { name: "FretBoards", description: "Fret diagrams." },
+  { name: "NoteNames", description: "Note names printed as text." },
+  { name: "Dynamics", description: "Dynamics and pedal marks centered between staves." },
+  { name: "OneStaff", description: "Lets contexts such as ChordNames and Staff alternate on one line." },
+  { name: "Devnull", description: "Discards all music sent to it." }
+];
+
+export const LILYPOND_GROB_INTERFACES: Record<string, PropertyInfo[]> = {
+  "grob-interface": [
+    property("color", "color", "Color of the object."),
+    property("transparent", "boolean", "Print nothing but keep the space the object takes."),
+    property("stencil", "stencil", "Drawing procedure; `##f` prints nothing and takes no space.", ["##f"]),
+    property("extra-offset", "number-pair", "Shift `(x . y)` in staff spaces, applied after all layout."),
+    property("layer", "integer", "Objects on higher layers are drawn on top."),
+    property("whiteout", "boolean", "Draw a white background behind the object."),
+    property("whiteout-style", "symbol", "Shape of the whiteout background.", symbols("box", "outline", "rounded-box")),
+    property("rotation", "list", "Rotation `(angle x y)` in degrees around a point of the object."),
+    property("X-offset", "number", "Horizontal offset from the object's reference point."),
+    property("Y-offset", "number", "Vertical offset from the object's reference point."),
+    property("X-extent", "number-pair", "Horizontal extent of the object."),
+    property("Y-extent", "number-pair", "Vertical extent of the object."),
+    property("outside-staff-priority", "number", "Order in which outside-staff objects are placed; `##f` places the object inside the staff."),
+    property("outside-staff-padding", "number", "Space kept between this and other outside-staff objects."),
+    property("outside-staff-horizontal-padding", "number", "Horizontal padding for outside-staff placement."),
+    property("output-attributes", "alist", "Attributes added to the object in SVG output."),
+    property("after-line-breaking", "procedure", "Procedure run after line breaking."),
+    property("before-line-breaking", "procedure", "Procedure run before line breaking."),
+    property("cross-staff", "boolean", "The object's position depends on other staves."),
+    property("show-horizontal-skylines", "boolean", "Draw the object's horizontal skylines for debugging."),
+    property("show-vertical-skylines", "boolean", "Draw the object's vertical skylines for debugging."),
+    property("id", "string", "Identifier written to SVG output.")
+  ],
+  "item-interface": [
+    property(
+      "break-visibility",
+      "vector",
+      "Visibility at the end of a line, mid-line and at the start of a line.",
+      [
+        "#all-visible",
+        "#begin-of-line-visible",
+        "#end-of-line-visible",
+        "#all-invisible",
+        "#begin-of-line-invisible",
+        "#end-of-line-invisible",
+        "#center-invisible"
+      ]
+    ),
+    property("extra-spacing-width", "number-pair", "Extra horizontal space added around the object."),
+    property("extra-spacing-height", "number-pair", "Vertical extent the object is treated as having for spacing."),
+    property("non-musical", "boolean", "The object is not part of the music, like a clef or bar line.")
+  ],
+  "spanner-interface": [
+    property("minimum-length", "number", "Minimum length of the spanner."),
+    property("minimum-length-after-break", "number", "Minimum length of the spanner's continuation after a line break."),
+    property("to-barline", "boolean", "End the spanner at the preceding bar line."),
+    property("spanner-id", "string", "Identifier for telling simultaneous spanners apart.")
+  ],
+  "font-interface": [
+    property("font-size", "number", "Font size change in steps; 6 steps double the size."),
+    property("font-family", "symbol", "Font family.", symbols("roman", "sans", "typewriter")),
+    property("font-shape", "symbol", "Font shape.", symbols("upright", "italic", "caps")),
+    property("font-series", "symbol", "Font weight.", symbols("medium", "bold")),
+    property("font-name", "string", "Explicit font name, overriding family, shape and series."),
+    property("font-features", "list", "OpenType features, e.g. `#'(\"smcp\")`.")
+  ],
+  "text-interface": [
+    property("text", "markup", "Text to print."),
+    property("baseline-skip", "number", "Distance between lines of text."),
+    property("word-space", "number", "Space between words."),
+    property("text-direction", "direction", "Writing direction.", ["#LEFT", "#RIGHT"]),
+    property("replacement-alist", "alist", "Strings to replace in the text.")
+  ],
+  "side-position-interface": [
+    property("direction", "direction", "Side of the reference object to place this on."),
+    property("padding", "number", "Space kept from the objects this is placed beside."),
+    property("staff-padding", "number", "Minimum distance from the staff."),
+    property("minimum-space", "number", "Minimum distance from the reference object."),
+    property("avoid-slur", "symbol", "How to avoid slurs.", AVOID_SLUR),
+    property("quantize-position", "boolean", "Place the object between staff lines."),
+    property("add-stem-support", "boolean", "Place the object beyond stems too."),
+    property("side-relative-direction", "direction", "Direction relative to the reference object's direction."),
+    property("horizon-padding", "number", "Padding against objects in neighbouring columns.")
+  ],
+  "self-alignment-interface": [
+    property("self-alignment-X", "number", "Horizontal alignment on the object's reference point.", HORIZONTAL_ALIGNMENTS),
+    property("self-alignment-Y", "number", "Vertical alignment on the object's reference point.", VERTICAL_ALIGNMENTS)
+  ],
+  "staff-symbol-referencer-interface": [
+    property("staff-position", "number", "Vertical position in half staff spaces, 0 on the middle line.")
+  ],
+  "rhythmic-head-interface": [
+    property("duration-log", "integer", "Binary logarithm of the duration, 2 for a quarter note."),
+    property("glyph-name", "string", "Glyph used to print the head.")
+  ],
+  "note-head-interface": [
+    property(
+      "style",
+      "symbol",
+      "Note head style.",
+      symbols(
+        "default",
+        "altdefault",
+        "baroque",
+        "neomensural",
+        "mensural",
+        "petrucci",
+        "harmonic",
+        "harmonic-black",
+        "harmonic-mixed",
+        "diamond",
+        "cross",
+        "xcircle",
+        "triangle",
+        "slash"
+      )
+    ),
+    property("stem-attachment", "number-pair", "Where the stem attaches to the head.")
+  ],
+  "note-column-interface": [
+    property("force-hshift", "number", "Horizontal shift of the note column in note head widths."),
+    property("horizontal-shift", "integer", "Shift order when note columns collide."),
+    property("ignore-collision", "boolean", "Do not move this column to avoid collisions.")
+  ],
+  "note-collision-interface": [
+    property("merge-differently-dotted", "boolean", "Merge note heads of different dotted durations."),
+    property("merge-differently-headed", "boolean", "Merge half and quarter note heads."),
+    property("prefer-dotted-right", "boolean", "Put the dotted note on the right when merging fails.")
+  ],
+  "stem-interface": [
+    property("direction", "direction", "Stem direction."),
+    property("neutral-direction", "direction", "Direction for notes on the middle line."),
+    property("length", "number", "Stem length in staff spaces."),
+    property("length-fraction", "number", "Factor for the stem length."),
+    property("thickness", "number", "Stem thickness in line thicknesses."),
+    property("stemlet-length", "number", "Length of stems under rests inside beams."),
+    property("french-beaming", "boolean", "Stop inner stems at the innermost beam."),
+    property("no-stem-extend", "boolean", "Do not extend stems to the middle line."),
+    property("double-stem-separation", "number", "Distance between the stems of double stems."),
+    property("beamlet-default-length", "number-pair", "Default lengths of left and right beamlets."),
+    property("beamlet-max-length-proportion", "number-pair", "Maximum beamlet lengths relative to the neighbouring space."),
+    property("details", "alist", "Fine-tuning parameters for stem lengths.")
+  ],
+  "flag-interface": [
+    property(
+      "style",
+      "symbol",
+      "Flag style.",
+      symbols("default", "old-straight-flag", "modern-straight-flag", "flat-flag", "mensural", "no-flag")
+    ),
+    property("stroke-style", "string", "Stroke through the flag, e.g. \"grace\".", ["\"grace\""])
+  ],
+  "beam-interface": [
+    property("direction", "direction", "Beam direction."),
+    property("neutral-direction", "direction", "Direction for beams centered on the middle line."),
+    property("positions", "number-pair", "Vertical positions of the beam's ends in staff spaces."),
+    property("gap", "number", "Gap between beams in feathered or tremolo beams."),
+    property("gap-count", "integer", "Number of beams that do not reach the stems."),
+    property("grow-direction", "direction", "Direction in which feathered beams fan out.", ["#LEFT", "#RIGHT"]),
+    property("auto-knee-gap", "number", "Gap from which a kneed beam is used; `##f` disables knees."),
+    property("beam-thickness", "number", "Beam thickness in staff spaces."),
+    property("breakable", "boolean", "Allow a line break inside the beam."),
+    property("concaveness", "number", "How concave a beam may be before it is drawn flat."),
+    property("damping", "number", "Reduces the beam slope; large values give flat beams."),
+    property("length-fraction", "number", "Factor for the distance between beams."),
+    property("beamed-stem-shorten", "list", "How much to shorten stems of beamed notes, by beam count."),
+    property("clip-edges", "boolean", "Clip the edges of feathered beams."),
+    property("collision-voice-only", "boolean", "Only avoid collisions with objects of the beam's own voice."),
+    property("skip-quanting", "boolean", "Use the computed positions without quanting."),
+    property("details", "alist", "Fine-tuning parameters for beam quanting.")
+  ],
+  "slur-interface": [
+    property("direction", "direction", "Slur direction."),
+    property("height-limit", "number", "Maximum slur height."),
+    property("ratio", "number", "Slur height relative to its length."),
+    property("positions", "number-pair", "Vertical positions of the slur's ends in staff spaces."),
+    property("eccentricity", "number", "Moves the slur's highest point towards one end."),
+    property("line-thickness", "number", "Thickness of the slur's outline."),
+    property("thickness", "number", "Thickness of the slur's middle."),
+    property("dash-definition", "list", "Dash pattern for dashed slurs."),
+    property("details", "alist", "Fine-tuning parameters for slur scoring.")
+  ],
+  "tie-interface": [
+    property("direction", "direction", "Tie direction."),
+    property("neutral-direction", "direction", "Direction for ties centered on the middle line."),
+    property("head-direction", "direction", "Which note heads the tie attaches to."),
+    property("staff-position", "number", "Vertical position of the tie."),
+    property("line-thickness", "number", "Thickness of the tie's outline."),
+    property("thickness", "number", "Thickness of the tie's middle."),
+    property("dash-definition", "list", "Dash pattern for dashed ties."),
+    property("details", "alist", "Fine-tuning parameters for tie formatting.")
+  ],
+  "line-interface": [
+    property("style", "symbol", "Line style.", symbols("line", "dashed-line", "dotted-line", "zigzag", "trill", "none")),
+    property("thickness", "number", "Line thickness in staff line thicknesses."),
+    property("dash-fraction", "number", "Part of each dash period that is drawn."),
+    property("dash-period", "number", "Length of a dash and the following gap."),
+    property("arrow-length", "number", "Length of arrow heads."),
+    property("arrow-width", "number", "Width of arrow heads."),
+    property("zigzag-length", "number", "Length of zigzag segments."),
+    property("zigzag-width", "number", "Width of zigzag segments.")
+  ],
+  "line-spanner-interface": [
+    property("bound-details", "alist", "Texts, arrows, padding and attachment at the line's ends."),
+    property("gap", "number", "Space between the line and the objects it connects."),
+    property("extra-dy", "number", "Extra vertical distance between the line's ends.")
+  ],
+  "hairpin-interface": [
+    property("circled-tip", "boolean", "Draw a circle at the tip (al niente)."),
+    property("bound-padding", "number", "Padding between the hairpin and dynamics at its ends."),
+    property("broken-bound-padding", "number", "Padding at line breaks."),
+    property("grow-direction", "direction", "Crescendo or decrescendo.", ["#LEFT", "#RIGHT"]),
+    property("height", "number", "Height of the opening in staff spaces."),
+    property("endpoint-alignments", "number-pair", "Alignment of the ends on the dynamics they attach to.")
+  ],
+  "accidental-interface": [
+    property("alteration", "number", "Alteration shown by the accidental."),
+    property("avoid-slur", "symbol", "How to avoid slurs.", AVOID_SLUR),
+    property("glyph-name-alist", "alist", "Glyph for each alteration."),
+    property("hide-tied-accidental-after-break", "boolean", "Hide the accidental of a tied note after a line break."),
+    property("parenthesized", "boolean", "Print the accidental in parentheses."),
+    property("restore-first", "boolean", "Print a natural before the accidental.")
+  ],
+  "bar-line-interface": [
+    property("glyph", "string", "Bar line type as given to `\\bar`, e.g. \"||\"."),
+    property("glyph-name", "string", "Bar line type actually printed."),
+    property("bar-extent", "number-pair", "Vertical extent of the bar line."),
+    property("gap", "number", "Gap in dashed bar lines."),
+    property("hair-thickness", "number", "Thickness of thin bar lines."),
+    property("thick-thickness", "number", "Thickness of thick bar lines."),
+    property("kern", "number", "Space between the lines of double bar lines."),
+    property("allow-span-bar", "boolean", "Connect the bar line to the next staff."),
+    property("rounded", "boolean", "Draw rounded line ends."),
+    property("segno-kern", "number", "Space between the segno and the lines of segno bar lines.")
+  ],
+  "time-signature-interface": [
+    property("style", "symbol", "Time signature style.", symbols("C", "default", "numbered", "single-digit", "mensural", "neomensural")),
+    property("fraction", "number-pair", "Fraction printed, e.g. `#'(3 . 4)`.")
+  ],
+  "clef-interface": [
+    property("glyph", "string", "Clef glyph."),
+    property("glyph-name", "string", "Clef glyph actually printed, including the size change."),
+    property("full-size-change", "boolean", "Print clef changes at full size."),
+    property("non-default", "boolean", "The clef was set explicitly.")
+  ],
+  "key-signature-interface": [
+    property("alteration-alist", "alist", "Alterations of the key signature."),
+    property("c0-position", "integer", "Staff position of middle C."),
+    property("glyph-name-alist", "alist", "Glyph for each alteration."),
+    property("padding", "number", "Padding around the key signature."),
+    property("padding-pairs", "alist", "Padding between pairs of accidentals."),
+    property("flat-positions", "list", "Staff positions for flats."),
+    property("sharp-positions", "list", "Staff positions for sharps."),
+    property("non-default", "boolean", "The key signature was set explicitly.")
+  ],
+  "script-interface": [
+    property("script-priority", "number", "Stacking order; lower values are closer to the note."),
+    property("avoid-slur", "symbol", "How to avoid slurs.", AVOID_SLUR),
+    property("slur-padding", "number", "Space kept from slurs."),
+    property("toward-stem-shift", "number", "Shift towards the stem, between 0 and 1."),
+    property("toward-stem-shift-in-column", "number", "Shift towards the stem when in a script column.")
+  ],
+  "dots-interface": [
+    property("dot-count", "integer", "Number of dots."),
+    property("direction", "direction", "Direction to shift dots on staff lines.")
+  ],
+  "rest-interface": [
+    property("style", "symbol", "Rest style.", symbols("default", "mensural", "neomensural", "classical", "z")),
+    property("voiced-position", "number", "Staff position of the rest in a voice with a direction."),
+    property("minimum-distance", "number", "Minimum distance to other notes.")
+  ],
+  "multi-measure-rest-interface": [
+    property("bound-padding", "number", "Padding between the rest and the bar lines."),
+    property("expand-limit", "integer", "Number of measures up to which church rests are used."),
+    property("hair-thickness", "number", "Thickness of the rest's vertical lines."),
+    property("thick-thickness", "number", "Thickness of the rest's horizontal bar."),
+    property("max-symbol-separation", "number", "Maximum distance between church rest symbols."),
+    property("measure-count", "integer", "Number of measures the rest spans."),
+    property("round-up-to-longer-rest", "boolean", "Use the next longer rest glyph for odd measure lengths."),
+    property("space-increment", "number", "Extra space per measure."),
+    property("spacing-pair", "number-pair", "Break alignment symbols the rest is spaced between."),
+    property("usable-duration-logs", "list", "Durations that may be used for the rest glyph.")
+  ],
+  "tuplet-bracket-interface": [
+    property("direction", "direction", "Side of the notes to print the bracket on."),
+    property("bracket-visibility", "boolean", "Whether to print the bracket.", ["##t", "##f", "#'if-no-beam"]),
+    property("bracket-flare", "number-pair", "How far the bracket's ends bend outwards."),
+    property("edge-height", "number-pair", "Heights of the bracket's ends."),
+    property("full-length-padding", "number", "Padding at the end with `tupletFullLength`."),
+    property("full-length-to-extent", "boolean", "Extend full-length brackets to the end of the last note."),
+    property("gap", "number", "Space for the tuplet number."),
+    property("padding", "number", "Space between the bracket and the notes."),
+    property("positions", "number-pair", "Vertical positions of the bracket's ends."),
+    property("shorten-pair", "number-pair", "Shortening at the left and right end."),
+    property("staff-padding", "number", "Minimum distance from the staff."),
+    property("thickness", "number", "Line thickness."),
+    property("avoid-scripts", "boolean", "Place the bracket beyond articulations."),
+    property("break-overshoot", "number-pair", "How far broken brackets extend past the line's ends."),
+    property("dashed-edge", "boolean", "Draw the bracket's ends dashed.")
+  ],
+  "tuplet-number-interface": [
+    property("avoid-slur", "symbol", "How to avoid slurs.", AVOID_SLUR),
+    property("knee-to-beam", "boolean", "Place the number of a kneed beam next to the beam.")
+  ],
+  "break-aligned-interface": [
+    property("break-align-symbol", "symbol", "Position in the order of break-aligned objects."),
+    property("break-align-anchor", "number", "Horizontal anchor for objects aligned to this one."),
+    property("break-align-anchor-alignment", "number", "Alignment of the anchor.", HORIZONTAL_ALIGNMENTS)
+  ],
+  "break-alignable-interface": [
+    property("break-align-symbols", "list", "Objects to align to, in order of preference."),
+    property("non-break-align-symbols", "list", "Objects to align to when not at a line break.")
+  ],
+  "staff-symbol-interface": [
+    property("line-count", "integer", "Number of staff lines."),
+    property("line-positions", "list", "Staff positions of the lines."),
+    property("ledger-extra", "number", "Extra ledger lines beyond the needed ones."),
+    property("ledger-line-thickness", "number-pair", "Thickness of ledger lines."),
+    property("ledger-positions", "list", "Pattern of ledger line positions."),
+    property("staff-space", "number", "Distance between staff lines."),
+    property("thickness", "number", "Thickness of staff lines."),
+    property("width", "number", "Length of the staff.")
+  ],
+  "ottava-bracket-interface": [
+    property("bracket-flare", "number-pair", "How far the bracket's ends bend outwards."),
+    property("edge-height", "number-pair", "Heights of the bracket's ends."),
+    property("shorten-pair", "number-pair", "Shortening at the left and right end.")
+  ],
+  "piano-pedal-bracket-interface": [
+    property("bracket-flare", "number-pair", "How far the bracket's ends bend outwards."),
+    property("edge-height", "number-pair", "Heights of the bracket's ends."),
+    property("shorten-pair", "number-pair", "Shortening at the left and right end."),
+    property("bound-padding", "number", "Padding at the bracket's ends.")
+  ],
+  "arpeggio-interface": [
+    property("arpeggio-direction", "direction", "Direction of the arrow."),
+    property("dash-definition", "list", "Dash pattern for dashed arpeggios."),
+    property("positions", "number-pair", "Vertical extent of the arpeggio."),
+    property("protrusion", "number", "How far the arrow protrudes past the notes."),
+    property("script-priority", "number", "Stacking order with other scripts.")
+  ],
+  "lyric-hyphen-interface": [
+    property("dash-period", "number", "Distance between hyphens."),
+    property("height", "number", "Vertical position of the hyphen."),
+    property("length", "number", "Length of the hyphen."),
+    property("minimum-distance", "number", "Minimum distance between the syllables."),
+    property("padding", "number", "Space between the hyphen and the syllables."),
+    property("thickness", "number", "Thickness of the hyphen.")
+  ],
+  "lyric-extender-interface": [
+    property("thickness", "number", "Thickness of the extender line."),
+    property("left-padding", "number", "Space before the line."),
+    property("right-padding", "number", "Space after the line.")
+  ],
+  "system-start-delimiter-interface": [
+    property("collapse-height", "number", "Minimum height for the delimiter to be printed."),
+    property("style", "symbol", "Delimiter style.", symbols("bar-line", "brace", "bracket", "line-bracket")),
+    property("thickness", "number", "Line thickness.")
+  ],
+  "volta-bracket-interface": [
+    property("height", "number", "Height of the bracket's hooks."),
+    property("shorten-pair", "number-pair", "Shortening at the left and right end."),
+    property("thickness", "number", "Line thickness.")
+  ],
+  "percent-repeat-interface": [
+    property("dot-negative-kern", "number", "Space between the slash and the dots."),
+    property("slash-negative-kern", "number", "Space between the slashes of a double percent."),
+    property("thickness", "number", "Slash thickness.")
+  ],
+  "stem-tremolo-interface": [
+    property("slope", "number", "Slope of the tremolo beams."),
+    property("beam-thickness", "number", "Thickness of the tremolo beams."),
+    property("beam-width", "number", "Width of the tremolo beams."),
+    property("flag-count", "integer", "Number of tremolo beams."),
+    property("shape", "symbol", "Shape of the tremolo beams.", symbols("beam-like", "rectangle"))
+  ],
+  "spacing-spanner-interface": [
+    property("base-shortest-duration", "moment", "Spacing reference for the shortest note."),
+    property("common-shortest-duration", "moment", "Duration treated as the most common shortest note."),
+    property("shortest-duration-space", "number", "Space for the shortest note, in note head widths."),
+    property("spacing-increment", "number", "Extra space for notes twice as long."),
+    property("uniform-stretching", "boolean", "Stretch all notes by the same amount."),
+    property("strict-note-spacing", "boolean", "Space notes strictly by duration, ignoring other objects."),
+    property("strict-grace-spacing", "boolean", "Space grace notes independently of main notes."),
+    property("packed-spacing", "boolean", "Space notes as tightly as possible.")
+  ],
+  "vertical-axis-group-interface": [
+    property("staff-staff-spacing", "alist", "Spacing to the next staff in the same group."),
+    property("default-staff-staff-spacing", "alist", "Spacing to the next staff when `staff-staff-spacing` is unset."),
+    property("nonstaff-relatedstaff-spacing", "alist", "Spacing between a non-staff line and its staff."),
+    property("nonstaff-nonstaff-spacing", "alist", "Spacing between two non-staff lines."),
+    property("nonstaff-unrelatedstaff-spacing", "alist", "Spacing between a non-staff line and other staves."),
+    property("staff-affinity", "direction", "Which staff a non-staff line stays close to."),
+    property("remove-empty", "boolean", "Remove the line in systems where it is empty."),
+    property("remove-first", "boolean", "Also remove the line in the first system when empty.")
+  ],
+  "staff-grouper-interface": [
+    property("staff-staff-spacing", "alist", "Spacing between staves inside the group."),
+    property("staffgroup-staff-spacing", "alist", "Spacing between the group's last staff and the next staff.")
+  ]
+};
+
+const TEXT = ["text-interface", "font-interface"];
+const MARK = [...TEXT, "side-position-interface", "break-alignable-interface", "self-alignment-interface"];
+const SCRIPT_TEXT = [...TEXT, "self-alignment-interface", "side-position-interface", "script-interface"];
+const LINE_SPANNER = ["line-spanner-interface", "line-interface"];
+
+export const LILYPOND_GROBS: GrobInfo[] = [
+  { name: "Accidental", kind: "item", description: "Accidental in front of a note.", interfaces: ["accidental-interface", "font-interface"] },
+  { name: "AccidentalCautionary", kind: "item", description: "Cautionary accidental.", interfaces: ["accidental-interface", "font-interface"] },
+  {
+    name: "AccidentalSuggestion",
+    kind: "item",
+    description: "Editorial accidental above a note (musica ficta).",
+    interfaces: ["accidental-interface", "font-interface", "side-position-interface", "script-interface", "self-alignment-interface"]
+  },
+  {
+    name: "Arpeggio",
+    kind: "item",
+    description: "Arpeggio sign before a chord.",
+    interfaces: ["arpeggio-interface", "side-position-interface", "font-interface", "staff-symbol-referencer-interface"]
+  },
+  { name: "BarLine", kind: "item", description: "Bar line.", interfaces: ["bar-line-interface", "break-aligned-interface", "font-interface"] },
+  { name: "BarNumber", kind: "item", description: "Bar number.", interfaces: MARK },
+  { name: "BassFigure", kind: "item", description: "Figured bass number.", interfaces: TEXT },
+  { name: "Beam", kind: "spanner", description: "Beam.", interfaces: ["beam-interface", "staff-symbol-referencer-interface"] },
+  { name: "BreathingSign", kind: "item", description: "Breath mark.", interfaces: [...TEXT, "break-aligned-interface"] },
+  { name: "ChordName", kind: "item", description: "Chord name.", interfaces: TEXT },
+  {
+    name: "Clef",
+    kind: "item",
+    description: "Clef.",
+    interfaces: ["clef-interface", "font-interface", "break-aligned-interface", "staff-symbol-referencer-interface"]
+  },
+  {
+    name: "ClefModifier",
+    kind: "item",
+    description: "Octave number of a transposing clef such as `treble_8`.",
+    interfaces: [...TEXT, "self-alignment-interface", "side-position-interface"]
+  },
+  { name: "CodaMark", kind: "item", description: "Coda sign from `\\codaMark`.", interfaces: MARK },
+  {
+    name: "CueClef",
+    kind: "item",
+    description: "Clef of cue notes.",
+    interfaces: ["clef-interface", "font-interface", "break-aligned-interface", "staff-symbol-referencer-interface"]
+  },
+  {
+    name: "Dots",
+    kind: "item",
+    description: "Augmentation dots.",
+    interfaces: ["dots-interface", "font-interface", "staff-symbol-referencer-interface"]
+  },
+  {
+    name: "DoublePercentRepeat",
+    kind: "item",
+    description: "Double percent sign for two-measure repeats.",
+    interfaces: ["percent-repeat-interface", "font-interface", "break-aligned-interface"]
+  },
+  { name: "DynamicLineSpanner", kind: "spanner", description: "Aligns the dynamics of a line vertically.", interfaces: ["side-position-interface"] },
+  { name: "DynamicText", kind: "item", description: "Dynamic mark such as `\\f`.", interfaces: [...TEXT, "self-alignment-interface", "script-interface"] },
+  { name: "DynamicTextSpanner", kind: "spanner", description: "Text crescendo such as `cresc.`.", interfaces: [...LINE_SPANNER, ...TEXT] },
+  { name: "Fingering", kind: "item", description: "Fingering number.", interfaces: SCRIPT_TEXT },
+  { name: "Flag", kind: "item", description: "Flag of an unbeamed stem.", interfaces: ["flag-interface"] },
+  { name: "FretBoard", kind: "item", description: "Fret diagram.", interfaces: ["font-interface"] },
+  { name: "Glissando", kind: "spanner", description: "Glissando line.", interfaces: LINE_SPANNER },
+  { name: "Hairpin", kind: "spanner", description: "Crescendo or decrescendo hairpin.", interfaces: ["hairpin-interface", "line-interface", "self-alignment-interface"] },
+  { name: "HorizontalBracket", kind: "spanner", description: "Analysis bracket.", interfaces: ["line-interface", "side-position-interface"] },
+  {
+    name: "InstrumentName",
+    kind: "spanner",
+    description: "Instrument name before the staff.",
+    interfaces: [...TEXT, "self-alignment-interface", "side-position-interface"]
+  },
+  {
+    name: "KeyCancellation",
+    kind: "item",
+    description: "Naturals cancelling the previous key signature.",
+    interfaces: ["key-signature-interface", "font-interface", "break-aligned-interface"]
+  },
+  {
+    name: "KeySignature",
+    kind: "item",
+    description: "Key signature.",
+    interfaces: ["key-signature-interface", "font-interface", "break-aligned-interface"]
+  },
+  { name: "LyricExtender", kind: "spanner", description: "Melisma line after a syllable.", interfaces: ["lyric-extender-interface"] },
+  { name: "LyricHyphen", kind: "spanner", description: "Hyphen between syllables.", interfaces: ["lyric-hyphen-interface", "font-interface"] },
+  { name: "LyricText", kind: "item", description: "Lyric syllable.", interfaces: [...TEXT, "self-alignment-interface"] },
+  {
+    name: "MeasureCounter",
+    kind: "spanner",
+    description: "Measure count from `\\startMeasureCount`.",
+    interfaces: [...TEXT, "side-position-interface", "self-alignment-interface"]
+  },
+  { name: "MetronomeMark", kind: "item", description: "Tempo mark from `\\tempo`.", interfaces: MARK },
+  {
+    name: "MultiMeasureRest",
+    kind: "spanner",
+    description: "Multi-measure rest.",
+    interfaces: ["multi-measure-rest-interface", "font-interface", "staff-symbol-referencer-interface"]
+  },
+  {
+    name: "MultiMeasureRestNumber",
+    kind: "spanner",
+    description: "Measure count above a multi-measure rest.",
+    interfaces: [...TEXT, "side-position-interface", "self-alignment-interface"]
+  },
+  {
+    name: "MultiMeasureRestText",
+    kind: "spanner",
+    description: "Text attached to a multi-measure rest.",
+    interfaces: [...TEXT, "side-position-interface", "self-alignment-interface"]
+  },
+  { name: "NoteCollision", kind: "item", description: "Resolves collisions between voices.", interfaces: ["note-collision-interface"] },
+  { name: "NoteColumn", kind: "item", description: "Stem and heads of one voice at one moment.", interfaces: ["note-column-interface"] },
+  {
+    name: "NoteHead",
+    kind: "item",
+    description: "Note head.",
+    interfaces: ["note-head-interface", "rhythmic-head-interface", "font-interface", "staff-symbol-referencer-interface"]
+  },
+  { name: "NoteName", kind: "item", description: "Note name in a NoteNames context.", interfaces: TEXT },
+  {
+    name: "OttavaBracket",
+    kind: "spanner",
+    description: "Ottava bracket such as `8va`.",
+    interfaces: ["ottava-bracket-interface", "line-interface", ...TEXT, "side-position-interface"]
+  },
+  { name: "PercentRepeat", kind: "spanner", description: "Percent sign for measure repeats.", interfaces: ["percent-repeat-interface", "font-interface"] },
+  {
+    name: "PercentRepeatCounter",
+    kind: "spanner",
+    description: "Count above percent repeats.",
+    interfaces: [...TEXT, "side-position-interface", "self-alignment-interface"]
+  },
+  { name: "PhrasingSlur", kind: "spanner", description: "Phrasing slur.", interfaces: ["slur-interface"] },
+  { name: "PianoPedalBracket", kind: "spanner", description: "Bracket-style pedal mark.", interfaces: ["piano-pedal-bracket-interface", "line-interface"] },
+  { name: "RehearsalMark", kind: "item", description: "Rehearsal mark from `\\mark`.", interfaces: MARK },
+  {
+    name: "Rest",
+    kind: "item",
+    description: "Rest.",
+    interfaces: ["rest-interface", "rhythmic-head-interface", "font-interface", "staff-symbol-referencer-interface"]
+  },
+  { name: "Script", kind: "item", description: "Articulation such as staccato or fermata.", interfaces: ["script-interface", "font-interface", "side-position-interface"] },
+  { name: "SectionLabel", kind: "item", description: "Section label from `\\sectionLabel`.", interfaces: MARK },
+  { name: "SegnoMark", kind: "item", description: "Segno sign from `\\segnoMark`.", interfaces: MARK },
+  { name: "Slur", kind: "spanner", description: "Slur.", interfaces: ["slur-interface"] },
+  { name: "SostenutoPedal", kind: "item", description: "Sostenuto pedal mark.", interfaces: [...TEXT, "self-alignment-interface"] },
+  { name: "SostenutoPedalLineSpanner", kind: "spanner", description: "Aligns sostenuto pedal marks.", interfaces: ["side-position-interface"] },
+  { name: "SpacingSpanner", kind: "spanner", description: "Horizontal spacing of notes.", interfaces: ["spacing-spanner-interface"] },
+  { name: "SpanBar", kind: "item", description: "Bar line connecting staves.", interfaces: ["bar-line-interface", "font-interface"] },
+  { name: "StaffGrouper", kind: "spanner", description: "Vertical spacing inside staff groups.", interfaces: ["staff-grouper-interface"] },
+  { name: "StaffSymbol", kind: "spanner", description: "Staff lines.", interfaces: ["staff-symbol-interface"] },
+  { name: "StanzaNumber", kind: "item", description: "Stanza number before lyrics.", interfaces: [...TEXT, "side-position-interface"] },
+  { name: "Stem", kind: "item", description: "Stem.", interfaces: ["stem-interface"] },
+  { name: "StemTremolo", kind: "item", description: "Tremolo beams on a stem.", interfaces: ["stem-tremolo-interface"] },
+  { name: "StringNumber", kind: "item", description: "String number.", interfaces: SCRIPT_TEXT },
+  { name: "StrokeFinger", kind: "item", description: "Right-hand fingering.", interfaces: SCRIPT_TEXT },
+  { name: "SustainPedal", kind: "item", description: "Sustain pedal mark.", interfaces: [...TEXT, "self-alignment-interface"] },
+  { name: "SustainPedalLineSpanner", kind: "spanner", description: "Aligns sustain pedal marks.", interfaces: ["side-position-interface"] },
+  { name: "SystemStartBar", kind: "spanner", description: "Line at the start of a system.", interfaces: ["system-start-delimiter-interface"] },
+  {
+    name: "SystemStartBrace",
+    kind: "spanner",
+    description: "Brace at the start of a system.",
+    interfaces: ["system-start-delimiter-interface", "font-interface"]
+  },
+  {
+    name: "SystemStartBracket",
+    kind: "spanner",
+    description: "Bracket at the start of a system.",
+    interfaces: ["system-start-delimiter-interface", "font-interface"]
+  },
+  { name: "SystemStartSquare", kind: "spanner", description: "Square bracket at the start of a system.", interfaces: ["system-start-delimiter-interface"] },
+  {
+    name: "TabNoteHead",
+    kind: "item",
+    description: "Fret number in tablature.",
+    interfaces: ["rhythmic-head-interface", ...TEXT, "staff-symbol-referencer-interface"]
+  },
+  { name: "TextMark", kind: "item", description: "Text mark from `\\textMark`.", interfaces: MARK },
+  {
+    name: "TextScript",
+    kind: "item",
+    description: "Text attached to a note, such as `^\"dolce\"`.",
+    interfaces: [...TEXT, "side-position-interface", "self-alignment-interface", "script-interface"]
+  },
+  { name: "TextSpanner", kind: "spanner", description: "Text with an extender line.", interfaces: [...LINE_SPANNER, "font-interface", "side-position-interface"] },
+  { name: "Tie", kind: "spanner", description: "Tie.", interfaces: ["tie-interface"] },
+  {
+    name: "TimeSignature",
+    kind: "item",
+    description: "Time signature.",
+    interfaces: ["time-signature-interface", "font-interface", "break-aligned-interface"]
+  },
+  { name: "TrillSpanner", kind: "spanner", description: "Trill with an extender line.", interfaces: [...LINE_SPANNER, "font-interface", "side-position-interface"] },
+  { name: "TupletBracket", kind: "spanner", description: "Tuplet bracket.", interfaces: ["tuplet-bracket-interface", "line-interface"] },
+  { name: "TupletNumber", kind: "spanner", description: "Tuplet number.", interfaces: ["tuplet-number-interface", ...TEXT] },
+  { name: "UnaCordaPedal", kind: "item", description: "Una corda pedal mark.", interfaces: [...TEXT, "self-alignment-interface"] },
+  { name: "UnaCordaPedalLineSpanner", kind: "spanner", description: "Aligns una corda pedal marks.", interfaces: ["side-position-interface"] },
+  { name: "VerticalAxisGroup", kind: "spanner", description: "A staff or other line of a system, for vertical spacing.", interfaces: ["vertical-axis-group-interface"] },
+  { name: "VoiceFollower", kind: "spanner", description: "Line showing a voice moving to another staff.", interfaces: LINE_SPANNER },
+  {
+    name: "VoltaBracket",
+    kind: "spanner",
+    description: "Volta bracket of a repeat alternative.",
+    interfaces: ["volta-bracket-interface", "line-interface", ...TEXT, "side-position-interface"]
+  },
+  { name: "VoltaBracketSpanner", kind: "spanner", description: "Aligns volta brackets.", interfaces: ["side-position-interface"] }
+];
+
+export const LILYPOND_CONTEXT_PROPERTIES: PropertyInfo[] = [
+  property("instrumentName", "markup", "Instrument name printed before the first system."),
+  property("shortInstrumentName", "markup", "Instrument name printed before later systems."),
+  property("vocalName", "markup", "Vocal name printed before the first system."),
+  property("shortVocalName", "markup", "Vocal name printed before later systems."),
+  property("midiInstrument", "string", "MIDI instrument, e.g. \"acoustic grand\"."),
+  property("midiMinimumVolume", "number", "Minimum MIDI volume, between 0 and 1."),
+  property("midiMaximumVolume", "number", "Maximum MIDI volume, between 0 and 1."),
+  property("midiPanPosition", "number", "MIDI stereo position, from -1 (left) to 1 (right)."),
+  property("midiReverbLevel", "number", "MIDI reverb level, between 0 and 1."),
+  property("midiChorusLevel", "number", "MIDI chorus level, between 0 and 1."),
+  property("midiChannelMapping", "symbol", "How MIDI channels are assigned.", symbols("staff", "instrument", "voice")),
+  property("instrumentTransposition", "number", "Sounding pitch of a written c', set by `\\transposition`."),
+  property("fontSize", "number", "Font size change for all objects in the context."),
+  property("autoBeaming", "boolean", "Beam notes automatically."),
+  property("baseMoment", "moment", "Beat unit for automatic beaming."),
+  property("beatStructure", "list", "Beat grouping for automatic beaming, in base moments."),
+  property("beamExceptions", "alist", "Beaming rules that override the beat structure."),
+  property("beamHalfMeasure", "boolean", "Allow beams over half a 3/4 measure."),
+  property("subdivideBeams", "boolean", "Subdivide beams at beat boundaries."),
+  property("measureLength", "moment", "Length of a measure."),
+  property("measurePosition", "moment", "Position in the current measure."),
+  property("currentBarNumber", "integer", "Number of the current measure."),
+  property("barNumberVisibility", "procedure", "Which bar numbers are printed.", [
+    "#all-bar-numbers-visible",
+    "#first-bar-number-invisible",
+    "#first-bar-number-invisible-save-broken-bars",
+    "#first-bar-number-invisible-and-no-parenthesized-bar-numbers",
+    "#(every-nth-bar-number-visible 5)"
+  ]),
+  property("barNumberFormatter", "procedure", "Procedure formatting bar numbers."),
+  property("centerBarNumbers", "boolean", "Center bar numbers in their measures."),
+  property("alternativeNumberingStyle", "symbol", "Bar numbering in repeat alternatives.", symbols("numbers", "numbers-with-letters")),
+  property("timing", "boolean", "Keep track of measures and bar lines."),
+  property("skipBars", "boolean", "Compress consecutive empty measures into multi-measure rests."),
+  property("skipTypesetting", "boolean", "Do not engrave the following music."),
+  property("tempoWholesPerMinute", "moment", "Tempo for MIDI output."),
+  property("timeSignatureFraction", "number-pair", "Fraction of the current time signature."),
+  property("middleCPosition", "integer", "Staff position of middle C."),
+  property("clefGlyph", "string", "Glyph of the current clef, e.g. \"clefs.G\"."),
+  property("clefPosition", "integer", "Staff position of the clef."),
+  property("clefTransposition", "integer", "Transposition of the clef in steps."),
+  property("explicitClefVisibility", "vector", "Visibility of explicit clef changes.", ["#all-visible", "#begin-of-line-visible", "#end-of-line-invisible"]),
+  property("explicitKeySignatureVisibility", "vector", "Visibility of explicit key signatures.", [
+    "#all-visible",
+    "#begin-of-line-visible",
+    "#end-of-line-invisible"
+  ]),
+  property("printKeyCancellation", "boolean", "Print naturals when the key signature changes."),
+  property("keyAlterationOrder", "list", "Order of alterations in key signatures."),
+  property("extraNatural", "boolean", "Print a natural before accidentals that cancel a previous one."),
+  property("suggestAccidentals", "boolean", "Print accidentals as editorial suggestions above the notes."),
+  property("harmonicAccidentals", "boolean", "Print accidentals on harmonic note heads."),
+  property("autoCautionaries", "list", "Rules for automatic cautionary accidentals."),
+  property("tupletFullLength", "boolean", "Extend tuplet brackets to the next note."),
+  property("tupletFullLengthNote", "boolean", "Extend full-length tuplet brackets over the next note."),
+  property("tupletSpannerDuration", "moment", "Length of each tuplet bracket within a long `\\tuplet`."),
+  property("graceSettings", "list", "Property overrides applied inside grace notes."),
+  property("connectArpeggios", "boolean", "Connect arpeggios across staves."),
+  property("measureBarType", "string", "Bar line at the end of each measure.", ["\"|\"", "\"\"", "\"!\""]),
+  property("sectionBarType", "string", "Bar line for `\\section`.", ["\"||\""]),
+  property("fineBarType", "string", "Bar line for `\\fine`.", ["\"|.\""]),
+  property("startRepeatBarType", "string", "Bar line at the start of a repeat.", ["\".|:\""]),
+  property("endRepeatBarType", "string", "Bar line at the end of a repeat.", ["\":|.\""]),
+  property("doubleRepeatBarType", "string", "Bar line between two repeats.", ["\":..:\"", "\":|.|:\""]),
+  property("whichBar", "string", "Bar line for the current moment."),
+  property("repeatCommands", "list", "Pending volta bracket and repeat bar commands."),
+  property("voltaSpannerDuration", "moment", "Maximum length of volta brackets."),
+  property("countPercentRepeats", "boolean", "Print counts above percent repeats."),
+  property("repeatCountVisibility", "procedure", "Which percent repeat counts are printed."),
+  property("rehearsalMark", "integer", "Number of the next rehearsal mark."),
+  property("rehearsalMarkFormatter", "procedure", "Procedure formatting rehearsal marks.", [
+    "#format-mark-letters",
+    "#format-mark-numbers",
+    "#format-mark-box-letters",
+    "#format-mark-box-numbers",
+    "#format-mark-circle-letters",
+    "#format-mark-circle-numbers",
+    "#format-mark-barnumbers"
+  ]),
+  property("systemStartDelimiter", "symbol", "Delimiter at the start of systems.", symbols("SystemStartBar", "SystemStartBrace", "SystemStartBracket", "SystemStartSquare")),
+  property("systemStartDelimiterHierarchy", "list", "Nested delimiters for staff groups."),
+  property("pedalSustainStyle", "symbol", "Style of sustain pedal marks.", symbols("text", "bracket", "mixed")),
+  property("pedalSostenutoStyle", "symbol", "Style of sostenuto pedal marks.", symbols("text", "bracket", "mixed")),
+  property("pedalUnaCordaStyle", "symbol", "Style of una corda pedal marks.", symbols("text", "bracket", "mixed")),
+  property("pedalSustainStrings", "list", "Texts of sustain pedal marks."),
+  property("crescendoText", "markup", "Text for crescendos printed as text."),
+  property("crescendoSpanner", "symbol", "Line style for text crescendos.", symbols("hairpin", "text")),
+  property("decrescendoText", "markup", "Text for decrescendos printed as text."),
+  property("decrescendoSpanner", "symbol", "Line style for text decrescendos.", symbols("hairpin", "text")),
+  property("associatedVoice", "string", "Voice that lyrics follow."),
+  property("ignoreMelismata", "boolean", "Give every note its own syllable, ignoring slurs and ties."),
+  property("includeGraceNotes", "boolean", "Give grace notes their own syllables."),
+  property("melismaBusyProperties", "list", "Properties that make lyrics skip notes."),
+  property("stanza", "markup", "Stanza number printed before the lyrics."),
+  property("figuredBassAlterationDirection", "direction", "Side of the figure to print accidentals on.", ["#LEFT", "#RIGHT"]),
+  property("figuredBassPlusDirection", "direction", "Side of the figure to print plus signs on.", ["#LEFT", "#RIGHT"]),
+  property("useBassFigureExtenders", "boolean", "Print extender lines for held figures."),
+  property("chordChanges", "boolean", "Print chord names only when the chord changes."),
+  property("chordNameExceptions", "list", "Custom names for specific chords."),
+  property("chordNameLowercaseMinor", "boolean", "Print minor chords with lowercase roots."),
+  property("majorSevenSymbol", "markup", "Markup for major seventh chords."),
+  property("noChordSymbol", "markup", "Markup for rests in chord names."),
+  property("stringTunings", "list", "Tuning of the strings in tablature and fret diagrams."),
+  property("minimumFret", "integer", "Lowest fret used in automatic tablature."),
+  property("restrainOpenStrings", "boolean", "Avoid open strings in automatic tablature."),
+  property("highStringOne", "boolean", "String 1 is the highest string."),
+  property("shapeNoteStyles", "vector", "Note head styles for shape notes by scale degree."),
+  property("printOctaveNames", "boolean", "Print octave marks in NoteNames."),
+  property("printAccidentalNames", "boolean", "Print accidentals in NoteNames."),
+  property("aDueText", "markup", "Text for unisono passages in `\\partCombine`."),
+  property("soloText", "markup", "Text for the first part's solos in `\\partCombine`."),
+  property("soloIIText", "markup", "Text for the second part's solos in `\\partCombine`."),
+  property("printPartCombineTexts", "boolean", "Print Solo and a2 texts in `\\partCombine`."),
+  property("fingeringOrientations", "list", "Placement of fingerings in chords.", ["#'(up)", "#'(down)", "#'(left)", "#'(right)"]),
+  property("stringNumberOrientations", "list", "Placement of string numbers in chords.", ["#'(up)", "#'(down)", "#'(left)", "#'(right)"]),
+  property("strokeFingerOrientations", "list", "Placement of right-hand fingerings in chords.", ["#'(up)", "#'(down)", "#'(left)", "#'(right)"]),
+  property("tieWaitForNote", "boolean", "Allow ties to connect to later notes, e.g. in arpeggios."),
+  property("keepAliveInterfaces", "list", "Interfaces that keep a staff from being removed when empty."),
+  property("suspendRestMerging", "boolean", "Do not merge rests of different voices."),
+  property("drumStyleTable", "alist", "Note heads and positions for drum notes."),
+  property("quotedEventTypes", "list", "Events copied by `\\quoteDuring`."),
+  property("ottavation", "markup", "Text of the current ottava bracket."),
+  property("proportionalNotationDuration", "moment", "Duration given a fixed space in proportional notation.")
+];
+
+const CONTEXT_BY_NAME = new Map(LILYPOND_CONTEXTS.map((context) => [context.name, context]));
+const GROB_BY_NAME = new Map(LILYPOND_GROBS.map((grob) => [grob.name, grob]));
+const CONTEXT_PROPERTY_BY_NAME = new Map(LILYPOND_CONTEXT_PROPERTIES.map((item) => [item.name, item]));
+
+export function findContext(name: string): ContextInfo | undefined {
+  return CONTEXT_BY_NAME.get(name);
+}
+
+export function findGrob(name: string): GrobInfo | undefined {
+  return GROB_BY_NAME.get(name);
+}
+
+export function findContextProperty(name: string): PropertyInfo | undefined {
+  return CONTEXT_PROPERTY_BY_NAME.get(name);
+}
+
+/** Properties of the grob's interfaces; the first interface that defines a property wins. */
+export function getGrobProperties(grob: GrobInfo): PropertyInfo[] {
+  const interfaces = [...grob.interfaces, `${grob.kind}-interface`, "grob-interface"];
+  const properties = new Map<string, PropertyInfo>();
+  for (const name of interfaces) {
+    for (const item of LILYPOND_GROB_INTERFACES[name] ?? []) {
+      if (!properties.has(item.name)) {
+        properties.set(item.name, item);
+      }
+    }
+  }
+  return [...properties.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Values to offer after `=` or in `\tweak`: the property's own values, else ones for its type. */
+export function getPropertyValues(item: PropertyInfo): string[] {
+  if (item.values) {
+    return item.values;
+  }
+
+  switch (item.type) {
+    case "boolean":
+      return ["##t", "##f"];
+    case "direction":
+      return ["#UP", "#DOWN", "#CENTER"];
+    case "color":
+      return ["#red", "#blue", "#green", "#darkred", "#darkblue", "#darkgreen", "#grey", "#(rgb-color 0.5 0 0)", "#(x11-color 'DarkOrange)"];
+    case "number-pair":
+      return ["#'(0 . 0)"];
+    case "markup":
+      return ["\"\"", "\\markup { }"];
+    case "moment":
+      return ["#(ly:make-moment 1/4)"];
+    case "stencil":
+      return ["##f"];
+    default:
+      return [];
+  }
+}
+
+/** Every grob property, for `\tweak` without a grob name. */
+export function getAllGrobProperties(): PropertyInfo[] {
+  const properties = new Map<string, PropertyInfo>();
+  for (const grob of LILYPOND_GROBS) {
+    for (const item of getGrobProperties(grob)) {
+      if (!properties.has(item.name)) {
+        properties.set(item.name, item);
+      }
+    }
+  }
+  return [...properties.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** The grob's property, or the first interface's property of that name when the grob is unknown. */
+export function findGrobProperty(name: string, grob?: GrobInfo): PropertyInfo | undefined {
+  const properties = grob ? getGrobProperties(grob) : getAllGrobProperties();
+  return properties.find((item) => item.name === name);
+}
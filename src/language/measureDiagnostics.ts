@@ -0,0 +1,113 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { getBarCheckDiagnosticsEnabled } from "../config/settings";
+import { log } from "../log/logger";
+import { analyzeMeasures, type MeasureAnalysis } from "../sync/measures";
+import { LILYPOND_KEYWORDS } from "./lilypondData";
+import { getPitchCollectOptions } from "./noteLanguage";
+
+const ANALYSIS_DELAY_MS = 300;
+const BUILT_IN_COMMANDS = new Set(LILYPOND_KEYWORDS.map((command) => command.name));
+
+const analyses = new Map<string, { version: number; analysis: Promise<MeasureAnalysis> }>();
+
+/** Measure analysis of the document, shared by diagnostics and measure navigation per version. */
+export function getMeasureAnalysis(context: vscode.ExtensionContext, document: vscode.TextDocument): Promise<MeasureAnalysis> {
+  const key = document.uri.toString();
+  const cached = analyses.get(key);
+  if (cached?.version === document.version) {
+    return cached.analysis;
+  }
+
+  const text = document.getText();
+  const analysis = getPitchCollectOptions(context, document).then((options) =>
+    analyzeMeasures(text, { ...options, builtInCommands: BUILT_IN_COMMANDS })
+  );
+  const entry = { version: document.version, analysis };
+  analyses.set(key, entry);
+  analysis.catch(() => {
+    if (analyses.get(key) === entry) {
+      analyses.delete(key);
+    }
+  });
+  return analysis;
+}
+
+/**
+ * Checks bar checks and measure lengths as you type, without rendering. The results live in
+ * their own collection so LilyPond's render diagnostics never replace them.
+ */
+export function registerMeasureDiagnostics(context: vscode.ExtensionContext): void {
+  const collection = vscode.languages.createDiagnosticCollection("lilypond-measures");
+  const timers = new Map<string, NodeJS.Timeout>();
+
+  const analyze = async (document: vscode.TextDocument): Promise<void> => {
+    if (!getBarCheckDiagnosticsEnabled()) {
+      collection.delete(document.uri);
+      return;
+    }
+
+    const version = document.version;
+    const analysis = await getMeasureAnalysis(context, document);
+    if (document.isClosed || document.version !== version) {
+      return;
+    }
+
+    const diagnostics = analysis.diagnostics.map((issue) => {
+      const range = new vscode.Range(document.positionAt(issue.start), document.positionAt(issue.end));
+      const diagnostic = new vscode.Diagnostic(range, issue.message, vscode.DiagnosticSeverity.Warning);
+      diagnostic.source = "lilypond-measures";
+      return diagnostic;
+    });
+    collection.set(document.uri, diagnostics);
+  };
+
+  const schedule = (document: vscode.TextDocument): void => {
+    if (!isLilyPondDocument(document)) {
+      return;
+    }
+
+    const key = document.uri.toString();
+    clearTimeout(timers.get(key));
+    timers.set(
+      key,
+      setTimeout(() => {
+        timers.delete(key);
+        analyze(document).catch((error) => {
+          log(`Measure analysis failed for ${document.fileName}: ${String(error)}`);
+          collection.delete(document.uri);
+        });
+      }, ANALYSIS_DELAY_MS)
+    );
+  };
+
+  const onOpen = vscode.workspace.onDidOpenTextDocument(schedule);
+  const onChange = vscode.workspace.onDidChangeTextDocument((event) => schedule(event.document));
+  const onClose = vscode.workspace.onDidCloseTextDocument((document) => {
+    const key = document.uri.toString();
+    clearTimeout(timers.get(key));
+    timers.delete(key);
+    analyses.delete(key);
+    collection.delete(document.uri);
+  });
+  const onConfigChange = vscode.workspace.onDidChangeConfiguration((event) => {
+    if (event.affectsConfiguration("lilypond.diagnostics.barChecks")) {
+      vscode.workspace.textDocuments.forEach(schedule);
+    }
+  });
+
+  vscode.workspace.textDocuments.forEach(schedule);
+
+  context.subscriptions.push(collection, onOpen, onChange, onClose, onConfigChange, {
+    dispose: () => timers.forEach((timer) => clearTimeout(timer))
+  });
+}
+
+function isLilyPondDocument(document: vscode.TextDocument): boolean {
+  if (document.languageId === "lilypond") {
+    return true;
+  }
+
+  const extension = path.extname(document.fileName).toLowerCase();
+  return extension === ".ly" || extension === ".ily" || extension === ".lyi";
+}
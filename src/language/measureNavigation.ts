@@ -0,0 +1,100 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { countMeasures, findMeasurePosition, findMeasureStart, getBeat } from "../sync/measures";
+import { getMeasureAnalysis } from "./measureDiagnostics";
+
+/** Cursor moves while typing are batched so the document is analyzed once per pause. */
+const REFRESH_DELAY_MS = 150;
+
+/**
+ * Shows the measure and beat under the cursor next to the render status, and jumps to a measure
+ * by number in the voice under the cursor.
+ */
+export function registerMeasureNavigation(context: vscode.ExtensionContext): void {
+  const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 49);
+  statusBarItem.command = "lilypond.navigate.gotoMeasure";
+  statusBarItem.tooltip = "Go to measure";
+  let update = 0;
+  let timer: NodeJS.Timeout | undefined;
+
+  const refresh = async (editor: vscode.TextEditor | undefined): Promise<void> => {
+    const current = (update += 1);
+    if (!editor || !isLilyPondDocument(editor.document)) {
+      statusBarItem.hide();
+      return;
+    }
+
+    const analysis = await getMeasureAnalysis(context, editor.document);
+    if (current !== update) {
+      return;
+    }
+
+    const position = findMeasurePosition(analysis, editor.document.offsetAt(editor.selection.active));
+    if (!position) {
+      statusBarItem.hide();
+      return;
+    }
+
+    statusBarItem.text = `m. ${position.measure}, beat ${getBeat(position)}`;
+    statusBarItem.show();
+  };
+
+  const schedule = (editor: vscode.TextEditor | undefined): void => {
+    clearTimeout(timer);
+    timer = setTimeout(() => void refresh(editor), REFRESH_DELAY_MS);
+  };
+
+  const gotoMeasure = vscode.commands.registerCommand("lilypond.navigate.gotoMeasure", async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isLilyPondDocument(editor.document)) {
+      void vscode.window.showInformationMessage("Open a LilyPond file to go to a measure.");
+      return;
+    }
+
+    const value = await vscode.window.showInputBox({
+      title: "Go to Measure",
+      prompt: "Measure number in the voice under the cursor",
+      validateInput(input) {
+        return /^\d+$/.test(input.trim()) ? undefined : "Enter a measure number, e.g. 137";
+      }
+    });
+    if (!value) {
+      return;
+    }
+
+    const document = editor.document;
+    const analysis = await getMeasureAnalysis(context, document);
+    const offset = document.offsetAt(editor.selection.active);
+    const measure = Number(value.trim());
+    const target = findMeasureStart(analysis, offset, measure);
+    if (!target) {
+      const message =
+        analysis.positions.length === 0
+          ? "No music found in this file."
+          : `Measure ${measure} not found (the current voice has ${countMeasures(analysis, offset)} measures).`;
+      void vscode.window.showInformationMessage(message);
+      return;
+    }
+
+    const position = document.positionAt(target.start);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  });
+
+  const onSelection = vscode.window.onDidChangeTextEditorSelection((event) => schedule(event.textEditor));
+  const onEditor = vscode.window.onDidChangeActiveTextEditor(schedule);
+
+  schedule(vscode.window.activeTextEditor);
+  context.subscriptions.push(statusBarItem, gotoMeasure, onSelection, onEditor, {
+    dispose: () => clearTimeout(timer)
+  });
+}
+
+function isLilyPondDocument(document: vscode.TextDocument): boolean {
+  if (document.languageId === "lilypond") {
+    return true;
+  }
+
+  const extension = path.extname(document.fileName).toLowerCase();
+  return extension === ".ly" || extension === ".ily" || extension === ".lyi";
+}
@@ -0,0 +1,56 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { getParseTree } from "../parser/documentCache";
+import { getIncludeCandidates } from "../sync/includeGraph";
+import type { PitchCollectOptions } from "../sync/musicPitches";
+import { findIncomingNoteLanguage, findLanguageAfterInclude, type NoteLanguageSources } from "../sync/noteLanguage";
+import { findRootFiles } from "./includeIndex";
+import { getIncludeSearchOptions, loadIncludedFiles, type ScopeFile } from "./includeScope";
+
+/** Options per cached include scope, so they are worked out again only when the include graph changes. */
+const optionsByScope = new WeakMap<ScopeFile[], Promise<PitchCollectOptions>>();
+
+/**
+ * Note name language for the document's pitch tools: the language its root file has set when
+ * it reaches the document, plus languages set inside files the document includes.
+ */
+export async function getPitchCollectOptions(
+  context: vscode.ExtensionContext,
+  document: vscode.TextDocument
+): Promise<PitchCollectOptions> {
+  const included = await loadIncludedFiles(context, document);
+  const cached = optionsByScope.get(included);
+  if (cached) {
+    return cached;
+  }
+
+  const options = resolvePitchCollectOptions(context, document, included);
+  optionsByScope.set(included, options);
+  options.catch(() => optionsByScope.delete(included));
+  return options;
+}
+
+/**
+ * The languages depend only on the other files in scope: the scan from the root stops where it
+ * reaches the document, so the document's own edits never change them.
+ */
+async function resolvePitchCollectOptions(
+  context: vscode.ExtensionContext,
+  document: vscode.TextDocument,
+  included: ScopeFile[]
+): Promise<PitchCollectOptions> {
+  const scope = [{ uri: document.uri, tree: getParseTree(document) }, ...included];
+  const files = new Map(scope.map((file) => [path.resolve(file.uri.fsPath), file.tree]));
+  const searchOptions = await getIncludeSearchOptions(context, document);
+  const sources: NoteLanguageSources = {
+    files,
+    resolveInclude: (includePath, fromFile) =>
+      getIncludeCandidates(includePath, fromFile, searchOptions).find((candidate) => files.has(candidate))
+  };
+
+  const rootFilePath = (await findRootFiles(context, document))[0];
+  return {
+    language: rootFilePath ? findIncomingNoteLanguage(rootFilePath, document.fileName, sources) : undefined,
+    includeLanguage: (includePath, language) => findLanguageAfterInclude(includePath, document.fileName, language, sources)
+  };
+}
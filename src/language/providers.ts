@@ -1,5 +1,64 @@
+import * as path from "path";
 import * as vscode from "vscode";
-import { KEYWORD_BY_LABEL, LILYPOND_KEYWORDS } from "./lilypondData";
+import { forgetParseTree, getParseTree } from "../parser/documentCache";
+import { findGroupAt, findTokenAt, isCommentToken } from "../parser/parseTree";
+import { listIncludePathCompletions } from "../sync/includeGraph";
+import { findInputModeAt, findModeCompletion, type ModeCompletionContext } from "../sync/modeCompletion";
+import { readLanguageStatement } from "../sync/noteLanguage";
+import { DEFAULT_NOTE_LANGUAGE, formatNoteName, getNoteLanguageNames } from "../sync/pitch";
+import { findPropertyCompletion, type PropertyCompletionContext } from "../sync/propertyCompletion";
+import { findActiveCall } from "../sync/signatureHelp";
+import type { DefinitionKind, VariableDefinition } from "../sync/variables";
+import { collectScopeFilePaths, getIncludeSearchOptions, loadIncludeScope, type ScopeFile } from "./includeScope";
+import {
+  findCommand,
+  getCommandDetail,
+  getParameterOffsets,
+  getSignatureInfo,
+  CHORD_MODIFIERS,
+  DRUM_PITCH_NAMES,
+  LILYPOND_KEYWORDS,
+  LILYPOND_LYRIC_COMMANDS,
+  LILYPOND_MARKUP_COMMANDS,
+  type CommandKind,
+  type LilypondCommand
+} from "./lilypondData";
+import {
+  findContext,
+  findContextProperty,
+  findGrob,
+  findGrobProperty,
+  getAllGrobProperties,
+  getGrobProperties,
+  getPropertyValues,
+  LILYPOND_CONTEXT_PROPERTIES,
+  LILYPOND_CONTEXTS,
+  LILYPOND_GROBS,
+  LILYPOND_INTERNALS_VERSION,
+  type PropertyInfo
+} from "./lilypondInternals";
+import { getPitchCollectOptions } from "./noteLanguage";
+import { collectDefinitions } from "./variables";
+
+const COMPLETION_ITEM_KINDS: Record<CommandKind, vscode.CompletionItemKind> = {
+  keyword: vscode.CompletionItemKind.Keyword,
+  "music-function": vscode.CompletionItemKind.Function,
+  "event-function": vscode.CompletionItemKind.Function,
+  "scheme-function": vscode.CompletionItemKind.Function,
+  "void-function": vscode.CompletionItemKind.Function,
+  "markup-command": vscode.CompletionItemKind.Function,
+  identifier: vscode.CompletionItemKind.Constant
+};
+
+const DEFINITION_ITEM_KINDS: Record<DefinitionKind, vscode.CompletionItemKind> = {
+  variable: vscode.CompletionItemKind.Variable,
+  "music-function": vscode.CompletionItemKind.Function,
+  "markup-command": vscode.CompletionItemKind.Function
+};
+
+const OPAQUE_TOKEN_KINDS = new Set(["string", "scheme", "lineComment", "blockComment"]);
+/** Values such as `##t` are Scheme tokens, so value completion only stops in strings and comments. */
+const VALUE_OPAQUE_TOKEN_KINDS = new Set(["string", "lineComment", "blockComment"]);
 
 function getLilypondLanguageSelector(): vscode.DocumentSelector {
   return [
@@ -14,48 +73,141 @@ export function registerLanguageProviders(context: vscode.ExtensionContext): voi
   const completionProvider = vscode.languages.registerCompletionItemProvider(
     getLilypondLanguageSelector(),
     {
-      provideCompletionItems(document, position) {
+      async provideCompletionItems(document, position) {
         const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+        const languageMatch = linePrefix.match(/\\language\s+"([^"]*)$/);
+        if (languageMatch) {
+          const replaced = new vscode.Range(position.translate(0, -languageMatch[1].length), position);
+          return getNoteLanguageNames().map((language) => {
+            const item = new vscode.CompletionItem(language, vscode.CompletionItemKind.EnumMember);
+            item.detail = "Note name language";
+            item.range = replaced;
+            return item;
+          });
+        }
+
+        const includeMatch = linePrefix.match(/\\include\s+"([^"]*)$/);
+        if (includeMatch) {
+          return getIncludePathItems(context, document, position, includeMatch[1]);
+        }
+
+        const propertyContext = findPropertyCompletion(linePrefix, isInContextBlock(document, position));
+        if (propertyContext) {
+          const isValue = propertyContext.kind === "grobValue" || propertyContext.kind === "contextValue";
+          if (isInsideOpaqueToken(document, position, isValue ? VALUE_OPAQUE_TOKEN_KINDS : OPAQUE_TOKEN_KINDS)) {
+            return [];
+          }
+
+          const replaced = new vscode.Range(position.translate(0, -propertyContext.prefix.length), position);
+          return getPropertyCompletionItems(propertyContext).map((item) => {
+            item.range = replaced;
+            return item;
+          });
+        }
+
+        if (isInsideOpaqueToken(document, position, OPAQUE_TOKEN_KINDS)) {
+          return [];
+        }
+
+        const mode = findInputModeAt(getParseTree(document), document.offsetAt(position), getSignatureInfo);
+        const modeContext = findModeCompletion(linePrefix, mode);
+        if (modeContext) {
+          const replaced = new vscode.Range(position.translate(0, -modeContext.prefix.length), position);
+          return (await getModeCompletionItems(context, document, position, modeContext)).map((item) => {
+            item.range = replaced;
+            return item;
+          });
+        }
+
         const commandMatch = linePrefix.match(/\\[A-Za-z-]*$/);
         if (!commandMatch) {
           return [];
         }
 
-        return LILYPOND_KEYWORDS.map((keyword) => {
-          const item = new vscode.CompletionItem(keyword.label, vscode.CompletionItemKind.Keyword);
-          item.detail = keyword.detail;
-          item.documentation = new vscode.MarkdownString(keyword.documentation);
-          item.insertText = keyword.label;
-          return item;
-        });
+        // Markup commands only work in markup, music functions only outside it. Definitions from
+        // the include graph shadow built-in commands of the same name.
+        const inMarkup = mode === "markup";
+        const definitions = collectDefinitions(await loadIncludeScope(context, document)).filter(
+          ({ definition }) => definition.kind === "variable" || (definition.kind === "markup-command") === inMarkup
+        );
+        const definedNames = new Set(definitions.map(({ definition }) => definition.name));
+        const commands = inMarkup ? LILYPOND_MARKUP_COMMANDS : mode === "lyrics" ? LILYPOND_LYRIC_COMMANDS : LILYPOND_KEYWORDS;
+        return [
+          ...definitions.map(definitionItem),
+          ...commands.filter((command) => !definedNames.has(command.name)).map(commandItem)
+        ];
       }
     },
-    "\\"
+    "\\",
+    "\"",
+    "/",
+    ":",
+    ".",
+    " ",
+    "#"
   );
 
   const hoverProvider = vscode.languages.registerHoverProvider(getLilypondLanguageSelector(), {
     provideHover(document, position) {
-      const lineText = document.lineAt(position.line).text;
-      const wordRange = document.getWordRangeAtPosition(position, /\\[A-Za-z-]+/);
-      if (!wordRange) {
+      const tree = getParseTree(document);
+      const token = findTokenAt(tree, document.offsetAt(position));
+      if (!token || token.kind !== "command") {
         return undefined;
       }
 
-      const token = lineText.slice(wordRange.start.character, wordRange.end.character);
-      const keyword = KEYWORD_BY_LABEL.get(token);
-      if (!keyword) {
+      const inMarkup = findInputModeAt(tree, token.start, getSignatureInfo) === "markup";
+      const command = findCommand(token.text, inMarkup);
+      if (!command) {
         return undefined;
       }
 
+      const wordRange = new vscode.Range(document.positionAt(token.start), document.positionAt(token.end));
+
       const markdown = new vscode.MarkdownString();
-      markdown.appendMarkdown(`**${keyword.label}**  \n`);
-      markdown.appendMarkdown(`${keyword.detail}  \n\n`);
-      markdown.appendMarkdown(keyword.documentation);
+      markdown.appendCodeblock(command.signature, "lilypond");
+      markdown.appendMarkdown(`${getCommandDetail(command)}  \n\n`);
+      markdown.appendMarkdown(command.documentation);
+      if (command.parameters.length > 0) {
+        const parameters = command.parameters.map(
+          (parameter) => `- \`${parameter.name}\`: \`${parameter.type}\`${parameter.optional ? " (optional)" : ""}`
+        );
+        markdown.appendMarkdown(`\n\n${parameters.join("\n")}`);
+      }
       markdown.isTrusted = false;
       return new vscode.Hover(markdown, wordRange);
     }
   });
 
+  const signatureHelpProvider = vscode.languages.registerSignatureHelpProvider(
+    getLilypondLanguageSelector(),
+    {
+      provideSignatureHelp(document, position) {
+        if (isInsideOpaqueToken(document, position, OPAQUE_TOKEN_KINDS)) {
+          return undefined;
+        }
+
+        const call = findActiveCall(getParseTree(document), document.offsetAt(position), getSignatureInfo);
+        const command = call && findCommand(call.command.text, call.inMarkup);
+        if (!call || !command) {
+          return undefined;
+        }
+
+        const offsets = getParameterOffsets(command);
+        const signature = new vscode.SignatureInformation(command.signature, new vscode.MarkdownString(command.documentation));
+        signature.parameters = command.parameters.map(
+          (parameter, index) => new vscode.ParameterInformation(offsets[index], `${parameter.name}: ${parameter.type}`)
+        );
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = [signature];
+        help.activeSignature = 0;
+        help.activeParameter = call.activeParameter;
+        return help;
+      }
+    },
+    " "
+  );
+
   const codeActionProvider = vscode.languages.registerCodeActionsProvider(getLilypondLanguageSelector(), {
     provideCodeActions(document, _range, codeActionContext) {
       const actions: vscode.CodeAction[] = [];
@@ -65,7 +217,7 @@ export function registerLanguageProviders(context: vscode.ExtensionContext): voi
         const message = diagnostic.message.toLowerCase();
 
         if (message.includes("no \\version statement found")) {
-          if (!/^\\s*\\\\version\\s+\"[^\"]+\"/m.test(document.getText())) {
+          if (!getParseTree(document).tokens.some((token) => token.kind === "command" && token.text === "\\version")) {
             const fix = new vscode.CodeAction("Add \\version statement", vscode.CodeActionKind.QuickFix);
             fix.diagnostics = [diagnostic];
             const edit = new vscode.WorkspaceEdit();
@@ -115,5 +267,223 @@ export function registerLanguageProviders(context: vscode.ExtensionContext): voi
     }
   });
 
-  context.subscriptions.push(completionProvider, hoverProvider, codeActionProvider);
+  const onClose = vscode.workspace.onDidCloseTextDocument((document) => {
+    forgetParseTree(document.uri.toString());
+  });
+
+  context.subscriptions.push(completionProvider, hoverProvider, signatureHelpProvider, codeActionProvider, onClose);
+}
+
+function commandItem(command: LilypondCommand): vscode.CompletionItem {
+  const label = `\\${command.name}`;
+  const item = new vscode.CompletionItem(label, COMPLETION_ITEM_KINDS[command.kind]);
+  item.detail = command.signature;
+  item.documentation = new vscode.MarkdownString(`${getCommandDetail(command)}\n\n${command.documentation}`);
+  item.insertText = label;
+  return item;
+}
+
+async function getModeCompletionItems(
+  context: vscode.ExtensionContext,
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  modeContext: ModeCompletionContext
+): Promise<vscode.CompletionItem[]> {
+  switch (modeContext.kind) {
+    case "chordModifier":
+      return CHORD_MODIFIERS.map((modifier, index) => {
+        const item = new vscode.CompletionItem(modifier.name, vscode.CompletionItemKind.EnumMember);
+        item.detail = modifier.description;
+        item.sortText = String(index).padStart(3, "0");
+        return item;
+      });
+    case "chordBass": {
+      const language = await getNoteLanguageAt(context, document, position);
+      const names = [0, 1, 2, 3, 4, 5, 6].flatMap((step) =>
+        [0, -1, 1].map((alteration) => formatNoteName({ step, alteration }, language))
+      );
+      return names
+        .filter((name): name is string => name !== undefined)
+        .flatMap((name, index) =>
+          [
+            [name, "Inversion: bass note from the chord"],
+            [`+${name}`, "Added bass note"]
+          ].map(([label, detail]) => {
+            const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.EnumMember);
+            item.detail = detail;
+            item.sortText = `${label.startsWith("+") ? 1 : 0}${String(index).padStart(3, "0")}`;
+            return item;
+          })
+        );
+    }
+    case "drumPitch":
+      return DRUM_PITCH_NAMES.flatMap(({ name, short }) => {
+        const long = new vscode.CompletionItem(name, vscode.CompletionItemKind.EnumMember);
+        long.detail = `Drum pitch (short: ${short})`;
+        const abbreviation = new vscode.CompletionItem(short, vscode.CompletionItemKind.EnumMember);
+        abbreviation.detail = `Drum pitch: ${name}`;
+        return [long, abbreviation];
+      });
+  }
+}
+
+/** The last `\language` before the cursor, else the language the root file sets for this file. */
+async function getNoteLanguageAt(
+  context: vscode.ExtensionContext,
+  document: vscode.TextDocument,
+  position: vscode.Position
+): Promise<string> {
+  const offset = document.offsetAt(position);
+  const tokens = getParseTree(document).tokens.filter((token) => !isCommentToken(token) && token.end <= offset);
+  for (let index = tokens.length - 1; index >= 0; index -= 1) {
+    const language = tokens[index].kind === "command" ? readLanguageStatement(tokens[index], tokens[index + 1]) : undefined;
+    if (language) {
+      return language;
+    }
+  }
+  return (await getPitchCollectOptions(context, document)).language ?? DEFAULT_NOTE_LANGUAGE;
+}
+
+/** Files already in the include graph sort after the rest, since including them again is rarely intended. */
+async function getIncludePathItems(
+  context: vscode.ExtensionContext,
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  typedPath: string
+): Promise<vscode.CompletionItem[]> {
+  const [completions, scopeFilePaths] = await Promise.all([
+    getIncludeSearchOptions(context, document).then((options) =>
+      listIncludePathCompletions(typedPath, document.fileName, options)
+    ),
+    collectScopeFilePaths(context, document)
+  ]);
+  const included = new Set(scopeFilePaths);
+  const documentPath = path.resolve(document.fileName);
+  const typedName = typedPath.slice(typedPath.lastIndexOf("/") + 1);
+  const replaced = new vscode.Range(position.translate(0, -typedName.length), position);
+
+  return completions
+    .filter((completion) => completion.filePath !== documentPath)
+    .map((completion) => {
+      const isIncluded = included.has(completion.filePath);
+      const item = new vscode.CompletionItem(
+        completion.isDirectory ? `${completion.name}/` : completion.name,
+        completion.isDirectory ? vscode.CompletionItemKind.Folder : vscode.CompletionItemKind.File
+      );
+      item.detail = isIncluded
+        ? `${vscode.workspace.asRelativePath(completion.filePath)} (already included)`
+        : vscode.workspace.asRelativePath(completion.filePath);
+      item.sortText = `${isIncluded ? 1 : 0}${completion.isDirectory ? 0 : 1}${completion.name}`;
+      item.range = replaced;
+      if (completion.isDirectory) {
+        item.command = { command: "editor.action.triggerSuggest", title: "Suggest files" };
+      }
+      return item;
+    });
+}
+
+function definitionItem({ file, definition }: { file: ScopeFile; definition: VariableDefinition }): vscode.CompletionItem {
+  const label = `\\${definition.name}`;
+  const item = new vscode.CompletionItem(label, DEFINITION_ITEM_KINDS[definition.kind]);
+  item.detail = `${vscode.workspace.asRelativePath(file.uri)}: ${definition.preview}`;
+  item.insertText = label;
+  return item;
+}
+
+function isInsideOpaqueToken(document: vscode.TextDocument, position: vscode.Position, kinds: Set<string>): boolean {
+  const offset = document.offsetAt(position);
+  const token = findTokenAt(getParseTree(document), offset);
+  if (!token || !kinds.has(token.kind) || token.start >= offset) {
+    return false;
+  }
+
+  // Line comments and unterminated strings run up to the cursor without a closing delimiter.
+  return offset < token.end || token.kind === "lineComment" || token.end === document.getText().length;
+}
+
+/** `\with { }` blocks and `\context { }` definitions, as opposed to `\context Staff { music }`. */
+function isInContextBlock(document: vscode.TextDocument, position: vscode.Position): boolean {
+  const group = findGroupAt(getParseTree(document), document.offsetAt(position));
+  return group.command === "with" || (group.command === "context" && group.head.length === 1);
+}
+
+function getPropertyCompletionItems(propertyContext: PropertyCompletionContext): vscode.CompletionItem[] {
+  const { kind, command, path } = propertyContext;
+  const last = path[path.length - 1];
+
+  switch (kind) {
+    case "context":
+      return contextItems();
+    case "set":
+      if (path.length > 0) {
+        return findContext(path[0]) ? propertyItems(LILYPOND_CONTEXT_PROPERTIES, "Context property") : [];
+      }
+      return command === "with"
+        ? propertyItems(LILYPOND_CONTEXT_PROPERTIES, "Context property")
+        : [...contextItems(), ...propertyItems(LILYPOND_CONTEXT_PROPERTIES, "Context property")];
+    case "grob": {
+      const onlyGrobs = command === "hide" || command === "omit";
+      if (path.length === 0) {
+        const leading = command === "tweak" ? propertyItems(getAllGrobProperties(), "Grob property") : contextItems();
+        return [...leading, ...grobItems()];
+      }
+
+      if (path.length === 1 && findContext(last)) {
+        return grobItems();
+      }
+
+      const grob = findGrob(last);
+      return grob && !onlyGrobs && path.length <= 2 ? propertyItems(getGrobProperties(grob), `${grob.name} property`) : [];
+    }
+    case "grobValue": {
+      const grob = path.length > 1 ? findGrob(path[path.length - 2]) : undefined;
+      return valueItems(findGrobProperty(last, grob));
+    }
+    case "contextValue":
+      return valueItems(findContextProperty(last));
+  }
+}
+
+function contextItems(): vscode.CompletionItem[] {
+  return LILYPOND_CONTEXTS.map((info) => {
+    const item = new vscode.CompletionItem(info.name, vscode.CompletionItemKind.Module);
+    item.detail = "Context";
+    item.documentation = internalsDocumentation(info.description);
+    return item;
+  });
+}
+
+function grobItems(): vscode.CompletionItem[] {
+  return LILYPOND_GROBS.map((grob) => {
+    const item = new vscode.CompletionItem(grob.name, vscode.CompletionItemKind.Class);
+    item.detail = `Layout object (${grob.kind})`;
+    item.documentation = internalsDocumentation(`${grob.description}\n\nInterfaces: ${grob.interfaces.join(", ")}`);
+    return item;
+  });
+}
+
+function propertyItems(properties: PropertyInfo[], detail: string): vscode.CompletionItem[] {
+  return properties.map((info) => {
+    const item = new vscode.CompletionItem(info.name, vscode.CompletionItemKind.Property);
+    item.detail = `${detail}: ${info.type}`;
+    item.documentation = internalsDocumentation(info.description);
+    return item;
+  });
+}
+
+function valueItems(info: PropertyInfo | undefined): vscode.CompletionItem[] {
+  if (!info) {
+    return [];
+  }
+
+  return getPropertyValues(info).map((value, index) => {
+    const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.Value);
+    item.detail = `${info.name}: ${info.type}`;
+    item.sortText = String(index).padStart(3, "0");
+    return item;
+  });
+}
+
+function internalsDocumentation(text: string): vscode.MarkdownString {
+  return new vscode.MarkdownString(`${text}\n\n_LilyPond ${LILYPOND_INTERNALS_VERSION} Internals Reference_`);
 }
@@ -1,5 +1,7 @@
 import * as vscode from "vscode";
-import { parseStructureNodes } from "../sync/structure";
+import { getParseTree } from "../parser/documentCache";
+import { computeFoldingRegions, type FoldingRegion } from "../sync/folding";
+import { parseStructureNodes, parseStructureTree, type StructureNode } from "../sync/structure";
 
 function getSelector(): vscode.DocumentSelector {
   return [
@@ -13,18 +15,15 @@ function getSelector(): vscode.DocumentSelector {
 export function registerStructureFeatures(context: vscode.ExtensionContext): void {
   const symbolProvider = vscode.languages.registerDocumentSymbolProvider(getSelector(), {
     provideDocumentSymbols(document) {
-      const nodes = parseStructureNodes(document.getText());
-      return nodes.map((node) => {
-        const range = new vscode.Range(node.startLine, 0, node.endLine, document.lineAt(node.endLine).text.length);
-        const symbol = new vscode.DocumentSymbol(
-          node.label,
-          node.kind === "assignment" ? "Assignment" : "Block",
-          node.kind === "assignment" ? vscode.SymbolKind.Variable : vscode.SymbolKind.Module,
-          range,
-          new vscode.Range(node.startLine, 0, node.startLine, document.lineAt(node.startLine).text.length)
-        );
-        return symbol;
-      });
+      return parseStructureTree(getParseTree(document)).map((node) => toDocumentSymbol(document, node));
+    }
+  });
+
+  const foldingProvider = vscode.languages.registerFoldingRangeProvider(getSelector(), {
+    provideFoldingRanges(document) {
+      return computeFoldingRegions(getParseTree(document)).map(
+        (region) => new vscode.FoldingRange(region.startLine, region.endLine, getFoldingRangeKind(region))
+      );
     }
   });
 
@@ -36,7 +35,47 @@ export function registerStructureFeatures(context: vscode.ExtensionContext): voi
     await navigateToBlock(-1);
   });
 
-  context.subscriptions.push(symbolProvider, nextBlock, previousBlock);
+  context.subscriptions.push(symbolProvider, foldingProvider, nextBlock, previousBlock);
+}
+
+function toDocumentSymbol(document: vscode.TextDocument, node: StructureNode): vscode.DocumentSymbol {
+  const symbol = new vscode.DocumentSymbol(
+    node.label,
+    node.detail,
+    getSymbolKind(node),
+    new vscode.Range(document.positionAt(node.start), document.positionAt(node.end)),
+    new vscode.Range(document.positionAt(node.start), document.positionAt(node.selectionEnd))
+  );
+  symbol.children = node.children.map((child) => toDocumentSymbol(document, child));
+  return symbol;
+}
+
+function getFoldingRangeKind(region: FoldingRegion): vscode.FoldingRangeKind | undefined {
+  if (region.kind === "comment") {
+    return vscode.FoldingRangeKind.Comment;
+  }
+  return region.kind === "region" ? vscode.FoldingRangeKind.Region : undefined;
+}
+
+function getSymbolKind(node: StructureNode): vscode.SymbolKind {
+  if (node.kind === "assignment") {
+    return vscode.SymbolKind.Variable;
+  }
+
+  if (node.kind === "context") {
+    return vscode.SymbolKind.Object;
+  }
+
+  switch (node.label) {
+    case "\\book":
+      return vscode.SymbolKind.Package;
+    case "\\bookpart":
+      return vscode.SymbolKind.Namespace;
+    case "\\score":
+      return vscode.SymbolKind.Class;
+    default:
+      return vscode.SymbolKind.Module;
+  }
 }
 
 async function navigateToBlock(direction: 1 | -1): Promise<void> {
@@ -45,7 +84,7 @@ async function navigateToBlock(direction: 1 | -1): Promise<void> {
     return;
   }
 
-  const nodes = parseStructureNodes(editor.document.getText()).sort((a, b) => a.startLine - b.startLine);
+  const nodes = parseStructureNodes(getParseTree(editor.document)).sort((a, b) => a.startLine - b.startLine);
   if (nodes.length === 0) {
     void vscode.window.showInformationMessage("No LilyPond blocks detected in this file.");
     return;
@@ -0,0 +1,164 @@
+import * as vscode from "vscode";
+import { getParseTree } from "../parser/documentCache";
+import { positionAt, type ParseTree } from "../parser/parseTree";
+import {
+  findDefinitions,
+  findVariableAt,
+  findVariableOccurrences,
+  validateVariableName,
+  type VariableDefinition,
+  type VariableOccurrence
+} from "../sync/variables";
+import { loadIncludeScope, type ScopeFile } from "./includeScope";
+import { LILYPOND_KEYWORDS } from "./lilypondData";
+
+function getSelector(): vscode.DocumentSelector {
+  return [
+    { language: "lilypond" },
+    { pattern: "**/*.ly" },
+    { pattern: "**/*.ily" },
+    { pattern: "**/*.lyi" }
+  ];
+}
+
+export function registerVariableNavigation(context: vscode.ExtensionContext): void {
+  const definitionProvider = vscode.languages.registerDefinitionProvider(getSelector(), {
+    async provideDefinition(document, position) {
+      const target = findVariableAt(getParseTree(document), document.offsetAt(position));
+      if (!target) {
+        return undefined;
+      }
+
+      const scope = await loadIncludeScope(context, document);
+      return collectOccurrences(scope, target.name)
+        .filter(({ occurrence }) => occurrence.isDefinition)
+        .map(({ file, occurrence }) => toLocation(file, occurrence));
+    }
+  });
+
+  const referenceProvider = vscode.languages.registerReferenceProvider(getSelector(), {
+    async provideReferences(document, position, referenceContext) {
+      const target = findVariableAt(getParseTree(document), document.offsetAt(position));
+      if (!target) {
+        return [];
+      }
+
+      const scope = await loadIncludeScope(context, document);
+      const occurrences = collectOccurrences(scope, target.name);
+      if (!occurrences.some(({ occurrence }) => occurrence.isDefinition)) {
+        return [];
+      }
+
+      return occurrences
+        .filter(({ occurrence }) => referenceContext.includeDeclaration || !occurrence.isDefinition)
+        .map(({ file, occurrence }) => toLocation(file, occurrence));
+    }
+  });
+
+  const highlightProvider = vscode.languages.registerDocumentHighlightProvider(getSelector(), {
+    async provideDocumentHighlights(document, position) {
+      const tree = getParseTree(document);
+      const target = findVariableAt(tree, document.offsetAt(position));
+      if (!target) {
+        return [];
+      }
+
+      // Only variables defined in another file need the (cached) include scope to confirm them.
+      const occurrences = findVariableOccurrences(tree, target.name);
+      if (!occurrences.some((occurrence) => occurrence.isDefinition)) {
+        const scope = await loadIncludeScope(context, document);
+        if (!collectOccurrences(scope, target.name).some(({ occurrence }) => occurrence.isDefinition)) {
+          return [];
+        }
+      }
+
+      return occurrences.map(
+        (occurrence) =>
+          new vscode.DocumentHighlight(
+            toRange(tree, occurrence),
+            occurrence.isDefinition ? vscode.DocumentHighlightKind.Write : vscode.DocumentHighlightKind.Read
+          )
+      );
+    }
+  });
+
+  const renameProvider = vscode.languages.registerRenameProvider(getSelector(), {
+    async prepareRename(document, position) {
+      const tree = getParseTree(document);
+      const target = findVariableAt(tree, document.offsetAt(position));
+      if (!target) {
+        throw new Error("Place the cursor on a music variable to rename it.");
+      }
+
+      const scope = await loadIncludeScope(context, document);
+      if (!collectOccurrences(scope, target.name).some(({ occurrence }) => occurrence.isDefinition)) {
+        throw new Error(`No definition of "${target.name}" found in the include graph.`);
+      }
+
+      return { range: toRange(tree, target), placeholder: target.name };
+    },
+
+    async provideRenameEdits(document, position, newName) {
+      const target = findVariableAt(getParseTree(document), document.offsetAt(position));
+      if (!target || newName === target.name) {
+        return undefined;
+      }
+
+      const scope = await loadIncludeScope(context, document);
+      const occurrences = collectOccurrences(scope, target.name);
+      if (!occurrences.some(({ occurrence }) => occurrence.isDefinition)) {
+        throw new Error(`No definition of "${target.name}" found in the include graph.`);
+      }
+
+      const definedNames = collectOccurrences(scope, newName)
+        .filter(({ occurrence }) => occurrence.isDefinition)
+        .map(({ occurrence }) => occurrence.name);
+      const problem = validateVariableName(
+        newName,
+        definedNames,
+        LILYPOND_KEYWORDS.map((command) => command.name)
+      );
+      if (problem) {
+        throw new Error(problem);
+      }
+
+      const edit = new vscode.WorkspaceEdit();
+      for (const { file, occurrence } of occurrences) {
+        edit.replace(file.uri, toRange(file.tree, occurrence), newName);
+      }
+      return edit;
+    }
+  });
+
+  context.subscriptions.push(definitionProvider, referenceProvider, highlightProvider, renameProvider);
+}
+
+export function collectOccurrences(
+  scope: ScopeFile[],
+  name: string
+): Array<{ file: ScopeFile; occurrence: VariableOccurrence }> {
+  return scope.flatMap((file) => findVariableOccurrences(file.tree, name).map((occurrence) => ({ file, occurrence })));
+}
+
+/** Definitions from every file in scope; when a name is defined twice, the first file in scope wins. */
+export function collectDefinitions(scope: ScopeFile[]): Array<{ file: ScopeFile; definition: VariableDefinition }> {
+  const byName = new Map<string, { file: ScopeFile; definition: VariableDefinition }>();
+  for (const file of scope) {
+    for (const definition of findDefinitions(file.tree)) {
+      if (!byName.has(definition.name)) {
+        byName.set(definition.name, { file, definition });
+      }
+    }
+  }
+  return [...byName.values()];
+}
+
+export function toRange(tree: ParseTree, occurrence: { start: number; end: number }): vscode.Range {
+  const start = positionAt(tree, occurrence.start);
+  const end = positionAt(tree, occurrence.end);
+  return new vscode.Range(start.line, start.character, end.line, end.character);
+}
+
+function toLocation(file: ScopeFile, occurrence: VariableOccurrence): vscode.Location {
+  return new vscode.Location(file.uri, toRange(file.tree, occurrence));
+}
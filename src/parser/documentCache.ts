@@ -0,0 +1,58 @@
+import { parseLilypond, type ParseTree } from "./parseTree";
+
+export type ParseableDocument = {
+  uri: { toString(): string };
+  version: number;
+  getText(): string;
+};
+
+/** Trees kept for reuse; the least recently used ones are dropped beyond this. */
+const MAX_CACHED_TREES = 200;
+
+const treesByUri = new Map<string, { version: number; tree: ParseTree }>();
+
+/**
+ * Returns the parse tree for a document version, reusing the cached tree when the version is
+ * unchanged and the previous tree's tokens otherwise.
+ */
+export function getParseTree(document: ParseableDocument): ParseTree {
+  const key = document.uri.toString();
+  const cached = treesByUri.get(key);
+  if (cached && cached.version === document.version) {
+    remember(key, cached);
+    return cached.tree;
+  }
+
+  const tree = parseLilypond(document.getText(), cached?.tree);
+  remember(key, { version: document.version, tree });
+  return tree;
+}
+
+/** Parses file content that is not open in an editor, reusing the tree while the content is unchanged. */
+export function getParseTreeForContent(key: string, content: string): ParseTree {
+  const cached = treesByUri.get(key);
+  if (cached && cached.tree.content === content) {
+    remember(key, cached);
+    return cached.tree;
+  }
+
+  const tree = parseLilypond(content, cached?.tree);
+  remember(key, { version: -1, tree });
+  return tree;
+}
+
+export function forgetParseTree(uri: string): void {
+  treesByUri.delete(uri);
+}
+
+/** Moves the entry to the most recently used end and drops the oldest entries past the limit. */
+function remember(key: string, entry: { version: number; tree: ParseTree }): void {
+  treesByUri.delete(key);
+  treesByUri.set(key, entry);
+  for (const oldest of treesByUri.keys()) {
+    if (treesByUri.size <= MAX_CACHED_TREES) {
+      break;
+    }
+    treesByUri.delete(oldest);
+  }
+}
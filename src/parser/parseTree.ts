@@ -0,0 +1,473 @@
+import { tokenize, type Token, type TokenizeResult } from "./tokenizer";
+
+export type InputMode = "notes" | "chords" | "drums" | "figures" | "lyrics" | "markup";
+
+export type GroupKind = "document" | "sequential" | "simultaneous" | "chord";
+
+export type GroupNode = {
+  kind: GroupKind;
+  open?: Token;
+  close?: Token;
+  start: number;
+  end: number;
+  /** Tokens from the introducing command up to the open bracket, e.g. `\new Staff = "vl"`. */
+  head: Token[];
+  /** Name of the first command in `head` without the backslash, e.g. `new` or `score`. */
+  command?: string;
+  mode: InputMode;
+  parent?: GroupNode;
+  children: GroupNode[];
+  /** Tokens directly inside this group, excluding tokens of nested groups. */
+  tokens: Token[];
+};
+
+export type Assignment = {
+  name: string;
+  nameToken: Token;
+  valueStart: number;
+  valueEnd: number;
+  scope: GroupNode;
+};
+
+export type ParseTree = TokenizeResult & {
+  root: GroupNode;
+  assignments: Assignment[];
+  lineStarts: number[];
+};
+
+export type SourcePosition = {
+  line: number;
+  character: number;
+};
+
+/** Commands that introduce a music expression or block and therefore label the group they open. */
+const GROUP_HEAD_COMMANDS = new Set([
+  "addlyrics",
+  "afterGrace",
+  "acciaccatura",
+  "alternative",
+  "appoggiatura",
+  "book",
+  "bookpart",
+  "chordmode",
+  "chords",
+  "context",
+  "drummode",
+  "drums",
+  "figuremode",
+  "figures",
+  "fixed",
+  "grace",
+  "header",
+  "keepWithTag",
+  "layout",
+  "lyricmode",
+  "lyrics",
+  "lyricsto",
+  "markup",
+  "markuplist",
+  "midi",
+  "new",
+  "notemode",
+  "paper",
+  "parallelMusic",
+  "relative",
+  "removeWithTag",
+  "repeat",
+  "score",
+  "sequential",
+  "simultaneous",
+  "tag",
+  "times",
+  "transpose",
+  "tuplet",
+  "unfoldRepeats",
+  "with"
+]);
+
+const MODE_COMMANDS = new Map<string, InputMode>([
+  ["chordmode", "chords"],
+  ["chords", "chords"],
+  ["drummode", "drums"],
+  ["drums", "drums"],
+  ["figuremode", "figures"],
+  ["figures", "figures"],
+  ["lyricmode", "lyrics"],
+  ["lyrics", "lyrics"],
+  ["lyricsto", "lyrics"],
+  ["addlyrics", "lyrics"],
+  ["markup", "markup"],
+  ["markuplist", "markup"],
+  ["notemode", "notes"],
+  ["score", "notes"]
+]);
+
+/** Top-level commands that can never be part of a preceding assignment value. */
+const STATEMENT_COMMANDS = new Set([
+  "book",
+  "bookpart",
+  "header",
+  "include",
+  "language",
+  "layout",
+  "midi",
+  "paper",
+  "score",
+  "version"
+]);
+
+const HEAD_ARGUMENT_KINDS = new Set(["command", "word", "number", "string", "scheme"]);
+const HEAD_ARGUMENT_SYMBOLS = new Set(["=", "'", ",", ".", "/", "-", "_"]);
+const COMMENT_KINDS = new Set(["lineComment", "blockComment"]);
+
+/**
+ * Builds the shared LilyPond parse tree: a token stream plus a tree of bracket groups
+ * (`{}`, `<< >>`, `< >`) annotated with their introducing command and input mode.
+ * Passing the previous tree lets the tokenizer reuse tokens outside the edited region.
+ */
+export function parseLilypond(content: string, previous?: ParseTree): ParseTree {
+  const tokenized = tokenize(content, previous);
+  const root: GroupNode = {
+    kind: "document",
+    start: 0,
+    end: content.length,
+    head: [],
+    mode: "notes",
+    children: [],
+    tokens: []
+  };
+
+  let current = root;
+  for (const token of tokenized.tokens) {
+    if (COMMENT_KINDS.has(token.kind)) {
+      continue;
+    }
+
+    const openKind = openGroupKind(token);
+    if (openKind && !(openKind === "chord" && current.mode !== "notes" && current.mode !== "drums")) {
+      const head = findGroupHead(current);
+      const command = head.length > 0 ? head[0].text.slice(1) : undefined;
+      const group: GroupNode = {
+        kind: openKind,
+        open: token,
+        start: token.start,
+        end: content.length,
+        head,
+        command,
+        mode: resolveMode(head, current.mode),
+        parent: current,
+        children: [],
+        tokens: []
+      };
+      current.children.push(group);
+      current = group;
+      continue;
+    }
+
+    const closed = findClosedGroup(current, token);
+    if (closed) {
+      // Groups left open inside the closed one (an unterminated chord, say) end where it ends.
+      for (let node: GroupNode | undefined = current; node && node !== closed; node = node.parent) {
+        node.end = token.start;
+      }
+      closed.close = token;
+      closed.end = token.end;
+      current = closed.parent ?? root;
+      continue;
+    }
+
+    current.tokens.push(token);
+  }
+
+  return {
+    ...tokenized,
+    root,
+    assignments: collectAssignments(root),
+    lineStarts: computeLineStarts(content)
+  };
+}
+
+export function positionAt(tree: ParseTree, offset: number): SourcePosition {
+  const clamped = Math.max(0, Math.min(tree.content.length, offset));
+  let low = 0;
+  let high = tree.lineStarts.length - 1;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (tree.lineStarts[middle] <= clamped) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return { line: low, character: clamped - tree.lineStarts[low] };
+}
+
+export function offsetAt(tree: ParseTree, position: SourcePosition): number {
+  if (position.line >= tree.lineStarts.length) {
+    return tree.content.length;
+  }
+
+  const lineStart = tree.lineStarts[Math.max(0, position.line)];
+  const nextLineStart = tree.lineStarts[position.line + 1] ?? tree.content.length + 1;
+  return Math.min(lineStart + Math.max(0, position.character), nextLineStart - 1);
+}
+
+/** Returns the token covering `offset`, or the token ending exactly at it. */
+export function findTokenAt(tree: ParseTree, offset: number): Token | undefined {
+  const index = findTokenIndexAt(tree.tokens, offset);
+  return index >= 0 ? tree.tokens[index] : undefined;
+}
+
+export function findTokenIndexAt(tokens: Token[], offset: number): number {
+  let low = 0;
+  let high = tokens.length - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const token = tokens[middle];
+    if (offset < token.start) {
+      high = middle - 1;
+    } else if (offset > token.end) {
+      low = middle + 1;
+    } else {
+      if (offset === token.end && tokens[middle + 1]?.start === offset) {
+        return middle + 1;
+      }
+      return middle;
+    }
+  }
+
+  return -1;
+}
+
+/** Returns the innermost group whose brackets enclose `offset`. */
+export function findGroupAt(tree: ParseTree, offset: number): GroupNode {
+  let current = tree.root;
+
+  for (;;) {
+    const child = current.children.find((group) => group.start < offset && offset < group.end);
+    if (!child) {
+      return current;
+    }
+    current = child;
+  }
+}
+
+export function isCommentToken(token: Token): boolean {
+  return COMMENT_KINDS.has(token.kind);
+}
+
+export function walkGroups(group: GroupNode, visit: (node: GroupNode) => void): void {
+  visit(group);
+  for (const child of group.children) {
+    walkGroups(child, visit);
+  }
+}
+
+function openGroupKind(token: Token): GroupKind | undefined {
+  if (token.kind === "braceOpen") {
+    return "sequential";
+  }
+
+  if (token.kind === "simultaneousOpen") {
+    return "simultaneous";
+  }
+
+  if (token.kind === "chordOpen") {
+    return "chord";
+  }
+
+  return undefined;
+}
+
+function findClosedGroup(current: GroupNode, token: Token): GroupNode | undefined {
+  const kind: GroupKind | undefined =
+    token.kind === "braceClose"
+      ? "sequential"
+      : token.kind === "simultaneousClose"
+        ? "simultaneous"
+        : token.kind === "chordClose"
+          ? "chord"
+          : undefined;
+  if (!kind) {
+    return undefined;
+  }
+
+  if (kind === "chord") {
+    return current.kind === "chord" ? current : undefined;
+  }
+
+  for (let node: GroupNode | undefined = current; node && node.kind !== "document"; node = node.parent) {
+    if (node.kind === kind) {
+      return node;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Walks back from the group being opened over command arguments (context names, `= "id"`,
+ * pitches, `\with { }` blocks) and keeps the command chain that introduces the group. Any
+ * other command, such as a music variable, ends the chain unless it is a markup command.
+ */
+function findGroupHead(parent: GroupNode): Token[] {
+  const span: Token[] = [];
+  let tokenIndex = parent.tokens.length - 1;
+  let childIndex = parent.children.length - 1;
+  let skippedWith = false;
+
+  while (tokenIndex >= 0) {
+    const token = parent.tokens[tokenIndex];
+    const child = parent.children[childIndex];
+
+    if (child && child.start > token.start) {
+      if (child.command !== "with") {
+        break;
+      }
+      childIndex -= 1;
+      skippedWith = true;
+      continue;
+    }
+
+    if (!HEAD_ARGUMENT_KINDS.has(token.kind) && !(token.kind === "symbol" && HEAD_ARGUMENT_SYMBOLS.has(token.text))) {
+      break;
+    }
+
+    span.unshift(token);
+    tokenIndex -= 1;
+  }
+
+  const last = span[span.length - 1];
+  if (last?.text === "\\with" && !skippedWith) {
+    return [last];
+  }
+
+  let headStart = -1;
+  for (let index = span.length - 1; index >= 0; index -= 1) {
+    const token = span[index];
+    if (token.kind !== "command") {
+      continue;
+    }
+
+    if (GROUP_HEAD_COMMANDS.has(token.text.slice(1))) {
+      headStart = index;
+      continue;
+    }
+
+    if (!span.slice(0, index).some((item) => item.text === "\\markup" || item.text === "\\markuplist")) {
+      break;
+    }
+  }
+
+  return headStart < 0 ? [] : span.slice(headStart);
+}
+
+function resolveMode(head: Token[], inherited: InputMode): InputMode {
+  let mode = inherited;
+  for (const token of head) {
+    if (token.kind !== "command") {
+      continue;
+    }
+
+    const next = MODE_COMMANDS.get(token.text.slice(1));
+    if (next) {
+      mode = next;
+    }
+  }
+  return mode;
+}
+
+function collectAssignments(root: GroupNode): Assignment[] {
+  const assignments: Assignment[] = [];
+
+  walkGroups(root, (group) => {
+    const { tokens } = group;
+    for (let index = 0; index + 1 < tokens.length; index += 1) {
+      const token = tokens[index];
+      if (token.kind !== "word" && token.kind !== "string") {
+        continue;
+      }
+
+      if (tokens[index + 1].kind !== "symbol" || tokens[index + 1].text !== "=") {
+        continue;
+      }
+
+      const previous = tokens[index - 1];
+      if (previous && (previous.kind === "command" || (previous.kind === "symbol" && previous.text === "."))) {
+        continue;
+      }
+
+      // `c='` is a pitch with an octave check, not an assignment.
+      const equals = tokens[index + 1];
+      const after = tokens[index + 2];
+      if (equals.start === token.end && after?.start === equals.end && (after.text === "'" || after.text === ",")) {
+        continue;
+      }
+
+      const name = token.kind === "string" ? token.text.slice(1, -1) : token.text;
+      assignments.push({
+        name,
+        nameToken: token,
+        valueStart: tokens[index + 1].end,
+        valueEnd: findAssignmentValueEnd(group, index + 1),
+        scope: group
+      });
+    }
+  });
+
+  assignments.sort((a, b) => a.nameToken.start - b.nameToken.start);
+  return assignments;
+}
+
+/**
+ * The value of `name = ...` is the bracket group introduced right after `=` (including its
+ * head, as in `\\relative c' { }`), a `\\markup` chain, or a single value token such as a
+ * string, number or Scheme expression.
+ */
+function findAssignmentValueEnd(group: GroupNode, equalsIndex: number): number {
+  const { tokens } = group;
+  const equals = tokens[equalsIndex];
+  const first: Token | undefined = tokens[equalsIndex + 1];
+
+  const valueGroup = group.children.find(
+    (node) =>
+      node.start > equals.end &&
+      (node.head.length > 0 ? node.head[0] === first : !first || node.start < first.start)
+  );
+  if (valueGroup) {
+    return valueGroup.end;
+  }
+
+  if (!first) {
+    return equals.end;
+  }
+
+  let end = first.end;
+  const isMarkup = first.text === "\\markup" || first.text === "\\markuplist";
+  for (let index = equalsIndex + 2; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    const next = tokens[index + 1];
+    const startsAssignment =
+      (token.kind === "word" || token.kind === "string") && next?.kind === "symbol" && next.text === "=";
+    const startsStatement = token.kind === "command" && STATEMENT_COMMANDS.has(token.text.slice(1));
+
+    if (startsAssignment || startsStatement || (!isMarkup && token.start !== end)) {
+      break;
+    }
+    end = token.end;
+  }
+
+  return end;
+}
+
+function computeLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let index = 0; index < content.length; index += 1) {
+    if (content[index] === "\n") {
+      starts.push(index + 1);
+    }
+  }
+  return starts;
+}
@@ -0,0 +1,402 @@
+export type TokenKind =
+  | "command"
+  | "escape"
+  | "word"
+  | "number"
+  | "string"
+  | "scheme"
+  | "lineComment"
+  | "blockComment"
+  | "braceOpen"
+  | "braceClose"
+  | "simultaneousOpen"
+  | "simultaneousClose"
+  | "chordOpen"
+  | "chordClose"
+  | "symbol";
+
+export type Token = {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+};
+
+export type TokenizeResult = {
+  content: string;
+  tokens: Token[];
+};
+
+const WORD_CHAR = /[A-Za-z\u00C0-\uFFFF]/;
+const SCHEME_ATOM_END = /[\s(){}"';]/;
+
+/**
+ * Splits LilyPond source into tokens. The lexer carries no state between tokens, so when a
+ * previous result is passed in, tokens before and after the edited region are reused and only
+ * the changed span is scanned again.
+ */
+export function tokenize(content: string, previous?: TokenizeResult): TokenizeResult {
+  if (!previous) {
+    return { content, tokens: scanTokens(content, 0) };
+  }
+
+  if (previous.content === content) {
+    return previous;
+  }
+
+  const oldContent = previous.content;
+  const maxCommon = Math.min(oldContent.length, content.length);
+  let prefix = 0;
+  while (prefix < maxCommon && oldContent.charCodeAt(prefix) === content.charCodeAt(prefix)) {
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < maxCommon - prefix &&
+    oldContent.charCodeAt(oldContent.length - 1 - suffix) === content.charCodeAt(content.length - 1 - suffix)
+  ) {
+    suffix += 1;
+  }
+
+  // Tokens ending close to the edit may have been cut short by one-character lookahead
+  // (`<` vs `<<`, `4` vs `4.5`), so they are scanned again together with the change.
+  const tokens: Token[] = [];
+  let reusedPrefix = 0;
+  while (reusedPrefix < previous.tokens.length && previous.tokens[reusedPrefix].end + 2 <= prefix) {
+    tokens.push(previous.tokens[reusedPrefix]);
+    reusedPrefix += 1;
+  }
+
+  const resumeAt = reusedPrefix > 0 ? previous.tokens[reusedPrefix - 1].end : 0;
+  const delta = content.length - oldContent.length;
+  const unchangedFrom = content.length - suffix;
+  const oldStartIndex = new Map<number, number>();
+  for (let index = reusedPrefix; index < previous.tokens.length; index += 1) {
+    const token = previous.tokens[index];
+    if (token.start >= oldContent.length - suffix) {
+      oldStartIndex.set(token.start, index);
+    }
+  }
+
+  const rescanned = scanTokens(content, resumeAt, (offset) => {
+    if (offset < unchangedFrom) {
+      return false;
+    }
+
+    const reuseIndex = oldStartIndex.get(offset - delta);
+    if (reuseIndex === undefined) {
+      return false;
+    }
+
+    for (let index = reuseIndex; index < previous.tokens.length; index += 1) {
+      const token = previous.tokens[index];
+      tokens.push(delta === 0 ? token : { ...token, start: token.start + delta, end: token.end + delta });
+    }
+    return true;
+  });
+
+  tokens.splice(reusedPrefix, 0, ...rescanned);
+  return { content, tokens };
+}
+
+function scanTokens(content: string, startIndex: number, shouldStop?: (offset: number) => boolean): Token[] {
+  const tokens: Token[] = [];
+  let index = startIndex;
+
+  while (index < content.length) {
+    const char = content[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (shouldStop?.(index)) {
+      break;
+    }
+
+    const end = scanToken(content, index);
+    tokens.push({
+      kind: classifyToken(content, index, end),
+      text: content.slice(index, end),
+      start: index,
+      end
+    });
+    index = end;
+  }
+
+  return tokens;
+}
+
+function classifyToken(content: string, start: number, end: number): TokenKind {
+  const char = content[start];
+  const next = content[start + 1];
+
+  switch (char) {
+    case "%":
+      return next === "{" ? "blockComment" : "lineComment";
+    case "\"":
+      return "string";
+    case "#":
+    case "$":
+      return end - start > 1 ? "scheme" : "symbol";
+    case "\\":
+      return next !== undefined && WORD_CHAR.test(next) ? "command" : "escape";
+    case "{":
+      return "braceOpen";
+    case "}":
+      return "braceClose";
+    case "<":
+      return end - start === 2 ? "simultaneousOpen" : "chordOpen";
+    case ">":
+      return end - start === 2 ? "simultaneousClose" : "chordClose";
+    default:
+      break;
+  }
+
+  if (/[0-9]/.test(char)) {
+    return "number";
+  }
+
+  if (WORD_CHAR.test(char)) {
+    return "word";
+  }
+
+  return "symbol";
+}
+
+function scanToken(content: string, start: number): number {
+  const char = content[start];
+  const next = content[start + 1];
+
+  if (char === "%") {
+    return next === "{" ? scanBlockComment(content, start) : scanToLineEnd(content, start);
+  }
+
+  if (char === "\"") {
+    return scanString(content, start);
+  }
+
+  if (char === "#" || char === "$") {
+    return scanSchemeExpression(content, start + 1);
+  }
+
+  if (char === "\\") {
+    if (next === undefined) {
+      return start + 1;
+    }
+
+    if (WORD_CHAR.test(next)) {
+      return scanWord(content, start + 1);
+    }
+
+    return start + 2;
+  }
+
+  if ((char === "<" && next === "<") || (char === ">" && next === ">")) {
+    return start + 2;
+  }
+
+  if (/[0-9]/.test(char)) {
+    let cursor = start;
+    while (cursor < content.length && /[0-9]/.test(content[cursor])) {
+      cursor += 1;
+    }
+
+    if (content[cursor] === "." && /[0-9]/.test(content[cursor + 1] ?? "")) {
+      cursor += 1;
+      while (cursor < content.length && /[0-9]/.test(content[cursor])) {
+        cursor += 1;
+      }
+    }
+    return cursor;
+  }
+
+  if (WORD_CHAR.test(char)) {
+    return scanWord(content, start);
+  }
+
+  return start + 1;
+}
+
+/**
+ * LilyPond words may contain single `-` or `_` separators between letters (`violin-one`),
+ * which keeps articulations such as `c-.` or `c_-` split from the note name.
+ */
+function scanWord(content: string, start: number): number {
+  let cursor = start;
+  while (cursor < content.length) {
+    if (WORD_CHAR.test(content[cursor])) {
+      cursor += 1;
+      continue;
+    }
+
+    if ((content[cursor] === "-" || content[cursor] === "_") && WORD_CHAR.test(content[cursor + 1] ?? "")) {
+      cursor += 1;
+      continue;
+    }
+
+    break;
+  }
+  return cursor;
+}
+
+function scanToLineEnd(content: string, start: number): number {
+  const newline = content.indexOf("\n", start);
+  if (newline < 0) {
+    return content.length;
+  }
+  return content[newline - 1] === "\r" ? newline - 1 : newline;
+}
+
+function scanBlockComment(content: string, start: number): number {
+  const close = content.indexOf("%}", start + 2);
+  return close < 0 ? content.length : close + 2;
+}
+
+function scanString(content: string, start: number): number {
+  for (let index = start + 1; index < content.length; index += 1) {
+    const char = content[index];
+    if (char === "\\") {
+      index += 1;
+      continue;
+    }
+
+    if (char === "\"") {
+      return index + 1;
+    }
+  }
+
+  return content.length;
+}
+
+/**
+ * Scans one Scheme datum after `#` or `$`: lists with nested strings and comments, quoted
+ * forms, `#{ ... #}` LilyPond islands, character literals and plain atoms.
+ */
+function scanSchemeExpression(content: string, start: number): number {
+  let cursor = start;
+
+  while (cursor < content.length && /['`,@]/.test(content[cursor])) {
+    cursor += 1;
+  }
+
+  if (cursor >= content.length) {
+    return cursor;
+  }
+
+  const char = content[cursor];
+
+  if (char === "(") {
+    return scanSchemeList(content, cursor);
+  }
+
+  if (char === "\"") {
+    return scanString(content, cursor);
+  }
+
+  if (char === "{") {
+    return scanLilypondIsland(content, cursor + 1);
+  }
+
+  if (char === "#") {
+    const next = content[cursor + 1];
+    if (next === "(") {
+      return scanSchemeList(content, cursor + 1);
+    }
+
+    if (next === "{") {
+      return scanLilypondIsland(content, cursor + 2);
+    }
+
+    if (next === "\\") {
+      return scanSchemeAtom(content, Math.min(content.length, cursor + 3));
+    }
+
+    return scanSchemeAtom(content, cursor + 1);
+  }
+
+  return scanSchemeAtom(content, cursor);
+}
+
+function scanSchemeAtom(content: string, start: number): number {
+  let cursor = start;
+  while (cursor < content.length && !SCHEME_ATOM_END.test(content[cursor])) {
+    cursor += 1;
+  }
+  return cursor;
+}
+
+function scanSchemeList(content: string, openIndex: number): number {
+  let depth = 0;
+
+  for (let index = openIndex; index < content.length; index += 1) {
+    const char = content[index];
+
+    if (char === "(") {
+      depth += 1;
+      continue;
+    }
+
+    if (char === ")") {
+      depth -= 1;
+      if (depth === 0) {
+        return index + 1;
+      }
+      continue;
+    }
+
+    if (char === "\"") {
+      index = scanString(content, index) - 1;
+      continue;
+    }
+
+    if (char === ";") {
+      index = scanToLineEnd(content, index) - 1;
+      continue;
+    }
+
+    if (char === "#") {
+      const next = content[index + 1];
+      if (next === "\\") {
+        index += 2;
+        continue;
+      }
+
+      if (next === "|") {
+        const close = content.indexOf("|#", index + 2);
+        index = close < 0 ? content.length : close + 1;
+        continue;
+      }
+
+      if (next === "{") {
+        index = scanLilypondIsland(content, index + 2) - 1;
+      }
+    }
+  }
+
+  return content.length;
+}
+
+/**
+ * `#{ ... #}` embeds LilyPond inside Scheme; its body is lexed with the regular rules so that
+ * strings and comments inside it cannot end the island early.
+ */
+function scanLilypondIsland(content: string, start: number): number {
+  let index = start;
+  while (index < content.length) {
+    const char = content[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (char === "#" && content[index + 1] === "}") {
+      return index + 2;
+    }
+
+    index = scanToken(content, index);
+  }
+
+  return content.length;
+}
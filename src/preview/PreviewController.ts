@@ -5,12 +5,15 @@ import {
   getAutoScrollToHighlight,
   getCursorHighlightEnabled,
   getHighlightHysteresisScore,
+  getIncludeDirectories,
   getMinRenderIntervalMs,
   getRefreshMode,
   getShowUpdatingBadge,
   getTypingDelayMs,
   type RefreshMode
 } from "../config/settings";
+import { forgetRootFile, getRootFilePath, rememberRootFile, takeLegacyRootFile } from "../config/rootFile";
+import { pickRootFile } from "../language/includeIndex";
 import { log } from "../log/logger";
 import { collectArtifacts } from "../output/artifacts";
 import { CANCEL_GRACE_MS, LilypondRenderer, type RenderOutput } from "../render/LilypondRenderer";
@@ -35,6 +38,7 @@ type InFlightRender = {
   token: number;
   uri: string;
   version: number;
+  stamp: string;
   process: ChildProcessWithoutNullStreams;
   killTimer?: NodeJS.Timeout;
 };
@@ -61,13 +65,14 @@ export class PreviewController {
   private previewPanel: vscode.WebviewPanel | undefined;
   private previewDocumentUri: string | undefined;
   private rootFilePath: string | undefined;
-  private includeWatcher: vscode.FileSystemWatcher | undefined;
+  private previewIncludes: { uri: string; files: Set<string> } | undefined;
+  private includeWatchers: vscode.FileSystemWatcher[] = [];
   private scheduledRender: ScheduledRender | undefined;
   private inFlightRender: InFlightRender | undefined;
   private renderToken = 0;
 
   private readonly canceledTokens = new Set<number>();
-  private readonly lastCompletedVersionByUri = new Map<string, number>();
+  private readonly lastCompletedStampByUri = new Map<string, string>();
   private readonly lastRenderStartByUri = new Map<string, number>();
   private debugStatus: "idle" | "updating" | "error" = "idle";
   private debugStatusMessage = "Preview ready.";
@@ -86,13 +91,13 @@ export class PreviewController {
     this.statusBarItem.text = "$(music) LilyPond: Idle";
     this.statusBarItem.tooltip = "Open LilyPond preview";
     this.statusBarItem.show();
-    this.rootFilePath = this.context.workspaceState.get<string>("lilypond.preview.rootFilePath");
 
     this.context.subscriptions.push(this.diagnosticsCollection, this.includeDiagnosticsCollection, this.statusBarItem);
   }
 
   async initialize(): Promise<void> {
     await this.renderer.ensureStorageDirectories();
+    await this.migrateLegacyRootFile();
     this.refreshIncludeWatcher();
     this.updateRootStatus();
   }
@@ -102,7 +107,7 @@ export class PreviewController {
       log("Command: lilypond.preview");
       const panel = this.ensurePreviewPanel(true);
       const current = this.getCurrentLilyPondDocument();
-      const document = await this.getRenderTargetDocument(current);
+      const document = await this.getRenderTargetDocument(current, true);
 
       if (!document) {
         this.postStatus("idle", "Open a LilyPond file (.ly, .ily, .lyi) to render a preview.");
@@ -117,7 +122,7 @@ export class PreviewController {
     const refreshNow = vscode.commands.registerCommand("lilypond.preview.refreshNow", async () => {
       log("Command: lilypond.preview.refreshNow");
       const current = this.getPreviewDocument();
-      const document = await this.getRenderTargetDocument(current);
+      const document = await this.getRenderTargetDocument(current, true);
       if (!document) {
         void vscode.window.showInformationMessage("No active LilyPond document selected for preview.");
         return;
@@ -148,7 +153,7 @@ export class PreviewController {
 
     const exportPdf = vscode.commands.registerCommand("lilypond.export.pdf", async () => {
       const current = this.getPreviewDocument() ?? this.getCurrentLilyPondDocument();
-      const document = await this.getRenderTargetDocument(current);
+      const document = await this.getRenderTargetDocument(current, true);
       if (!document) {
         void vscode.window.showInformationMessage("Open a LilyPond file to export PDF.");
         return;
@@ -168,7 +173,7 @@ export class PreviewController {
 
     const exportMidi = vscode.commands.registerCommand("lilypond.export.midi", async () => {
       const current = this.getPreviewDocument() ?? this.getCurrentLilyPondDocument();
-      const document = await this.getRenderTargetDocument(current);
+      const document = await this.getRenderTargetDocument(current, true);
       if (!document) {
         void vscode.window.showInformationMessage("Open a LilyPond file to export MIDI.");
         return;
@@ -190,7 +195,7 @@ export class PreviewController {
 
     const openLatestArtifacts = vscode.commands.registerCommand("lilypond.output.openLatest", async () => {
       const current = this.getPreviewDocument() ?? this.getCurrentLilyPondDocument();
-      const document = await this.getRenderTargetDocument(current);
+      const document = await this.getRenderTargetDocument(current, true);
       if (!document) {
         void vscode.window.showInformationMessage("Open a LilyPond file to browse output artifacts.");
         return;
@@ -229,30 +234,44 @@ export class PreviewController {
       void vscode.window.showInformationMessage(`LilyPond preview refresh mode: ${nextMode}`);
     });
 
-    const setRootFile = vscode.commands.registerCommand("lilypond.root.set", async () => {
-      const active = vscode.window.activeTextEditor?.document;
-      if (!active || !this.isLilyPondDocument(active)) {
-        void vscode.window.showInformationMessage("Open a LilyPond file and run this command again.");
-        return;
-      }
+    const setRootFile = vscode.commands.registerCommand(
+      "lilypond.root.set",
+      async (target?: vscode.Uri | { resourceUri?: vscode.Uri }) => {
+        const uri = target instanceof vscode.Uri ? target : target?.resourceUri;
+        const active = uri ? await vscode.workspace.openTextDocument(uri) : vscode.window.activeTextEditor?.document;
+        if (!active || !this.isLilyPondDocument(active)) {
+          void vscode.window.showInformationMessage("Open a LilyPond file and run this command again.");
+          return;
+        }
 
-      this.rootFilePath = active.fileName;
-      await this.context.workspaceState.update("lilypond.preview.rootFilePath", this.rootFilePath);
-      this.refreshIncludeWatcher();
-      this.updateRootStatus();
-      void vscode.window.showInformationMessage(`LilyPond root file set: ${path.basename(this.rootFilePath)}`);
+        await this.rememberRootForIncludeGraph(active.fileName);
+        this.setRootFile(active.fileName);
+        void vscode.commands.executeCommand("lilypond.includes.refresh");
+        void vscode.window.showInformationMessage(`LilyPond root file set: ${path.basename(active.fileName)}`);
 
-      if (this.previewPanel) {
-        this.previewDocumentUri = active.uri.toString();
-        await this.requestRender(active, "manual", true);
+        if (this.previewPanel) {
+          this.previewDocumentUri = active.uri.toString();
+          await this.requestRender(active, "manual", true);
+        }
       }
-    });
+    );
 
     const clearRootFile = vscode.commands.registerCommand("lilypond.root.clear", async () => {
-      this.rootFilePath = undefined;
-      await this.context.workspaceState.update("lilypond.preview.rootFilePath", undefined);
-      this.disposeIncludeWatcher();
-      this.updateRootStatus();
+      // Only a root the user set is cleared; an inferred root comes back from the include graph.
+      const active = vscode.window.activeTextEditor?.document;
+      const rootFilePath = active
+        ? getRootFilePath(this.context, active.fileName)
+        : this.rootFilePath && getRootFilePath(this.context, this.rootFilePath);
+      if (!rootFilePath) {
+        void vscode.window.showInformationMessage("No LilyPond root file is set for this file.");
+        return;
+      }
+
+      await forgetRootFile(this.context, rootFilePath);
+      if (rootFilePath === this.rootFilePath) {
+        this.setRootFile(undefined);
+      }
+      void vscode.commands.executeCommand("lilypond.includes.refresh");
       void vscode.window.showInformationMessage("LilyPond root file cleared.");
     });
 
@@ -277,8 +296,8 @@ export class PreviewController {
     });
 
     const onType = vscode.workspace.onDidChangeTextDocument((event) => {
-      const document = event.document;
-      if (!this.shouldTrackDocument(document)) {
+      const document = this.shouldTrackDocument(event.document) ? event.document : this.getIncludingPreviewDocument(event.document);
+      if (!document || !this.shouldTrackDocument(document)) {
         return;
       }
 
@@ -295,11 +314,17 @@ export class PreviewController {
         return;
       }
 
-      this.previewDocumentUri = editor.document.uri.toString();
-      this.previewPanel.title = `${PREVIEW_TITLE}: ${path.basename(editor.document.fileName)}`;
+      // Part files keep the preview on the score that includes them.
+      if (this.getIncludingPreviewDocument(editor.document)) {
+        return;
+      }
+
+      const document = (await this.getRenderTargetDocument(editor.document, false)) ?? editor.document;
+      this.previewDocumentUri = document.uri.toString();
+      this.previewPanel.title = `${PREVIEW_TITLE}: ${path.basename(document.fileName)}`;
 
       if (getRefreshMode() !== "manual") {
-        await this.requestRender(editor.document, "editorSwitch");
+        await this.requestRender(document, "editorSwitch");
       }
     });
 
@@ -309,7 +334,7 @@ export class PreviewController {
         return;
       }
 
-      if (!this.shouldTrackDocument(event.textEditor.document)) {
+      if (!this.isPreviewSource(event.textEditor.document)) {
         return;
       }
 
@@ -326,6 +351,10 @@ export class PreviewController {
     });
 
     const onConfigChange = vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("lilypond.includePaths")) {
+        this.refreshIncludeWatcher();
+      }
+
       if (!event.affectsConfiguration("lilypond.preview.cursorHighlightEnabled")) {
         return;
       }
@@ -336,7 +365,7 @@ export class PreviewController {
       }
 
       const editor = vscode.window.activeTextEditor;
-      if (!editor || !this.shouldTrackDocument(editor.document)) {
+      if (!editor || !this.isPreviewSource(editor.document)) {
         return;
       }
 
@@ -433,7 +462,7 @@ export class PreviewController {
         }
 
         const editor = vscode.window.activeTextEditor;
-        if (editor && this.shouldTrackDocument(editor.document)) {
+        if (editor && this.isPreviewSource(editor.document)) {
           const active = editor.selection.active;
           this.postCursorPosition({
             filePath: editor.document.uri.fsPath,
@@ -473,6 +502,35 @@ export class PreviewController {
     return this.getCurrentLilyPondDocument();
   }
 
+  /** The previewed document when `document` is one of the files it includes. */
+  private getIncludingPreviewDocument(document: vscode.TextDocument): vscode.TextDocument | undefined {
+    if (!this.previewIncludes || this.previewIncludes.uri !== this.previewDocumentUri) {
+      return undefined;
+    }
+
+    if (document.uri.toString() === this.previewIncludes.uri || !this.previewIncludes.files.has(path.resolve(document.fileName))) {
+      return undefined;
+    }
+
+    const previewUri = this.previewIncludes.uri;
+    return vscode.workspace.textDocuments.find((candidate) => candidate.uri.toString() === previewUri);
+  }
+
+  /** Whether the preview shows music from `document`, directly or through an include. */
+  private isPreviewSource(document: vscode.TextDocument): boolean {
+    return this.shouldTrackDocument(document) || this.getIncludingPreviewDocument(document) !== undefined;
+  }
+
+  /** Render identity: the document version plus the versions of unsaved files it includes. */
+  private getRenderStamp(document: vscode.TextDocument): string {
+    const includes = this.previewIncludes?.uri === document.uri.toString() ? this.previewIncludes.files : undefined;
+    const dirtyIncludes = vscode.workspace.textDocuments
+      .filter((candidate) => candidate !== document && candidate.isDirty && includes?.has(path.resolve(candidate.fileName)))
+      .map((candidate) => `${candidate.fileName}@${candidate.version}`)
+      .sort();
+    return [String(document.version), ...dirtyIncludes].join("|");
+  }
+
   private shouldTrackDocument(document: vscode.TextDocument): boolean {
     if (!this.previewPanel || !this.previewDocumentUri) {
       return false;
@@ -485,10 +543,21 @@ export class PreviewController {
     return this.isLilyPondDocument(document) && this.previewDocumentUri === document.uri.toString();
   }
 
-  private async getRenderTargetDocument(baseDocument: vscode.TextDocument | undefined): Promise<vscode.TextDocument | undefined> {
-    if (this.rootFilePath) {
+  /**
+   * Resolves the document to render: the base document's remembered or inferred root file, or the
+   * base document itself when nothing includes it. Only explicit commands (`prompt`) ask which root
+   * to use when several files include the document.
+   */
+  private async getRenderTargetDocument(
+    baseDocument: vscode.TextDocument | undefined,
+    prompt: boolean
+  ): Promise<vscode.TextDocument | undefined> {
+    const rootFilePath = baseDocument ? await pickRootFile(this.context, baseDocument, prompt) : this.rootFilePath;
+    this.setRootFile(rootFilePath);
+
+    if (rootFilePath) {
       try {
-        const rootUri = vscode.Uri.file(this.rootFilePath);
+        const rootUri = vscode.Uri.file(rootFilePath);
         const rootDocument = await vscode.workspace.openTextDocument(rootUri);
         return this.isLilyPondDocument(rootDocument) ? rootDocument : baseDocument;
       } catch {
@@ -573,12 +642,12 @@ export class PreviewController {
       return;
     }
 
-    const completedVersion = this.lastCompletedVersionByUri.get(uri);
-    if (!force && completedVersion === document.version) {
+    const stamp = this.getRenderStamp(document);
+    if (!force && this.lastCompletedStampByUri.get(uri) === stamp) {
       return;
     }
 
-    if (!force && this.inFlightRender && this.inFlightRender.uri === uri && this.inFlightRender.version === document.version) {
+    if (!force && this.inFlightRender && this.inFlightRender.uri === uri && this.inFlightRender.stamp === stamp) {
       return;
     }
 
@@ -617,6 +686,7 @@ export class PreviewController {
 
     const uri = document.uri.toString();
     const token = ++this.renderToken;
+    const stamp = this.getRenderStamp(document);
 
     this.previewPanel.title = `${PREVIEW_TITLE}: ${path.basename(document.fileName)}`;
     this.lastRenderStartByUri.set(uri, Date.now());
@@ -644,6 +714,7 @@ export class PreviewController {
           token: renderToken,
           uri: renderUri,
           version,
+          stamp,
           process
         };
       };
@@ -660,14 +731,14 @@ export class PreviewController {
         return;
       }
 
-      this.lastCompletedVersionByUri.set(uri, document.version);
+      this.lastCompletedStampByUri.set(uri, stamp);
       this.postUpdate(output, document.fileName, statusPrefix);
       this.applyDiagnosticsFromOutput(document.uri, output.stderr);
-      await this.applyIncludeDiagnostics(document.fileName);
+      await this.applyIncludeDiagnostics(document);
       log(`Render success: token=${token} pages=${output.pagesCount} elapsedMs=${output.elapsedMs}`);
 
       const active = vscode.window.activeTextEditor;
-      if (active && this.shouldTrackDocument(active.document) && getCursorHighlightEnabled()) {
+      if (active && this.isPreviewSource(active.document) && getCursorHighlightEnabled()) {
         this.postCursorPosition({
           filePath: active.document.uri.fsPath,
           line: active.selection.active.line + 1,
@@ -750,6 +821,32 @@ export class PreviewController {
     this.updateStatusBar("idle", this.rootFilePath ? `Root file: ${this.rootFilePath}` : "Root file disabled");
   }
 
+  private setRootFile(rootFilePath: string | undefined): void {
+    if (rootFilePath === this.rootFilePath) {
+      return;
+    }
+
+    this.rootFilePath = rootFilePath;
+    this.refreshIncludeWatcher();
+    this.updateRootStatus();
+  }
+
+  /** Remembers `rootFilePath` as the root of itself and every file it currently includes. */
+  private async rememberRootForIncludeGraph(rootFilePath: string): Promise<void> {
+    const graph = await analyzeIncludeGraph(rootFilePath, {
+      includeDirs: getIncludeDirectories(vscode.Uri.file(rootFilePath))
+    });
+    await rememberRootFile(this.context, graph.files, rootFilePath);
+  }
+
+  private async migrateLegacyRootFile(): Promise<void> {
+    const legacyRoot = await takeLegacyRootFile(this.context);
+    if (legacyRoot) {
+      await this.rememberRootForIncludeGraph(legacyRoot);
+      this.rootFilePath = legacyRoot;
+    }
+  }
+
   private refreshIncludeWatcher(): void {
     this.disposeIncludeWatcher();
     if (!this.rootFilePath) {
@@ -757,26 +854,34 @@ export class PreviewController {
     }
 
     const rootDir = path.dirname(this.rootFilePath);
-    const pattern = new vscode.RelativePattern(rootDir, "**/*.{ly,ily,lyi}");
-    this.includeWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+    const watchedDirs = [rootDir];
+    for (const directory of getIncludeDirectories(vscode.Uri.file(this.rootFilePath))) {
+      const relative = path.relative(rootDir, directory);
+      if (relative.startsWith("..") || path.isAbsolute(relative)) {
+        watchedDirs.push(directory);
+      }
+    }
 
     const onChange = (uri: vscode.Uri): void => {
       void this.handleRootRelatedFileChange(uri);
     };
 
-    this.includeWatcher.onDidChange(onChange);
-    this.includeWatcher.onDidCreate(onChange);
-    this.includeWatcher.onDidDelete(onChange);
-    this.context.subscriptions.push(this.includeWatcher);
+    for (const directory of watchedDirs) {
+      const pattern = new vscode.RelativePattern(directory, "**/*.{ly,ily,lyi}");
+      const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+      watcher.onDidChange(onChange);
+      watcher.onDidCreate(onChange);
+      watcher.onDidDelete(onChange);
+      this.includeWatchers.push(watcher);
+      this.context.subscriptions.push(watcher);
+    }
   }
 
   private disposeIncludeWatcher(): void {
-    if (!this.includeWatcher) {
-      return;
+    for (const watcher of this.includeWatchers) {
+      watcher.dispose();
     }
-
-    this.includeWatcher.dispose();
-    this.includeWatcher = undefined;
+    this.includeWatchers = [];
   }
 
   private async handleRootRelatedFileChange(_uri: vscode.Uri): Promise<void> {
@@ -822,8 +927,11 @@ export class PreviewController {
     }
   }
 
-  private async applyIncludeDiagnostics(rootFilePath: string): Promise<void> {
-    const graph = await analyzeIncludeGraph(rootFilePath);
+  private async applyIncludeDiagnostics(document: vscode.TextDocument): Promise<void> {
+    const graph = await analyzeIncludeGraph(document.fileName, {
+      includeDirs: getIncludeDirectories(document.uri)
+    });
+    this.previewIncludes = { uri: document.uri.toString(), files: new Set(graph.files) };
     const grouped = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
 
     for (const issue of graph.issues) {
@@ -2,8 +2,9 @@ import { ChildProcessWithoutNullStreams, spawn } from "child_process";
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as vscode from "vscode";
-import { getLilypondBinaryPath } from "../config/settings";
-import { rewriteTexteditTargets } from "../sync/textEdit";
+import { getIncludeDirectories, getLilypondBinaryPath } from "../config/settings";
+import { buildShadowIncludeTree, restoreShadowPaths } from "../sync/shadowIncludes";
+import { rewriteTexteditTargetMap } from "../sync/textEdit";
 
 export const CANCEL_GRACE_MS = 1200;
 
@@ -56,7 +57,7 @@ export class LilypondRenderer {
       await this.prepareRenderContext(document);
     const command = `${lilypondPath} ${args.map(quoteArg).join(" ")}`;
 
-    await fs.writeFile(inputPath, content, "utf8");
+    const pathMap = await this.writeRenderInput(document, content, inputPath, previewDir);
     await this.cleanupPreviousOutputs(previewDir);
 
     const startedAt = Date.now();
@@ -72,7 +73,12 @@ export class LilypondRenderer {
       },
       onSpawn,
       onClearSpawn
-    );
+    ).catch((error: unknown) => {
+      if (error instanceof Error) {
+        error.message = restoreShadowPaths(error.message, pathMap);
+      }
+      throw error;
+    });
 
     const svgFiles = (await fs.readdir(previewDir))
       .filter((name) => name.startsWith("result") && name.endsWith(".svg"))
@@ -86,7 +92,7 @@ export class LilypondRenderer {
       await Promise.all(
         svgFiles.map(async (fileName, index) => {
           const rawSvg = await fs.readFile(path.join(previewDir, fileName), "utf8");
-          const rewrittenSvg = rewriteTexteditTargets(rawSvg, inputPath, document.fileName);
+          const rewrittenSvg = rewriteTexteditTargetMap(rawSvg, pathMap);
           const safeSvg = stripScriptTags(rewrittenSvg);
           return `<section class=\"page\"><div class=\"page-title\">Page ${index + 1}</div><div class=\"svg-wrap\">${safeSvg}</div></section>`;
         })
@@ -97,23 +103,24 @@ export class LilypondRenderer {
       pagesHtml,
       pagesCount: svgFiles.length,
       command,
-      stderr,
+      stderr: restoreShadowPaths(stderr, pathMap),
       elapsedMs: Date.now() - startedAt
     };
   }
 
   async exportPdf(document: vscode.TextDocument): Promise<string> {
-    const { inputPath, sourceDir, lilypondPath, fontCacheDir } = await this.prepareRenderContext(document);
+    const { inputPath, previewDir, sourceDir, lilypondPath, includeArgs, fontCacheDir } =
+      await this.prepareRenderContext(document);
     const sourceBaseName = path.parse(document.fileName).name;
     const outputBase = path.join(sourceDir, sourceBaseName);
 
-    await fs.writeFile(inputPath, document.getText(), "utf8");
+    await this.writeRenderInput(document, document.getText(), inputPath, previewDir);
 
     await runLilypond(
       {
         token: 0,
         lilypondPath,
-        args: ["-o", outputBase, "-I", sourceDir, inputPath],
+        args: ["-o", outputBase, ...includeArgs, inputPath],
         cwd: sourceDir,
         fontCacheDir,
         uri: document.uri.toString(),
@@ -133,17 +140,18 @@ export class LilypondRenderer {
   }
 
   async exportMidi(document: vscode.TextDocument): Promise<string> {
-    const { inputPath, sourceDir, lilypondPath, fontCacheDir } = await this.prepareRenderContext(document);
+    const { inputPath, previewDir, sourceDir, lilypondPath, includeArgs, fontCacheDir } =
+      await this.prepareRenderContext(document);
     const sourceBaseName = path.parse(document.fileName).name;
     const outputBase = path.join(sourceDir, sourceBaseName);
 
-    await fs.writeFile(inputPath, document.getText(), "utf8");
+    await this.writeRenderInput(document, document.getText(), inputPath, previewDir);
 
     await runLilypond(
       {
         token: 0,
         lilypondPath,
-        args: ["-o", outputBase, "-I", sourceDir, inputPath],
+        args: ["-o", outputBase, ...includeArgs, inputPath],
         cwd: sourceDir,
         fontCacheDir,
         uri: document.uri.toString(),
@@ -176,6 +184,7 @@ export class LilypondRenderer {
     sourceDir: string;
     lilypondPath: string;
     args: string[];
+    includeArgs: string[];
     fontCacheDir: string;
   }> {
     const lilypondPath = getLilypondBinaryPath();
@@ -190,7 +199,8 @@ export class LilypondRenderer {
     await fs.mkdir(previewDir, { recursive: true });
     await fs.mkdir(fontCacheDir, { recursive: true });
 
-    const args = ["-dbackend=svg", "-dpoint-and-click", "-o", outputBase, "-I", sourceDir, inputPath];
+    const includeArgs = [sourceDir, ...getIncludeDirectories(document.uri)].flatMap((directory) => ["-I", directory]);
+    const args = ["-dbackend=svg", "-dpoint-and-click", "-o", outputBase, ...includeArgs, inputPath];
 
     return {
       previewDir,
@@ -199,10 +209,47 @@ export class LilypondRenderer {
       sourceDir,
       lilypondPath,
       args,
+      includeArgs,
       fontCacheDir
     };
   }
 
+  /**
+   * Writes `input.ly` plus a shadow copy of the included files that have unsaved changes (and of
+   * the files including them), and returns the shadow path -> source path map.
+   */
+  private async writeRenderInput(
+    document: vscode.TextDocument,
+    content: string,
+    inputPath: string,
+    previewDir: string
+  ): Promise<Map<string, string>> {
+    const shadowDir = path.join(previewDir, "includes");
+    const overrides = new Map<string, string>();
+    for (const openDocument of vscode.workspace.textDocuments) {
+      if (openDocument.isDirty && openDocument.uri.scheme === "file" && openDocument !== document) {
+        overrides.set(path.resolve(openDocument.fileName), openDocument.getText());
+      }
+    }
+
+    const shadowTree = await buildShadowIncludeTree({
+      rootPath: document.fileName,
+      rootContent: content,
+      rootShadowPath: inputPath,
+      shadowDir,
+      overrides,
+      options: { includeDirs: getIncludeDirectories(document.uri) }
+    });
+
+    await fs.rm(shadowDir, { recursive: true, force: true });
+    for (const file of shadowTree.files) {
+      await fs.mkdir(path.dirname(file.shadowPath), { recursive: true });
+      await fs.writeFile(file.shadowPath, file.content, "utf8");
+    }
+
+    return shadowTree.pathMap;
+  }
+
   private async cleanupPreviousOutputs(previewDir: string): Promise<void> {
     const entries = await fs.readdir(previewDir);
     await Promise.all(
@@ -0,0 +1,54 @@
+import { parseLilypond, positionAt, walkGroups, type ParseTree } from "../parser/parseTree";
+
+export type FoldingRegion = {
+  startLine: number;
+  endLine: number;
+  kind?: "comment" | "region";
+};
+
+const REGION_START = /^%+\s*#?region\b/i;
+const REGION_END = /^%+\s*#?endregion\b/i;
+
+/**
+ * Folding from the source structure rather than indentation: bracket groups (`{ }`, `<< >>`,
+ * `< >`) matched by the parse tree, `%{ %}` comments, multi-line Scheme forms and
+ * `% region` / `% endregion` markers. A closing bracket on its own line stays visible.
+ */
+export function computeFoldingRegions(source: string | ParseTree): FoldingRegion[] {
+  const tree = typeof source === "string" ? parseLilypond(source) : source;
+  const regions: FoldingRegion[] = [];
+  const lineOf = (offset: number): number => positionAt(tree, offset).line;
+  const add = (startLine: number, endLine: number, kind?: FoldingRegion["kind"]): void => {
+    if (endLine > startLine) {
+      regions.push(kind ? { startLine, endLine, kind } : { startLine, endLine });
+    }
+  };
+
+  walkGroups(tree.root, (group) => {
+    if (!group.open || !group.close) {
+      return;
+    }
+
+    const closeLine = lineOf(group.close.start);
+    const closeStartsLine = !tree.content.slice(tree.lineStarts[closeLine], group.close.start).trim();
+    add(lineOf(group.open.start), closeStartsLine ? closeLine - 1 : closeLine);
+  });
+
+  const openRegions: number[] = [];
+  for (const token of tree.tokens) {
+    if (token.kind === "blockComment") {
+      add(lineOf(token.start), lineOf(token.end - 1), "comment");
+    } else if (token.kind === "scheme") {
+      add(lineOf(token.start), lineOf(token.end - 1));
+    } else if (token.kind === "lineComment" && REGION_START.test(token.text)) {
+      openRegions.push(lineOf(token.start));
+    } else if (token.kind === "lineComment" && REGION_END.test(token.text)) {
+      const startLine = openRegions.pop();
+      if (startLine !== undefined) {
+        add(startLine, lineOf(token.start), "region");
+      }
+    }
+  }
+
+  return regions.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+}
@@ -0,0 +1,124 @@
+import { parseLilypond, walkGroups } from "../parser/parseTree";
+import type { Token } from "../parser/tokenizer";
+import type { TextReplacement } from "./musicPitches";
+
+export type FormatOptions = {
+  indentWidth: number;
+  useTabs: boolean;
+  /** Breaks the line after every `|` bar check that has more music after it. */
+  oneMeasurePerLine: boolean;
+};
+
+export type LineRange = {
+  startLine: number;
+  endLine: number;
+};
+
+const OPEN_KINDS = new Set(["braceOpen", "simultaneousOpen"]);
+const CLOSE_KINDS = new Set(["braceClose", "simultaneousClose"]);
+
+/**
+ * Re-indents lines by `{ }` and `<< >>` depth, puts single spaces around `|` bar checks, drops
+ * trailing whitespace and, optionally, starts a new line after each bar check. Lines that start
+ * inside Scheme, strings, block comments or markup are left exactly as written, and so is
+ * everything inside them. Only lines in `range` change.
+ */
+export function formatLilypond(content: string, options: FormatOptions, range?: LineRange): TextReplacement[] {
+  const tree = parseLilypond(content);
+  const markupRanges: Array<{ start: number; end: number }> = [];
+  walkGroups(tree.root, (group) => {
+    if (group.mode === "markup") {
+      markupRanges.push({ start: group.start, end: group.end });
+    }
+  });
+  const isProtected = (token: Token): boolean =>
+    markupRanges.some((markup) => markup.start < token.start && token.end < markup.end);
+
+  const unit = options.useTabs ? "\t" : " ".repeat(Math.max(0, options.indentWidth));
+  const indent = (depth: number): string => unit.repeat(Math.max(0, depth));
+  const edits: TextReplacement[] = [];
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const { tokens, lineStarts } = tree;
+  let depth = 0;
+  let index = 0;
+
+  for (let line = 0; line < lineStarts.length; line += 1) {
+    const lineStart = lineStarts[line];
+    const lineEnd = lineEndOffset(content, lineStarts, line);
+    const inRange = !range || (line >= range.startLine && line <= range.endLine);
+    const continued = index > 0 && tokens[index - 1].end > lineStart;
+    const lineTokens: Token[] = [];
+    while (index < tokens.length && tokens[index].start < lineEnd) {
+      lineTokens.push(tokens[index]);
+      index += 1;
+    }
+
+    const verbatim = continued || (lineTokens.length > 0 && isProtected(lineTokens[0]));
+    const text = verbatim || !inRange ? undefined : formatLine(content, lineTokens, depth, indent, isProtected, options, eol);
+    for (const token of lineTokens) {
+      depth = OPEN_KINDS.has(token.kind) ? depth + 1 : CLOSE_KINDS.has(token.kind) ? Math.max(0, depth - 1) : depth;
+    }
+
+    if (text !== undefined && text !== content.slice(lineStart, lineEnd)) {
+      edits.push({ start: lineStart, end: lineEnd, newText: text });
+    }
+  }
+
+  return edits;
+}
+
+function formatLine(
+  content: string,
+  tokens: Token[],
+  depth: number,
+  indent: (depth: number) => string,
+  isProtected: (token: Token) => boolean,
+  options: FormatOptions,
+  eol: string
+): string {
+  if (tokens.length === 0) {
+    return "";
+  }
+
+  const lineDepth = CLOSE_KINDS.has(tokens[0].kind) ? depth - 1 : depth;
+  const barCheck = (token: Token): boolean => token.text === "|" && !isProtected(token);
+  let text = indent(lineDepth);
+  let current = lineDepth;
+
+  tokens.forEach((token, position) => {
+    const previous = tokens[position - 1];
+    if (previous && barCheck(previous) && options.oneMeasurePerLine && token.kind !== "lineComment" && !CLOSE_KINDS.has(token.kind)) {
+      text = `${text.trimEnd()}${eol}${indent(current)}`;
+    } else if (previous && (barCheck(previous) || barCheck(token))) {
+      text += " ";
+    } else if (previous) {
+      text += content.slice(previous.end, token.start);
+    }
+
+    text += content.slice(token.start, firstLineEnd(content, token));
+    current = OPEN_KINDS.has(token.kind) ? current + 1 : CLOSE_KINDS.has(token.kind) ? current - 1 : current;
+  });
+
+  // Whitespace at the end of a token that continues on the next line belongs to the token.
+  const last = tokens[tokens.length - 1];
+  return firstLineEnd(content, last) < last.end ? text : text.trimEnd();
+}
+
+/** End of the line without its line break. */
+function lineEndOffset(content: string, lineStarts: number[], line: number): number {
+  const next = line + 1 < lineStarts.length ? lineStarts[line + 1] : content.length;
+  let end = next;
+  if (end > lineStarts[line] && content[end - 1] === "\n") {
+    end -= 1;
+  }
+  if (end > lineStarts[line] && content[end - 1] === "\r") {
+    end -= 1;
+  }
+  return end;
+}
+
+/** A token running onto later lines is formatted up to its first line break only. */
+function firstLineEnd(content: string, token: Token): number {
+  const breakAt = content.slice(token.start, token.end).search(/\r?\n/);
+  return breakAt === -1 ? token.end : token.start + breakAt;
+}
@@ -1,13 +1,28 @@
+import type { Dirent } from "fs";
 import * as fs from "fs/promises";
 import * as path from "path";
+import { isCommentToken, parseLilypond, positionAt, type ParseTree } from "../parser/parseTree";
 
 export type IncludeIssue = {
   filePath: string;
   line: number;
   severity: "error" | "warning";
+  kind: IncludeIssueKind;
   message: string;
 };
 
+export type IncludeIssueKind = "missing" | "notFile" | "cycle" | "unreadable";
+
+export type IncludeTreeNode = {
+  filePath: string;
+  /** Path as written in the `\include`; undefined for the root. */
+  includePath?: string;
+  /** 1-based line of the `\include` in the parent file. */
+  line?: number;
+  issue?: IncludeIssue;
+  children: IncludeTreeNode[];
+};
+
 export type IncludeEntry = {
   fromFile: string;
   line: number;
@@ -21,7 +36,44 @@ export type IncludeGraphResult = {
   entries: IncludeEntry[];
 };
 
-export async function analyzeIncludeGraph(rootFilePath: string): Promise<IncludeGraphResult> {
+export type IncludeSearchOptions = {
+  /** Directory of the root file; defaults to the directory of the file passed to `analyzeIncludeGraph`. */
+  rootDir?: string;
+  /** Additional `-I` directories, searched after the including file's and the root file's directory. */
+  includeDirs?: string[];
+};
+
+export type IncludeResolution = {
+  status: "found" | "notFile" | "missing";
+  resolvedPath?: string;
+  candidates: string[];
+};
+
+export type IncludeStatement = {
+  line: number;
+  includePath: string;
+  /** Offsets of the path inside the quotes. */
+  pathStart: number;
+  pathEnd: number;
+};
+
+export type IncludePathCompletion = {
+  /** Directory or file name that completes the typed path after its last `/`. */
+  name: string;
+  isDirectory: boolean;
+  /** Absolute path of the entry in the first search directory that has it. */
+  filePath: string;
+};
+
+const INCLUDE_FILE_EXTENSIONS = new Set([".ly", ".ily", ".lyi"]);
+
+/** Walks the include graph from disk; `overrides` holds unsaved editor text keyed by resolved file path. */
+export async function analyzeIncludeGraph(
+  rootFilePath: string,
+  options: IncludeSearchOptions = {},
+  overrides: Map<string, string> = new Map()
+): Promise<IncludeGraphResult> {
+  const searchOptions = { ...options, rootDir: options.rootDir ?? path.dirname(path.resolve(rootFilePath)) };
   const visited = new Set<string>();
   const stack: string[] = [];
   const files = new Set<string>();
@@ -39,6 +91,7 @@ export async function analyzeIncludeGraph(rootFilePath: string): Promise<Include
         filePath: normalized,
         line: 1,
         severity: "error",
+        kind: "cycle",
         message: `Recursive include detected: ${cycle}`
       });
       return;
@@ -53,12 +106,13 @@ export async function analyzeIncludeGraph(rootFilePath: string): Promise<Include
 
     let content = "";
     try {
-      content = await fs.readFile(normalized, "utf8");
+      content = overrides.get(normalized) ?? (await fs.readFile(normalized, "utf8"));
     } catch {
       issues.push({
         filePath: normalized,
         line: 1,
         severity: "error",
+        kind: "unreadable",
         message: `Cannot read include file: ${normalized}`
       });
       return;
@@ -68,7 +122,8 @@ export async function analyzeIncludeGraph(rootFilePath: string): Promise<Include
     const includes = extractIncludeStatements(content);
 
     for (const include of includes) {
-      const resolved = path.resolve(path.dirname(normalized), include.includePath);
+      const resolution = await resolveInclude(include.includePath, normalized, searchOptions);
+      const resolved = resolution.resolvedPath ?? resolution.candidates[0];
       entries.push({
         fromFile: normalized,
         line: include.line,
@@ -76,22 +131,23 @@ export async function analyzeIncludeGraph(rootFilePath: string): Promise<Include
         resolvedPath: resolved
       });
 
-      try {
-        const stat = await fs.stat(resolved);
-        if (!stat.isFile()) {
-          issues.push({
-            filePath: normalized,
-            line: include.line,
-            severity: "error",
-            message: `Included path is not a file: ${include.includePath}`
-          });
-          continue;
-        }
-      } catch {
+      if (resolution.status === "notFile") {
         issues.push({
           filePath: normalized,
           line: include.line,
           severity: "error",
+          kind: "notFile",
+          message: `Included path is not a file: ${include.includePath}`
+        });
+        continue;
+      }
+
+      if (resolution.status === "missing") {
+        issues.push({
+          filePath: normalized,
+          line: include.line,
+          severity: "error",
+          kind: "missing",
           message: `Missing include: ${include.includePath}`
         });
         continue;
@@ -105,6 +161,7 @@ export async function analyzeIncludeGraph(rootFilePath: string): Promise<Include
           filePath: normalized,
           line: include.line,
           severity: "error",
+          kind: "cycle",
           message: `Recursive include detected: ${cycle}`
         });
         continue;
@@ -125,22 +182,232 @@ export async function analyzeIncludeGraph(rootFilePath: string): Promise<Include
   };
 }
 
-export function extractIncludeStatements(content: string): Array<{ line: number; includePath: string }> {
-  const lines = content.split(/\r?\n/);
-  const result: Array<{ line: number; includePath: string }> = [];
+/**
+ * Arranges the graph's entries as the include hierarchy under the root. Issues are attached to the
+ * node they concern, and a file that includes one of its ancestors is shown as a leaf.
+ */
+export function buildIncludeTree(graph: IncludeGraphResult, rootFilePath: string): IncludeTreeNode {
+  const entriesByFile = new Map<string, IncludeEntry[]>();
+  for (const entry of graph.entries) {
+    entriesByFile.set(entry.fromFile, [...(entriesByFile.get(entry.fromFile) ?? []), entry]);
+  }
+
+  const findIssue = (filePath: string, line: number, kinds: IncludeIssueKind[]): IncludeIssue | undefined =>
+    graph.issues.find((issue) => issue.filePath === filePath && issue.line === line && kinds.includes(issue.kind));
 
-  for (let i = 0; i < lines.length; i += 1) {
-    const line = lines[i].replace(/%.*$/, "");
-    const match = line.match(/^\s*\\include\s+"([^"]+)"/);
-    if (!match) {
+  const build = (filePath: string, ancestors: string[], entry?: IncludeEntry): IncludeTreeNode => {
+    const issue = entry ? findIssue(entry.fromFile, entry.line, ["missing", "notFile", "cycle"]) : undefined;
+    const node: IncludeTreeNode = {
+      filePath,
+      includePath: entry?.includePath,
+      line: entry?.line,
+      issue: issue ?? findIssue(filePath, 1, ["unreadable"]),
+      children: []
+    };
+
+    if (node.issue || ancestors.includes(filePath)) {
+      return node;
+    }
+
+    node.children = (entriesByFile.get(filePath) ?? []).map((child) => build(child.resolvedPath, [...ancestors, filePath], child));
+    return node;
+  };
+
+  return build(path.resolve(rootFilePath), []);
+}
+
+export function extractIncludeStatements(source: string | ParseTree): Array<{ line: number; includePath: string }> {
+  return findIncludeStatements(source).map(({ line, includePath }) => ({ line, includePath }));
+}
+
+export function findIncludeStatements(source: string | ParseTree): IncludeStatement[] {
+  const tree = typeof source === "string" ? parseLilypond(source) : source;
+  const tokens = tree.tokens.filter((token) => !isCommentToken(token));
+  const result: IncludeStatement[] = [];
+
+  for (let i = 0; i + 1 < tokens.length; i += 1) {
+    const token = tokens[i];
+    const target = tokens[i + 1];
+    if (token.kind !== "command" || token.text !== "\\include" || target.kind !== "string") {
       continue;
     }
 
     result.push({
-      line: i + 1,
-      includePath: match[1]
+      line: positionAt(tree, token.start).line + 1,
+      includePath: target.text.slice(1, -1),
+      pathStart: target.start + 1,
+      pathEnd: target.end - 1
     });
   }
 
   return result;
 }
+
+/**
+ * Expands `lilypond.includePaths` entries into absolute directories. `${workspaceFolder}` is
+ * substituted and relative entries are resolved against the workspace folder.
+ */
+export function expandIncludeDirectories(entries: string[], workspaceFolder: string): string[] {
+  const directories: string[] = [];
+  for (const entry of entries) {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const directory = path.resolve(workspaceFolder, trimmed.replace(/\$\{workspaceFolder\}/g, workspaceFolder));
+    if (!directories.includes(directory)) {
+      directories.push(directory);
+    }
+  }
+  return directories;
+}
+
+/**
+ * Lists the paths LilyPond tries for an `\\include`, in order: the including file's directory,
+ * the root file's directory, then the configured include directories.
+ */
+export function getIncludeCandidates(includePath: string, fromFile: string, options: IncludeSearchOptions = {}): string[] {
+  if (path.isAbsolute(includePath)) {
+    return [path.normalize(includePath)];
+  }
+
+  const directories = [path.dirname(path.resolve(fromFile)), options.rootDir, ...(options.includeDirs ?? [])];
+  const candidates: string[] = [];
+  for (const directory of directories) {
+    if (!directory) {
+      continue;
+    }
+
+    const candidate = path.resolve(directory, includePath);
+    if (!candidates.includes(candidate)) {
+      candidates.push(candidate);
+    }
+  }
+
+  return candidates;
+}
+
+export async function resolveInclude(
+  includePath: string,
+  fromFile: string,
+  options: IncludeSearchOptions = {}
+): Promise<IncludeResolution> {
+  const candidates = getIncludeCandidates(includePath, fromFile, options);
+  let notFile: string | undefined;
+
+  for (const candidate of candidates) {
+    try {
+      const stat = await fs.stat(candidate);
+      if (stat.isFile()) {
+        return { status: "found", resolvedPath: candidate, candidates };
+      }
+      notFile = notFile ?? candidate;
+    } catch {
+      // Try the next search directory.
+    }
+  }
+
+  return notFile ? { status: "notFile", resolvedPath: notFile, candidates } : { status: "missing", candidates };
+}
+
+/**
+ * Lists the directories and LilyPond files that can follow the directory part of a partly typed
+ * `\include` path. Search directories are those `resolveInclude` tries, so every completion
+ * resolves; a name found in several of them is listed once, from the first.
+ */
+export async function listIncludePathCompletions(
+  typedPath: string,
+  fromFile: string,
+  options: IncludeSearchOptions = {}
+): Promise<IncludePathCompletion[]> {
+  const directoryPart = typedPath.slice(0, typedPath.lastIndexOf("/") + 1);
+  const completions = new Map<string, IncludePathCompletion>();
+
+  for (const directory of getIncludeCandidates(directoryPart || ".", fromFile, options)) {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith(".") || completions.has(entry.name)) {
+        continue;
+      }
+
+      const filePath = path.join(directory, entry.name);
+      const isDirectory = entry.isDirectory() || (entry.isSymbolicLink() && (await isDirectoryPath(filePath)));
+      if (isDirectory || INCLUDE_FILE_EXTENSIONS.has(path.extname(entry.name))) {
+        completions.set(entry.name, { name: entry.name, isDirectory, filePath });
+      }
+    }
+  }
+
+  return [...completions.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function isDirectoryPath(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/** Maps each resolved include target to the files that include it directly. */
+export type ReverseIncludeIndex = Map<string, string[]>;
+
+/**
+ * Builds the reverse include index for a set of files. Includes are resolved from the including
+ * file's directory and the include directories, since the eventual root is not known yet.
+ */
+export async function buildReverseIncludeIndex(
+  sources: Array<{ filePath: string; content: string }>,
+  options: IncludeSearchOptions = {}
+): Promise<ReverseIncludeIndex> {
+  const index: ReverseIncludeIndex = new Map();
+
+  for (const source of sources) {
+    const fromFile = path.resolve(source.filePath);
+    for (const include of extractIncludeStatements(source.content)) {
+      const resolution = await resolveInclude(include.includePath, fromFile, options);
+      if (resolution.status !== "found" || !resolution.resolvedPath) {
+        continue;
+      }
+
+      const includers = index.get(resolution.resolvedPath) ?? [];
+      if (!includers.includes(fromFile)) {
+        includers.push(fromFile);
+      }
+      index.set(resolution.resolvedPath, includers);
+    }
+  }
+
+  return index;
+}
+
+/** Lists the `.ly` files that include `filePath` directly or transitively, sorted by path. */
+export function findIncludingRoots(index: ReverseIncludeIndex, filePath: string): string[] {
+  const start = path.resolve(filePath);
+  const seen = new Set<string>([start]);
+  const queue = [start];
+  const roots: string[] = [];
+
+  for (let i = 0; i < queue.length; i += 1) {
+    for (const includer of index.get(queue[i]) ?? []) {
+      if (seen.has(includer)) {
+        continue;
+      }
+
+      seen.add(includer);
+      queue.push(includer);
+      if (path.extname(includer).toLowerCase() === ".ly") {
+        roots.push(includer);
+      }
+    }
+  }
+
+  return roots.sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,115 @@
+import * as path from "path";
+import { parseLilypond, positionAt } from "../parser/parseTree";
+import { findIncludeStatements, getIncludeCandidates, type IncludeSearchOptions } from "./includeGraph";
+
+export type FileMove = {
+  oldPath: string;
+  newPath: string;
+};
+
+export type IncludePathEdit = {
+  /** File containing the `\include`, at its path before the move. */
+  filePath: string;
+  start: { line: number; character: number };
+  end: { line: number; character: number };
+  newText: string;
+};
+
+/**
+ * Computes the `\include` path edits needed after moving files or folders. Both sides are
+ * handled: includes pointing at a moved file, and relative includes inside a moved file. Paths
+ * stay relative to the directory they were resolved from, and absolute paths stay absolute.
+ * `exists` tells which candidate LilyPond would pick, checked against the layout before the move.
+ */
+export function computeIncludeRenameEdits(
+  sources: Array<{ filePath: string; content: string }>,
+  moves: FileMove[],
+  exists: (filePath: string) => boolean,
+  options: IncludeSearchOptions = {}
+): IncludePathEdit[] {
+  const edits: IncludePathEdit[] = [];
+
+  for (const source of sources) {
+    const fromFile = path.resolve(source.filePath);
+    const movedFrom = mapMovedPath(fromFile, moves);
+    const tree = parseLilypond(source.content);
+
+    for (const include of findIncludeStatements(tree)) {
+      const candidates = getIncludeCandidates(include.includePath, fromFile, options);
+      const target = candidates.find(exists);
+      if (!target) {
+        continue;
+      }
+
+      const movedTarget = mapMovedPath(target, moves);
+      if (movedTarget === target && movedFrom === fromFile) {
+        continue;
+      }
+
+      const newText = formatIncludePath(include.includePath, fromFile, movedFrom, target, movedTarget, options);
+      if (newText === include.includePath) {
+        continue;
+      }
+
+      edits.push({
+        filePath: fromFile,
+        start: positionAt(tree, include.pathStart),
+        end: positionAt(tree, include.pathEnd),
+        newText
+      });
+    }
+  }
+
+  return edits;
+}
+
+/** Where `filePath` ends up after the moves; folder moves carry the files inside them. */
+export function mapMovedPath(filePath: string, moves: FileMove[]): string {
+  const resolved = path.resolve(filePath);
+  for (const move of moves) {
+    const oldPath = path.resolve(move.oldPath);
+    if (resolved === oldPath) {
+      return path.resolve(move.newPath);
+    }
+
+    if (resolved.startsWith(`${oldPath}${path.sep}`)) {
+      return path.join(path.resolve(move.newPath), resolved.slice(oldPath.length + 1));
+    }
+  }
+  return resolved;
+}
+
+function formatIncludePath(
+  includePath: string,
+  fromFile: string,
+  movedFrom: string,
+  target: string,
+  movedTarget: string,
+  options: IncludeSearchOptions
+): string {
+  if (path.isAbsolute(includePath)) {
+    return toIncludePath(movedTarget);
+  }
+
+  // Includes found through the root or an include directory keep that base while the target
+  // stays inside it; everything else becomes relative to the including file.
+  const fromDir = path.dirname(fromFile);
+  const baseDir = [options.rootDir, ...(options.includeDirs ?? [])].find(
+    (directory) => directory && path.resolve(fromDir, includePath) !== target && path.resolve(directory, includePath) === target
+  );
+  if (baseDir) {
+    const relative = path.relative(baseDir, movedTarget);
+    if (!relative.startsWith("..") && !path.isAbsolute(relative)) {
+      return toIncludePath(relative);
+    }
+  }
+
+  const relative = path.relative(path.dirname(movedFrom), movedTarget);
+  const keepDotPrefix = includePath.startsWith("./") && !relative.startsWith("..");
+  return toIncludePath(keepDotPrefix ? `./${relative}` : relative);
+}
+
+/** LilyPond strings treat `\` as an escape, so paths are written with forward slashes. */
+function toIncludePath(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
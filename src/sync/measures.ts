@@ -0,0 +1,604 @@
+import { isCommentToken, parseLilypond, type GroupNode } from "../parser/parseTree";
+import type { Token } from "../parser/tokenizer";
+import { isMusicGroup, type PitchCollectOptions } from "./musicPitches";
+import { collectRhythmEvents, type Duration } from "./rhythm";
+
+/** An exact length of music in whole notes. */
+export type Fraction = {
+  numerator: number;
+  denominator: number;
+};
+
+export type TimeSignature = {
+  numerator: number;
+  denominator: number;
+};
+
+/** Where a note, rest or skip starts: its measure and the time since the measure began. */
+export type MeasurePosition = {
+  start: number;
+  voice: number;
+  measure: number;
+  position: Fraction;
+  /** Measure in which the note ends, after `measure` for long notes and multi-measure rests. */
+  lastMeasure: number;
+  time: TimeSignature;
+};
+
+export type MeasureDiagnostic = {
+  start: number;
+  end: number;
+  message: string;
+};
+
+export type MeasureOptions = PitchCollectOptions & {
+  /**
+   * Names of LilyPond's own commands, without the backslash. When given, any other command that
+   * is not defined in the file is taken for music of unknown length, such as a variable from an
+   * included file, and the measure it is in is not checked. Otherwise such commands take no time.
+   */
+  builtInCommands?: ReadonlySet<string>;
+};
+
+export type MeasureAnalysis = {
+  positions: MeasurePosition[];
+  diagnostics: MeasureDiagnostic[];
+  /** The voice each branch of `<< >>` starts from; top-level music has no parent. */
+  parentVoices: Map<number, number>;
+};
+
+type Item = Token | GroupNode;
+
+type Voice = {
+  id: number;
+  /** Time since the voice started. */
+  moment: Fraction;
+  position: Fraction;
+  measure: number;
+  /** Measure that began at the last bar check, which the next bar check should close. */
+  checked: number;
+  /** Music of unknown length came after the last bar line, so the measure is not checked. */
+  uncounted: boolean;
+  /** Between `\cadenzaOn` and `\cadenzaOff`, where notes do not move through the measure. */
+  cadenza: boolean;
+};
+
+type AnalysisContext = {
+  notes: Map<number, Fraction>;
+  arguments: Map<number, Fraction>;
+  time: TimeSignature;
+  positions: MeasurePosition[];
+  diagnostics: MeasureDiagnostic[];
+  parentVoices: Map<number, number>;
+  voiceCount: number;
+  /** Music of the file's own variables, walked in place where `\name` uses them. */
+  variables: Map<string, Item[]>;
+  expanding: Set<string>;
+  builtInCommands?: ReadonlySet<string>;
+};
+
+const DEFAULT_TIME: TimeSignature = { numerator: 4, denominator: 4 };
+const ZERO: Fraction = { numerator: 0, denominator: 1 };
+const ONE: Fraction = { numerator: 1, denominator: 1 };
+
+/** Blocks whose music expressions are independent pieces, each starting at measure 1. */
+const CONTAINER_BLOCKS = new Set(["book", "bookpart", "score"]);
+const GRACE_COMMANDS = new Set(["\\grace", "\\acciaccatura", "\\appoggiatura", "\\slashedGrace"]);
+const UNFOLDED_REPEATS = new Set(["unfold", "percent", "tremolo"]);
+/** Commands that may come between a music function and the music it applies to. */
+const MUSIC_PREFIX_COMMANDS = new Set(["\\relative", "\\fixed", "\\transpose", "\\new", "\\context", "\\chordmode", "\\notemode"]);
+
+/**
+ * Accumulates durations per voice and checks every `|` bar check, every `\bar` line and the end
+ * of each piece of music against the measures implied by `\time` and `\partial`, counting
+ * tuplets, `\scaleDurations`, grace notes (as taking no time) and repeats. Each branch of `<< >>`
+ * is a voice of its own. The time signature carries over lexically, like durations do, so music
+ * in a variable follows the last `\time` written before it. Variables defined in the file are
+ * counted where they are used; checking stops between `\cadenzaOn` and `\cadenzaOff`, and after
+ * `\set Timing.measurePosition` until the next bar line.
+ *
+ * After a failed bar check the voice continues as if the bar line were there, so one mistake is
+ * reported once.
+ */
+export function analyzeMeasures(content: string, options: MeasureOptions = {}): MeasureAnalysis {
+  const tree = parseLilypond(content);
+  const rootItems = getItems(tree.root);
+  const context: AnalysisContext = {
+    notes: new Map(),
+    arguments: new Map(),
+    time: DEFAULT_TIME,
+    positions: [],
+    diagnostics: [],
+    parentVoices: new Map(),
+    voiceCount: 0,
+    variables: new Map(
+      tree.assignments
+        .filter((assignment) => assignment.scope === tree.root)
+        .map((assignment) => [
+          assignment.name,
+          rootItems.filter((item) => item.start >= assignment.valueStart && item.end <= assignment.valueEnd)
+        ])
+    ),
+    expanding: new Set(),
+    builtInCommands: options.builtInCommands
+  };
+
+  for (const event of collectRhythmEvents(content, options)) {
+    const target = event.kind === "note" ? context.notes : context.arguments;
+    target.set(event.start, durationLength(event.duration));
+  }
+
+  walkItems(context, rootItems, newVoice(context), ONE, "independent");
+  context.positions.sort((a, b) => a.start - b.start);
+  context.diagnostics.sort((a, b) => a.start - b.start);
+  return { positions: context.positions, diagnostics: context.diagnostics, parentVoices: context.parentVoices };
+}
+
+/** The note, rest or skip at or before `offset`. */
+export function findMeasurePosition(analysis: MeasureAnalysis, offset: number): MeasurePosition | undefined {
+  let found: MeasurePosition | undefined;
+  for (const position of analysis.positions) {
+    if (position.start > offset) {
+      break;
+    }
+    found = position;
+  }
+  return found;
+}
+
+/**
+ * The note sounding at the start of `measure` in the voice at `offset`, looking in the voices it
+ * branched from when the voice does not reach that measure. Measures inside a long note or a
+ * multi-measure rest resolve to that note or rest.
+ */
+export function findMeasureStart(analysis: MeasureAnalysis, offset: number, measure: number): MeasurePosition | undefined {
+  const current = findMeasurePosition(analysis, offset) ?? analysis.positions[0];
+  for (let voice: number | undefined = current?.voice; voice !== undefined; voice = analysis.parentVoices.get(voice)) {
+    const found = findInVoice(analysis.positions.filter((position) => position.voice === voice), measure);
+    if (found) {
+      return found;
+    }
+  }
+  return findInVoice(analysis.positions, measure);
+}
+
+/**
+ * Number of the last measure reachable from the voice at `offset`, counting the voices it
+ * branched from as `findMeasureStart` does; 0 when there is no music.
+ */
+export function countMeasures(analysis: MeasureAnalysis, offset: number): number {
+  const current = findMeasurePosition(analysis, offset) ?? analysis.positions[0];
+  const voices = new Set<number>();
+  for (let voice: number | undefined = current?.voice; voice !== undefined; voice = analysis.parentVoices.get(voice)) {
+    voices.add(voice);
+  }
+  return analysis.positions
+    .filter((position) => voices.has(position.voice))
+    .reduce((count, position) => Math.max(count, position.lastMeasure), 0);
+}
+
+/** Beat of the position, counting in the time signature's note value from 1. */
+export function getBeat(position: MeasurePosition): number {
+  return Math.floor((position.position.numerator * position.time.denominator) / position.position.denominator) + 1;
+}
+
+export function formatFraction(fraction: Fraction): string {
+  return fraction.denominator === 1 ? String(fraction.numerator) : `${fraction.numerator}/${fraction.denominator}`;
+}
+
+/** Length of a duration in whole notes, including dots and `*n/m` multipliers. */
+export function durationLength(duration: Duration): Fraction {
+  let length = duration.base >= 0 ? fraction(1, 2 ** duration.base) : fraction(2 ** -duration.base, 1);
+  length = multiply(length, fraction(2 ** (duration.dots + 1) - 1, 2 ** duration.dots));
+  for (const match of duration.multiplier.matchAll(/\*(\d+)(?:\/(\d+))?/g)) {
+    length = multiply(length, fraction(Number(match[1]), Number(match[2] ?? 1)));
+  }
+  return length;
+}
+
+/**
+ * Walks music in order. In `sequential` music every item follows the previous one; in
+ * `simultaneous` music every music item starts where the group starts and the group lasts as
+ * long as its longest item; `independent` items each start a new piece at measure 1.
+ */
+function walkItems(
+  context: AnalysisContext,
+  items: Item[],
+  voice: Voice,
+  scale: Fraction,
+  layout: "sequential" | "simultaneous" | "independent"
+): Voice {
+  const startBranch = (): Voice =>
+    layout === "independent" ? newVoice(context) : layout === "simultaneous" ? newVoice(context, voice) : voice;
+  let current = startBranch();
+  let longest: Voice | undefined;
+
+  for (let index = 0; index < items.length; index += 1) {
+    const result = walkItem(context, items, index, current, scale);
+    index = result.lastIndex;
+    current = result.voice;
+    if (layout === "independent" && result.music) {
+      checkEnd(context, items[index], current);
+    }
+    if (layout !== "sequential" && result.music) {
+      longest = !longest || compare(current.moment, longest.moment) > 0 ? current : longest;
+      current = startBranch();
+    }
+  }
+
+  if (layout === "simultaneous") {
+    return longest ? { ...longest, id: voice.id } : voice;
+  }
+  return layout === "independent" ? voice : current;
+}
+
+function walkItem(
+  context: AnalysisContext,
+  items: Item[],
+  index: number,
+  voice: Voice,
+  scale: Fraction
+): { voice: Voice; lastIndex: number; music: boolean } {
+  const item = items[index];
+  const done = (next: Voice, music: boolean, lastIndex = index): { voice: Voice; lastIndex: number; music: boolean } => ({
+    voice: next,
+    lastIndex,
+    music
+  });
+
+  if (isGroup(item)) {
+    if (item.command && CONTAINER_BLOCKS.has(item.command)) {
+      walkItems(context, getItems(item), voice, scale, "independent");
+      return done(voice, false);
+    }
+    if (!isMusicGroup(item)) {
+      return done(voice, false);
+    }
+    if (item.kind === "chord") {
+      return done(playNote(context, item.start, voice, scale), true);
+    }
+    const layout = item.kind === "simultaneous" ? "simultaneous" : "sequential";
+    return done(walkItems(context, getItems(item), voice, scale, layout), true);
+  }
+
+  if (context.notes.has(item.start)) {
+    return done(playNote(context, item.start, voice, scale), true);
+  }
+
+  if (item.text === "|") {
+    return done(checkBar(context, item, voice), false);
+  }
+
+  if (item.text === "\\bar") {
+    const style = items[index + 1];
+    const lastIndex = !isGroup(style) && style?.kind === "string" ? index + 1 : index;
+    return done(checkBarLine(context, item, voice), false, lastIndex);
+  }
+
+  switch (item.text) {
+    case "\\time": {
+      const time = readTimeSignature(items, index);
+      if (!time) {
+        return done(voice, false);
+      }
+      context.time = time.value;
+      return done(normalize({ ...voice }, measureLength(context.time)), false, time.lastIndex);
+    }
+    case "\\partial": {
+      const length = context.arguments.get(item.start);
+      return done(length ? startPickup(context, voice, multiply(length, scale)) : voice, false);
+    }
+    case "\\skip": {
+      const length = context.arguments.get(item.start);
+      return done(length ? advance(context, voice, multiply(length, scale)) : voice, true);
+    }
+    case "\\tuplet":
+    case "\\times":
+    case "\\scaleDurations": {
+      const ratio = readFraction(items, index + 1);
+      const factor = !ratio ? ONE : item.text === "\\tuplet" ? fraction(ratio.value.denominator, ratio.value.numerator) : ratio.value;
+      return walkNextMusic(context, items, ratio?.lastIndex ?? index, voice, multiply(scale, factor));
+    }
+    case "\\afterGrace": {
+      const main = walkNextMusic(context, items, readFraction(items, index + 1)?.lastIndex ?? index, voice, scale);
+      const grace = walkNextMusic(context, items, main.lastIndex, main.voice, ZERO);
+      return { ...grace, music: true };
+    }
+    case "\\repeat":
+      return walkRepeat(context, items, index, voice, scale);
+    case "\\cadenzaOn":
+    case "\\cadenzaOff":
+      return done({ ...voice, cadenza: item.text === "\\cadenzaOn" }, false);
+    case "\\set": {
+      const lastIndex = findMeasurePositionSetting(items, index);
+      return lastIndex === undefined ? done(voice, false) : done({ ...voice, uncounted: true }, false, lastIndex);
+    }
+    default:
+      if (GRACE_COMMANDS.has(item.text)) {
+        return walkNextMusic(context, items, index, voice, ZERO);
+      }
+      if (item.kind === "command") {
+        return walkVariable(context, item, index, voice, scale);
+      }
+      return done(voice, false);
+  }
+}
+
+/**
+ * `\name` where music is expected: a variable of the file is walked in place, without recording
+ * its notes or problems again; a command LilyPond does not define is music of unknown length.
+ */
+function walkVariable(
+  context: AnalysisContext,
+  token: Token,
+  index: number,
+  voice: Voice,
+  scale: Fraction
+): { voice: Voice; lastIndex: number; music: boolean } {
+  const name = token.text.slice(1);
+  const items = context.variables.get(name);
+  const unchanged = { voice, lastIndex: index, music: false };
+  if (items && !context.expanding.has(name)) {
+    context.expanding.add(name);
+    const result = walkItems(context, items, voice, scale, "sequential");
+    context.expanding.delete(name);
+    const music = items.some((item) => (isGroup(item) ? isMusicGroup(item) : context.notes.has(item.start)));
+    return { ...unchanged, voice: result, music };
+  }
+
+  if (!items && context.builtInCommands && !context.builtInCommands.has(name)) {
+    return { ...unchanged, voice: { ...voice, uncounted: true }, music: true };
+  }
+  return unchanged;
+}
+
+/** `\set Timing.measurePosition = ...`; returns the index of its value. */
+function findMeasurePositionSetting(items: Item[], index: number): number | undefined {
+  let next = index + 1;
+  if (textOf(items[next]) === "Timing" && textOf(items[next + 1]) === ".") {
+    next += 2;
+  }
+  if (textOf(items[next]) !== "measurePosition" || textOf(items[next + 1]) !== "=") {
+    return undefined;
+  }
+  return items[next + 2] ? next + 2 : next + 1;
+}
+
+/** `\repeat volta 2 { }` is printed once; unfolded, percent and tremolo repeats last `count` times. */
+function walkRepeat(
+  context: AnalysisContext,
+  items: Item[],
+  index: number,
+  voice: Voice,
+  scale: Fraction
+): { voice: Voice; lastIndex: number; music: boolean } {
+  const type = items[index + 1];
+  const count = items[index + 2];
+  if (!type || isGroup(type) || !count || isGroup(count) || count.kind !== "number") {
+    return { voice, lastIndex: index, music: false };
+  }
+
+  const body = walkNextMusic(context, items, index + 2, voice, scale);
+  if (!UNFOLDED_REPEATS.has(type.text)) {
+    return body;
+  }
+
+  const length = subtract(body.voice.moment, voice.moment);
+  const repeats = multiply(length, fraction(Math.max(0, Number(count.text) - 1), 1));
+  return { ...body, voice: advance(context, body.voice, repeats) };
+}
+
+/** Walks the music after `index`, past context and octave commands such as `\relative c'`. */
+function walkNextMusic(
+  context: AnalysisContext,
+  items: Item[],
+  index: number,
+  voice: Voice,
+  scale: Fraction
+): { voice: Voice; lastIndex: number; music: boolean } {
+  for (let next = index + 1; next < items.length; next += 1) {
+    const item = items[next];
+    if (isGroup(item) || context.notes.has(item.start) || context.variables.has(item.text.slice(1))) {
+      return walkItem(context, items, next, voice, scale);
+    }
+    if (item.kind === "command" && !MUSIC_PREFIX_COMMANDS.has(item.text)) {
+      break;
+    }
+  }
+  return { voice, lastIndex: index, music: false };
+}
+
+function playNote(context: AnalysisContext, start: number, voice: Voice, scale: Fraction): Voice {
+  const { time } = context;
+  const next = advance(context, voice, multiply(context.notes.get(start) ?? ZERO, scale));
+  const lastMeasure = next.position.numerator === 0 && next.measure > voice.measure ? next.measure - 1 : next.measure;
+  if (context.expanding.size === 0) {
+    context.positions.push({ start, voice: voice.id, measure: voice.measure, position: voice.position, lastMeasure, time });
+  }
+  return next;
+}
+
+function advance(context: AnalysisContext, voice: Voice, length: Fraction): Voice {
+  if (voice.cadenza) {
+    return { ...voice, moment: add(voice.moment, length) };
+  }
+
+  const moved = { ...voice, moment: add(voice.moment, length), position: add(voice.position, length) };
+  return normalize(moved, measureLength(context.time));
+}
+
+/** `\partial 4` leaves a quarter note until the next bar line; a pickup at the start is measure 0. */
+function startPickup(context: AnalysisContext, voice: Voice, length: Fraction): Voice {
+  const measure = voice.position.numerator === 0 ? voice.measure - 1 : voice.measure;
+  const remaining = subtract(measureLength(context.time), length);
+  const position = compare(remaining, ZERO) > 0 ? remaining : ZERO;
+  return { ...voice, measure, position, checked: measure, uncounted: false };
+}
+
+function checkBar(context: AnalysisContext, token: Token, voice: Voice): Voice {
+  if (voice.cadenza) {
+    return voice;
+  }
+  if (voice.position.numerator === 0 || voice.uncounted) {
+    return resync(voice);
+  }
+
+  const time = `${context.time.numerator}/${context.time.denominator}`;
+  const short = subtract(measureLength(context.time), voice.position);
+  let message: string;
+  let measure: number;
+  if (voice.measure === voice.checked) {
+    message = `Bar check failed: measure ${voice.measure} is ${formatFraction(short)} too short for ${time}.`;
+    measure = voice.measure + 1;
+  } else if (voice.measure === voice.checked + 1) {
+    message = `Bar check failed: measure ${voice.checked} is ${formatFraction(voice.position)} too long for ${time}.`;
+    measure = voice.measure;
+  } else {
+    message = `Bar check failed: ${formatFraction(voice.position)} into measure ${voice.measure} (${time}).`;
+    measure = voice.measure + 1;
+  }
+
+  report(context, { start: token.start, end: token.end, message });
+  return { ...voice, measure, position: ZERO, checked: measure };
+}
+
+/** A `\bar` line in the middle of a measure; the voice continues as if the measure were complete. */
+function checkBarLine(context: AnalysisContext, token: Token, voice: Voice): Voice {
+  if (voice.cadenza) {
+    return voice;
+  }
+  if (voice.position.numerator !== 0 && !voice.uncounted) {
+    report(context, { start: token.start, end: token.end, message: `${describeShortMeasure(context, voice)} at \\bar.` });
+  }
+  return resync(voice);
+}
+
+/** A bar line the music is taken to agree with: the next measure starts here. */
+function resync(voice: Voice): Voice {
+  const measure = voice.position.numerator === 0 ? voice.measure : voice.measure + 1;
+  return { ...voice, measure, position: ZERO, checked: measure, uncounted: false };
+}
+
+function report(context: AnalysisContext, diagnostic: MeasureDiagnostic): void {
+  if (context.expanding.size === 0) {
+    context.diagnostics.push(diagnostic);
+  }
+}
+
+/**
+ * Music that stops in the middle of a measure. Music that ends before its first bar line, such
+ * as a motif kept in a variable, is not checked.
+ */
+function checkEnd(context: AnalysisContext, item: Item, voice: Voice): void {
+  if (voice.position.numerator === 0 || voice.measure <= 1 || voice.uncounted || voice.cadenza) {
+    return;
+  }
+
+  const token = isGroup(item) ? item.close ?? item.open : item;
+  const start = token?.start ?? item.start;
+  const end = token?.end ?? item.end;
+  report(context, { start, end, message: `${describeShortMeasure(context, voice)} at the end of the music.` });
+}
+
+function describeShortMeasure(context: AnalysisContext, voice: Voice): string {
+  const short = subtract(measureLength(context.time), voice.position);
+  return `Measure ${voice.measure} is ${formatFraction(short)} too short for ${context.time.numerator}/${context.time.denominator}`;
+}
+
+/** `\time 3/4`, also with beat grouping as in `\time 2,2,3 7/8`. */
+function readTimeSignature(items: Item[], index: number): { value: TimeSignature; lastIndex: number } | undefined {
+  let next = index + 1;
+  while (isNumber(items[next]) && textOf(items[next + 1]) === ",") {
+    next += 2;
+  }
+  if (isNumber(items[next]) && isNumber(items[next + 1])) {
+    next += 1;
+  }
+
+  const ratio = readFraction(items, next);
+  return ratio && ratio.value.numerator > 0 ? { value: { ...ratio.raw }, lastIndex: ratio.lastIndex } : undefined;
+}
+
+/** Reads `n/m` starting at `index`; `value` is reduced, `raw` keeps the numbers as written. */
+function readFraction(
+  items: Item[],
+  index: number
+): { value: Fraction; raw: { numerator: number; denominator: number }; lastIndex: number } | undefined {
+  const [numerator, slash, denominator] = items.slice(index, index + 3);
+  if (!isNumber(numerator) || textOf(slash) !== "/" || !isNumber(denominator) || Number(textOf(denominator)) === 0) {
+    return undefined;
+  }
+
+  const raw = { numerator: Number(textOf(numerator)), denominator: Number(textOf(denominator)) };
+  return { value: fraction(raw.numerator, raw.denominator), raw, lastIndex: index + 2 };
+}
+
+/** A voice at the start of a piece, or a branch of `<< >>` starting where `parent` is. */
+function newVoice(context: AnalysisContext, parent?: Voice): Voice {
+  const id = context.voiceCount;
+  context.voiceCount += 1;
+  if (!parent) {
+    return { id, moment: ZERO, position: ZERO, measure: 1, checked: 1, uncounted: false, cadenza: false };
+  }
+
+  context.parentVoices.set(id, parent.id);
+  return { ...parent, id };
+}
+
+function findInVoice(positions: MeasurePosition[], measure: number): MeasurePosition | undefined {
+  return positions.find((position) => position.measure <= measure && measure <= position.lastMeasure);
+}
+
+function normalize(voice: Voice, length: Fraction): Voice {
+  while (compare(voice.position, length) >= 0) {
+    voice.position = subtract(voice.position, length);
+    voice.measure += 1;
+  }
+  return voice;
+}
+
+function measureLength(time: TimeSignature): Fraction {
+  return fraction(time.numerator, time.denominator);
+}
+
+function getItems(group: GroupNode): Item[] {
+  const tokens = group.tokens.filter((token) => !isCommentToken(token));
+  return [...tokens, ...group.children].sort((a, b) => a.start - b.start);
+}
+
+function isGroup(item: Item | undefined): item is GroupNode {
+  return item !== undefined && "children" in item;
+}
+
+function isNumber(item: Item | undefined): boolean {
+  return item !== undefined && !isGroup(item) && item.kind === "number";
+}
+
+function textOf(item: Item | undefined): string | undefined {
+  return item && !isGroup(item) ? item.text : undefined;
+}
+
+function fraction(numerator: number, denominator: number): Fraction {
+  const divisor = gcd(Math.abs(numerator), Math.abs(denominator)) || 1;
+  return { numerator: numerator / divisor, denominator: denominator / divisor };
+}
+
+function add(a: Fraction, b: Fraction): Fraction {
+  return fraction(a.numerator * b.denominator + b.numerator * a.denominator, a.denominator * b.denominator);
+}
+
+function subtract(a: Fraction, b: Fraction): Fraction {
+  return add(a, { numerator: -b.numerator, denominator: b.denominator });
+}
+
+function multiply(a: Fraction, b: Fraction): Fraction {
+  return fraction(a.numerator * b.numerator, a.denominator * b.denominator);
+}
+
+function compare(a: Fraction, b: Fraction): number {
+  return a.numerator * b.denominator - b.numerator * a.denominator;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
@@ -0,0 +1,57 @@
+import { findGroupAt, type InputMode, type ParseTree } from "../parser/parseTree";
+import { findActiveCall, type SignatureLookup } from "./signatureHelp";
+
+/**
+ * What is being typed at the cursor in chord and drum music:
+ * - `chordModifier`: the modifiers after `:`, e.g. `m7` in `c:m7`
+ * - `chordBass`: the bass note after `/`, with a leading `+` for an added bass as in `c/+e`
+ * - `drumPitch`: a drum name such as `bd` or `hihat`
+ */
+export type ModeCompletionKind = "chordModifier" | "chordBass" | "drumPitch";
+
+export type ModeCompletionContext = {
+  kind: ModeCompletionKind;
+  /** The partly typed modifier, bass note or drum name, which the completion replaces. */
+  prefix: string;
+};
+
+const MARKUP_TYPES = new Set(["markup?", "markup-list?"]);
+
+const CHORD_ROOT = "(?:^|[\\s{}<>~|])[a-z]+[',]*(?:\\d+\\.*(?:\\*\\d+(?:\\/\\d+)?)?)?";
+const MODIFIERS = "[A-Za-z0-9.^+-]*";
+const CHORD_MODIFIER_PATTERN = new RegExp(`${CHORD_ROOT}:(${MODIFIERS})$`);
+const CHORD_BASS_PATTERN = new RegExp(`${CHORD_ROOT}(?::${MODIFIERS})?\\/(\\+?[a-z]*)$`);
+const DRUM_PITCH_PATTERN = /(?:^|[\s{}<>~|])([a-z]+)$/;
+
+/**
+ * The input mode at `offset`: the mode of the enclosing group, or `markup` where the cursor is
+ * at a markup argument outside braces, as in `\markup \bold |`.
+ */
+export function findInputModeAt(tree: ParseTree, offset: number, lookup: SignatureLookup): InputMode {
+  const call = findActiveCall(tree, offset, lookup);
+  const parameter = call && lookup(call.command.text, call.inMarkup)?.parameters[call.activeParameter];
+  if (parameter && MARKUP_TYPES.has(parameter.type)) {
+    return "markup";
+  }
+  return findGroupAt(tree, offset).mode;
+}
+
+/** Finds chord modifier, bass note or drum name completion for the line up to the cursor. */
+export function findModeCompletion(linePrefix: string, mode: InputMode): ModeCompletionContext | undefined {
+  if (mode === "chords") {
+    const modifierMatch = linePrefix.match(CHORD_MODIFIER_PATTERN);
+    if (modifierMatch) {
+      return { kind: "chordModifier", prefix: modifierMatch[1] };
+    }
+
+    const bassMatch = linePrefix.match(CHORD_BASS_PATTERN);
+    return bassMatch ? { kind: "chordBass", prefix: bassMatch[1] } : undefined;
+  }
+
+  if (mode === "drums") {
+    const drumMatch = linePrefix.match(DRUM_PITCH_PATTERN);
+    return drumMatch ? { kind: "drumPitch", prefix: drumMatch[1] } : undefined;
+  }
+
+  return undefined;
+}
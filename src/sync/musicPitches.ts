@@ -0,0 +1,501 @@
+import { parseLilypond, type GroupNode, type ParseTree } from "../parser/parseTree";
+import type { Token } from "../parser/tokenizer";
+import {
+  DEFAULT_NOTE_LANGUAGE,
+  countOctaveMarks,
+  formatNoteName,
+  formatOctaveMarks,
+  parseNoteName,
+  resolveRelativeOctave,
+  type Pitch
+} from "./pitch";
+import { readLanguageStatement } from "./noteLanguage";
+
+/**
+ * `note` covers notes in note and chord mode, `reference` the start pitch of `\relative` and
+ * `\fixed` and the pitch of `\octaveCheck`, `key` the tonic of `\key`, and `argument` the pitches
+ * of `\transpose` and `\transposition`, which describe the music rather than belong to it.
+ */
+export type PitchRole = "note" | "reference" | "key" | "argument";
+
+/** How a pitch's octave is written: absolute marks, relative to an earlier pitch, or not at all. */
+export type OctaveBase =
+  | { kind: "absolute" }
+  | { kind: "relative"; previous: number | Pitch }
+  | { kind: "fixed"; reference: number }
+  | { kind: "none"; marks: string };
+
+export type PitchEvent = {
+  role: PitchRole;
+  /** Range of the note name, octave marks and octave check (`c'='`). */
+  start: number;
+  end: number;
+  /** Absolute pitch the source denotes. */
+  pitch: Pitch;
+  base: OctaveBase;
+  octaveCheck: boolean;
+  /** Note name language the pitch is written in. */
+  language: string;
+};
+
+export type PitchCollectOptions = {
+  /** Note name language in effect at the start of the file; Dutch by default. */
+  language?: string;
+  /** Language in effect after `\include "includePath"`, given the language before it. */
+  includeLanguage?: (includePath: string, language: string) => string;
+};
+
+export type TextReplacement = {
+  start: number;
+  end: number;
+  newText: string;
+};
+
+/** `\relative` without a start pitch behaves as if it started from the `f` below middle C. */
+const IMPLICIT_RELATIVE_START: Pitch = { step: 3, alteration: 0, octave: 0 };
+
+/** Blocks that hold settings rather than music. */
+const NON_MUSIC_BLOCKS = new Set(["header", "paper", "layout", "midi", "with"]);
+
+/** Commands whose next word is a symbol (context, clef, property, repeat type), never a pitch. */
+const SYMBOL_ARGUMENT_COMMANDS = new Set([
+  "accepts",
+  "alias",
+  "change",
+  "clef",
+  "consists",
+  "context",
+  "defaultchild",
+  "denies",
+  "hide",
+  "new",
+  "omit",
+  "once",
+  "override",
+  "remove",
+  "repeat",
+  "revert",
+  "set",
+  "tweak",
+  "undo",
+  "unset"
+]);
+
+const ARGUMENT_PITCH_COUNTS = new Map([
+  ["transpose", 2],
+  ["transposition", 1]
+]);
+
+type OctaveState =
+  | { kind: "absolute" }
+  | { kind: "relative"; previous: number | Pitch }
+  | { kind: "fixed"; reference: number };
+
+type WalkContext = {
+  tree: ParseTree;
+  events: PitchEvent[];
+  assignmentNames: Set<Token>;
+  referenceByToken: Map<Token, number>;
+  language: string;
+  includeLanguage?: (includePath: string, language: string) => string;
+};
+
+type Item = Token | GroupNode;
+
+/**
+ * Collects every pitch in note and chord mode with the absolute pitch it denotes, resolving
+ * `\relative` (including chords and `<< >>`), `\fixed` and octave checks. Settings blocks,
+ * lyrics, markup, figures and drums are skipped. Note names are read in the language set by
+ * `\language` statements, starting from `options.language`.
+ */
+export function collectPitchEvents(tree: ParseTree, options: PitchCollectOptions = {}): PitchEvent[] {
+  const context: WalkContext = {
+    tree,
+    events: [],
+    assignmentNames: new Set(tree.assignments.map((assignment) => assignment.nameToken)),
+    referenceByToken: new Map(),
+    language: options.language ?? DEFAULT_NOTE_LANGUAGE,
+    includeLanguage: options.includeLanguage
+  };
+
+  walkGroup(context, tree.root, { kind: "absolute" });
+  return context.events;
+}
+
+/**
+ * Writes `pitches` (one per event) back as source text and returns the edits for events whose
+ * text changes. Octave marks are recomputed against the new pitches, so relative music keeps
+ * its shape even when only part of it moves.
+ */
+export function rewritePitchEvents(content: string, events: PitchEvent[], pitches: Pitch[]): TextReplacement[] {
+  const edits: TextReplacement[] = [];
+
+  events.forEach((event, index) => {
+    const text = formatPitchEvent(event, pitches[index], pitches);
+    if (text !== undefined && text !== content.slice(event.start, event.end)) {
+      edits.push({ start: event.start, end: event.end, newText: text });
+    }
+  });
+
+  return edits;
+}
+
+/**
+ * Applies structural edits, such as adding or removing `\relative`, and re-encodes the pitches
+ * so every note keeps the pitch it had before the edits.
+ */
+export function restructurePitches(
+  content: string,
+  edits: TextReplacement[],
+  options: PitchCollectOptions = {}
+): string {
+  const pitchByStart = new Map<number, Pitch>();
+  for (const event of collectPitchEvents(parseLilypond(content), options)) {
+    const start = mapOffset(event.start, edits);
+    if (start !== undefined) {
+      pitchByStart.set(start, event.pitch);
+    }
+  }
+
+  const edited = applyTextReplacements(content, edits);
+  const events = collectPitchEvents(parseLilypond(edited), options);
+  const pitches = events.map((event) => pitchByStart.get(event.start) ?? event.pitch);
+  return applyTextReplacements(edited, rewritePitchEvents(edited, events, pitches));
+}
+
+export function applyTextReplacements(content: string, edits: TextReplacement[]): string {
+  let output = content;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    output = `${output.slice(0, edit.start)}${edit.newText}${output.slice(edit.end)}`;
+  }
+  return output;
+}
+
+/**
+ * The `\relative`, `\fixed` or `\transpose` in the group's head that decides how its octaves are
+ * read. The command nearest the music wins: `\transpose c d \relative c' { }` is relative music.
+ */
+export function findOctaveCommand(group: GroupNode): Token | undefined {
+  return [...group.head]
+    .reverse()
+    .find((token) => token.text === "\\relative" || token.text === "\\fixed" || token.text === "\\transpose");
+}
+
+/** Groups holding notes or chords, as opposed to settings blocks, lyrics, markup, figures or drums. */
+export function isMusicGroup(group: GroupNode): boolean {
+  if (group.command && NON_MUSIC_BLOCKS.has(group.command)) {
+    return false;
+  }
+  return group.mode === "notes" || group.mode === "chords";
+}
+
+/** Offset after the edits, or `undefined` when an edit replaces it. */
+function mapOffset(offset: number, edits: TextReplacement[]): number | undefined {
+  let shift = 0;
+  for (const edit of edits) {
+    if (edit.start <= offset && offset < edit.end) {
+      return undefined;
+    }
+    if (edit.end <= offset) {
+      shift += edit.newText.length - (edit.end - edit.start);
+    }
+  }
+  return offset + shift;
+}
+
+function formatPitchEvent(event: PitchEvent, pitch: Pitch, pitches: Pitch[]): string | undefined {
+  const name = formatNoteName(pitch, event.language);
+  if (name === undefined) {
+    return undefined;
+  }
+
+  const { base } = event;
+  let marks: string;
+  if (base.kind === "none") {
+    marks = base.marks;
+  } else if (base.kind === "absolute") {
+    marks = formatOctaveMarks(pitch.octave);
+  } else if (base.kind === "fixed") {
+    marks = formatOctaveMarks(pitch.octave - pitches[base.reference].octave);
+  } else {
+    const previous = typeof base.previous === "number" ? pitches[base.previous] : base.previous;
+    marks = formatOctaveMarks(pitch.octave - resolveRelativeOctave(previous, pitch.step));
+  }
+
+  return event.octaveCheck ? `${name}${marks}=${formatOctaveMarks(pitch.octave)}` : `${name}${marks}`;
+}
+
+function walkGroup(context: WalkContext, group: GroupNode, state: OctaveState): void {
+  const items: Item[] = [...group.tokens, ...group.children].sort((a, b) => a.start - b.start);
+  let firstResult: number | undefined;
+
+  for (let index = 0; index < items.length; index += 1) {
+    const item = items[index];
+    if (isGroup(item)) {
+      // The voices of `<< >>` follow each other like sequential music, as in LilyPond: each
+      // starts from the last pitch of the voice before it, and the last voice continues.
+      walkChild(context, item, state);
+      continue;
+    }
+
+    if (group.mode === "chords") {
+      index = readChordModeItem(context, items, index);
+      continue;
+    }
+
+    if (item.kind === "command") {
+      index = readCommand(context, items, index, state);
+      continue;
+    }
+
+    if (item.kind === "word" && !context.assignmentNames.has(item) && !isPropertyPathWord(items, index)) {
+      const eventIndex = addPitchEvent(context, items, index, "note", state);
+      if (eventIndex !== undefined) {
+        if (group.kind === "chord" && state.kind === "relative" && firstResult === undefined) {
+          firstResult = eventIndex;
+        }
+        index = findPitchEnd(items, index).lastIndex;
+      }
+    }
+  }
+
+  if (state.kind === "relative" && firstResult !== undefined && group.kind === "chord") {
+    // A chord hands its first pitch on to the next note.
+    state.previous = firstResult;
+  }
+}
+
+function walkChild(context: WalkContext, group: GroupNode, state: OctaveState): void {
+  if (!isMusicGroup(group)) {
+    return;
+  }
+
+  if (group.mode === "chords") {
+    walkGroup(context, group, { kind: "absolute" });
+    return;
+  }
+
+  const octaveCommand = findOctaveCommand(group);
+  if (octaveCommand?.text === "\\transpose") {
+    walkGroup(context, group, { kind: "absolute" });
+    return;
+  }
+
+  if (octaveCommand) {
+    const reference = context.referenceByToken.get(octaveCommand);
+    if (octaveCommand.text === "\\fixed") {
+      walkGroup(context, group, reference === undefined ? { kind: "absolute" } : { kind: "fixed", reference });
+    } else {
+      walkGroup(context, group, { kind: "relative", previous: reference ?? IMPLICIT_RELATIVE_START });
+    }
+    return;
+  }
+
+  walkGroup(context, group, state);
+}
+
+/** Handles commands with pitch or symbol arguments; returns the index of the last consumed item. */
+function readCommand(context: WalkContext, items: Item[], index: number, state: OctaveState): number {
+  const token = items[index];
+  if (!isToken(token)) {
+    return index;
+  }
+  const command = token.text.slice(1);
+
+  if (command === "relative" || command === "fixed") {
+    const eventIndex = addPitchEvent(context, items, index + 1, "reference", { kind: "absolute" });
+    if (eventIndex === undefined) {
+      return index;
+    }
+    context.referenceByToken.set(token, eventIndex);
+    return findPitchEnd(items, index + 1).lastIndex;
+  }
+
+  if (command === "octaveCheck") {
+    // Sets the pitch the next relative note is resolved from.
+    const eventIndex = addPitchEvent(context, items, index + 1, "reference", { kind: "absolute" });
+    if (eventIndex === undefined) {
+      return index;
+    }
+    if (state.kind === "relative") {
+      state.previous = eventIndex;
+    }
+    return findPitchEnd(items, index + 1).lastIndex;
+  }
+
+  if (command === "key") {
+    const eventIndex = addPitchEvent(context, items, index + 1, "key", state);
+    return eventIndex === undefined ? index : findPitchEnd(items, index + 1).lastIndex;
+  }
+
+  const argumentCount = ARGUMENT_PITCH_COUNTS.get(command);
+  if (argumentCount) {
+    let cursor = index;
+    for (let count = 0; count < argumentCount; count += 1) {
+      if (addPitchEvent(context, items, cursor + 1, "argument", { kind: "absolute" }) === undefined) {
+        break;
+      }
+      cursor = findPitchEnd(items, cursor + 1).lastIndex;
+    }
+    return cursor;
+  }
+
+  if (command === "language" || command === "include") {
+    const next = items[index + 1];
+    const argument = isToken(next) ? next : undefined;
+    const language = readLanguageStatement(token, argument);
+    if (language) {
+      context.language = language;
+    } else if (command === "include" && argument?.kind === "string" && context.includeLanguage) {
+      context.language = context.includeLanguage(argument.text.slice(1, -1), context.language);
+    }
+    return argument ? index + 1 : index;
+  }
+
+  if (SYMBOL_ARGUMENT_COMMANDS.has(command)) {
+    let cursor = index;
+    const symbol = items[cursor + 1];
+    if (isToken(symbol) && symbol.kind === "word") {
+      cursor += 1;
+    }
+    // `\new Staff = up`, `\change Staff = down`
+    const equals = items[cursor + 1];
+    if (isToken(equals) && equals.text === "=" && isToken(items[cursor + 2])) {
+      cursor += 2;
+    }
+    return cursor;
+  }
+
+  return index;
+}
+
+/** Chord mode: roots and `/bass` notes are pitches, words after `:`, `.` or `^` are modifiers. */
+function readChordModeItem(context: WalkContext, items: Item[], index: number): number {
+  const token = items[index];
+  if (!isToken(token)) {
+    return index;
+  }
+  if (token.kind === "command") {
+    return readCommand(context, items, index, { kind: "absolute" });
+  }
+
+  if (token.kind !== "word" || context.assignmentNames.has(token)) {
+    return index;
+  }
+
+  const previous = items[index - 1];
+  if (isToken(previous) && previous.end === token.start && [":", ".", "^"].includes(previous.text)) {
+    return index;
+  }
+
+  const eventIndex = addPitchEvent(context, items, index, "note", { kind: "absolute" });
+  return eventIndex === undefined ? index : findPitchEnd(items, index).lastIndex;
+}
+
+function addPitchEvent(
+  context: WalkContext,
+  items: Item[],
+  index: number,
+  role: PitchRole,
+  state: OctaveState
+): number | undefined {
+  const token = items[index];
+  const note = readPitchName(context, items, index);
+  if (!note || !isToken(token)) {
+    return undefined;
+  }
+
+  const { marks, check, end } = findPitchEnd(items, index);
+  const offset = countOctaveMarks(marks);
+  let base: OctaveBase;
+  let octave: number;
+
+  if (role === "key") {
+    base = { kind: "none", marks };
+    octave = offset;
+  } else if (state.kind === "relative") {
+    const previous = typeof state.previous === "number" ? context.events[state.previous].pitch : state.previous;
+    base = { kind: "relative", previous: state.previous };
+    octave = resolveRelativeOctave(previous, note.step) + offset;
+  } else if (state.kind === "fixed") {
+    base = { kind: "fixed", reference: state.reference };
+    octave = context.events[state.reference].pitch.octave + offset;
+  } else {
+    base = { kind: "absolute" };
+    octave = offset;
+  }
+
+  context.events.push({
+    role,
+    start: token.start,
+    end,
+    pitch: { ...note, octave: check === undefined ? octave : countOctaveMarks(check) },
+    base,
+    octaveCheck: check !== undefined,
+    language: context.language
+  });
+
+  const eventIndex = context.events.length - 1;
+  if (state.kind === "relative" && role === "note") {
+    state.previous = eventIndex;
+  }
+  return eventIndex;
+}
+
+function readPitchName(context: WalkContext, items: Item[], index: number): ReturnType<typeof parseNoteName> {
+  const token = items[index];
+  return isToken(token) && token.kind === "word" ? parseNoteName(token.text, context.language) : undefined;
+}
+
+/** Reads the octave marks glued to a note name and an optional octave check (`='`). */
+function findPitchEnd(items: Item[], index: number): { marks: string; check?: string; end: number; lastIndex: number } {
+  let cursor = index;
+  let end = items[index]?.end ?? 0;
+  let marks = "";
+  let check: string | undefined;
+
+  const next = (): Token | undefined => {
+    const item = items[cursor + 1];
+    return isToken(item) && item.start === end ? item : undefined;
+  };
+
+  for (let token = next(); token && (token.text === "'" || token.text === ","); token = next()) {
+    marks += token.text;
+    end = token.end;
+    cursor += 1;
+  }
+
+  const equals = next();
+  if (equals?.text === "=") {
+    check = "";
+    end = equals.end;
+    cursor += 1;
+    for (let token = next(); token && (token.text === "'" || token.text === ","); token = next()) {
+      check += token.text;
+      end = token.end;
+      cursor += 1;
+    }
+  }
+
+  return { marks, check, end, lastIndex: cursor };
+}
+
+/** `Staff.a` or `a.b`: words in property paths are symbols. */
+function isPropertyPathWord(items: Item[], index: number): boolean {
+  const token = items[index];
+  const previous = items[index - 1];
+  const next = items[index + 1];
+  const afterNext = items[index + 2];
+  return (
+    (isToken(previous) && previous.text === "." && previous.end === token.start) ||
+    (isToken(next) && next.text === "." && next.start === token.end && isToken(afterNext) && afterNext.kind === "word")
+  );
+}
+
+function isGroup(item: Item | undefined): item is GroupNode {
+  return item !== undefined && "children" in item;
+}
+
+function isToken(item: Item | undefined): item is Token {
+  return item !== undefined && !("children" in item);
+}
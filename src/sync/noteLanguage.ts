@@ -0,0 +1,112 @@
+import * as path from "path";
+import { isCommentToken, type ParseTree } from "../parser/parseTree";
+import type { Token } from "../parser/tokenizer";
+import { DEFAULT_NOTE_LANGUAGE, getNoteLanguageNames } from "./pitch";
+
+export type NoteLanguageSources = {
+  /** Parse trees of the files in the include graph, keyed by resolved path. */
+  files: Map<string, ParseTree>;
+  resolveInclude: (includePath: string, fromFile: string) => string | undefined;
+};
+
+/**
+ * Language set by `\language "deutsch"` or by including one of LilyPond's language files
+ * (`\include "english.ly"`, the syntax before `\language`).
+ */
+export function readLanguageStatement(command: Token, argument: Token | undefined): string | undefined {
+  if (argument?.kind !== "string") {
+    return undefined;
+  }
+
+  const value = argument.text.slice(1, -1);
+  if (command.text === "\\language") {
+    return value;
+  }
+
+  if (command.text === "\\include") {
+    const name = path.posix.basename(value.replace(/\\/g, "/"), ".ly");
+    return value.endsWith(".ly") && getNoteLanguageNames().includes(name) ? name : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Note name language at the start of `targetPath` when LilyPond reads `rootPath`, following
+ * `\include`s in order. Falls back to the default when the target is not reached.
+ */
+export function findIncomingNoteLanguage(rootPath: string, targetPath: string, sources: NoteLanguageSources): string {
+  if (path.resolve(rootPath) === path.resolve(targetPath)) {
+    return DEFAULT_NOTE_LANGUAGE;
+  }
+
+  const result = scanFile(path.resolve(rootPath), DEFAULT_NOTE_LANGUAGE, sources, new Set(), path.resolve(targetPath));
+  return result.incoming ?? DEFAULT_NOTE_LANGUAGE;
+}
+
+/**
+ * Language in effect after `\include "includePath"` in `fromFile`, given the language before it,
+ * so languages set inside included files carry over to the including file.
+ */
+export function findLanguageAfterInclude(
+  includePath: string,
+  fromFile: string,
+  language: string,
+  sources: NoteLanguageSources
+): string {
+  const filePath = sources.resolveInclude(includePath, fromFile);
+  return filePath ? scanFile(filePath, language, sources, new Set([path.resolve(fromFile)])).language : language;
+}
+
+function scanFile(
+  filePath: string,
+  language: string,
+  sources: NoteLanguageSources,
+  visiting: Set<string>,
+  targetPath?: string
+): { language: string; incoming?: string } {
+  const tree = sources.files.get(filePath);
+  if (!tree || visiting.has(filePath)) {
+    return { language };
+  }
+
+  visiting.add(filePath);
+  const tokens = tree.tokens.filter((token) => !isCommentToken(token));
+  let current = language;
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    if (token.kind !== "command") {
+      continue;
+    }
+
+    const statement = readLanguageStatement(token, tokens[index + 1]);
+    if (statement) {
+      current = statement;
+      continue;
+    }
+
+    if (token.text !== "\\include" || tokens[index + 1]?.kind !== "string") {
+      continue;
+    }
+
+    const included = sources.resolveInclude(tokens[index + 1].text.slice(1, -1), filePath);
+    if (!included) {
+      continue;
+    }
+
+    if (included === targetPath) {
+      visiting.delete(filePath);
+      return { language: current, incoming: current };
+    }
+
+    const result = scanFile(included, current, sources, visiting, targetPath);
+    if (result.incoming !== undefined) {
+      visiting.delete(filePath);
+      return result;
+    }
+    current = result.language;
+  }
+
+  visiting.delete(filePath);
+  return { language: current };
+}
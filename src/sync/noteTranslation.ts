@@ -0,0 +1,48 @@
+import { isCommentToken, parseLilypond } from "../parser/parseTree";
+import {
+  applyTextReplacements,
+  collectPitchEvents,
+  rewritePitchEvents,
+  type PitchCollectOptions,
+  type TextReplacement
+} from "./musicPitches";
+import { readLanguageStatement } from "./noteLanguage";
+
+/**
+ * Rewrites every note name in `language` and points the document's `\language` statements (and
+ * legacy `\include "english.ly"` lines) at it. When pitches come before any statement, for
+ * example because the language is inherited from an including file, a `\language` line is added
+ * after `\version`.
+ */
+export function translateNoteNames(content: string, language: string, options: PitchCollectOptions = {}): string {
+  const tree = parseLilypond(content);
+  const events = collectPitchEvents(tree, options);
+  const edits: TextReplacement[] = rewritePitchEvents(
+    content,
+    events.map((event) => ({ ...event, language })),
+    events.map((event) => event.pitch)
+  );
+
+  const tokens = tree.tokens.filter((token) => !isCommentToken(token));
+  let firstStatement: number | undefined;
+  for (let index = 0; index < tokens.length; index += 1) {
+    const argument = tokens[index + 1];
+    if (!readLanguageStatement(tokens[index], argument)) {
+      continue;
+    }
+
+    firstStatement = firstStatement ?? tokens[index].start;
+    edits.push({ start: tokens[index].start, end: argument.end, newText: `\\language "${language}"` });
+  }
+
+  const firstPitch = events[0]?.start;
+  if (firstPitch !== undefined && (firstStatement === undefined || firstPitch < firstStatement)) {
+    const version = tokens.findIndex((token) => token.text === "\\version");
+    const versionEnd = version >= 0 && tokens[version + 1]?.kind === "string" ? tokens[version + 1].end : undefined;
+    const insertAt = versionEnd === undefined ? 0 : versionEnd;
+    const newText = versionEnd === undefined ? `\\language "${language}"\n\n` : `\n\\language "${language}"`;
+    edits.push({ start: insertAt, end: insertAt, newText });
+  }
+
+  return applyTextReplacements(content, edits);
+}
@@ -0,0 +1,307 @@
+/**
+ * Pitch model shared by the transposer and the other pitch rewriting tools. `step` counts
+ * diatonic steps from C (0..6), `alteration` is in semitones (quarter tones are `0.5`) and
+ * `octave` follows LilyPond's octave marks: `c` is 0, `c'` (middle C) is 1 and `c,` is -1.
+ */
+export type Pitch = {
+  step: number;
+  alteration: number;
+  octave: number;
+};
+
+export type NoteName = {
+  step: number;
+  alteration: number;
+};
+
+export type NoteLanguage = {
+  names: Map<string, NoteName>;
+  /** Preferred spelling for each step and alteration. */
+  spellings: Map<string, string>;
+};
+
+export const DEFAULT_NOTE_LANGUAGE = "nederlands";
+
+const NATURAL_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+/** Position of each step's major key on the circle of fifths (C = 0, G = 1, F = -1). */
+const STEP_FIFTHS = [0, 2, 4, -1, 1, 3, 5];
+/** Steps in the order sharps are added to a key signature (F C G D A E B); flats go backwards. */
+const SHARP_ORDER = [3, 0, 4, 1, 5, 2, 6];
+const KEY_MODE_FIFTHS = new Map([
+  ["major", 0],
+  ["ionian", 0],
+  ["lydian", 1],
+  ["mixolydian", -1],
+  ["dorian", -2],
+  ["minor", -3],
+  ["aeolian", -3],
+  ["phrygian", -4],
+  ["locrian", -5]
+]);
+const LETTER_STEPS = ["c", "d", "e", "f", "g", "a", "b"];
+const GERMAN_STEPS = ["c", "d", "e", "f", "g", "a", "h"];
+const SOLFEGE_STEPS = ["do", "re", "mi", "fa", "sol", "la", "si"];
+
+// Within a language, later spellings of the same pitch are preferred when writing names.
+const DUTCH_SUFFIXES: Array<[number, string]> = [
+  [0, ""],
+  [1, "is"],
+  [2, "isis"],
+  [-1, "es"],
+  [-2, "eses"],
+  [0.5, "ih"],
+  [1.5, "isih"],
+  [-0.5, "eh"],
+  [-1.5, "eseh"]
+];
+const ENGLISH_SUFFIXES: Array<[number, string]> = [
+  [0, ""],
+  [1, "-sharp"],
+  [1, "s"],
+  [2, "-sharpsharp"],
+  [2, "x"],
+  [2, "ss"],
+  [-1, "-flat"],
+  [-1, "f"],
+  [-2, "-flatflat"],
+  [-2, "ff"],
+  [0.5, "qs"],
+  [1.5, "tqs"],
+  [-0.5, "qf"],
+  [-1.5, "tqf"]
+];
+const ITALIAN_SUFFIXES: Array<[number, string]> = [
+  [0, ""],
+  [1, "d"],
+  [2, "dd"],
+  [-1, "b"],
+  [-2, "bb"],
+  [0.5, "sd"],
+  [1.5, "dsd"],
+  [-0.5, "sb"],
+  [-1.5, "bsb"]
+];
+const SPANISH_SUFFIXES: Array<[number, string]> = [
+  [0, ""],
+  [1, "s"],
+  [2, "x"],
+  [2, "ss"],
+  [-1, "b"],
+  [-2, "bb"]
+];
+
+/** `a` and `e` drop the suffix's leading `e` for flats: `as`, `ases`, `es`, `eses`. */
+const DUTCH_CONTRACTIONS: Array<[string, NoteName]> = [
+  ["as", { step: 5, alteration: -1 }],
+  ["ases", { step: 5, alteration: -2 }],
+  ["aseh", { step: 5, alteration: -1.5 }],
+  ["es", { step: 2, alteration: -1 }],
+  ["eses", { step: 2, alteration: -2 }],
+  ["eseh", { step: 2, alteration: -1.5 }]
+];
+
+const DUTCH = buildNoteLanguage(LETTER_STEPS, DUTCH_SUFFIXES, { extra: DUTCH_CONTRACTIONS });
+const ITALIAN = buildNoteLanguage(SOLFEGE_STEPS, ITALIAN_SUFFIXES);
+const NOTE_LANGUAGES = new Map<string, NoteLanguage>([
+  ["nederlands", DUTCH],
+  ["english", buildNoteLanguage(LETTER_STEPS, ENGLISH_SUFFIXES)],
+  // German calls B flat `b` and B natural `h`.
+  [
+    "deutsch",
+    buildNoteLanguage(GERMAN_STEPS, DUTCH_SUFFIXES, {
+      extra: [...DUTCH_CONTRACTIONS, ["b", { step: 6, alteration: -1 }]],
+      excluded: ["hes"]
+    })
+  ],
+  ["italiano", ITALIAN],
+  [
+    "francais",
+    buildNoteLanguage(SOLFEGE_STEPS, [...ITALIAN_SUFFIXES, [2, "x"], [2, "dd"]], { aliases: frenchAccents() })
+  ],
+  ["espanol", buildNoteLanguage(SOLFEGE_STEPS, SPANISH_SUFFIXES)]
+]);
+const LANGUAGE_ALIASES = new Map([
+  ["français", "francais"],
+  ["español", "espanol"]
+]);
+
+/** Languages whose note names are understood, as written after `\language`. */
+export function getNoteLanguageNames(): string[] {
+  return [...NOTE_LANGUAGES.keys()];
+}
+
+export function isNoteLanguage(language: string): boolean {
+  return getNoteLanguage(language) !== undefined;
+}
+
+/** Parses a note name such as `fis`, `bes` or `as` (Dutch, LilyPond's default) in `language`. */
+export function parseNoteName(text: string, language = DEFAULT_NOTE_LANGUAGE): NoteName | undefined {
+  return getNoteLanguage(language)?.names.get(text);
+}
+
+export function formatNoteName(note: NoteName, language = DEFAULT_NOTE_LANGUAGE): string | undefined {
+  return getNoteLanguage(language)?.spellings.get(noteKey(note));
+}
+
+/** Parses a pitch with octave marks, e.g. `bes,` or `fis''`. */
+export function parsePitch(text: string, language = DEFAULT_NOTE_LANGUAGE): Pitch | undefined {
+  const match = /^([^\s',]+)([',]*)$/.exec(text.trim());
+  const note = match ? parseNoteName(match[1], language) : undefined;
+  if (!match || !note) {
+    return undefined;
+  }
+
+  return { ...note, octave: countOctaveMarks(match[2]) };
+}
+
+export function formatPitch(pitch: Pitch, language = DEFAULT_NOTE_LANGUAGE): string | undefined {
+  const name = formatNoteName(pitch, language);
+  return name === undefined ? undefined : `${name}${formatOctaveMarks(pitch.octave)}`;
+}
+
+export function countOctaveMarks(marks: string): number {
+  let octave = 0;
+  for (const mark of marks) {
+    octave += mark === "'" ? 1 : mark === "," ? -1 : 0;
+  }
+  return octave;
+}
+
+export function formatOctaveMarks(octave: number): string {
+  return octave >= 0 ? "'".repeat(octave) : ",".repeat(-octave);
+}
+
+/** Position on the staff, counted in diatonic steps from `c`. */
+export function diatonicIndex(pitch: Pitch): number {
+  return pitch.octave * 7 + pitch.step;
+}
+
+export function semitoneIndex(pitch: Pitch): number {
+  return pitch.octave * 12 + NATURAL_SEMITONES[pitch.step] + pitch.alteration;
+}
+
+/**
+ * Moves `pitch` by the interval from `from` to `to`, the way `\transpose from to` does. Results
+ * beyond a double sharp or flat are respelled on the neighbouring step.
+ */
+export function transposePitch(pitch: Pitch, from: Pitch, to: Pitch): Pitch {
+  const steps = diatonicIndex(to) - diatonicIndex(from);
+  const semitones = semitoneIndex(to) - semitoneIndex(from);
+  const targetIndex = diatonicIndex(pitch) + steps;
+  const result = pitchAtIndex(targetIndex, 0);
+  result.alteration = semitoneIndex(pitch) + semitones - semitoneIndex(result);
+  return normalizeAlteration(result);
+}
+
+/** Respells pitches with more than two sharps or flats on the neighbouring step. */
+export function normalizeAlteration(pitch: Pitch): Pitch {
+  let result = { ...pitch };
+  while (result.alteration > 2) {
+    const next = pitchAtIndex(diatonicIndex(result) + 1, 0);
+    next.alteration = semitoneIndex(result) - semitoneIndex(next);
+    result = next;
+  }
+
+  while (result.alteration < -2) {
+    const previous = pitchAtIndex(diatonicIndex(result) - 1, 0);
+    previous.alteration = semitoneIndex(result) - semitoneIndex(previous);
+    result = previous;
+  }
+
+  return result;
+}
+
+/** The same sounding pitch spelled on each neighbouring step, up to double sharps and flats. */
+export function enharmonicSpellings(pitch: Pitch): Pitch[] {
+  const spellings: Pitch[] = [];
+  for (let offset = -2; offset <= 2; offset += 1) {
+    const candidate = pitchAtIndex(diatonicIndex(pitch) + offset, 0);
+    candidate.alteration = semitoneIndex(pitch) - semitoneIndex(candidate);
+    if (Math.abs(candidate.alteration) <= 2) {
+      spellings.push(candidate);
+    }
+  }
+  return spellings;
+}
+
+/**
+ * Alteration of each step (0..6) in the key signature of `tonic` in `mode` (`major`, `minor` or
+ * a church mode). Returns `undefined` for unknown modes and quarter-tone tonics.
+ */
+export function getKeySignature(tonic: NoteName, mode: string): number[] | undefined {
+  const modeOffset = KEY_MODE_FIFTHS.get(mode);
+  if (modeOffset === undefined || !Number.isInteger(tonic.alteration)) {
+    return undefined;
+  }
+
+  const fifths = STEP_FIFTHS[tonic.step] + 7 * tonic.alteration + modeOffset;
+  const alterations = [0, 0, 0, 0, 0, 0, 0];
+  for (let index = 0; index < Math.abs(fifths); index += 1) {
+    const step = fifths > 0 ? SHARP_ORDER[index % 7] : SHARP_ORDER[6 - (index % 7)];
+    alterations[step] += fifths > 0 ? 1 : -1;
+  }
+  return alterations;
+}
+
+/** `\relative` resolution: the octave that puts `step` within a fourth (three staff positions) of `previous`. */
+export function resolveRelativeOctave(previous: Pitch, step: number): number {
+  const previousIndex = diatonicIndex(previous);
+  let octave = Math.floor((previousIndex - step) / 7);
+  while (diatonicIndex({ step, alteration: 0, octave: octave + 1 }) - previousIndex <= 3) {
+    octave += 1;
+  }
+  while (diatonicIndex({ step, alteration: 0, octave }) - previousIndex > 3) {
+    octave -= 1;
+  }
+  return octave;
+}
+
+function pitchAtIndex(index: number, alteration: number): Pitch {
+  const octave = Math.floor(index / 7);
+  return { step: index - octave * 7, alteration, octave };
+}
+
+/**
+ * Builds a name table from step names and suffixes. `extra` names are preferred over the
+ * generated ones, `aliases` are only read, and `excluded` names are not part of the language.
+ */
+function buildNoteLanguage(
+  steps: string[],
+  suffixes: Array<[number, string]>,
+  options: { extra?: Array<[string, NoteName]>; aliases?: Array<[string, NoteName]>; excluded?: string[] } = {}
+): NoteLanguage {
+  const entries: Array<[string, NoteName]> = [];
+  steps.forEach((letter, step) => {
+    for (const [alteration, suffix] of suffixes) {
+      entries.push([`${letter}${suffix}`, { step, alteration }]);
+    }
+  });
+  entries.push(...(options.extra ?? []));
+
+  const names = new Map<string, NoteName>();
+  const spellings = new Map<string, string>();
+  for (const [name, note] of entries) {
+    if (!options.excluded?.includes(name)) {
+      names.set(name, note);
+      spellings.set(noteKey(note), name);
+    }
+  }
+
+  for (const [name, note] of options.aliases ?? []) {
+    names.set(name, note);
+  }
+  return { names, spellings };
+}
+
+/** French also accepts `ré` for `re`; `re` stays the preferred spelling. */
+function frenchAccents(): Array<[string, NoteName]> {
+  return [...ITALIAN.names].filter(([name]) => name.startsWith("re")).map(([name, note]) => [`ré${name.slice(2)}`, note]);
+}
+
+function getNoteLanguage(language: string): NoteLanguage | undefined {
+  return NOTE_LANGUAGES.get(LANGUAGE_ALIASES.get(language) ?? language);
+}
+
+function noteKey(note: NoteName): string {
+  return `${note.step}:${note.alteration}`;
+}
@@ -0,0 +1,87 @@
+/**
+ * What is being typed at the cursor in property commands:
+ * - `context`: a context name after `\new` or `\context`
+ * - `grob`: a dotted path after `\override`, `\revert`, `\tweak`, `\hide` or `\omit`, e.g. `Staff.`
+ *   or `Staff.TimeSignature.`; the path decides whether grobs or grob properties come next
+ * - `set`: a context property after `\set` or `\unset`, or a bare name in a `\with` or
+ *   `\context` block, optionally behind a context name in `path`
+ * - `grobValue` / `contextValue`: the value after `=` (or after the property in `\tweak`)
+ */
+export type PropertyCompletionKind = "context" | "grob" | "set" | "grobValue" | "contextValue";
+
+export type PropertyCompletionContext = {
+  kind: PropertyCompletionKind;
+  /** Command that starts the statement, without the backslash; `with` for bare names in blocks. */
+  command: string;
+  /** Dotted names before the word being typed. For values, the last name is the property. */
+  path: string[];
+  /** The partly typed word or value, which the completion replaces. */
+  prefix: string;
+};
+
+const NAME = "[A-Za-z][A-Za-z0-9-]*";
+const PATH = `((?:${NAME}\\.)*)`;
+const VALUE = "([#'A-Za-z0-9-]*)";
+
+const CONTEXT_PATTERN = /\\(new|context)\s+([A-Za-z]*)$/;
+const GROB_PATTERN = new RegExp(`\\\\(override|revert|tweak|hide|omit)\\s+${PATH}([A-Za-z-]*)$`);
+const GROB_VALUE_PATTERN = new RegExp(`\\\\(override)\\s+${PATH}(${NAME})\\s*=\\s*${VALUE}$`);
+const TWEAK_VALUE_PATTERN = new RegExp(`\\\\(tweak)\\s+${PATH}(${NAME})\\s+${VALUE}$`);
+const SET_PATTERN = new RegExp(`\\\\(set|unset)\\s+${PATH}([A-Za-z]*)$`);
+const SET_VALUE_PATTERN = new RegExp(`\\\\(set)\\s+${PATH}(${NAME})\\s*=\\s*${VALUE}$`);
+const BLOCK_NAME_PATTERN = /(?:^|[\s{}])([A-Za-z][A-Za-z-]*|)$/;
+const BLOCK_VALUE_PATTERN = new RegExp(`(?:^|[\\s{}])(${NAME})\\s*=\\s*${VALUE}$`);
+
+/**
+ * Finds the property completion for the line up to the cursor. `inContextBlock` says whether
+ * the cursor is directly inside `\with { }` or a `\context { }` definition, where context
+ * properties are set without `\set`.
+ */
+export function findPropertyCompletion(linePrefix: string, inContextBlock = false): PropertyCompletionContext | undefined {
+  const contextMatch = linePrefix.match(CONTEXT_PATTERN);
+  if (contextMatch) {
+    return { kind: "context", command: contextMatch[1], path: [], prefix: contextMatch[2] };
+  }
+
+  for (const [pattern, kind] of [
+    [GROB_VALUE_PATTERN, "grobValue"],
+    [TWEAK_VALUE_PATTERN, "grobValue"],
+    [SET_VALUE_PATTERN, "contextValue"]
+  ] as const) {
+    const match = linePrefix.match(pattern);
+    if (match) {
+      return { kind, command: match[1], path: [...splitPath(match[2]), match[3]], prefix: match[4] };
+    }
+  }
+
+  const grobMatch = linePrefix.match(GROB_PATTERN);
+  if (grobMatch) {
+    return { kind: "grob", command: grobMatch[1], path: splitPath(grobMatch[2]), prefix: grobMatch[3] };
+  }
+
+  const setMatch = linePrefix.match(SET_PATTERN);
+  if (setMatch) {
+    return { kind: "set", command: setMatch[1], path: splitPath(setMatch[2]), prefix: setMatch[3] };
+  }
+
+  if (!inContextBlock) {
+    return undefined;
+  }
+
+  const valueMatch = linePrefix.match(BLOCK_VALUE_PATTERN);
+  if (valueMatch) {
+    return { kind: "contextValue", command: "with", path: [valueMatch[1]], prefix: valueMatch[2] };
+  }
+
+  // A word after a command is that command's argument, as in `\consists Engraver`.
+  const nameMatch = linePrefix.match(BLOCK_NAME_PATTERN);
+  if (nameMatch && !/\\[A-Za-z-]+\s*$/.test(linePrefix.slice(0, linePrefix.length - nameMatch[1].length))) {
+    return { kind: "set", command: "with", path: [], prefix: nameMatch[1] };
+  }
+
+  return undefined;
+}
+
+function splitPath(path: string): string[] {
+  return path.split(".").filter((name) => name.length > 0);
+}
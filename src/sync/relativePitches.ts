@@ -0,0 +1,117 @@
+import { parseLilypond, type GroupNode } from "../parser/parseTree";
+import {
+  collectPitchEvents,
+  findOctaveCommand,
+  restructurePitches,
+  type PitchCollectOptions,
+  type PitchEvent,
+  type TextReplacement
+} from "./musicPitches";
+import { formatPitch } from "./pitch";
+
+export type OffsetRange = {
+  start: number;
+  end: number;
+};
+
+/** Blocks that hold whole scores or settings; music inside them is converted, never the block. */
+const CONTAINER_BLOCKS = new Set(["book", "bookpart", "header", "layout", "midi", "paper", "score", "with"]);
+
+/**
+ * Rewrites `\relative` blocks that overlap `range` (all of them by default) in absolute octave
+ * notation: the `\relative` command and its start pitch are removed and every note gets the
+ * octave marks of the pitch it resolved to, following the fourth rule, chords and octave checks.
+ */
+export function convertRelativeToAbsolute(
+  content: string,
+  range?: OffsetRange,
+  options: PitchCollectOptions = {}
+): string {
+  const tree = parseLilypond(content);
+  const events = collectPitchEvents(tree, options);
+  const edits: TextReplacement[] = [];
+
+  visitGroups(tree.root, (group) => {
+    const command = findOctaveCommand(group);
+    if (command?.text !== "\\relative" || !overlaps(group, range)) {
+      return true;
+    }
+
+    const next = group.head[group.head.indexOf(command) + 1];
+    const reference = events.find((event) => event.role === "reference" && event.start === next?.start);
+    const end = reference?.end ?? command.end;
+    const spaces = /^[ \t]*/.exec(content.slice(end))?.[0].length ?? 0;
+    edits.push({ start: command.start, end: end + spaces, newText: "" });
+    return true;
+  });
+
+  return edits.length > 0 ? restructurePitches(content, edits, options) : content;
+}
+
+/**
+ * Wraps the outermost absolute `{ }` music blocks that overlap `range` (all of them by default)
+ * in `\relative`, choosing the start pitch so that the first note needs no octave marks.
+ */
+export function convertAbsoluteToRelative(
+  content: string,
+  range?: OffsetRange,
+  options: PitchCollectOptions = {}
+): string {
+  const tree = parseLilypond(content);
+  const events = collectPitchEvents(tree, options);
+  const edits: TextReplacement[] = [];
+
+  visitGroups(tree.root, (group) => {
+    if (!overlaps(group, range) || !isMusicBlock(group)) {
+      return true;
+    }
+
+    const inside = events.filter((event) => event.start >= group.start && event.start < group.end);
+    const first = inside.find((event) => event.role === "note");
+    if (!first || inside.some((event) => event.base.kind !== "absolute" && event.base.kind !== "none")) {
+      return true;
+    }
+
+    edits.push({ start: group.start, end: group.start, newText: `\\relative ${formatReference(first)} ` });
+    return false;
+  });
+
+  return edits.length > 0 ? restructurePitches(content, edits, options) : content;
+}
+
+/** Visits groups depth-first; returning `false` skips the group's children. */
+function visitGroups(group: GroupNode, visit: (group: GroupNode) => boolean): void {
+  for (const child of group.children) {
+    if (visit(child)) {
+      visitGroups(child, visit);
+    }
+  }
+}
+
+function isMusicBlock(group: GroupNode): boolean {
+  if (group.kind !== "sequential" || group.mode !== "notes") {
+    return false;
+  }
+
+  if (group.command && CONTAINER_BLOCKS.has(group.command)) {
+    return false;
+  }
+
+  const command = findOctaveCommand(group);
+  return command?.text !== "\\relative" && command?.text !== "\\fixed";
+}
+
+/** A `c` from which the first note is reached without octave marks. */
+function formatReference(first: PitchEvent): string {
+  const octave = first.pitch.step >= 4 ? first.pitch.octave + 1 : first.pitch.octave;
+  return formatPitch({ step: 0, alteration: 0, octave }, first.language) ?? "c'";
+}
+
+function overlaps(group: GroupNode, range: OffsetRange | undefined): boolean {
+  if (!range) {
+    return true;
+  }
+
+  const start = Math.min(group.head[0]?.start ?? group.start, group.start);
+  return start < range.end && range.start < group.end;
+}
@@ -0,0 +1,79 @@
+import { isCommentToken, parseLilypond } from "../parser/parseTree";
+import { collectPitchEvents, rewritePitchEvents, type PitchCollectOptions, type TextReplacement } from "./musicPitches";
+import { enharmonicSpellings, getKeySignature, type Pitch } from "./pitch";
+
+/**
+ * `sharps` and `flats` use the fewest accidentals, breaking ties towards sharps or flats;
+ * `doubles` only respells double sharps and flats; `key` prefers spellings that belong to the
+ * `\key` in effect, then the fewest accidentals, then the current spelling.
+ */
+export type RespellMode = "sharps" | "flats" | "doubles" | "key";
+
+export type OffsetRange = {
+  start: number;
+  end: number;
+};
+
+/** Respells the notes in the range enharmonically; octave marks follow the new note names. */
+export function respellPitches(
+  content: string,
+  mode: RespellMode,
+  range?: OffsetRange,
+  options: PitchCollectOptions = {}
+): TextReplacement[] {
+  const tree = parseLilypond(content);
+  const events = collectPitchEvents(tree, options);
+  const tokens = tree.tokens.filter((token) => !isCommentToken(token));
+  let keySignature: number[] | undefined;
+
+  const pitches = events.map((event) => {
+    if (event.role === "key") {
+      // `\key d \major`: the mode command follows the tonic.
+      const modeToken = tokens.find((token) => token.start >= event.end);
+      keySignature = modeToken?.kind === "command" ? getKeySignature(event.pitch, modeToken.text.slice(1)) : undefined;
+      return event.pitch;
+    }
+
+    if (event.role !== "note" || (range && (event.start < range.start || event.start >= range.end))) {
+      return event.pitch;
+    }
+    return chooseSpelling(event.pitch, mode, keySignature);
+  });
+
+  return rewritePitchEvents(content, events, pitches);
+}
+
+function chooseSpelling(pitch: Pitch, mode: RespellMode, keySignature: number[] | undefined): Pitch {
+  if (mode === "doubles" && Math.abs(pitch.alteration) <= 1) {
+    return pitch;
+  }
+
+  const candidates = enharmonicSpellings(pitch).filter((candidate) => mode !== "doubles" || Math.abs(candidate.alteration) <= 1);
+  const score = (candidate: Pitch): number[] => {
+    const isCurrent = candidate.step === pitch.step ? 0 : 1;
+    const accidentals = Math.abs(candidate.alteration);
+    switch (mode) {
+      case "sharps":
+        return [accidentals, candidate.alteration < 0 ? 1 : 0];
+      case "flats":
+        return [accidentals, candidate.alteration > 0 ? 1 : 0];
+      case "doubles":
+        return [accidentals, Math.sign(candidate.alteration) === Math.sign(pitch.alteration) ? 0 : 1];
+      case "key": {
+        const inKey = candidate.alteration === (keySignature?.[candidate.step] ?? 0) ? 0 : 1;
+        return [inKey, accidentals, isCurrent];
+      }
+    }
+  };
+
+  return candidates.reduce((best, candidate) => (compareScores(score(candidate), score(best)) < 0 ? candidate : best));
+}
+
+function compareScores(a: number[], b: number[]): number {
+  for (let index = 0; index < a.length; index += 1) {
+    if (a[index] !== b[index]) {
+      return a[index] - b[index];
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,334 @@
+import { isCommentToken, parseLilypond, type GroupNode } from "../parser/parseTree";
+import type { Token } from "../parser/tokenizer";
+import { collectPitchEvents, isMusicGroup, type PitchCollectOptions, type TextReplacement } from "./musicPitches";
+
+/**
+ * `base` is the duration's binary logarithm as LilyPond writes it: 0 is a whole note, 2 a
+ * quarter, -1 `\breve`, -2 `\longa` and -3 `\maxima`. `multiplier` keeps scaling factors such as
+ * `*2/3` as written.
+ */
+export type Duration = {
+  base: number;
+  dots: number;
+  multiplier: string;
+};
+
+/**
+ * A note, rest, skip or chord (`note`), or the duration argument of `\partial` or `\skip` or
+ * the span of `\tuplet 3/2 8 { }` (`argument`). Arguments are always written and do not change the default duration.
+ */
+export type RhythmEvent = {
+  kind: "note" | "argument";
+  start: number;
+  /** Where the duration is written, or would be inserted. */
+  insertAt: number;
+  /** The written duration, if any. */
+  written?: { start: number; end: number; duration: Duration };
+  /** The written duration, or the one carried over from the previous note. */
+  duration: Duration;
+};
+
+export type OffsetRange = {
+  start: number;
+  end: number;
+};
+
+/** Notes without a duration before the first written one are quarter notes. */
+const DEFAULT_DURATION: Duration = { base: 2, dots: 0, multiplier: "" };
+const MIN_BASE = -3;
+const MAX_BASE = 8;
+const LONG_DURATIONS = new Map([
+  ["\\breve", -1],
+  ["\\longa", -2],
+  ["\\maxima", -3]
+]);
+const REST_WORDS = new Set(["r", "R", "s", "q"]);
+const DURATION_ARGUMENT_COMMANDS = new Set(["\\partial", "\\skip"]);
+
+export function parseDuration(text: string): Duration | undefined {
+  const match = /^(\\breve|\\longa|\\maxima|\d+)(\.*)((?:\*\d+(?:\/\d+)?)*)$/.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const base = LONG_DURATIONS.get(match[1]) ?? Math.log2(Number(match[1]));
+  if (!Number.isInteger(base) || base > MAX_BASE) {
+    return undefined;
+  }
+  return { base, dots: match[2].length, multiplier: match[3] };
+}
+
+export function formatDuration(duration: Duration): string {
+  const base = duration.base >= 0 ? String(2 ** duration.base) : ["\\breve", "\\longa", "\\maxima"][-duration.base - 1];
+  return `${base}${".".repeat(duration.dots)}${duration.multiplier}`;
+}
+
+/**
+ * Collects notes, rests, skips and chords in document order with their written and effective
+ * durations. LilyPond carries the last written duration over lexically, across braces and
+ * blocks. Strings, Scheme, markup, lyrics and settings blocks are skipped; drum mode is not
+ * supported.
+ */
+export function collectRhythmEvents(content: string, options: PitchCollectOptions = {}): RhythmEvent[] {
+  const tree = parseLilypond(content);
+  const tokens = tree.tokens.filter((token) => !isCommentToken(token));
+  const indexByStart = new Map(tokens.map((token, index) => [token.start, index]));
+  const musicGroups = collectMusicGroups(tree.root);
+  const chords = musicGroups.filter((group) => group.kind === "chord" && group.close);
+  const insideChord = (offset: number): boolean => chords.some((chord) => chord.start < offset && offset < chord.end);
+  const assignmentNames = new Set(tree.assignments.map((assignment) => assignment.nameToken));
+
+  const starts: Array<{ kind: RhythmEvent["kind"]; start: number; insertAt: number }> = [];
+  for (const event of collectPitchEvents(tree, options)) {
+    if (event.role === "note" && !insideChord(event.start) && !isChordBass(tokens, indexByStart, event.start)) {
+      starts.push({ kind: "note", start: event.start, insertAt: skipAccidentalMarks(tokens, indexByStart, event.end) });
+    }
+  }
+
+  for (const chord of chords) {
+    starts.push({ kind: "note", start: chord.start, insertAt: chord.end });
+  }
+
+  for (const group of [tree.root, ...musicGroups]) {
+    group.tokens.forEach((token, index) => {
+      const previous = group.tokens[index - 1];
+      if (token.kind === "word" && REST_WORDS.has(token.text) && !assignmentNames.has(token) && previous?.text !== ".") {
+        starts.push({ kind: "note", start: token.start, insertAt: token.end });
+      } else if (token.kind === "command" && DURATION_ARGUMENT_COMMANDS.has(token.text)) {
+        const next = group.tokens[index + 1];
+        if (next && (next.kind === "number" || LONG_DURATIONS.has(next.text))) {
+          starts.push({ kind: "argument", start: token.start, insertAt: next.start });
+        }
+      } else if (token.text === "\\tuplet") {
+        const [numerator, slash, denominator, span] = group.tokens.slice(index + 1, index + 5);
+        if (numerator?.kind === "number" && slash?.text === "/" && denominator?.kind === "number" && span?.kind === "number") {
+          starts.push({ kind: "argument", start: token.start, insertAt: span.start });
+        }
+      }
+    });
+  }
+
+  starts.sort((a, b) => a.start - b.start);
+
+  const events: RhythmEvent[] = [];
+  let current = DEFAULT_DURATION;
+  for (const item of starts) {
+    const written = readDuration(tokens, indexByStart, item.insertAt);
+    if (item.kind === "argument" && !written) {
+      continue;
+    }
+
+    const duration = written?.duration ?? current;
+    if (item.kind === "note") {
+      current = duration;
+    }
+    events.push({ ...item, written, duration });
+  }
+
+  return events;
+}
+
+/** Doubles (`steps` = 1) or halves (`steps` = -1) every duration in the range. */
+export function scaleDurations(
+  content: string,
+  steps: number,
+  range?: OffsetRange,
+  options: PitchCollectOptions = {}
+): TextReplacement[] | undefined {
+  const events = collectRhythmEvents(content, options);
+  const durations: Duration[] = [];
+  for (const event of events) {
+    if (!inRange(event, range)) {
+      durations.push(event.duration);
+      continue;
+    }
+
+    const base = event.duration.base - steps;
+    if (base < MIN_BASE || base > MAX_BASE) {
+      return undefined;
+    }
+    durations.push({ ...event.duration, base });
+  }
+
+  return rewriteDurations(content, events, durations, range, "keep");
+}
+
+/** Writes the duration of every note in the range. */
+export function makeDurationsExplicit(content: string, range?: OffsetRange, options: PitchCollectOptions = {}): TextReplacement[] {
+  const events = collectRhythmEvents(content, options);
+  return rewriteDurations(content, events, events.map((event) => event.duration), range, "all");
+}
+
+/** Drops durations in the range that repeat the previous note's duration. */
+export function removeRedundantDurations(
+  content: string,
+  range?: OffsetRange,
+  options: PitchCollectOptions = {}
+): TextReplacement[] {
+  const events = collectRhythmEvents(content, options);
+  return rewriteDurations(content, events, events.map((event) => event.duration), range, "minimal");
+}
+
+/**
+ * Gives the notes in the range the durations of `pattern` (e.g. `8. 16`), repeating it as often
+ * as needed. Returns `undefined` when the pattern holds no valid durations.
+ */
+export function applyDurationPattern(
+  content: string,
+  pattern: string,
+  range?: OffsetRange,
+  options: PitchCollectOptions = {}
+): TextReplacement[] | undefined {
+  const parts = pattern.split(/\s+/).filter(Boolean);
+  const durations = parts.map((part) => parseDuration(part)).filter((duration): duration is Duration => Boolean(duration));
+  if (durations.length === 0 || durations.length !== parts.length) {
+    return undefined;
+  }
+
+  const events = collectRhythmEvents(content, options);
+  let position = 0;
+  const desired = events.map((event) => {
+    if (event.kind !== "note" || !inRange(event, range)) {
+      return event.duration;
+    }
+    const duration = durations[position % durations.length];
+    position += 1;
+    return duration;
+  });
+
+  return rewriteDurations(content, events, desired, range, "keep");
+}
+
+/**
+ * Writes `durations` (one per event). Inside the range, `keep` leaves written durations written,
+ * `all` writes every duration and `minimal` only the ones that differ from the previous note
+ * (and the first one).
+ * Outside the range durations stay as written, and notes that would now inherit a different
+ * duration get theirs written.
+ */
+function rewriteDurations(
+  content: string,
+  events: RhythmEvent[],
+  durations: Duration[],
+  range: OffsetRange | undefined,
+  mode: "keep" | "all" | "minimal"
+): TextReplacement[] {
+  const edits: TextReplacement[] = [];
+  let previous = DEFAULT_DURATION;
+  let isFirstNote = true;
+
+  events.forEach((event, index) => {
+    const duration = durations[index];
+    const changed = !sameDuration(duration, previous);
+    let write: boolean;
+    if (event.kind === "argument") {
+      write = true;
+    } else if (!inRange(event, range) || mode === "keep") {
+      write = event.written !== undefined || changed;
+    } else {
+      // The first written duration stays: an included file inherits whatever the includer used last.
+      write = mode === "all" || changed || (isFirstNote && event.written !== undefined);
+    }
+
+    if (event.kind === "note") {
+      isFirstNote = false;
+      previous = duration;
+    }
+
+    if (event.written) {
+      if (!write) {
+        edits.push({ start: event.written.start, end: event.written.end, newText: "" });
+      } else if (!sameDuration(duration, event.written.duration)) {
+        edits.push({ start: event.written.start, end: event.written.end, newText: formatDuration(duration) });
+      }
+    } else if (write) {
+      edits.push({ start: event.insertAt, end: event.insertAt, newText: formatDuration(duration) });
+    }
+  });
+
+  return edits.filter((edit) => content.slice(edit.start, edit.end) !== edit.newText);
+}
+
+function collectMusicGroups(group: GroupNode, groups: GroupNode[] = []): GroupNode[] {
+  for (const child of group.children) {
+    if (isMusicGroup(child)) {
+      groups.push(child);
+      collectMusicGroups(child, groups);
+    }
+  }
+  return groups;
+}
+
+/** Reads a duration (`4`, `8..`, `\breve`, `2*3/4`) starting exactly at `offset`. */
+function readDuration(
+  tokens: Token[],
+  indexByStart: Map<number, number>,
+  offset: number
+): RhythmEvent["written"] | undefined {
+  const firstIndex = indexByStart.get(offset);
+  if (firstIndex === undefined) {
+    return undefined;
+  }
+
+  let index = firstIndex;
+  const first = tokens[index];
+  if (first.kind !== "number" && !LONG_DURATIONS.has(first.text)) {
+    return undefined;
+  }
+
+  let end = first.end;
+  const adjacent = (text?: string): Token | undefined => {
+    const token = tokens[index + 1];
+    return token && token.start === end && (text === undefined || token.text === text) ? token : undefined;
+  };
+  const take = (token: Token): void => {
+    end = token.end;
+    index += 1;
+  };
+
+  for (let dot = adjacent("."); dot; dot = adjacent(".")) {
+    take(dot);
+  }
+
+  for (let star = adjacent("*"); star; star = adjacent("*")) {
+    const factor = tokens[index + 2];
+    if (factor?.kind !== "number" || factor.start !== star.end) {
+      break;
+    }
+    take(star);
+    take(factor);
+
+    const slash = adjacent("/");
+    const divisor = tokens[index + 2];
+    if (slash && divisor?.kind === "number" && divisor.start === slash.end) {
+      take(slash);
+      take(divisor);
+    }
+  }
+
+  const text = tokens.slice(firstIndex, index + 1).map((token) => token.text).join("");
+  const duration = parseDuration(text);
+  return duration ? { start: offset, end, duration } : undefined;
+}
+
+/** Forced and cautionary accidentals (`c!`, `c?`) come before the duration. */
+function skipAccidentalMarks(tokens: Token[], indexByStart: Map<number, number>, end: number): number {
+  const index = indexByStart.get(end);
+  const token = index === undefined ? undefined : tokens[index];
+  return token && (token.text === "!" || token.text === "?") ? token.end : end;
+}
+
+/** The bass note of a chord mode chord, as in `c2:m/g` or `c2/+g`, shares the chord's duration. */
+function isChordBass(tokens: Token[], indexByStart: Map<number, number>, start: number): boolean {
+  const index = indexByStart.get(start) ?? 0;
+  const previous = tokens[index - 1];
+  return previous?.text === "/" || (previous?.text === "+" && tokens[index - 2]?.text === "/");
+}
+
+function inRange(event: RhythmEvent, range: OffsetRange | undefined): boolean {
+  return !range || (event.start >= range.start && event.start < range.end);
+}
+
+function sameDuration(a: Duration, b: Duration): boolean {
+  return a.base === b.base && a.dots === b.dots && a.multiplier === b.multiplier;
+}
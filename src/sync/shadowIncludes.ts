@@ -0,0 +1,134 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { findIncludeStatements, resolveInclude, type IncludeSearchOptions, type IncludeStatement } from "./includeGraph";
+
+export type ShadowFile = {
+  sourcePath: string;
+  shadowPath: string;
+  content: string;
+};
+
+export type ShadowIncludeTree = {
+  /** Files to write; the root is always first. */
+  files: ShadowFile[];
+  /** Shadow path -> real source path, for textedit links and LilyPond messages. */
+  pathMap: Map<string, string>;
+};
+
+export type ShadowIncludeInput = {
+  rootPath: string;
+  rootContent: string;
+  rootShadowPath: string;
+  shadowDir: string;
+  /** Unsaved editor text keyed by resolved file path. */
+  overrides: Map<string, string>;
+  options?: IncludeSearchOptions;
+};
+
+type ShadowSource = {
+  content: string;
+  edges: Array<{ statement: IncludeStatement; resolvedPath: string }>;
+};
+
+/**
+ * Plans a copy of the include graph in which unsaved buffers replace their files on disk.
+ * A file is copied when it has unsaved text or includes (transitively) a file that has; the
+ * copied files point their `\include`s at absolute paths, so everything else is still read
+ * from its real location.
+ */
+export async function buildShadowIncludeTree(input: ShadowIncludeInput): Promise<ShadowIncludeTree> {
+  const rootPath = path.resolve(input.rootPath);
+  const options = { ...input.options, rootDir: input.options?.rootDir ?? path.dirname(rootPath) };
+  const sources = new Map<string, ShadowSource>();
+
+  async function visit(filePath: string, content: string): Promise<void> {
+    const source: ShadowSource = { content, edges: [] };
+    sources.set(filePath, source);
+
+    for (const statement of findIncludeStatements(content)) {
+      const resolution = await resolveInclude(statement.includePath, filePath, options);
+      if (resolution.status !== "found" || !resolution.resolvedPath) {
+        continue;
+      }
+
+      const resolvedPath = resolution.resolvedPath;
+      source.edges.push({ statement, resolvedPath });
+      if (sources.has(resolvedPath)) {
+        continue;
+      }
+
+      const override = input.overrides.get(resolvedPath);
+      try {
+        await visit(resolvedPath, override ?? (await fs.readFile(resolvedPath, "utf8")));
+      } catch {
+        // LilyPond reports unreadable includes itself.
+      }
+    }
+  }
+
+  await visit(rootPath, input.rootContent);
+
+  const shadowed = new Set([...sources.keys()].filter((filePath) => input.overrides.has(filePath)));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [filePath, source] of sources) {
+      if (!shadowed.has(filePath) && source.edges.some((edge) => shadowed.has(edge.resolvedPath))) {
+        shadowed.add(filePath);
+        changed = true;
+      }
+    }
+  }
+
+  const shadowPaths = new Map<string, string>([[rootPath, input.rootShadowPath]]);
+  let index = 0;
+  for (const filePath of sources.keys()) {
+    if (filePath !== rootPath && shadowed.has(filePath)) {
+      index += 1;
+      shadowPaths.set(filePath, path.join(input.shadowDir, String(index), path.basename(filePath)));
+    }
+  }
+
+  const files: ShadowFile[] = [];
+  const pathMap = new Map<string, string>();
+  for (const [filePath, source] of sources) {
+    const shadowPath = shadowPaths.get(filePath);
+    if (!shadowPath) {
+      continue;
+    }
+
+    const content = shadowed.has(filePath) ? rewriteIncludes(source, shadowPaths) : source.content;
+    files.push({ sourcePath: filePath, shadowPath, content });
+    pathMap.set(shadowPath, filePath);
+  }
+
+  return { files, pathMap };
+}
+
+/** Replaces shadow paths in LilyPond output (messages, `textedit` links) with the real file paths. */
+export function restoreShadowPaths(text: string, pathMap: Map<string, string>): string {
+  let output = text;
+  for (const [shadowPath, sourcePath] of pathMap) {
+    output = output.split(shadowPath).join(sourcePath);
+    const lilypondPath = toLilypondPath(shadowPath);
+    if (lilypondPath !== shadowPath) {
+      output = output.split(lilypondPath).join(sourcePath);
+    }
+  }
+  return output;
+}
+
+function rewriteIncludes(source: ShadowSource, shadowPaths: Map<string, string>): string {
+  let content = source.content;
+  const edges = [...source.edges].sort((a, b) => b.statement.pathStart - a.statement.pathStart);
+  for (const { statement, resolvedPath } of edges) {
+    const target = toLilypondPath(shadowPaths.get(resolvedPath) ?? resolvedPath);
+    content = `${content.slice(0, statement.pathStart)}${target}${content.slice(statement.pathEnd)}`;
+  }
+  return content;
+}
+
+/** LilyPond strings treat `\` as an escape, so Windows paths are written with forward slashes. */
+function toLilypondPath(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
@@ -0,0 +1,288 @@
+import { findGroupAt, type GroupNode, type ParseTree } from "../parser/parseTree";
+import type { Token } from "../parser/tokenizer";
+
+export type SignatureParameter = {
+  /** Type predicate, e.g. `ly:duration?`. */
+  type: string;
+  optional?: boolean;
+  /** Whether the argument follows `=`, as the id in `\new Staff = "vl"`. */
+  afterEquals?: boolean;
+};
+
+export type SignatureInfo = {
+  /** What the command evaluates to, which decides the parameters it can fill. */
+  value: "music" | "markup" | "any";
+  parameters: SignatureParameter[];
+};
+
+export type ActiveCall = {
+  /** The command token, e.g. `\tuplet`. */
+  command: Token;
+  /** Whether the command is an argument of a markup command, where markup commands win. */
+  inMarkup: boolean;
+  activeParameter: number;
+};
+
+export type SignatureLookup = (label: string, inMarkup: boolean) => SignatureInfo | undefined;
+
+type ArgumentKind =
+  | "number"
+  | "fraction"
+  | "numberList"
+  | "duration"
+  | "string"
+  | "word"
+  | "path"
+  | "music"
+  | "markup"
+  | "contextMod"
+  | "any"
+  | "separator";
+
+type Argument = {
+  kind: ArgumentKind;
+  start: number;
+  end: number;
+  text: string;
+  command?: Token;
+  /** Set for arguments starting with a group, such as `<c e g>4`, which stay music. */
+  group?: boolean;
+};
+
+const STRING_TYPES = [
+  "string",
+  "symbol",
+  "markup",
+  "symbol-list",
+  "symbol-list-or-symbol",
+  "symbol-list-or-music",
+  "list-or-symbol",
+  "key-list-or-symbol",
+  "key-list-or-symbols",
+  "string-or-pair",
+  "index-or-markup"
+];
+
+/** Predicates, without `ly:` and `?`, that each kind of argument satisfies; `scheme?` takes anything. */
+const ACCEPTED_TYPES: Record<ArgumentKind, Set<string>> = {
+  number: new Set(["number", "integer", "index", "positive", "real", "duration", "duration-or-music", "music", "index-or-markup"]),
+  fraction: new Set(["fraction", "number-pair", "pair"]),
+  numberList: new Set(["number-list", "list"]),
+  duration: new Set(["duration", "duration-or-music", "music"]),
+  string: new Set(STRING_TYPES),
+  word: new Set([
+    ...STRING_TYPES,
+    "pitch",
+    "music",
+    "duration-or-music",
+    "key-list",
+    "key-list-or-music"
+  ]),
+  path: new Set(["symbol-list", "symbol-list-or-symbol", "symbol-list-or-music", "key-list", "key-list-or-music", "key-list-or-symbol"]),
+  music: new Set(["music", "duration-or-music", "key-list-or-music", "symbol-list-or-music"]),
+  markup: new Set(["markup", "markup-list", "index-or-markup"]),
+  contextMod: new Set(["context-mod"]),
+  any: new Set(),
+  separator: new Set()
+};
+
+const PITCH_WORD = /^[a-z]+[',]*[!?]?$/;
+const DURATION = /^(?:\d+|\\breve|\\longa|\\maxima)\.*(?:\*\d+(?:\/\d+)?)*$/;
+const SEPARATORS = new Set(["=", "-", "^", "_"]);
+
+/**
+ * Finds the command whose arguments the cursor is in and the parameter it is at, e.g. the
+ * duration in `\tuplet 3/2 |`. Arguments fill parameters by type the way LilyPond does, so an
+ * optional parameter the next argument does not satisfy is skipped. The innermost unfinished
+ * call wins; a finished one, as in `\relative c' \tuplet 3/2 { c d e } |`, gives no call.
+ */
+export function findActiveCall(tree: ParseTree, offset: number, lookup: SignatureLookup): ActiveCall | undefined {
+  const group = findGroupAt(tree, offset);
+  const parser = new CallParser(collectArguments(group, offset), lookup);
+  while (!parser.atEnd()) {
+    parser.readExpression(group.mode === "markup");
+  }
+  return parser.active;
+}
+
+class CallParser {
+  active: ActiveCall | undefined;
+  private index = 0;
+
+  constructor(
+    private readonly args: Argument[],
+    private readonly lookup: SignatureLookup
+  ) {}
+
+  atEnd(): boolean {
+    return this.index >= this.args.length;
+  }
+
+  /** Consumes one argument, with the arguments of its command if it is one, and returns its kind. */
+  readExpression(inMarkup: boolean): ArgumentKind {
+    const arg = this.args[this.index];
+    this.index += 1;
+    if (!arg.command) {
+      return arg.kind;
+    }
+
+    const info = this.lookup(arg.command.text, inMarkup);
+    if (!info) {
+      return "any";
+    }
+
+    this.readArguments(arg.command, info, inMarkup || info.value === "markup");
+    return info.value;
+  }
+
+  private readArguments(command: Token, info: SignatureInfo, inMarkup: boolean): void {
+    let sawEquals = false;
+    let parameterIndex = 0;
+    while (parameterIndex < info.parameters.length) {
+      const parameter = info.parameters[parameterIndex];
+      if (parameter.afterEquals && !sawEquals && this.args[this.index]?.text !== "=") {
+        if (!parameter.optional) {
+          this.active ??= this.atEnd() ? { command, inMarkup, activeParameter: parameterIndex } : undefined;
+          return;
+        }
+        parameterIndex += 1;
+        continue;
+      }
+
+      if (this.atEnd()) {
+        this.active ??= { command, inMarkup, activeParameter: parameterIndex };
+        return;
+      }
+
+      const arg = this.args[this.index];
+      if (arg.kind === "separator") {
+        sawEquals ||= arg.text === "=";
+        this.index += 1;
+        continue;
+      }
+
+      if (arg.text === "\\default" && parameter.optional) {
+        this.index += 1;
+        parameterIndex += 1;
+        continue;
+      }
+
+      if (!accepts(parameter.type, this.peekKind(inMarkup))) {
+        if (!parameter.optional) {
+          return;
+        }
+        parameterIndex += 1;
+        continue;
+      }
+
+      this.readExpression(inMarkup);
+      sawEquals = false;
+      parameterIndex += 1;
+    }
+  }
+
+  /** The kind of the next argument; a command counts as what it evaluates to. */
+  private peekKind(inMarkup: boolean): ArgumentKind {
+    const arg = this.args[this.index];
+    if (!arg.command) {
+      return arg.kind;
+    }
+    return this.lookup(arg.command.text, inMarkup)?.value ?? "any";
+  }
+}
+
+function accepts(type: string, kind: ArgumentKind): boolean {
+  const predicate = type.replace(/^ly:/, "").replace(/\?$/, "");
+  return predicate === "scheme" || kind === "any" || ACCEPTED_TYPES[kind].has(predicate);
+}
+
+/**
+ * Splits the group's content before `offset` into arguments: adjacent tokens such as `3/2` or
+ * `c'4.` form one, each nested group one, and `\with { }` one. The token the cursor touches is
+ * still being typed and left out.
+ */
+function collectArguments(group: GroupNode, offset: number): Argument[] {
+  const items: Array<Token | GroupNode> = [
+    ...group.tokens.filter((token) => token.start < offset),
+    ...group.children.filter((child) => child.start < offset)
+  ].sort((a, b) => a.start - b.start);
+
+  const args: Argument[] = [];
+  for (const item of items) {
+    const previous = args[args.length - 1];
+    if (isToken(item)) {
+      const adjacent = previous && previous.end === item.start && item.kind !== "command" && !previous.command;
+      if (adjacent && previous.kind !== "separator" && item.text !== "=") {
+        previous.end = item.end;
+        previous.text += item.text;
+        previous.kind = previous.group ? previous.kind : classifyText(previous.text, group.mode);
+        continue;
+      }
+      args.push(tokenArgument(item, group.mode));
+      continue;
+    }
+
+    if (item.command === "with" && previous?.text === "\\with") {
+      args[args.length - 1] = { kind: "contextMod", start: previous.start, end: item.end, text: "", group: true };
+      continue;
+    }
+    if (previous && previous.end === item.start && !previous.command && previous.kind !== "separator") {
+      previous.end = item.end;
+      previous.kind = "music";
+      previous.group = true;
+      continue;
+    }
+    args.push({ kind: item.mode === "markup" ? "markup" : "music", start: item.start, end: item.end, text: "", group: true });
+  }
+
+  const last = args[args.length - 1];
+  if (last && last.end >= offset && !last.group) {
+    args.pop();
+  }
+  return args;
+}
+
+function isToken(item: Token | GroupNode): item is Token {
+  return "text" in item;
+}
+
+function tokenArgument(token: Token, mode: GroupNode["mode"]): Argument {
+  const arg: Argument = { kind: "any", start: token.start, end: token.end, text: token.text };
+  if (token.kind === "command") {
+    if (DURATION.test(token.text)) {
+      arg.kind = "duration";
+    } else {
+      arg.command = token;
+    }
+  } else if (token.kind === "string") {
+    arg.kind = "string";
+  } else if (token.kind !== "scheme") {
+    arg.kind = classifyText(token.text, mode);
+  }
+  return arg;
+}
+
+function classifyText(text: string, mode: GroupNode["mode"]): ArgumentKind {
+  if (SEPARATORS.has(text)) {
+    return "separator";
+  }
+  if (/^\d+$/.test(text) || /^-?\d*\.\d+$/.test(text)) {
+    return "number";
+  }
+  if (/^\d+\/\d+$/.test(text)) {
+    return "fraction";
+  }
+  if (/^\d+(?:,\d+)+$/.test(text)) {
+    return "numberList";
+  }
+  if (DURATION.test(text)) {
+    return "duration";
+  }
+  if (/^[A-Za-z][A-Za-z0-9-]*(?:\.[A-Za-z][A-Za-z0-9-]*)+$/.test(text)) {
+    return "path";
+  }
+  if (PITCH_WORD.test(text) || (/^[A-Za-z][A-Za-z0-9-]*$/.test(text) && (/^[A-Z]/.test(text) || mode !== "notes"))) {
+    return "word";
+  }
+  return mode === "markup" ? "markup" : "music";
+}
@@ -1,64 +1,223 @@
+import { parseLilypond, positionAt, walkGroups, type GroupNode, type ParseTree } from "../parser/parseTree";
+import type { Token } from "../parser/tokenizer";
+
 export type StructureNode = {
   label: string;
-  kind: "block" | "assignment";
+  detail: string;
+  kind: "block" | "context" | "assignment";
+  start: number;
+  end: number;
+  selectionEnd: number;
   startLine: number;
   endLine: number;
+  children: StructureNode[];
 };
 
-const BLOCK_PATTERN = /\\(score|new|header|layout|midi|paper|book|bookpart|context)\b/;
-const ASSIGNMENT_PATTERN = /^\s*([a-zA-Z][\w-]*)\s*=\s*/;
+const BLOCK_COMMANDS = new Set(["book", "bookpart", "score", "header", "layout", "midi", "paper"]);
+const CONTEXT_COMMANDS = new Set(["new", "context"]);
+const TITLE_FIELDS = ["title", "piece", "subtitle", "instrument"];
 
-export function parseStructureNodes(content: string): StructureNode[] {
-  const lines = content.split(/\r?\n/);
+/**
+ * Builds the nested outline: `\book` > `\bookpart` > `\score` > `\new StaffGroup` > `\new Staff`
+ * > `\new Voice`, with top-level assignments as roots. Nodes nest by source containment.
+ */
+export function parseStructureTree(source: string | ParseTree): StructureNode[] {
+  const tree = typeof source === "string" ? parseLilypond(source) : source;
   const nodes: StructureNode[] = [];
 
-  for (let i = 0; i < lines.length; i += 1) {
-    const line = lines[i].replace(/%.*$/, "");
+  for (const assignment of tree.assignments) {
+    if (assignment.scope !== tree.root) {
+      continue;
+    }
 
-    const assignment = line.match(ASSIGNMENT_PATTERN);
-    if (assignment) {
-      nodes.push({
-        label: `${assignment[1]} =`,
+    nodes.push(
+      createNode(tree, {
+        label: `${assignment.name} =`,
+        detail: "",
         kind: "assignment",
-        startLine: i,
-        endLine: i
-      });
-      continue;
+        start: assignment.nameToken.start,
+        end: Math.max(assignment.valueEnd, assignment.nameToken.end),
+        selectionEnd: assignment.nameToken.end
+      })
+    );
+  }
+
+  const headTokens = new Set<Token>();
+  walkGroups(tree.root, (group) => {
+    group.head.forEach((token, index) => {
+      headTokens.add(token);
+      if (token.kind !== "command") {
+        return;
+      }
+
+      const command = token.text.slice(1);
+      if (BLOCK_COMMANDS.has(command)) {
+        nodes.push(
+          createNode(tree, {
+            label: token.text,
+            detail: command === "header" ? findTitle(tree, group) : findTitle(tree, findHeader(group)),
+            kind: "block",
+            start: token.start,
+            end: group.end,
+            selectionEnd: token.end
+          })
+        );
+        return;
+      }
+
+      if (CONTEXT_COMMANDS.has(command)) {
+        const spec = readContextSpec(group.head, index);
+        const label = spec.hasType ? spec.label : `${spec.label} ${group.tokens.find((item) => item.kind === "command")?.text ?? ""}`;
+        nodes.push(
+          createNode(tree, {
+            label: label.trim(),
+            detail: findInstrumentName(tree, group.parent, token.start, group.start),
+            kind: "context",
+            start: token.start,
+            end: group.end,
+            selectionEnd: spec.end
+          })
+        );
+      }
+    });
+  });
+
+  // Contexts whose music is a variable (`\new Staff \violinI`) never open a group of their own.
+  walkGroups(tree.root, (group) => {
+    group.tokens.forEach((token, index) => {
+      if (token.kind !== "command" || !CONTEXT_COMMANDS.has(token.text.slice(1)) || headTokens.has(token)) {
+        return;
+      }
+
+      const spec = readContextSpec(group.tokens, index);
+      if (!spec.hasType) {
+        return;
+      }
+
+      let musicIndex = spec.lastIndex + 1;
+      if (group.tokens[musicIndex]?.text === "\\with") {
+        musicIndex += 1;
+      }
+      const music = group.tokens[musicIndex];
+      const end = music?.kind === "command" ? music.end : spec.end;
+
+      nodes.push(
+        createNode(tree, {
+          label: spec.label,
+          detail: findInstrumentName(tree, group, token.start, end),
+          kind: "context",
+          start: token.start,
+          end,
+          selectionEnd: spec.end
+        })
+      );
+    });
+  });
+
+  return nestNodes(nodes);
+}
+
+/** Flattened outline in document order, used by block navigation. */
+export function parseStructureNodes(source: string | ParseTree): StructureNode[] {
+  const flat: StructureNode[] = [];
+  const visit = (node: StructureNode): void => {
+    flat.push(node);
+    node.children.forEach(visit);
+  };
+  parseStructureTree(source).forEach(visit);
+  return flat;
+}
+
+function createNode(
+  tree: ParseTree,
+  input: Omit<StructureNode, "startLine" | "endLine" | "children">
+): StructureNode {
+  return {
+    ...input,
+    startLine: positionAt(tree, input.start).line,
+    endLine: positionAt(tree, input.end).line,
+    children: []
+  };
+}
+
+function nestNodes(nodes: StructureNode[]): StructureNode[] {
+  const sorted = [...nodes].sort((a, b) => a.start - b.start || b.end - a.end);
+  const roots: StructureNode[] = [];
+  const stack: StructureNode[] = [];
+
+  for (const node of sorted) {
+    while (stack.length > 0 && stack[stack.length - 1].end < node.end) {
+      stack.pop();
     }
 
-    const block = line.match(BLOCK_PATTERN);
-    if (block) {
-      nodes.push({
-        label: `\\${block[1]}`,
-        kind: "block",
-        startLine: i,
-        endLine: findBlockEnd(lines, i)
-      });
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
     }
+    stack.push(node);
   }
 
-  return nodes;
+  return roots;
 }
 
-function findBlockEnd(lines: string[], startLine: number): number {
-  let depth = 0;
-  let seenBrace = false;
-
-  for (let i = startLine; i < lines.length; i += 1) {
-    const sanitized = lines[i].replace(/%.*$/, "");
-    for (const char of sanitized) {
-      if (char === "{") {
-        depth += 1;
-        seenBrace = true;
-      } else if (char === "}") {
-        depth -= 1;
-      }
+/** Reads `\new Type = "id"` starting at the command token. */
+function readContextSpec(
+  tokens: Token[],
+  index: number
+): { label: string; hasType: boolean; lastIndex: number; end: number } {
+  let label = tokens[index].text;
+  let lastIndex = index;
+  const type = tokens[index + 1];
+
+  if (type?.kind === "word") {
+    label += ` ${type.text}`;
+    lastIndex = index + 1;
+
+    const equals = tokens[index + 2];
+    const id = tokens[index + 3];
+    if (equals?.text === "=" && id && (id.kind === "string" || id.kind === "word")) {
+      label += ` = ${id.text}`;
+      lastIndex = index + 3;
     }
+  }
 
-    if (seenBrace && depth <= 0) {
-      return i;
+  return { label, hasType: lastIndex > index, lastIndex, end: tokens[lastIndex].end };
+}
+
+function findHeader(group: GroupNode): GroupNode | undefined {
+  return group.children.find((child) => child.command === "header");
+}
+
+function findTitle(tree: ParseTree, header: GroupNode | undefined): string {
+  if (!header) {
+    return "";
+  }
+
+  for (const field of TITLE_FIELDS) {
+    const assignment = tree.assignments.find((item) => item.scope === header && item.name === field);
+    if (assignment) {
+      return readValueText(tree, assignment.valueStart, assignment.valueEnd);
     }
   }
 
-  return startLine;
+  return "";
+}
+
+/** Looks for `instrumentName` in a `\with { }` block between the context command and its music. */
+function findInstrumentName(tree: ParseTree, parent: GroupNode | undefined, start: number, end: number): string {
+  const withBlock = parent?.children.find((child) => child.command === "with" && child.start > start && child.start < end);
+  const assignment = withBlock
+    ? tree.assignments.find((item) => item.scope === withBlock && item.name === "instrumentName")
+    : undefined;
+  return assignment ? readValueText(tree, assignment.valueStart, assignment.valueEnd) : "";
+}
+
+/** Joins the words and strings of a value, so `\markup \bold "Sonata"` reads as `Sonata`. */
+function readValueText(tree: ParseTree, start: number, end: number): string {
+  return tree.tokens
+    .filter((token) => token.start >= start && token.end <= end && (token.kind === "string" || token.kind === "word"))
+    .map((token) => (token.kind === "string" ? token.text.slice(1, -1) : token.text))
+    .join(" ");
 }
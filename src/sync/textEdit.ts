@@ -49,8 +49,12 @@ export function normalizeFsPath(filePath: string): string {
 }
 
 export function rewriteTexteditTargets(svg: string, originalPath: string, sourcePath: string): string {
-  const normalizedOriginal = normalizeFsPath(originalPath);
-  const escapedSource = encodeURI(sourcePath);
+  return rewriteTexteditTargetMap(svg, new Map([[originalPath, sourcePath]]));
+}
+
+/** Rewrites every link whose file is a key of `targets` (cache paths) to the mapped source path. */
+export function rewriteTexteditTargetMap(svg: string, targets: Map<string, string>): string {
+  const normalizedTargets = new Map([...targets].map(([original, source]) => [normalizeFsPath(original), encodeURI(source)]));
 
   return svg.replace(/textedit:\/\/[^\"]+/g, (value) => {
     const parsed = parseTextEditHref(value);
@@ -58,7 +62,8 @@ export function rewriteTexteditTargets(svg: string, originalPath: string, source
       return value;
     }
 
-    if (normalizeFsPath(parsed.filePath) !== normalizedOriginal) {
+    const escapedSource = normalizedTargets.get(normalizeFsPath(parsed.filePath));
+    if (!escapedSource) {
       return value;
     }
 
@@ -1,3 +1,47 @@
+import { findGroupAt, isCommentToken, parseLilypond } from "../parser/parseTree";
+import {
+  collectPitchEvents,
+  rewritePitchEvents,
+  type PitchCollectOptions,
+  type PitchEvent,
+  type TextReplacement
+} from "./musicPitches";
+import { DEFAULT_NOTE_LANGUAGE, formatPitch, parsePitch, transposePitch, type Pitch } from "./pitch";
+
+/** `transposition` is the concert pitch heard for a written `c'`, as in `\transposition`. */
+export type TransposingInstrument = {
+  id: string;
+  label: string;
+  transposition: string;
+};
+
+/** `written` rewrites concert-pitch music at the instrument's written pitch, `concert` the reverse. */
+export type InstrumentDirection = "written" | "concert";
+
+/** Transpositions are in Dutch note names. */
+export const TRANSPOSING_INSTRUMENTS: readonly TransposingInstrument[] = [
+  { id: "piccolo", label: "Piccolo", transposition: "c''" },
+  { id: "alto-flute", label: "Alto Flute in G", transposition: "g" },
+  { id: "english-horn", label: "English Horn in F", transposition: "f" },
+  { id: "clarinet-es", label: "E♭ Clarinet", transposition: "es'" },
+  { id: "clarinet-bes", label: "B♭ Clarinet", transposition: "bes" },
+  { id: "clarinet-a", label: "A Clarinet", transposition: "a" },
+  { id: "bass-clarinet", label: "B♭ Bass Clarinet", transposition: "bes," },
+  { id: "soprano-sax", label: "B♭ Soprano Sax", transposition: "bes" },
+  { id: "alto-sax", label: "E♭ Alto Sax", transposition: "es" },
+  { id: "tenor-sax", label: "B♭ Tenor Sax", transposition: "bes," },
+  { id: "baritone-sax", label: "E♭ Baritone Sax", transposition: "es," },
+  { id: "horn-f", label: "F Horn", transposition: "f" },
+  { id: "trumpet-bes", label: "B♭ Trumpet", transposition: "bes" },
+  { id: "trumpet-d", label: "D Trumpet", transposition: "d'" },
+  { id: "contrabassoon", label: "Contrabassoon", transposition: "c" },
+  { id: "guitar", label: "Guitar", transposition: "c" },
+  { id: "double-bass", label: "Double Bass", transposition: "c" },
+  { id: "glockenspiel", label: "Glockenspiel", transposition: "c'''" }
+];
+
+const WRITTEN_REFERENCE: Pitch = { step: 0, alteration: 0, octave: 1 };
+
 export function wrapTranspose(content: string, fromPitch: string, toPitch: string): string {
   const inner = content.replace(/^\n+|\n+$/g, "");
   return `\\transpose ${fromPitch} ${toPitch} {\n${indentBlock(inner)}\n}`;
@@ -9,21 +53,9 @@ export function transposeWholeDocument(content: string, fromPitch: string, toPit
     return ensureTrailingNewline(scoreWrapped, content);
   }
 
-  const lines = content.split(/\r?\n/);
-  let bodyStart = 0;
-
-  while (bodyStart < lines.length) {
-    const line = lines[bodyStart];
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith("%") || /^\\(version|include)\b/.test(trimmed)) {
-      bodyStart += 1;
-      continue;
-    }
-    break;
-  }
-
-  const prelude = lines.slice(0, bodyStart).join("\n").trimEnd();
-  const body = lines.slice(bodyStart).join("\n").trim();
+  const bodyStart = findBodyStart(content);
+  const prelude = content.slice(0, bodyStart).trimEnd();
+  const body = content.slice(bodyStart).trim();
 
   if (!body) {
     return content;
@@ -37,187 +69,168 @@ export function transposeWholeDocument(content: string, fromPitch: string, toPit
   return `${prelude}\n\n${wrappedBody}\n`;
 }
 
-function wrapTopLevelScoreBlocks(content: string, fromPitch: string, toPitch: string): string | undefined {
-  const scoreBlocks = findTopLevelCommandBlocks(content, "score");
-  if (scoreBlocks.length === 0) {
+/**
+ * Rewrites the pitches themselves instead of wrapping the music in `\transpose`: notes, chord
+ * notes, chord mode roots and bass notes, `\key` tonics and `\relative`/`\fixed` start pitches.
+ * Only pitches starting inside `range` move; octave marks are recomputed wherever needed (also
+ * just after the range) so every other note keeps its pitch. `fromPitch` and `toPitch` are read
+ * in the note name language of the first pitch in the range. Returns `undefined` for invalid pitches.
+ */
+export function transposePitches(
+  content: string,
+  fromPitch: string,
+  toPitch: string,
+  range: { start: number; end: number } = { start: 0, end: content.length },
+  options: PitchCollectOptions = {}
+): TextReplacement[] | undefined {
+  const events = collectPitchEvents(parseLilypond(content), options);
+  const inRange = (event: PitchEvent): boolean =>
+    event.role !== "argument" && event.start >= range.start && event.start < range.end;
+  const language = events.find(inRange)?.language ?? options.language ?? DEFAULT_NOTE_LANGUAGE;
+  const from = parsePitch(fromPitch, language);
+  const to = parsePitch(toPitch, language);
+  if (!from || !to) {
     return undefined;
   }
 
-  let output = content;
-  let changed = false;
-
-  for (let index = scoreBlocks.length - 1; index >= 0; index -= 1) {
-    const block = scoreBlocks[index];
-    const inner = output.slice(block.openBraceIndex + 1, block.closeBraceIndex);
-    if (isAlreadyTransposed(inner)) {
-      continue;
-    }
-
-    const wrappedInner = `\n${indentBlock(wrapTranspose(inner, fromPitch, toPitch))}\n`;
-    output = `${output.slice(0, block.openBraceIndex + 1)}${wrappedInner}${output.slice(block.closeBraceIndex)}`;
-    changed = true;
-  }
-
-  return changed ? output : content;
+  const pitches = events.map((event) => (inRange(event) ? transposePitch(event.pitch, from, to) : event.pitch));
+  return rewritePitchEvents(content, events, pitches);
 }
 
-function findTopLevelCommandBlocks(
+/**
+ * Rewrites the music in `range` from concert pitch to the written pitch of `instrument`, or back.
+ * Converting to written pitch updates the `\transposition` statements in the range, or inserts
+ * one before the first note; converting to concert pitch removes them.
+ */
+export function convertInstrumentPitch(
   content: string,
-  command: string
-): Array<{ openBraceIndex: number; closeBraceIndex: number }> {
-  const blocks: Array<{ openBraceIndex: number; closeBraceIndex: number }> = [];
-  let depth = 0;
-
-  for (let index = 0; index < content.length; index += 1) {
-    const char = content[index];
-
-    if (char === "%") {
-      index = skipToLineEnd(content, index);
-      continue;
-    }
-
-    if (char === "\"") {
-      index = skipString(content, index);
-      continue;
-    }
-
-    if (char === "{") {
-      depth += 1;
-      continue;
-    }
-
-    if (char === "}") {
-      depth = Math.max(0, depth - 1);
-      continue;
-    }
-
-    if (char !== "\\" || depth !== 0) {
-      continue;
-    }
-
-    const parsedCommand = parseCommand(content, index);
-    if (!parsedCommand) {
-      continue;
-    }
-
-    if (parsedCommand.command !== command) {
-      index = parsedCommand.endIndex - 1;
-      continue;
-    }
+  instrument: TransposingInstrument,
+  direction: InstrumentDirection,
+  range: { start: number; end: number } = { start: 0, end: content.length },
+  options: PitchCollectOptions = {}
+): TextReplacement[] {
+  const tree = parseLilypond(content);
+  const events = collectPitchEvents(tree, options);
+  const inRange = (offset: number): boolean => offset >= range.start && offset < range.end;
+  const musicEvents = events.filter((event) => event.role !== "argument" && inRange(event.start));
+  const language = musicEvents[0]?.language ?? options.language ?? DEFAULT_NOTE_LANGUAGE;
+
+  const sounding = parsePitch(instrument.transposition);
+  if (!sounding) {
+    throw new Error(`Invalid transposition "${instrument.transposition}" for ${instrument.label}.`);
+  }
+  const [from, to] = direction === "written" ? [sounding, WRITTEN_REFERENCE] : [WRITTEN_REFERENCE, sounding];
+  const pitches = events.map((event) =>
+    event.role !== "argument" && inRange(event.start) ? transposePitch(event.pitch, from, to) : event.pitch
+  );
+  const edits = rewritePitchEvents(content, events, pitches);
+
+  const tokens = tree.tokens.filter((token) => !isCommentToken(token));
+  const statements = tokens.flatMap((token, index) => {
+    const argument = events.find((event) => event.role === "argument" && event.start === tokens[index + 1]?.start);
+    return token.text === "\\transposition" && inRange(token.start) && argument ? [{ command: token, argument }] : [];
+  });
+
+  if (direction === "concert") {
+    for (const { command, argument } of statements) {
+      const spaces = /^[ \t]*/.exec(content.slice(argument.end))?.[0].length ?? 0;
+      edits.push({ start: command.start, end: argument.end + spaces, newText: "" });
+    }
+    return edits;
+  }
 
-    const braceIndex = skipTrivia(content, parsedCommand.endIndex);
-    if (braceIndex >= content.length || content[braceIndex] !== "{") {
-      index = parsedCommand.endIndex - 1;
-      continue;
+  const transposition = formatPitch(sounding, language) ?? instrument.transposition;
+  for (const { argument } of statements) {
+    if (content.slice(argument.start, argument.end) !== transposition) {
+      edits.push({ start: argument.start, end: argument.end, newText: transposition });
     }
+  }
 
-    const closeBraceIndex = findMatchingBrace(content, braceIndex);
-    if (closeBraceIndex < 0) {
-      index = parsedCommand.endIndex - 1;
-      continue;
+  const firstNote = musicEvents.find((event) => event.role === "note");
+  if (statements.length === 0 && firstNote) {
+    const group = findGroupAt(tree, firstNote.start);
+    const insertAt = group.kind === "chord" ? group.start : firstNote.start;
+    const statement = `\\transposition ${transposition} `;
+    // The first note's own edit starts at the same offset; edits must not overlap.
+    const noteEdit = edits.find((edit) => edit.start === insertAt);
+    if (noteEdit) {
+      noteEdit.newText = `${statement}${noteEdit.newText}`;
+    } else {
+      edits.push({ start: insertAt, end: insertAt, newText: statement });
     }
-
-    blocks.push({ openBraceIndex: braceIndex, closeBraceIndex });
-    index = closeBraceIndex;
   }
 
-  return blocks;
+  return edits;
 }
 
-function parseCommand(content: string, index: number): { command: string; endIndex: number } | undefined {
-  if (content[index] !== "\\") {
-    return undefined;
-  }
-
-  let cursor = index + 1;
-  while (cursor < content.length && /[A-Za-z-]/.test(content[cursor])) {
-    cursor += 1;
-  }
+/** Note name language of the first pitch in `range`, in which transposition pitches are read. */
+export function findPitchLanguage(
+  content: string,
+  range: { start: number; end: number } = { start: 0, end: content.length },
+  options: PitchCollectOptions = {}
+): string {
+  const first = collectPitchEvents(parseLilypond(content), options).find(
+    (event) => event.role !== "argument" && event.start >= range.start && event.start < range.end
+  );
+  return first?.language ?? options.language ?? DEFAULT_NOTE_LANGUAGE;
+}
 
-  if (cursor === index + 1) {
+function wrapTopLevelScoreBlocks(content: string, fromPitch: string, toPitch: string): string | undefined {
+  const scoreBlocks = findTopLevelCommandBlocks(content, "score");
+  if (scoreBlocks.length === 0) {
     return undefined;
   }
 
-  return {
-    command: content.slice(index + 1, cursor),
-    endIndex: cursor
-  };
-}
-
-function skipTrivia(content: string, startIndex: number): number {
-  let cursor = startIndex;
-  while (cursor < content.length) {
-    const char = content[cursor];
-    if (/\s/.test(char)) {
-      cursor += 1;
-      continue;
-    }
+  let output = content;
+  let changed = false;
 
-    if (char === "%") {
-      cursor = skipToLineEnd(content, cursor) + 1;
+  for (let index = scoreBlocks.length - 1; index >= 0; index -= 1) {
+    const block = scoreBlocks[index];
+    const inner = output.slice(block.openBraceIndex + 1, block.closeBraceIndex);
+    if (isAlreadyTransposed(inner)) {
       continue;
     }
 
-    return cursor;
+    const wrappedInner = `\n${indentBlock(wrapTranspose(inner, fromPitch, toPitch))}\n`;
+    output = `${output.slice(0, block.openBraceIndex + 1)}${wrappedInner}${output.slice(block.closeBraceIndex)}`;
+    changed = true;
   }
 
-  return cursor;
+  return changed ? output : content;
 }
 
-function findMatchingBrace(content: string, openBraceIndex: number): number {
-  let depth = 1;
-
-  for (let index = openBraceIndex + 1; index < content.length; index += 1) {
-    const char = content[index];
-
-    if (char === "%") {
-      index = skipToLineEnd(content, index);
-      continue;
-    }
-
-    if (char === "\"") {
-      index = skipString(content, index);
-      continue;
-    }
+function findBodyStart(content: string): number {
+  const tokens = parseLilypond(content).tokens;
 
-    if (char === "{") {
-      depth += 1;
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    if (isCommentToken(token)) {
       continue;
     }
 
-    if (char === "}") {
-      depth -= 1;
-      if (depth === 0) {
-        return index;
+    if (token.kind === "command" && /^\\(version|include)$/.test(token.text)) {
+      if (tokens[index + 1]?.kind === "string") {
+        index += 1;
       }
-    }
-  }
-
-  return -1;
-}
-
-function skipString(content: string, startQuoteIndex: number): number {
-  for (let index = startQuoteIndex + 1; index < content.length; index += 1) {
-    const char = content[index];
-    if (char === "\\") {
-      index += 1;
       continue;
     }
 
-    if (char === "\"") {
-      return index;
-    }
+    return token.start;
   }
 
-  return content.length - 1;
+  return content.length;
 }
 
-function skipToLineEnd(content: string, startIndex: number): number {
-  let cursor = startIndex;
-  while (cursor < content.length && content[cursor] !== "\n") {
-    cursor += 1;
-  }
-  return cursor;
+function findTopLevelCommandBlocks(
+  content: string,
+  command: string
+): Array<{ openBraceIndex: number; closeBraceIndex: number }> {
+  return parseLilypond(content)
+    .root.children.filter((group) => group.kind === "sequential" && group.close && group.head[0]?.text === `\\${command}`)
+    .map((group) => ({
+      openBraceIndex: group.start,
+      closeBraceIndex: group.end - 1
+    }));
 }
 
 function isAlreadyTransposed(content: string): boolean {
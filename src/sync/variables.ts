@@ -0,0 +1,180 @@
+import { findTokenAt, parseLilypond, type ParseTree } from "../parser/parseTree";
+import type { Token } from "../parser/tokenizer";
+
+export type VariableOccurrence = {
+  name: string;
+  /** Range of the bare name, without the backslash of a reference or the quotes of a string name. */
+  start: number;
+  end: number;
+  isDefinition: boolean;
+};
+
+/** Characters before a Scheme use of a variable: `#name`, `$name`, `(f name)`, `#{ \name #}`. */
+const SCHEME_REFERENCE_PREFIX = /[\s(#$\\,@{]/;
+const SCHEME_REFERENCE_END = /[\s(){}"';#]/;
+
+/**
+ * Lists document-level `name = ...` definitions and `\name` references, optionally for a
+ * single name. References include every command token; callers decide which names are variables.
+ * Uses inside Scheme (`#name`, `$name`, `(ly:music-length name)` and `\name` in `#{ #}`) are
+ * only found when `name` is given.
+ */
+export function findVariableOccurrences(source: string | ParseTree, name?: string): VariableOccurrence[] {
+  const tree = typeof source === "string" ? parseLilypond(source) : source;
+  const definitions = new Set(tree.assignments.filter((item) => item.scope === tree.root).map((item) => item.nameToken));
+  const occurrences: VariableOccurrence[] = [];
+
+  for (const token of tree.tokens) {
+    if (definitions.has(token)) {
+      const quoted = token.kind === "string";
+      occurrences.push({
+        name: quoted ? token.text.slice(1, -1) : token.text,
+        start: quoted ? token.start + 1 : token.start,
+        end: quoted ? token.end - 1 : token.end,
+        isDefinition: true
+      });
+      continue;
+    }
+
+    if (token.kind === "command") {
+      occurrences.push({
+        name: token.text.slice(1),
+        start: token.start + 1,
+        end: token.end,
+        isDefinition: false
+      });
+    } else if (token.kind === "scheme" && name !== undefined) {
+      occurrences.push(...findSchemeReferences(token, name));
+    }
+  }
+
+  return name === undefined ? occurrences : occurrences.filter((item) => item.name === name);
+}
+
+/** Finds `name` as a whole identifier in a Scheme token, skipping strings and comments. */
+function findSchemeReferences(token: Token, name: string): VariableOccurrence[] {
+  const { text } = token;
+  const references: VariableOccurrence[] = [];
+
+  for (let index = 0; index < text.length; index += 1) {
+    if (text[index] === "\"") {
+      for (index += 1; index < text.length && text[index] !== "\""; index += 1) {
+        index += text[index] === "\\" ? 1 : 0;
+      }
+      continue;
+    }
+
+    if (text[index] === ";" || text[index] === "%") {
+      const lineEnd = text.indexOf("\n", index);
+      index = lineEnd < 0 ? text.length : lineEnd;
+      continue;
+    }
+
+    const end = index + name.length;
+    if (
+      text.startsWith(name, index) &&
+      SCHEME_REFERENCE_PREFIX.test(text[index - 1] ?? "") &&
+      (end === text.length || SCHEME_REFERENCE_END.test(text[end]))
+    ) {
+      references.push({ name, start: token.start + index, end: token.start + end, isDefinition: false });
+      index = end - 1;
+    }
+  }
+
+  return references;
+}
+
+/** `music-function` stands for any `define-*-function` value, `markup-command` also for markup list commands. */
+export type DefinitionKind = "variable" | "music-function" | "markup-command";
+
+export type VariableDefinition = {
+  name: string;
+  kind: DefinitionKind;
+  /** Range of the bare name. */
+  start: number;
+  end: number;
+  /** First line of the value, e.g. `\relative c'' {`. */
+  preview: string;
+};
+
+const FUNCTION_VALUE_PATTERN = /^#\(define-(?:music|event|scheme|void)-function\b/;
+const MARKUP_COMMAND_PATTERN = /^#\(define-markup(?:-list)?-command\s+\(\s*([^\s()]+)/;
+
+/**
+ * Lists what a file defines for use as `\name`: document-level variables, including
+ * `define-music-function` values, and commands from top-level `define-markup-command` forms.
+ */
+export function findDefinitions(source: string | ParseTree): VariableDefinition[] {
+  const tree = typeof source === "string" ? parseLilypond(source) : source;
+  const definitions: VariableDefinition[] = [];
+
+  for (const assignment of tree.assignments) {
+    if (assignment.scope !== tree.root) {
+      continue;
+    }
+
+    const value = tree.content.slice(assignment.valueStart, assignment.valueEnd).trim();
+    const quoted = assignment.nameToken.kind === "string";
+    definitions.push({
+      name: assignment.name,
+      kind: FUNCTION_VALUE_PATTERN.test(value) ? "music-function" : "variable",
+      start: assignment.nameToken.start + (quoted ? 1 : 0),
+      end: assignment.nameToken.end - (quoted ? 1 : 0),
+      preview: firstLine(value)
+    });
+  }
+
+  for (const token of tree.root.tokens) {
+    const match = token.kind === "scheme" ? token.text.match(MARKUP_COMMAND_PATTERN) : null;
+    if (match) {
+      const start = token.start + match[0].length - match[1].length;
+      definitions.push({ name: match[1], kind: "markup-command", start, end: start + match[1].length, preview: firstLine(token.text) });
+    }
+  }
+
+  return definitions.sort((a, b) => a.start - b.start);
+}
+
+function firstLine(text: string): string {
+  return text.split(/\r?\n/, 1)[0].trim();
+}
+
+export function findVariableAt(source: string | ParseTree, offset: number): VariableOccurrence | undefined {
+  const tree = typeof source === "string" ? parseLilypond(source) : source;
+  const token = findTokenAt(tree, offset);
+  if (!token) {
+    return undefined;
+  }
+
+  return findVariableOccurrences(tree).find((item) => item.start <= offset && offset <= item.end && item.start >= token.start && item.end <= token.end);
+}
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z\u00C0-\uFFFF]+(?:[-_][A-Za-z\u00C0-\uFFFF]+)*$/;
+
+/**
+ * Checks a new variable name before renaming. Returns a message describing the problem, or
+ * undefined when the name can be used.
+ */
+export function validateVariableName(
+  newName: string,
+  existingNames: Iterable<string>,
+  reservedNames: Iterable<string>
+): string | undefined {
+  if (!VARIABLE_NAME_PATTERN.test(newName)) {
+    return `"${newName}" is not a valid LilyPond variable name. Use letters, optionally joined by single - or _.`;
+  }
+
+  for (const reserved of reservedNames) {
+    if (reserved === newName) {
+      return `"\\${newName}" is a built-in LilyPond command.`;
+    }
+  }
+
+  for (const existing of existingNames) {
+    if (existing === newName) {
+      return `A variable named "${newName}" is already defined.`;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,40 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { computeFoldingRegions } = require("../dist/sync/folding.js");
+
+test("computeFoldingRegions folds bracket groups regardless of indentation", () => {
+  const source = [
+    "\\score {",
+    "<<",
+    "      \\new Staff { c4",
+    "  d e f }",
+    "  \\new Staff { g1 }",
+    ">>",
+    "}"
+  ].join("\n");
+
+  assert.deepEqual(computeFoldingRegions(source), [
+    { startLine: 0, endLine: 5 },
+    { startLine: 1, endLine: 4 },
+    { startLine: 2, endLine: 3 }
+  ]);
+});
+
+test("computeFoldingRegions folds block comments, Scheme forms and region markers", () => {
+  const source = [
+    "% region Intro",
+    "%{ copyist",
+    "   notes %}",
+    "#(define (twice x)",
+    "   (* 2 x))",
+    "% endregion",
+    "% { not a brace",
+    "{ c4 }"
+  ].join("\n");
+
+  assert.deepEqual(computeFoldingRegions(source), [
+    { startLine: 0, endLine: 5, kind: "region" },
+    { startLine: 1, endLine: 2, kind: "comment" },
+    { startLine: 3, endLine: 4 }
+  ]);
+});
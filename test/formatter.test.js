@@ -0,0 +1,32 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { formatLilypond } = require("../dist/sync/formatter.js");
+const { applyTextReplacements } = require("../dist/sync/musicPitches.js");
+
+const OPTIONS = { indentWidth: 2, useTabs: false, oneMeasurePerLine: false };
+
+function format(content, options = OPTIONS, range) {
+  return applyTextReplacements(content, formatLilypond(content, options, range));
+}
+
+test("formatLilypond indents by brace and << >> depth and spaces bar checks", () => {
+  const input = ["\\score {", "<<", "      \\new Staff { c4 d e f|g1 |   ", "a1", "}", ">>", "}"].join("\n");
+  assert.equal(
+    format(input),
+    ["\\score {", "  <<", "    \\new Staff { c4 d e f | g1 |", "      a1", "    }", "  >>", "}"].join("\n")
+  );
+});
+
+test("formatLilypond keeps Scheme, block comments and markup as written", () => {
+  const input = ["{", "#(define (f)", "      1)", "%{ keep", "     this %}", "\\markup {", "   \\bold   x|y", "}", "}"].join("\n");
+  assert.equal(
+    format(input),
+    ["{", "  #(define (f)", "      1)", "  %{ keep", "     this %}", "  \\markup {", "   \\bold   x|y", "  }", "}"].join("\n")
+  );
+});
+
+test("formatLilypond can put one measure per line and format a line range only", () => {
+  const input = "{\n\tc1 | d1 | % last\n  e1 | }\n";
+  assert.equal(format(input, { ...OPTIONS, indentWidth: 4, oneMeasurePerLine: true }), "{\n    c1 |\n    d1 | % last\n    e1 | }\n");
+  assert.equal(format(input, { ...OPTIONS, useTabs: true }, { startLine: 2, endLine: 2 }), "{\n\tc1 | d1 | % last\n\te1 | }\n");
+});
@@ -3,7 +3,18 @@ const assert = require("node:assert/strict");
 const fs = require("node:fs/promises");
 const path = require("node:path");
 const os = require("node:os");
-const { analyzeIncludeGraph, extractIncludeStatements } = require("../dist/sync/includeGraph.js");
+const {
+  analyzeIncludeGraph,
+  buildIncludeTree,
+  buildReverseIncludeIndex,
+  expandIncludeDirectories,
+  extractIncludeStatements,
+  findIncludeStatements,
+  findIncludingRoots,
+  getIncludeCandidates,
+  listIncludePathCompletions,
+  resolveInclude
+} = require("../dist/sync/includeGraph.js");
 
 test("extractIncludeStatements ignores commented include lines", () => {
   const content = [
@@ -19,6 +30,17 @@ test("extractIncludeStatements ignores commented include lines", () => {
   ]);
 });
 
+test("extractIncludeStatements skips includes inside block comments", () => {
+  const content = [
+    "%{",
+    '\\include "old.ily"',
+    "%}",
+    '\\include "new.ily"'
+  ].join("\n");
+
+  assert.deepEqual(extractIncludeStatements(content), [{ line: 4, includePath: "new.ily" }]);
+});
+
 test("analyzeIncludeGraph finds missing includes", async () => {
   const dir = await fs.mkdtemp(path.join(os.tmpdir(), "lilypond-inc-test-"));
   const root = path.join(dir, "root.ly");
@@ -40,3 +62,134 @@ test("analyzeIncludeGraph detects recursive includes", async () => {
   const result = await analyzeIncludeGraph(root);
   assert.ok(result.issues.some((issue) => issue.message.includes("Recursive include")));
 });
+
+test("analyzeIncludeGraph reads unsaved text from overrides", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "lilypond-inc-override-"));
+  const root = path.join(dir, "root.ly");
+  const notes = path.join(dir, "notes.ily");
+  await fs.writeFile(root, "{ c4 }\n", "utf8");
+  await fs.writeFile(notes, "{ d4 }\n", "utf8");
+
+  const result = await analyzeIncludeGraph(root, {}, new Map([[root, '\\include "notes.ily"\n{ c4 }\n']]));
+  assert.deepEqual(result.files, [root, notes]);
+});
+
+test("findIncludeStatements reports the path range inside the quotes", () => {
+  const content = '\\include "parts/violin.ily"';
+  const [include] = findIncludeStatements(content);
+
+  assert.equal(content.slice(include.pathStart, include.pathEnd), "parts/violin.ily");
+});
+
+test("getIncludeCandidates follows the including file, root and include directories", () => {
+  const candidates = getIncludeCandidates("style.ily", "/score/parts/violin.ily", {
+    rootDir: "/score",
+    includeDirs: ["/lib", "/score"]
+  });
+
+  assert.deepEqual(candidates, [
+    path.resolve("/score/parts/style.ily"),
+    path.resolve("/score/style.ily"),
+    path.resolve("/lib/style.ily")
+  ]);
+});
+
+test("analyzeIncludeGraph resolves nested includes against the root directory", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "lilypond-inc-root-"));
+  await fs.mkdir(path.join(dir, "parts"));
+  const root = path.join(dir, "root.ly");
+  await fs.writeFile(root, '\\include "parts/violin.ily"\n', "utf8");
+  await fs.writeFile(path.join(dir, "parts", "violin.ily"), '\\include "style.ily"\n', "utf8");
+  await fs.writeFile(path.join(dir, "style.ily"), "% style\n", "utf8");
+
+  const result = await analyzeIncludeGraph(root);
+  assert.deepEqual(result.issues, []);
+  assert.ok(result.files.includes(path.join(dir, "style.ily")));
+
+  const missing = await resolveInclude("absent.ily", path.join(dir, "parts", "violin.ily"), { rootDir: dir });
+  assert.equal(missing.status, "missing");
+  assert.equal(missing.candidates.length, 2);
+});
+
+test("listIncludePathCompletions lists directories and LilyPond files from every search directory", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "lilypond-inc-complete-"));
+  const lib = await fs.mkdtemp(path.join(os.tmpdir(), "lilypond-inc-lib-"));
+  await fs.mkdir(path.join(dir, "parts"));
+  await fs.mkdir(path.join(dir, ".git"));
+  await fs.writeFile(path.join(dir, "score.ly"), "", "utf8");
+  await fs.writeFile(path.join(dir, "notes.txt"), "", "utf8");
+  await fs.writeFile(path.join(dir, "parts", "violin.ily"), "", "utf8");
+  await fs.writeFile(path.join(lib, "style.ily"), "", "utf8");
+  await fs.writeFile(path.join(lib, "score.ly"), "", "utf8");
+  const options = { rootDir: dir, includeDirs: [lib] };
+
+  const top = await listIncludePathCompletions("sty", path.join(dir, "score.ly"), options);
+  assert.deepEqual(
+    top.map((item) => [item.name, item.isDirectory, item.filePath]),
+    [
+      ["parts", true, path.join(dir, "parts")],
+      ["score.ly", false, path.join(dir, "score.ly")],
+      ["style.ily", false, path.join(lib, "style.ily")]
+    ]
+  );
+
+  const nested = await listIncludePathCompletions("parts/v", path.join(dir, "score.ly"), options);
+  assert.deepEqual(nested.map((item) => item.name), ["violin.ily"]);
+});
+
+test("expandIncludeDirectories resolves workspace-relative entries", () => {
+  const workspace = path.resolve("/work/scores");
+
+  assert.deepEqual(expandIncludeDirectories(["lib", "${workspaceFolder}/shared", " ", "/abs/lib", "./lib"], workspace), [
+    path.join(workspace, "lib"),
+    path.join(workspace, "shared"),
+    path.resolve("/abs/lib")
+  ]);
+});
+
+test("findIncludingRoots walks the reverse include index up to .ly files", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "lilypond-inc-reverse-"));
+  await fs.mkdir(path.join(dir, "parts"));
+  const sources = [
+    { filePath: path.join(dir, "full-score.ly"), content: '\\include "parts/violin.ily"\n' },
+    { filePath: path.join(dir, "violin-part.ly"), content: '\\include "parts/violin.ily"\n' },
+    { filePath: path.join(dir, "parts", "violin.ily"), content: '\\include "notes.ily"\n' },
+    { filePath: path.join(dir, "parts", "notes.ily"), content: "notes = { c'4 }\n" },
+    { filePath: path.join(dir, "other.ly"), content: "{ d'4 }\n" }
+  ];
+  for (const source of sources) {
+    await fs.writeFile(source.filePath, source.content, "utf8");
+  }
+
+  const index = await buildReverseIncludeIndex(sources);
+
+  assert.deepEqual(index.get(path.join(dir, "parts", "notes.ily")), [path.join(dir, "parts", "violin.ily")]);
+  assert.deepEqual(findIncludingRoots(index, path.join(dir, "parts", "notes.ily")), [
+    path.join(dir, "full-score.ly"),
+    path.join(dir, "violin-part.ly")
+  ]);
+  assert.deepEqual(findIncludingRoots(index, path.join(dir, "other.ly")), []);
+});
+
+test("buildIncludeTree nests includes and flags missing files and cycles inline", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "lilypond-inc-tree-"));
+  const root = path.join(dir, "root.ly");
+  const a = path.join(dir, "a.ily");
+  const b = path.join(dir, "b.ily");
+
+  await fs.writeFile(root, '\\include "a.ily"\n\\include "style.ily"\n', "utf8");
+  await fs.writeFile(a, '\\include "b.ily"\n', "utf8");
+  await fs.writeFile(b, '\\include "a.ily"\n', "utf8");
+
+  const tree = buildIncludeTree(await analyzeIncludeGraph(root), root);
+  const [nodeA, style] = tree.children;
+
+  assert.equal(tree.filePath, root);
+  assert.equal(nodeA.filePath, a);
+  assert.equal(nodeA.children[0].filePath, b);
+  assert.equal(nodeA.children[0].children[0].issue.kind, "cycle");
+  assert.deepEqual(nodeA.children[0].children[0].children, []);
+  assert.equal(style.includePath, "style.ily");
+  assert.equal(style.line, 2);
+  assert.equal(style.issue.kind, "missing");
+});
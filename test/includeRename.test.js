@@ -0,0 +1,82 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const path = require("node:path");
+const { computeIncludeRenameEdits, mapMovedPath } = require("../dist/sync/includeRename.js");
+
+const dir = path.resolve("/work/score");
+
+function existsIn(files) {
+  const known = new Set(files.map((file) => path.join(dir, file)));
+  return (filePath) => known.has(filePath);
+}
+
+test("computeIncludeRenameEdits rewrites includes pointing at a moved file", () => {
+  const sources = [
+    { filePath: path.join(dir, "main.ly"), content: '\\version "2.24.0"\n\\include "parts/violin.ily"\n' },
+    { filePath: path.join(dir, "parts", "violin.ily"), content: "violin = { c'4 }\n" }
+  ];
+  const moves = [{ oldPath: path.join(dir, "parts", "violin.ily"), newPath: path.join(dir, "strings", "violin.ily") }];
+
+  const edits = computeIncludeRenameEdits(sources, moves, existsIn(["main.ly", "parts/violin.ily"]));
+
+  assert.deepEqual(edits, [
+    {
+      filePath: path.join(dir, "main.ly"),
+      start: { line: 1, character: 10 },
+      end: { line: 1, character: 26 },
+      newText: "strings/violin.ily"
+    }
+  ]);
+});
+
+test("computeIncludeRenameEdits keeps includes of a moved file working", () => {
+  const sources = [
+    { filePath: path.join(dir, "parts", "violin.ily"), content: '\\include "./notes.ily"\n\\include "../defs.ily"\n' },
+    { filePath: path.join(dir, "parts", "notes.ily"), content: "" },
+    { filePath: path.join(dir, "defs.ily"), content: "" }
+  ];
+  const moves = [{ oldPath: path.join(dir, "parts", "violin.ily"), newPath: path.join(dir, "violin.ily") }];
+
+  const edits = computeIncludeRenameEdits(sources, moves, existsIn(["parts/violin.ily", "parts/notes.ily", "defs.ily"]));
+
+  assert.deepEqual(
+    edits.map((edit) => edit.newText),
+    ["./parts/notes.ily", "defs.ily"]
+  );
+});
+
+test("computeIncludeRenameEdits follows folder moves and leaves unaffected includes alone", () => {
+  const sources = [
+    { filePath: path.join(dir, "main.ly"), content: '\\include "parts/violin.ily"\n\\include "defs.ily"\n' },
+    { filePath: path.join(dir, "parts", "violin.ily"), content: '\\include "notes.ily"\n' },
+    { filePath: path.join(dir, "parts", "notes.ily"), content: "" },
+    { filePath: path.join(dir, "defs.ily"), content: "" }
+  ];
+  const moves = [{ oldPath: path.join(dir, "parts"), newPath: path.join(dir, "instruments") }];
+
+  const edits = computeIncludeRenameEdits(
+    sources,
+    moves,
+    existsIn(["main.ly", "parts/violin.ily", "parts/notes.ily", "defs.ily"])
+  );
+
+  assert.deepEqual(
+    edits.map((edit) => [path.basename(edit.filePath), edit.newText]),
+    [["main.ly", "instruments/violin.ily"]]
+  );
+  assert.equal(mapMovedPath(path.join(dir, "parts", "notes.ily"), moves), path.join(dir, "instruments", "notes.ily"));
+});
+
+test("computeIncludeRenameEdits keeps include-directory paths relative to that directory", () => {
+  const lib = path.resolve("/work/lib");
+  const sources = [{ filePath: path.join(dir, "main.ly"), content: '\\include "styles/house.ily"\n' }];
+  const moves = [{ oldPath: path.join(lib, "styles", "house.ily"), newPath: path.join(lib, "styles", "house-style.ily") }];
+  const known = new Set([path.join(dir, "main.ly"), path.join(lib, "styles", "house.ily")]);
+
+  const edits = computeIncludeRenameEdits(sources, moves, (filePath) => known.has(filePath), { includeDirs: [lib] });
+
+  assert.deepEqual(
+    edits.map((edit) => edit.newText),
+    ["styles/house-style.ily"]
+  );
+});
@@ -0,0 +1,109 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  analyzeMeasures,
+  countMeasures,
+  findMeasurePosition,
+  findMeasureStart,
+  formatFraction,
+  getBeat
+} = require("../dist/sync/measures.js");
+
+function messages(content) {
+  return analyzeMeasures(content).diagnostics.map((diagnostic) => [
+    content.slice(0, diagnostic.start).split("|").length - 1,
+    diagnostic.message
+  ]);
+}
+
+test("analyzeMeasures reports measures that are too short or too long once", () => {
+  assert.deepEqual(messages("{ c4 d e | f1 | g1 | }"), [[0, "Bar check failed: measure 1 is 1/4 too short for 4/4."]]);
+  assert.deepEqual(messages("{ c1 | d1 e8 | f1 | }"), [[1, "Bar check failed: measure 2 is 1/8 too long for 4/4."]]);
+  assert.deepEqual(messages("{ c1 d1 e4 | }"), [[0, "Bar check failed: 1/4 into measure 3 (4/4)."]]);
+});
+
+test("analyzeMeasures checks measure lengths at \\bar and at the end of the music", () => {
+  const withBar = "{ \\time 3/4 c2. d2 \\bar \"|.\" }";
+  assert.deepEqual(
+    analyzeMeasures(withBar).diagnostics.map((diagnostic) => [withBar.slice(diagnostic.start, diagnostic.end), diagnostic.message]),
+    [["\\bar", "Measure 2 is 1/4 too short for 3/4 at \\bar."]]
+  );
+
+  const unfinished = "{ \\partial 4 c4 | d1 | e2 }";
+  assert.deepEqual(
+    analyzeMeasures(unfinished).diagnostics.map((diagnostic) => [diagnostic.start, diagnostic.message]),
+    [[unfinished.length - 1, "Measure 2 is 1/2 too short for 4/4 at the end of the music."]]
+  );
+
+  assert.deepEqual(messages("motif = { c8 d e f } { \\time 3/4 c2. \\bar \"||\" d2. \\bar \"|.\" }"), []);
+});
+
+test("analyzeMeasures follows time, partial, tuplets, grace notes and repeats", () => {
+  const source = [
+    "\\relative c' {",
+    "  \\time 3/4 \\partial 4 g4 | c2. |",
+    "  \\tuplet 3/2 { c8 d e } f2 | \\grace d16 c2. |",
+    "  \\repeat unfold 2 { c4 } d4 | \\repeat volta 2 { e2. | } \\alternative { { f2. | } { g2. | } }",
+    "  \\time 2,2,3 7/8 a4 b c4. | R8*7*2 |",
+    "}"
+  ].join("\n");
+  assert.deepEqual(messages(source), []);
+});
+
+test("analyzeMeasures checks each voice and carries time signatures lexically", () => {
+  assert.deepEqual(messages("{ \\time 6/8 c4. d | << { e2. | } \\\\ { f4 g | } >> a2. | }"), [
+    [2, "Bar check failed: measure 2 is 1/4 too short for 6/8."]
+  ]);
+  assert.deepEqual(messages("global = { \\time 3/4 } melody = { c2. | d2 e4 | }"), []);
+  assert.deepEqual(messages("\\chordmode { c2:m/g d | }"), []);
+});
+
+test("analyzeMeasures counts the file's variables where they are used", () => {
+  assert.deepEqual(messages("motif = { c4 d e f }\n{ \\motif g1 | }"), []);
+  assert.deepEqual(messages("motif = { c4 d e }\n{ \\motif g1 | }"), [[0, "Bar check failed: measure 1 is 3/4 too long for 4/4."]]);
+  assert.deepEqual(messages("global = { \\time 3/4 s2.*2 }\nmelody = { c2. | d2. | }\n\\score { << \\global \\melody >> }"), []);
+});
+
+test("analyzeMeasures skips measures with music of unknown length, cadenzas and measurePosition", () => {
+  const builtInCommands = new Set(["bar", "cadenzaOn", "cadenzaOff", "set"]);
+  const check = (content) => analyzeMeasures(content, { builtInCommands }).diagnostics.map((diagnostic) => diagnostic.message);
+
+  assert.deepEqual(check("{ \\violinI g1 | c2 | }"), ["Bar check failed: measure 2 is 1/2 too short for 4/4."]);
+  assert.deepEqual(check("{ c1 | \\cadenzaOn c8 d e f g a b c d e \\bar \"|\" \\cadenzaOff c1 | }"), []);
+  assert.deepEqual(check("{ c1 | \\set Timing.measurePosition = #(ly:make-moment -1/4) c4 | d1 | }"), []);
+});
+
+test("analyzeMeasures reports note positions with the pickup as measure 0", () => {
+  const { positions } = analyzeMeasures("{ \\partial 8 c8 | d1 | e2 f }");
+  assert.deepEqual(
+    positions.map((position) => `${position.measure}@${formatFraction(position.position)}`),
+    ["0@7/8", "1@0", "2@0", "2@1/2"]
+  );
+});
+
+test("findMeasureStart jumps within the voice under the cursor", () => {
+  const source = "{ c1 | << { d1 | e1 | } \\\\ { f1 | g2 a | } >> b1 | R1*3 | c1 }";
+  const analysis = analyzeMeasures(source);
+  const lower = source.indexOf("f1");
+  assert.equal(findMeasureStart(analysis, lower, 3).start, source.indexOf("g2"));
+  assert.equal(findMeasureStart(analysis, source.indexOf("d1"), 3).start, source.indexOf("e1"));
+  assert.equal(findMeasureStart(analysis, lower, 4).start, source.indexOf("b1"));
+  assert.equal(findMeasureStart(analysis, 0, 6).start, source.indexOf("R1"));
+  assert.equal(findMeasureStart(analysis, 0, 8).start, source.indexOf("c1 }"));
+  assert.equal(findMeasureStart(analysis, 0, 9), undefined);
+  assert.equal(countMeasures(analysis, 0), 8);
+  assert.equal(countMeasures(analysis, lower), 8);
+  const pieces = "{ c1 d1 | e1 } { f1 }";
+  assert.equal(countMeasures(analyzeMeasures(pieces), pieces.indexOf("f1")), 1);
+  assert.equal(countMeasures(analyzeMeasures("\\header { title = \"x\" }"), 0), 0);
+});
+
+test("getBeat counts in the note value of the time signature", () => {
+  const source = "{ \\time 6/8 c8 d e f4 g8 }";
+  const analysis = analyzeMeasures(source);
+  assert.deepEqual(
+    analysis.positions.map((position) => getBeat(position)),
+    [1, 2, 3, 4, 6]
+  );
+  assert.equal(findMeasurePosition(analysis, source.indexOf("f4") + 1).start, source.indexOf("f4"));
+});
@@ -0,0 +1,44 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { parseLilypond } = require("../dist/parser/parseTree.js");
+const { findInputModeAt, findModeCompletion } = require("../dist/sync/modeCompletion.js");
+const { getSignatureInfo, LILYPOND_LYRIC_COMMANDS } = require("../dist/language/lilypondData.js");
+
+/** Input mode with the cursor at `|`. */
+function modeAt(source) {
+  return findInputModeAt(parseLilypond(source.replace("|", "")), source.indexOf("|"), getSignatureInfo);
+}
+
+test("findInputModeAt follows mode commands and markup arguments", () => {
+  assert.equal(modeAt("\\chordmode { c:m7 | }"), "chords");
+  assert.equal(modeAt("\\drummode { bd4 | }"), "drums");
+  assert.equal(modeAt("\\new Lyrics \\lyricmode { la | }"), "lyrics");
+  assert.equal(modeAt("\\markup { \\bold | }"), "markup");
+  assert.equal(modeAt("c4^\\markup \\bold \\it|"), "markup");
+  assert.equal(modeAt("\\relative { c4 \\st| }"), "notes");
+});
+
+test("findModeCompletion finds chord modifiers and bass notes in chord mode", () => {
+  assert.deepEqual(findModeCompletion("  c2:m", "chords"), { kind: "chordModifier", prefix: "m" });
+  assert.deepEqual(findModeCompletion("{ fis4.:", "chords"), { kind: "chordModifier", prefix: "" });
+  assert.deepEqual(findModeCompletion("c:7.9-", "chords"), { kind: "chordModifier", prefix: "7.9-" });
+  assert.deepEqual(findModeCompletion("c:m7/", "chords"), { kind: "chordBass", prefix: "" });
+  assert.deepEqual(findModeCompletion("g/+b", "chords"), { kind: "chordBass", prefix: "+b" });
+  assert.equal(findModeCompletion("c:m", "notes"), undefined);
+  assert.equal(findModeCompletion("c2 d", "chords"), undefined);
+});
+
+test("findModeCompletion finds drum names in drum mode only", () => {
+  assert.deepEqual(findModeCompletion("  bd4 s", "drums"), { kind: "drumPitch", prefix: "s" });
+  assert.deepEqual(findModeCompletion("<hh", "drums"), { kind: "drumPitch", prefix: "hh" });
+  assert.equal(findModeCompletion("  bd4 ", "drums"), undefined);
+  assert.equal(findModeCompletion("\\ove", "drums"), undefined);
+  assert.equal(findModeCompletion("  s", "notes"), undefined);
+});
+
+test("lyric commands are a subset of the music commands", () => {
+  const names = LILYPOND_LYRIC_COMMANDS.map((command) => command.name);
+  assert.ok(names.includes("skip"));
+  assert.ok(names.includes("lyricsto"));
+  assert.ok(!names.includes("relative"));
+});
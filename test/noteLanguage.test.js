@@ -0,0 +1,61 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const path = require("node:path");
+const { parseLilypond } = require("../dist/parser/parseTree.js");
+const { findIncomingNoteLanguage, findLanguageAfterInclude } = require("../dist/sync/noteLanguage.js");
+const { translateNoteNames } = require("../dist/sync/noteTranslation.js");
+
+function createSources(files) {
+  const trees = new Map(Object.entries(files).map(([filePath, content]) => [path.resolve(filePath), parseLilypond(content)]));
+  return {
+    files: trees,
+    resolveInclude: (includePath, fromFile) => {
+      const candidate = path.resolve(path.dirname(fromFile), includePath);
+      return trees.has(candidate) ? candidate : undefined;
+    }
+  };
+}
+
+test("findIncomingNoteLanguage follows includes in order", () => {
+  const sources = createSources({
+    "/song/main.ly": "\\include \"a.ily\"\n\\language \"deutsch\"\n\\include \"b.ily\"\n",
+    "/song/a.ily": "\\include \"lang.ily\"\n",
+    "/song/lang.ily": "\\language \"english\"\n",
+    "/song/b.ily": "{ h b }\n"
+  });
+
+  assert.equal(findIncomingNoteLanguage("/song/main.ly", "/song/b.ily", sources), "deutsch");
+  assert.equal(findIncomingNoteLanguage("/song/main.ly", "/song/lang.ily", sources), "nederlands");
+  assert.equal(findIncomingNoteLanguage("/song/main.ly", "/song/main.ly", sources), "nederlands");
+});
+
+test("findLanguageAfterInclude carries languages set in included files", () => {
+  const sources = createSources({
+    "/song/main.ly": "\\include \"lang.ily\"\n{ fs }\n",
+    "/song/lang.ily": "\\include \"english.ly\"\n",
+    "/song/empty.ily": "% nothing\n"
+  });
+
+  assert.equal(findLanguageAfterInclude("lang.ily", "/song/main.ly", "nederlands", sources), "english");
+  assert.equal(findLanguageAfterInclude("empty.ily", "/song/main.ly", "italiano", sources), "italiano");
+});
+
+test("translateNoteNames rewrites pitches and the language statement", () => {
+  const input = "\\language \"english\"\n\\relative c' { \\key bf \\major bf4 ef fs <a cs e>8 \\transpose c d { css } }\n";
+  assert.equal(
+    translateNoteNames(input, "deutsch"),
+    "\\language \"deutsch\"\n\\relative c' { \\key b \\major b4 es fis <a cis e>8 \\transpose c d { cisis } }\n"
+  );
+});
+
+test("translateNoteNames adds a language statement after the version", () => {
+  const input = "\\version \"2.24.0\"\n{ bes'4 es'' }\n";
+  assert.equal(
+    translateNoteNames(input, "italiano"),
+    "\\version \"2.24.0\"\n\\language \"italiano\"\n{ sib'4 mib'' }\n"
+  );
+});
+
+test("translateNoteNames reads pitches in the inherited language", () => {
+  assert.equal(translateNoteNames("{ h b }", "english", { language: "deutsch" }), "\\language \"english\"\n\n{ b bf }");
+});
@@ -0,0 +1,110 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { findGroupAt, parseLilypond, positionAt } = require("../dist/parser/parseTree.js");
+const { getParseTree, getParseTreeForContent } = require("../dist/parser/documentCache.js");
+
+test("parseLilypond records group heads and commands", () => {
+  const source = "\\score { \\new Staff = \"vl\" \\with { \\consists x } \\relative c' { c4 } }";
+  const tree = parseLilypond(source);
+
+  const score = tree.root.children[0];
+  assert.equal(score.command, "score");
+
+  const [withBlock, music] = score.children;
+  assert.equal(withBlock.command, "with");
+  assert.equal(music.command, "new");
+  assert.deepEqual(
+    music.head.map((token) => token.text),
+    ["\\new", "Staff", "=", "\"vl\"", "\\with", "\\relative", "c", "'"]
+  );
+});
+
+test("parseLilypond keeps the context chain for music right after a with block", () => {
+  const tree = parseLilypond("\\new Staff \\with { \\consists x } { c4 }");
+  const music = tree.root.children[1];
+  assert.equal(music.command, "new");
+  assert.deepEqual(
+    music.head.map((token) => token.text),
+    ["\\new", "Staff", "\\with"]
+  );
+});
+
+test("parseLilypond stops group heads at music variables", () => {
+  const tree = parseLilypond("<< \\new Staff \\melody \\new Lyrics \\lyricsto \"v\" { la } >>");
+  const lyrics = tree.root.children[0].children[0];
+
+  assert.equal(lyrics.command, "new");
+  assert.equal(lyrics.head[1].text, "Lyrics");
+  assert.equal(lyrics.mode, "lyrics");
+});
+
+test("parseLilypond tracks input modes", () => {
+  const source = "\\chordmode { c:m } \\markup \\bold { x } \\drummode { bd4 }";
+  const tree = parseLilypond(source);
+
+  assert.deepEqual(
+    tree.root.children.map((group) => group.mode),
+    ["chords", "markup", "drums"]
+  );
+  assert.equal(findGroupAt(tree, source.indexOf("c:m")).mode, "chords");
+});
+
+test("parseLilypond ignores brackets in comments, strings and Scheme", () => {
+  const source = ["%{ { %}", "\\header { title = \"}\" }", "#(display \"{\")", "{ c4 }"].join("\n");
+  const tree = parseLilypond(source);
+
+  assert.equal(tree.root.children.length, 2);
+  assert.equal(tree.root.children[0].command, "header");
+  assert.equal(positionAt(tree, tree.root.children[0].end).line, 1);
+});
+
+test("parseLilypond collects assignments with value extents", () => {
+  const source = [
+    "melody = \\relative c' {",
+    "  c4 d e='4",
+    "}",
+    "\\header { title = \"Demo\" composer = \"Me\" }",
+    "\\new Staff = \"x\" { \\set Staff.instrumentName = \"Vl\" }"
+  ].join("\n");
+  const tree = parseLilypond(source);
+
+  assert.deepEqual(
+    tree.assignments.map((assignment) => assignment.name),
+    ["melody", "title", "composer"]
+  );
+  assert.equal(positionAt(tree, tree.assignments[0].valueEnd).line, 2);
+  assert.equal(source.slice(tree.assignments[1].valueStart, tree.assignments[1].valueEnd).trim(), "\"Demo\"");
+});
+
+test("parseLilypond closes unterminated chords at the enclosing brace", () => {
+  const tree = parseLilypond("{ <c e g } d");
+  const music = tree.root.children[0];
+
+  assert.ok(music.close);
+  assert.equal(music.children[0].kind, "chord");
+  assert.equal(tree.root.tokens[0].text, "d");
+});
+
+test("getParseTree caches trees per document version", () => {
+  let text = "{ c4 }";
+  const document = { uri: "file:///cache.ly", version: 1, getText: () => text };
+
+  const first = getParseTree(document);
+  assert.equal(getParseTree(document), first);
+
+  text = "{ c4 d4 }";
+  document.version = 2;
+  const second = getParseTree(document);
+  assert.notEqual(second, first);
+  assert.equal(second.tokens.length, 6);
+});
+
+test("getParseTreeForContent drops the least recently used trees", () => {
+  const first = getParseTreeForContent("file:///lru-0.ily", "{ c4 }");
+  const kept = getParseTreeForContent("file:///lru-1.ily", "{ d4 }");
+  for (let index = 2; index < 201; index += 1) {
+    getParseTreeForContent(`file:///lru-${index}.ily`, "{ e4 }");
+    assert.equal(getParseTreeForContent("file:///lru-1.ily", "{ d4 }"), kept);
+  }
+  assert.notEqual(getParseTreeForContent("file:///lru-0.ily", "{ c4 }"), first);
+});
@@ -0,0 +1,61 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  enharmonicSpellings,
+  formatPitch,
+  getKeySignature,
+  parseNoteName,
+  parsePitch,
+  resolveRelativeOctave,
+  transposePitch
+} = require("../dist/sync/pitch.js");
+
+test("parseNoteName reads Dutch names including contracted flats", () => {
+  assert.deepEqual(parseNoteName("fis"), { step: 3, alteration: 1 });
+  assert.deepEqual(parseNoteName("as"), { step: 5, alteration: -1 });
+  assert.deepEqual(parseNoteName("aes"), { step: 5, alteration: -1 });
+  assert.deepEqual(parseNoteName("eeh"), { step: 2, alteration: -0.5 });
+  assert.equal(parseNoteName("h"), undefined);
+});
+
+test("transposePitch keeps the spelling of the interval", () => {
+  const from = parsePitch("c");
+  assert.equal(formatPitch(transposePitch(parsePitch("b'"), from, parsePitch("d"))), "cis''");
+  assert.equal(formatPitch(transposePitch(parsePitch("e"), from, parsePitch("es"))), "g");
+  assert.equal(formatPitch(transposePitch(parsePitch("fis"), from, parsePitch("bes,"))), "e");
+  assert.equal(formatPitch(transposePitch(parsePitch("fisis"), from, parsePitch("dis"))), "ais");
+});
+
+test("transposePitch respells results beyond double accidentals", () => {
+  const result = transposePitch(parsePitch("bisis"), parsePitch("c"), parsePitch("cis"));
+  assert.equal(formatPitch(result), "cisis'");
+});
+
+test("resolveRelativeOctave picks the closest octave within a fourth", () => {
+  const previous = parsePitch("c'");
+  assert.equal(resolveRelativeOctave(previous, 4), 0);
+  assert.equal(resolveRelativeOctave(previous, 3), 1);
+  assert.equal(resolveRelativeOctave(parsePitch("b"), 0), 1);
+});
+
+test("note names follow the selected language", () => {
+  assert.deepEqual(parseNoteName("fs", "english"), { step: 3, alteration: 1 });
+  assert.deepEqual(parseNoteName("b", "deutsch"), { step: 6, alteration: -1 });
+  assert.deepEqual(parseNoteName("h", "deutsch"), { step: 6, alteration: 0 });
+  assert.deepEqual(parseNoteName("sib", "italiano"), { step: 6, alteration: -1 });
+  assert.equal(parseNoteName("hes", "deutsch"), undefined);
+  assert.equal(formatPitch(parsePitch("bf,", "english"), "deutsch"), "b,");
+  assert.equal(formatPitch(parsePitch("fisis''"), "english"), "fss''");
+});
+
+test("getKeySignature follows the circle of fifths and church modes", () => {
+  assert.deepEqual(getKeySignature(parseNoteName("d"), "major"), [1, 0, 0, 1, 0, 0, 0]);
+  assert.deepEqual(getKeySignature(parseNoteName("c"), "minor"), [0, 0, -1, 0, 0, -1, -1]);
+  assert.deepEqual(getKeySignature(parseNoteName("e"), "dorian"), [1, 0, 0, 1, 0, 0, 0]);
+  assert.equal(getKeySignature(parseNoteName("c"), "blues"), undefined);
+});
+
+test("enharmonicSpellings lists spellings up to double accidentals", () => {
+  const spellings = enharmonicSpellings(parsePitch("fis'")).map((pitch) => formatPitch(pitch));
+  assert.deepEqual(spellings, ["eisis'", "fis'", "ges'"]);
+});
@@ -0,0 +1,75 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { findPropertyCompletion } = require("../dist/sync/propertyCompletion.js");
+const {
+  findContextProperty,
+  findGrob,
+  findGrobProperty,
+  getGrobProperties,
+  getPropertyValues
+} = require("../dist/language/lilypondInternals.js");
+
+test("findPropertyCompletion reads dotted paths after property commands", () => {
+  assert.deepEqual(findPropertyCompletion("  \\override Staff.TimeSignature."), {
+    kind: "grob",
+    command: "override",
+    path: ["Staff", "TimeSignature"],
+    prefix: ""
+  });
+  assert.deepEqual(findPropertyCompletion("\\once \\hide Sta"), { kind: "grob", command: "hide", path: [], prefix: "Sta" });
+  assert.deepEqual(findPropertyCompletion("\\set Score.bar"), { kind: "set", command: "set", path: ["Score"], prefix: "bar" });
+  assert.deepEqual(findPropertyCompletion("\\new "), { kind: "context", command: "new", path: [], prefix: "" });
+  assert.equal(findPropertyCompletion("c4 d e f"), undefined);
+});
+
+test("findPropertyCompletion finds values after = and after \\tweak properties", () => {
+  assert.deepEqual(findPropertyCompletion("\\override Stem.direction = #"), {
+    kind: "grobValue",
+    command: "override",
+    path: ["Stem", "direction"],
+    prefix: "#"
+  });
+  assert.deepEqual(findPropertyCompletion("c4-\\tweak color #r"), {
+    kind: "grobValue",
+    command: "tweak",
+    path: ["color"],
+    prefix: "#r"
+  });
+  assert.deepEqual(findPropertyCompletion("\\set Staff.autoBeaming = ##"), {
+    kind: "contextValue",
+    command: "set",
+    path: ["Staff", "autoBeaming"],
+    prefix: "##"
+  });
+});
+
+test("findPropertyCompletion offers bare context properties only inside context blocks", () => {
+  assert.equal(findPropertyCompletion("  instr"), undefined);
+  assert.deepEqual(findPropertyCompletion("  instr", true), { kind: "set", command: "with", path: [], prefix: "instr" });
+  assert.deepEqual(findPropertyCompletion("\\with { midiInstrument = ", true), {
+    kind: "contextValue",
+    command: "with",
+    path: ["midiInstrument"],
+    prefix: ""
+  });
+  assert.equal(findPropertyCompletion("  \\consists ", true), undefined);
+});
+
+test("getGrobProperties combines the grob's interfaces with the common ones", () => {
+  const names = getGrobProperties(findGrob("TimeSignature")).map((item) => item.name);
+
+  assert.ok(names.includes("style"));
+  assert.ok(names.includes("font-size"));
+  assert.ok(names.includes("break-visibility"));
+  assert.ok(names.includes("color"));
+  assert.ok(!names.includes("minimum-length"));
+  assert.deepEqual(names, [...names].sort((a, b) => a.localeCompare(b)));
+});
+
+test("getPropertyValues suggests values by property type", () => {
+  assert.deepEqual(getPropertyValues(findContextProperty("autoBeaming")), ["##t", "##f"]);
+  assert.deepEqual(getPropertyValues(findGrobProperty("direction", findGrob("Stem"))), ["#UP", "#DOWN", "#CENTER"]);
+  assert.ok(getPropertyValues(findGrobProperty("color")).includes("#red"));
+  assert.ok(getPropertyValues(findGrobProperty("style", findGrob("NoteHead"))).includes("#'cross"));
+  assert.ok(getPropertyValues(findGrobProperty("style", findGrob("TimeSignature"))).includes("#'single-digit"));
+});
@@ -0,0 +1,55 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { convertAbsoluteToRelative, convertRelativeToAbsolute } = require("../dist/sync/relativePitches.js");
+
+test("convertRelativeToAbsolute follows the fourth rule, chords and octave checks", () => {
+  const input = "\\relative c'' { g4 b d g, <c e g>2 c='8 \\octaveCheck c'' e }";
+  assert.equal(
+    convertRelativeToAbsolute(input),
+    "{ g'4 b' d'' g' <c'' e'' g''>2 c'='8 \\octaveCheck c'' e'' }"
+  );
+});
+
+test("convertRelativeToAbsolute keeps the context chain and handles a missing start pitch", () => {
+  assert.equal(
+    convertRelativeToAbsolute("\\new Staff \\relative { c'4 f b e }"),
+    "\\new Staff { c'4 f' b' e'' }"
+  );
+});
+
+test("convertRelativeToAbsolute chains the voices of << >> like LilyPond", () => {
+  assert.equal(
+    convertRelativeToAbsolute("\\relative c' { << { c e } \\\\ { g c } >> d }"),
+    "{ << { c' e' } \\\\ { g' c'' } >> d'' }"
+  );
+});
+
+test("octave conversions round-trip through << >> voices", () => {
+  const input = "\\relative c' { << { c e } \\\\ { g, c } >> d }";
+  assert.equal(convertRelativeToAbsolute(input), "{ << { c' e' } \\\\ { g c' } >> d' }");
+  assert.equal(convertAbsoluteToRelative(convertRelativeToAbsolute(input)), input);
+});
+
+test("convertRelativeToAbsolute converts only blocks touching the range", () => {
+  const input = "a = \\relative c' { c e }\nb = \\relative c' { d f }\n";
+  const start = input.indexOf("d f");
+  assert.equal(convertRelativeToAbsolute(input, { start, end: start + 1 }), "a = \\relative c' { c e }\nb = { d' f' }\n");
+});
+
+test("convertAbsoluteToRelative wraps the outermost music blocks", () => {
+  const input = "\\score { \\new Staff { g'4 b' d'' <c'' e'' g''>2 } \\layout { } }";
+  assert.equal(
+    convertAbsoluteToRelative(input),
+    "\\score { \\new Staff \\relative c'' { g4 b d <c e g>2 } \\layout { } }"
+  );
+});
+
+test("convertAbsoluteToRelative leaves transposed music absolute", () => {
+  const input = "{ c4 g' \\transpose c d { e f } a }";
+  assert.equal(convertAbsoluteToRelative(input), "\\relative c { c4 g'' \\transpose c d { e f } a, }");
+});
+
+test("octave conversions round-trip", () => {
+  const input = "\\relative c' { c4 g' <c, e g> b' c d,, }";
+  assert.equal(convertAbsoluteToRelative(convertRelativeToAbsolute(input)), input);
+});
@@ -0,0 +1,29 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { applyTextReplacements } = require("../dist/sync/musicPitches.js");
+const { respellPitches } = require("../dist/sync/respell.js");
+
+function respell(content, mode, range, options) {
+  return applyTextReplacements(content, respellPitches(content, mode, range, options));
+}
+
+test("respellPitches prefers sharps or flats with the fewest accidentals", () => {
+  const input = "{ ces'4 bes' <es' gis'> fisis' }";
+  assert.equal(respell(input, "sharps"), "{ b4 ais' <dis' gis'> g' }");
+  assert.equal(respell(input, "flats"), "{ b4 bes' <es' as'> g' }");
+});
+
+test("respellPitches removes double accidentals only", () => {
+  assert.equal(respell("{ cisis'4 eses' eisis' fis' }", "doubles"), "{ d'4 d' fis' fis' }");
+});
+
+test("respellPitches follows the key in effect", () => {
+  const input = "{ \\key d \\major ges'4 des' \\key f \\major ais' cis' \\key es \\minor fis' }";
+  assert.equal(respell(input, "key"), "{ \\key d \\major fis'4 cis' \\key f \\major bes' cis' \\key es \\minor ges' }");
+});
+
+test("respellPitches keeps relative octaves and stays inside the range", () => {
+  const input = "\\relative c'' { ces4 f ces }";
+  const start = input.indexOf("ces");
+  assert.equal(respell(input, "sharps", { start, end: start + 3 }), "\\relative c'' { b4 f' ces }");
+});
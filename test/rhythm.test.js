@@ -0,0 +1,65 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { applyTextReplacements } = require("../dist/sync/musicPitches.js");
+const {
+  applyDurationPattern,
+  collectRhythmEvents,
+  makeDurationsExplicit,
+  parseDuration,
+  removeRedundantDurations,
+  scaleDurations
+} = require("../dist/sync/rhythm.js");
+
+const apply = (content, edits) => applyTextReplacements(content, edits);
+
+test("parseDuration reads dots, multipliers and long durations", () => {
+  assert.deepEqual(parseDuration("8.."), { base: 3, dots: 2, multiplier: "" });
+  assert.deepEqual(parseDuration("\\breve*3/2"), { base: -1, dots: 0, multiplier: "*3/2" });
+  assert.equal(parseDuration("3"), undefined);
+});
+
+test("collectRhythmEvents carries durations over and skips markup, strings and chord notes", () => {
+  const events = collectRhythmEvents("{ c8 <d f> \\markup { \"a\" 4 } r4. e #(list 2) }");
+  assert.deepEqual(
+    events.map((event) => [event.written !== undefined, event.duration.base, event.duration.dots]),
+    [
+      [true, 3, 0],
+      [false, 3, 0],
+      [true, 2, 1],
+      [false, 2, 1]
+    ]
+  );
+  assert.equal(collectRhythmEvents("\\chordmode { c2:m/g d/+a }").length, 2);
+});
+
+test("scaleDurations doubles and halves notes, rests, chords and \\partial", () => {
+  const input = "{ \\partial 4 c4 d8. e16 <c e>2 R1*4 f\\breve g }";
+  assert.equal(apply(input, scaleDurations(input, 1)), "{ \\partial 2 c2 d4. e8 <c e>1 R\\breve*4 f\\longa g }");
+  assert.equal(apply(input, scaleDurations(input, -1)), "{ \\partial 8 c8 d16. e32 <c e>4 R2*4 f1 g }");
+  assert.equal(scaleDurations("{ c\\maxima }", 1), undefined);
+});
+
+test("scaleDurations scales the span of \\tuplet with its notes", () => {
+  const input = "{ \\tuplet 3/2 8 { c16 d e f g a } b4 }";
+  assert.equal(apply(input, scaleDurations(input, 1)), "{ \\tuplet 3/2 4 { c8 d e f g a } b2 }");
+});
+
+test("scaleDurations keeps notes around the range at their duration", () => {
+  const input = "{ c4 d e f }";
+  const start = input.indexOf("d");
+  assert.equal(apply(input, scaleDurations(input, -1, { start, end: start + 3 })), "{ c4 d8 e f4 }");
+});
+
+test("makeDurationsExplicit and removeRedundantDurations are inverse", () => {
+  const input = "{ c4 d e8 f g4 a }";
+  const explicit = apply(input, makeDurationsExplicit(input));
+  assert.equal(explicit, "{ c4 d4 e8 f8 g4 a4 }");
+  assert.equal(apply(explicit, removeRedundantDurations(explicit)), input);
+});
+
+test("applyDurationPattern repeats the pattern over the selected notes", () => {
+  const input = "{ c4 d e f g a }";
+  const range = { start: input.indexOf("c"), end: input.indexOf("g") + 1 };
+  assert.equal(apply(input, applyDurationPattern(input, "8. 16", range)), "{ c8. d16 e8. f16 g8. a4 }");
+  assert.equal(applyDurationPattern(input, "8 x", range), undefined);
+});
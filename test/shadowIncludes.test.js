@@ -0,0 +1,68 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("node:fs/promises");
+const path = require("node:path");
+const os = require("node:os");
+const { buildShadowIncludeTree, restoreShadowPaths } = require("../dist/sync/shadowIncludes.js");
+
+async function createProject() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "lilypond-shadow-"));
+  await fs.mkdir(path.join(dir, "parts"));
+  await fs.writeFile(path.join(dir, "root.ly"), '\\include "parts/violin.ily"\n\\include "defs.ily"\n', "utf8");
+  await fs.writeFile(path.join(dir, "defs.ily"), "tempoMark = \\tempo 4 = 60\n", "utf8");
+  await fs.writeFile(path.join(dir, "parts", "violin.ily"), '\\include "notes.ily"\nviolin = \\notes\n', "utf8");
+  await fs.writeFile(path.join(dir, "parts", "notes.ily"), "notes = { c'4 }\n", "utf8");
+  return dir;
+}
+
+test("buildShadowIncludeTree writes only the root when no include is unsaved", async () => {
+  const dir = await createProject();
+  const rootContent = await fs.readFile(path.join(dir, "root.ly"), "utf8");
+
+  const result = await buildShadowIncludeTree({
+    rootPath: path.join(dir, "root.ly"),
+    rootContent,
+    rootShadowPath: path.join(dir, "cache", "input.ly"),
+    shadowDir: path.join(dir, "cache", "includes"),
+    overrides: new Map()
+  });
+
+  assert.deepEqual(result.files, [
+    { sourcePath: path.join(dir, "root.ly"), shadowPath: path.join(dir, "cache", "input.ly"), content: rootContent }
+  ]);
+});
+
+test("buildShadowIncludeTree copies unsaved includes and the files including them", async () => {
+  const dir = await createProject();
+  const notesPath = path.join(dir, "parts", "notes.ily");
+  const rootContent = await fs.readFile(path.join(dir, "root.ly"), "utf8");
+
+  const result = await buildShadowIncludeTree({
+    rootPath: path.join(dir, "root.ly"),
+    rootContent,
+    rootShadowPath: path.join(dir, "cache", "input.ly"),
+    shadowDir: path.join(dir, "cache", "includes"),
+    overrides: new Map([[notesPath, "notes = { d'4 }\n"]])
+  });
+
+  const byName = new Map(result.files.map((file) => [path.basename(file.sourcePath), file]));
+  assert.deepEqual([...byName.keys()], ["root.ly", "violin.ily", "notes.ily"]);
+  assert.equal(byName.get("notes.ily").content, "notes = { d'4 }\n");
+
+  const violinShadow = byName.get("violin.ily").shadowPath;
+  const notesShadow = byName.get("notes.ily").shadowPath;
+  assert.equal(byName.get("violin.ily").content, `\\include "${notesShadow}"\nviolin = \\notes\n`);
+  assert.equal(
+    byName.get("root.ly").content,
+    `\\include "${violinShadow}"\n\\include "${path.join(dir, "defs.ily")}"\n`
+  );
+  assert.equal(result.pathMap.get(notesShadow), notesPath);
+});
+
+test("restoreShadowPaths maps LilyPond messages back to source files", () => {
+  const pathMap = new Map([["/cache/includes/1/notes.ily", "/score/parts/notes.ily"]]);
+  assert.equal(
+    restoreShadowPaths("/cache/includes/1/notes.ily:1:10: error: not a note name", pathMap),
+    "/score/parts/notes.ily:1:10: error: not a note name"
+  );
+});
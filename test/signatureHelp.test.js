@@ -0,0 +1,69 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { parseLilypond } = require("../dist/parser/parseTree.js");
+const { findActiveCall } = require("../dist/sync/signatureHelp.js");
+const {
+  findCommand,
+  getParameterOffsets,
+  getSignatureInfo,
+  LILYPOND_KEYWORDS
+} = require("../dist/language/lilypondData.js");
+
+/** Runs the matcher with the cursor at `|` and returns `\command index`. */
+function activeCall(source) {
+  const offset = source.indexOf("|");
+  const call = findActiveCall(parseLilypond(source.replace("|", "")), offset, getSignatureInfo);
+  return call ? `${call.command.text} ${call.activeParameter}` : undefined;
+}
+
+test("findActiveCall matches arguments to parameters by type", () => {
+  assert.equal(activeCall("\\tuplet |"), "\\tuplet 0");
+  assert.equal(activeCall("\\tuplet 3/2 |"), "\\tuplet 1");
+  assert.equal(activeCall("\\tuplet 3/2 4 |"), "\\tuplet 2");
+  assert.equal(activeCall("\\relative c' |"), "\\relative 1");
+  assert.equal(activeCall("\\key g |"), "\\key 1");
+  assert.equal(activeCall("\\tempo 4 = |"), "\\tempo 2");
+  assert.equal(activeCall("\\override Staff.Stem.color = |"), "\\override 1");
+  assert.equal(activeCall("\\new Staff \\with { } |"), "\\new 3");
+});
+
+test("findActiveCall ignores commands being typed and finished calls", () => {
+  assert.equal(activeCall("\\tup|"), undefined);
+  assert.equal(activeCall("\\tuplet 3/|"), "\\tuplet 0");
+  assert.equal(activeCall("\\time 3/4 |"), undefined);
+  assert.equal(activeCall("\\relative c' \\tuplet 3/2 { c d e } |"), undefined);
+  assert.equal(activeCall("\\relative c' { \\transpose c | }"), "\\transpose 1");
+});
+
+test("findActiveCall prefers markup commands inside markup", () => {
+  const source = "\\markup \\override #'(baseline-skip . 2) |";
+  const call = findActiveCall(parseLilypond(source.replace("|", "")), source.indexOf("|"), getSignatureInfo);
+
+  assert.equal(call.command.text, "\\override");
+  assert.equal(call.inMarkup, true);
+  assert.equal(call.activeParameter, 1);
+  assert.equal(findCommand("\\override", true).kind, "markup-command");
+  assert.equal(findCommand("\\override").kind, "keyword");
+});
+
+test("getParameterOffsets locates each parameter label in the signature", () => {
+  const tuplet = findCommand("\\tuplet");
+  const labels = getParameterOffsets(tuplet).map(([start, end]) => tuplet.signature.slice(start, end));
+
+  assert.equal(tuplet.signature, "\\tuplet fraction [duration] music");
+  assert.deepEqual(labels, ["fraction", "duration", "music"]);
+  assert.deepEqual(
+    getSignatureInfo("\\new").parameters.map((parameter) => Boolean(parameter.afterEquals)),
+    [false, true, false, false]
+  );
+});
+
+test("the generated database covers keywords, functions and predefined commands", () => {
+  const names = new Set(LILYPOND_KEYWORDS.map((command) => command.name));
+
+  for (const name of ["new", "relative", "tuplet", "acciaccatura", "stemUp", "fermata", "override"]) {
+    assert.ok(names.has(name), name);
+  }
+  assert.ok(!names.has("bold"));
+  assert.equal(findCommand("\\bold").kind, "markup-command");
+});
@@ -1,6 +1,6 @@
 const test = require("node:test");
 const assert = require("node:assert/strict");
-const { parseStructureNodes } = require("../dist/sync/structure.js");
+const { parseStructureNodes, parseStructureTree } = require("../dist/sync/structure.js");
 
 test("parseStructureNodes finds assignments and blocks", () => {
   const source = [
@@ -14,7 +14,7 @@ test("parseStructureNodes finds assignments and blocks", () => {
   const nodes = parseStructureNodes(source);
   assert.ok(nodes.some((n) => n.label === "theme ="));
   assert.ok(nodes.some((n) => n.label === "\\score"));
-  assert.ok(nodes.some((n) => n.label === "\\new"));
+  assert.ok(nodes.some((n) => n.label === "\\new Staff"));
 });
 
 test("parseStructureNodes ignores commented commands", () => {
@@ -43,3 +43,73 @@ test("parseStructureNodes computes block range end", () => {
   assert.equal(score.startLine, 0);
   assert.equal(score.endLine, 4);
 });
+
+test("parseStructureNodes ignores blocks inside block comments and Scheme", () => {
+  const source = [
+    "%{",
+    "\\score { }",
+    "%}",
+    "#(define x \"\\\\score {\")",
+    "\\layout { }"
+  ].join("\n");
+
+  const nodes = parseStructureNodes(source);
+  assert.deepEqual(nodes.map((n) => n.label), ["\\layout"]);
+});
+
+test("parseStructureTree nests books, scores and contexts", () => {
+  const source = [
+    "\\book {",
+    "  \\bookpart {",
+    "    \\score {",
+    "      \\new StaffGroup <<",
+    "        \\new Staff = \"violin\" \\with { instrumentName = \"Violin\" } <<",
+    "          \\new Voice { c1 }",
+    "        >>",
+    "        \\new Staff = \"cello\" \\cello",
+    "      >>",
+    "    }",
+    "  }",
+    "}"
+  ].join("\n");
+
+  const [book] = parseStructureTree(source);
+  const bookpart = book.children[0];
+  const score = bookpart.children[0];
+  const group = score.children[0];
+
+  assert.equal(book.label, "\\book");
+  assert.equal(bookpart.label, "\\bookpart");
+  assert.equal(score.label, "\\score");
+  assert.equal(group.label, "\\new StaffGroup");
+  assert.deepEqual(
+    group.children.map((n) => n.label),
+    ["\\new Staff = \"violin\"", "\\new Staff = \"cello\""]
+  );
+  assert.equal(group.children[0].detail, "Violin");
+  assert.equal(group.children[0].children[0].label, "\\new Voice");
+});
+
+test("parseStructureTree shows header titles as details", () => {
+  const source = [
+    "\\score {",
+    "  \\new Staff { c1 }",
+    "  \\header { piece = \\markup \\bold \"Allegro\" }",
+    "}",
+    "\\header { title = \"Sonata\" }"
+  ].join("\n");
+
+  const [score, header] = parseStructureTree(source);
+  assert.equal(score.detail, "Allegro");
+  assert.deepEqual(score.children.map((n) => n.label), ["\\new Staff", "\\header"]);
+  assert.equal(header.detail, "Sonata");
+});
+
+test("parseStructureTree nests contexts inside variable assignments", () => {
+  const source = "piano = \\new PianoStaff << \\new Staff \\right \\new Staff \\left >>";
+
+  const [piano] = parseStructureTree(source);
+  assert.equal(piano.label, "piano =");
+  assert.equal(piano.children[0].label, "\\new PianoStaff");
+  assert.equal(piano.children[0].children.length, 2);
+});
@@ -1,6 +1,6 @@
 const test = require("node:test");
 const assert = require("node:assert/strict");
-const { parseTextEditHref, rewriteTexteditTargets } = require("../dist/sync/textEdit.js");
+const { parseTextEditHref, rewriteTexteditTargetMap, rewriteTexteditTargets } = require("../dist/sync/textEdit.js");
 
 test("parseTextEditHref parses with end column", () => {
   const href = "textedit:///Users/a/Documents/example.ly:78:9:10";
@@ -56,3 +56,19 @@ test("rewriteTexteditTargets leaves unrelated files untouched", () => {
 
   assert.equal(rewritten, svg);
 });
+
+test("rewriteTexteditTargetMap maps shadow include copies to their source files", () => {
+  const targets = new Map([
+    ["/cache/input.ly", "/score/main.ly"],
+    ["/cache/includes/1/violin.ily", "/score/parts/violin.ily"]
+  ]);
+  const svg = [
+    '<a xlink:href="textedit:///cache/input.ly:3:1:2"></a>',
+    '<a xlink:href="textedit:///cache/includes/1/violin.ily:7:5:6"></a>'
+  ].join("");
+
+  const rewritten = rewriteTexteditTargetMap(svg, targets);
+
+  assert.match(rewritten, /textedit:\/\/\/score\/main\.ly:3:1:2/);
+  assert.match(rewritten, /textedit:\/\/\/score\/parts\/violin\.ily:7:5:6/);
+});
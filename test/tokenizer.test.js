@@ -0,0 +1,73 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { tokenize } = require("../dist/parser/tokenizer.js");
+
+function kinds(content) {
+  return tokenize(content).tokens.map((token) => [token.kind, token.text]);
+}
+
+test("tokenize splits notes, commands and brackets", () => {
+  assert.deepEqual(kinds("\\relative c' { <c e>4 << d >> }"), [
+    ["command", "\\relative"],
+    ["word", "c"],
+    ["symbol", "'"],
+    ["braceOpen", "{"],
+    ["chordOpen", "<"],
+    ["word", "c"],
+    ["word", "e"],
+    ["chordClose", ">"],
+    ["number", "4"],
+    ["simultaneousOpen", "<<"],
+    ["word", "d"],
+    ["simultaneousClose", ">>"],
+    ["braceClose", "}"]
+  ]);
+});
+
+test("tokenize keeps block comments, strings and Scheme as single tokens", () => {
+  const content = [
+    "%{ \\score {",
+    "   } %}",
+    "title = \"a } b\"",
+    "#(define (f x) \"{\" ; }",
+    "  (display #\\)))",
+    "c4"
+  ].join("\n");
+
+  assert.deepEqual(
+    tokenize(content).tokens.map((token) => token.kind),
+    ["blockComment", "word", "symbol", "string", "scheme", "word", "number"]
+  );
+});
+
+test("tokenize scans #{ #} islands inside Scheme", () => {
+  const tokens = tokenize("x = #(make-music #{ c4 \"#}\" #}) d").tokens;
+  assert.equal(tokens[2].kind, "scheme");
+  assert.equal(tokens[2].text, "#(make-music #{ c4 \"#}\" #})");
+  assert.equal(tokens[3].text, "d");
+});
+
+test("tokenize separates escapes and articulations from words", () => {
+  assert.deepEqual(kinds("c-. d\\< e\\! f\\\\"), [
+    ["word", "c"],
+    ["symbol", "-"],
+    ["symbol", "."],
+    ["word", "d"],
+    ["escape", "\\<"],
+    ["word", "e"],
+    ["escape", "\\!"],
+    ["word", "f"],
+    ["escape", "\\\\"]
+  ]);
+});
+
+test("tokenize reuses tokens around an edit and matches a full scan", () => {
+  const before = "\\score {\n  \\new Staff { c4 d e f }\n}\n% done\n";
+  const after = "\\score {\n  \\new Staff { c4 d %{ e %} f }\n}\n% done\n";
+
+  const previous = tokenize(before);
+  const incremental = tokenize(after, previous);
+
+  assert.deepEqual(incremental.tokens, tokenize(after).tokens);
+  assert.equal(incremental.tokens[0], previous.tokens[0]);
+});
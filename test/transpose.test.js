@@ -1,6 +1,17 @@
 const test = require("node:test");
 const assert = require("node:assert/strict");
-const { wrapTranspose, transposeWholeDocument } = require("../dist/sync/transposition.js");
+const {
+  TRANSPOSING_INSTRUMENTS,
+  convertInstrumentPitch,
+  transposePitches,
+  wrapTranspose,
+  transposeWholeDocument
+} = require("../dist/sync/transposition.js");
+const { applyTextReplacements } = require("../dist/sync/musicPitches.js");
+
+function rewrite(content, fromPitch, toPitch, range, options) {
+  return applyTextReplacements(content, transposePitches(content, fromPitch, toPitch, range, options));
+}
 
 test("wrapTranspose wraps selection with transpose block", () => {
   const wrapped = wrapTranspose("c4 d e f", "c", "d");
@@ -60,3 +71,83 @@ test("transposeWholeDocument skips score blocks already wrapped in transpose", (
   const output = transposeWholeDocument(input, "c", "d");
   assert.equal(output, input);
 });
+
+test("transposeWholeDocument keeps multi-line block comments in the prelude", () => {
+  const input = [
+    "\\version \"2.24.4\"",
+    "%{",
+    "  notes for copyists",
+    "%}",
+    "{ c4 d e f }"
+  ].join("\n");
+
+  const output = transposeWholeDocument(input, "c", "d");
+  assert.match(output, /^\\version "2\.24\.4"\n%\{\n  notes for copyists\n%\}\n\n\\transpose c d \{/);
+});
+
+test("transposePitches rewrites absolute notes, chords and key signatures", () => {
+  const input = "{ \\key f \\major f'4 <a' c''>8 bes'16 e''=''\\f }";
+  assert.equal(rewrite(input, "c", "d"), "{ \\key g \\major g'4 <b' d''>8 c''16 fis''=''\\f }");
+});
+
+test("transposePitches moves the relative start pitch and recomputes octave marks", () => {
+  const input = "\\relative c' { c4 g' <c, e> b' }";
+  assert.equal(rewrite(input, "c", "g"), "\\relative g' { g4 d' <g, b> fis' }");
+});
+
+test("transposePitches keeps the notes after a transposed selection in place", () => {
+  const input = "\\relative c' { c d e f g }";
+  const start = input.indexOf("d");
+  assert.equal(rewrite(input, "c", "d", { start, end: input.indexOf("f") + 1 }), "\\relative c' { c e fis g g }");
+});
+
+test("transposePitches rewrites chord mode roots and bass notes but not modifiers", () => {
+  const input = "\\chords { c2:m7 f:maj7/a bes,1:sus4 }";
+  assert.equal(rewrite(input, "c", "es"), "\\chords { es2:m7 as:maj7/c' des1:sus4 }");
+});
+
+test("transposePitches skips settings, lyrics and transpose arguments", () => {
+  const input = [
+    "\\header { title = \"a\" }",
+    "\\new Staff \\with { instrumentName = \"b\" } {",
+    "  \\clef bass \\set Staff.a = #1 \\transpose c d { c4 }",
+    "}",
+    "\\addlyrics { a b c }"
+  ].join("\n");
+  const output = rewrite(input, "c", "f");
+  assert.match(output, /\\transpose c d \{ f4 \}/);
+  assert.match(output, /\\clef bass \\set Staff\.a = #1/);
+  assert.match(output, /\\addlyrics \{ a b c \}$/);
+});
+
+test("transposePitches rejects invalid pitches", () => {
+  assert.equal(transposePitches("{ c }", "h", "d"), undefined);
+});
+
+test("transposePitches reads and writes note names in the document language", () => {
+  const input = "\\language \"english\"\n\\relative c' { bf4 ef fs }";
+  assert.equal(rewrite(input, "c", "d"), "\\language \"english\"\n\\relative d' { c4 f gs }");
+  assert.equal(
+    rewrite("{ h b }", "c", "d", undefined, { language: "deutsch" }),
+    "{ cis' c' }"
+  );
+});
+
+test("convertInstrumentPitch writes concert music for the instrument and inserts transposition", () => {
+  const clarinet = TRANSPOSING_INSTRUMENTS.find((instrument) => instrument.id === "clarinet-bes");
+  const input = "\\relative c' { \\key f \\major f4 <a c> bes }";
+  const output = applyTextReplacements(input, convertInstrumentPitch(input, clarinet, "written"));
+  assert.equal(output, "\\relative d' { \\key g \\major \\transposition bes g4 <b d> c }");
+});
+
+test("convertInstrumentPitch updates or removes existing transposition statements", () => {
+  const find = (id) => TRANSPOSING_INSTRUMENTS.find((instrument) => instrument.id === id);
+  const input = "{ \\transposition bes g'4 <b' d'> c'' }";
+  assert.equal(applyTextReplacements(input, convertInstrumentPitch(input, find("clarinet-bes"), "concert")), "{ f'4 <a' c'> bes' }");
+
+  const english = "\\language \"english\" { \\transposition bf a'4 }";
+  assert.equal(
+    applyTextReplacements(english, convertInstrumentPitch(english, find("horn-f"), "written")),
+    "\\language \"english\" { \\transposition f e''4 }"
+  );
+});
@@ -0,0 +1,103 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  findDefinitions,
+  findVariableAt,
+  findVariableOccurrences,
+  validateVariableName
+} = require("../dist/sync/variables.js");
+
+const source = [
+  "violinI = \\relative c'' { c4 d e f }",
+  "\"cello-part\" = { c,1 }",
+  "% \\violinI in a comment",
+  "\\score {",
+  "  \\header { title = \"violinI\" }",
+  "  << \\new Staff \\violinI \\new Staff \\violinI >>",
+  "}"
+].join("\n");
+
+test("findVariableOccurrences lists definitions and references of a name", () => {
+  const occurrences = findVariableOccurrences(source, "violinI");
+
+  assert.deepEqual(
+    occurrences.map((item) => [item.isDefinition, source.slice(item.start, item.end)]),
+    [
+      [true, "violinI"],
+      [false, "violinI"],
+      [false, "violinI"]
+    ]
+  );
+});
+
+test("findVariableOccurrences finds uses inside Scheme", () => {
+  const schemeSource = [
+    "violinI = { c4 }",
+    "a = #{ \\violinI #}",
+    "b = #violinI",
+    "c = $violinI",
+    "d = #(ly:music-length violinI)",
+    "e = #(display \"violinI\") ; violinI",
+    "f = #violinI-two"
+  ].join("\n");
+
+  assert.deepEqual(
+    findVariableOccurrences(schemeSource, "violinI").map((item) => [item.isDefinition, schemeSource.slice(Math.max(0, item.start - 1), item.end)]),
+    [
+      [true, "violinI"],
+      [false, "\\violinI"],
+      [false, "#violinI"],
+      [false, "$violinI"],
+      [false, " violinI"]
+    ]
+  );
+});
+
+test("findVariableOccurrences ignores nested assignments and strips quotes", () => {
+  const definitions = findVariableOccurrences(source).filter((item) => item.isDefinition);
+  assert.deepEqual(
+    definitions.map((item) => item.name),
+    ["violinI", "cello-part"]
+  );
+  assert.equal(source.slice(definitions[1].start, definitions[1].end), "cello-part");
+});
+
+test("findVariableAt resolves references under the cursor", () => {
+  const offset = source.lastIndexOf("\\violinI") + 3;
+  const found = findVariableAt(source, offset);
+
+  assert.equal(found.name, "violinI");
+  assert.equal(found.isDefinition, false);
+  assert.equal(findVariableAt(source, source.indexOf("in a comment")), undefined);
+});
+
+test("findDefinitions lists variables, music functions and markup commands with their first line", () => {
+  const library = [
+    "#(define-markup-command (smallCapsTitle layout props text)",
+    "  (markup?)",
+    "  (interpret-markup layout props (markup #:smallCaps text)))",
+    "tutti = #(define-music-function (music) (ly:music?)",
+    "  #{ \\tag #'tutti $music #})",
+    source
+  ].join("\n");
+
+  assert.deepEqual(
+    findDefinitions(library).map((item) => [item.name, item.kind, item.preview]),
+    [
+      ["smallCapsTitle", "markup-command", "#(define-markup-command (smallCapsTitle layout props text)"],
+      ["tutti", "music-function", "#(define-music-function (music) (ly:music?)"],
+      ["violinI", "variable", "\\relative c'' { c4 d e f }"],
+      ["cello-part", "variable", "{ c,1 }"]
+    ]
+  );
+  const markupCommand = findDefinitions(library)[0];
+  assert.equal(library.slice(markupCommand.start, markupCommand.end), "smallCapsTitle");
+});
+
+test("validateVariableName rejects invalid names and clashes", () => {
+  assert.equal(validateVariableName("violinII", ["violinI"], ["score"]), undefined);
+  assert.equal(validateVariableName("violin-two", [], []), undefined);
+  assert.match(validateVariableName("violin2", [], []), /not a valid/);
+  assert.match(validateVariableName("score", [], ["score"]), /built-in/);
+  assert.match(validateVariableName("violinI", ["violinI"], []), /already defined/);
+});